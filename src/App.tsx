@@ -1,7 +1,8 @@
 import { Routes, Route } from "react-router-dom";
 import { PromotionListView } from "./marketing-platform/presentation";
 import { NotFound } from "./pages/NotFound";
-// import { TaskManagementApp } from './presentation/components/TaskManagementApp'
+import { TaskManagementApp } from "./presentation/components/TaskManagementApp";
+import { TaskInsightsDashboard } from "./presentation/components/TaskInsightsDashboard";
 
 function App() {
   return (
@@ -14,8 +15,11 @@ function App() {
       {/* Placeholder for promotion detail page - to be implemented */}
       {/* <Route path="/promotions/:id" element={<PromotionDetailView />} /> */}
 
-      {/* Task Management route (commented out for now) */}
-      {/* <Route path="/tasks" element={<TaskManagementApp />} /> */}
+      {/* Task Management routes; the key remounts the app when switching views */}
+      <Route path="/tasks" element={<TaskManagementApp key="list" />} />
+      <Route path="/tasks/board" element={<TaskManagementApp key="board" initialView="board" />} />
+      <Route path="/tasks/timesheet" element={<TaskManagementApp key="timesheet" initialView="timesheet" />} />
+      <Route path="/tasks/insights" element={<TaskInsightsDashboard />} />
 
       {/* 404 Not Found route - must be last */}
       <Route path="*" element={<NotFound />} />
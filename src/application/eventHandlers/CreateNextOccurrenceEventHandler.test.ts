@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { CreateNextOccurrenceEventHandler } from './CreateNextOccurrenceEventHandler';
+import { UnitOfWork } from '../services/UnitOfWork';
+import { OutboxDispatcher } from '../services/OutboxDispatcher';
+import { InMemoryEventOutbox } from '../../infrastructure/events/InMemoryEventOutbox';
+import { FakeClock } from '../../infrastructure/scheduling/FakeClock';
+import { Task } from '../../domain/entities/Task';
+import { TaskTitle } from '../../domain/valueObjects/TaskTitle';
+import { TaskPriority } from '../../domain/valueObjects/TaskPriority';
+import { UserId } from '../../domain/valueObjects/UserId';
+import { TaskRecurrence, RecurrenceFrequency } from '../../domain/valueObjects/TaskRecurrence';
+import { TaskCompletedEvent } from '../../domain/events/TaskCompletedEvent';
+import { TaskCreatedEvent } from '../../domain/events/TaskCreatedEvent';
+import { MockTaskRepository, MockEventPublisher } from '../../test/mocks';
+
+describe('CreateNextOccurrenceEventHandler', () => {
+  let handler: CreateNextOccurrenceEventHandler;
+  let taskRepository: MockTaskRepository;
+  let eventPublisher: MockEventPublisher;
+  let userId: UserId;
+
+  const completedRecurringTask = (): Task => {
+    const task = Task.create(
+      TaskTitle.create('Water the plants'),
+      TaskPriority.medium(),
+      new Date(2026, 0, 5, 17),
+      TaskRecurrence.create({ frequency: RecurrenceFrequency.DAILY, interval: 2 })
+    );
+    task.complete(userId);
+    taskRepository.addTask(task);
+    return task;
+  };
+
+  beforeEach(() => {
+    taskRepository = new MockTaskRepository();
+    eventPublisher = new MockEventPublisher();
+    const dispatcher = new OutboxDispatcher(new InMemoryEventOutbox(), eventPublisher, taskRepository, new FakeClock());
+    handler = new CreateNextOccurrenceEventHandler(
+      taskRepository,
+      () => new UnitOfWork(taskRepository, dispatcher)
+    );
+    userId = UserId.create('user-123');
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should save the next occurrence and publish its TaskCreatedEvent', async () => {
+    const task = completedRecurringTask();
+
+    await handler.handle(new TaskCompletedEvent(task.id, userId, new Date()));
+
+    const tasks = await taskRepository.findAll();
+    expect(tasks).toHaveLength(2);
+    const next = tasks.find(t => !t.id.equals(task.id))!;
+    expect(next.dueDate).toEqual(new Date(2026, 0, 7, 17));
+    expect(next.status.isTodo()).toBe(true);
+    expect(eventPublisher.publishedEvents[0]).toBeInstanceOf(TaskCreatedEvent);
+  });
+
+  it('should record the completion as the cause of the next occurrence', async () => {
+    const task = completedRecurringTask();
+    const completed = new TaskCompletedEvent(task.id, userId, new Date(), { correlationId: 'user-action-1' });
+
+    await handler.handle(completed);
+
+    const [created] = eventPublisher.publishedEvents;
+    expect(created.causationId).toBe(completed.eventId);
+    expect(created.correlationId).toBe('user-action-1');
+  });
+
+  it('should not create a second occurrence when the event is delivered again', async () => {
+    const task = completedRecurringTask();
+    const event = new TaskCompletedEvent(task.id, userId, new Date());
+
+    await handler.handle(event);
+    await handler.handle(event);
+
+    expect(await taskRepository.findAll()).toHaveLength(2);
+  });
+
+  it('should leave tasks reopened before the event was handled alone', async () => {
+    const task = completedRecurringTask();
+    task.reopen(userId);
+
+    await handler.handle(new TaskCompletedEvent(task.id, userId, new Date()));
+
+    expect(await taskRepository.findAll()).toHaveLength(1);
+    expect(task.recurrence).toBeDefined();
+  });
+
+  it('should ignore one-off tasks', async () => {
+    const task = Task.create(TaskTitle.create('One-off'));
+    task.complete(userId);
+    taskRepository.addTask(task);
+
+    await handler.handle(new TaskCompletedEvent(task.id, userId, new Date()));
+
+    expect(await taskRepository.findAll()).toHaveLength(1);
+  });
+});
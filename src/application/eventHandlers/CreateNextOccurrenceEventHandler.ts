@@ -0,0 +1,38 @@
+import { DomainEvent } from '../../domain/events/DomainEvent';
+import { isEventOfType } from '../../domain/events/TaskEventMap';
+import { ITaskRepository } from '../../domain/repositories/ITaskRepository';
+import { UnitOfWork } from '../services/UnitOfWork';
+
+/**
+ * Creates the next task of a recurring series when one is completed.
+ *
+ * The new task and the completed one, which hands over its schedule, are
+ * committed together, so a redelivered event finds nothing left to do.
+ */
+export class CreateNextOccurrenceEventHandler {
+  constructor(
+    private taskRepository: ITaskRepository,
+    private createUnitOfWork: () => UnitOfWork
+  ) {}
+
+  async handle(event: DomainEvent): Promise<void> {
+    if (!isEventOfType(event, 'TaskCompleted')) return;
+
+    const completedTask = await this.taskRepository.findById(event.taskId);
+    // Reopened before we got here: the series continues from this task
+    if (!completedTask?.recurrence || !completedTask.status.isDone()) return;
+
+    const nextTask = completedTask.createNextOccurrence();
+
+    const unitOfWork = this.createUnitOfWork();
+    unitOfWork.registerDirty(completedTask);
+    if (nextTask) {
+      unitOfWork.registerDirty(nextTask);
+    }
+    await unitOfWork.commit(event);
+
+    if (nextTask) {
+      console.log(`🔁 Next occurrence ${nextTask.id.toString()} due ${nextTask.dueDate?.toLocaleDateString()}`);
+    }
+  }
+}
@@ -0,0 +1,100 @@
+import { AnyTaskEvent } from '../../domain/events/TaskEventMap';
+import { TaskStatusType } from '../../domain/valueObjects/TaskStatus';
+import { ITaskAnalyticsStore, TaskActivityRecord } from '../services/ITaskAnalyticsStore';
+
+/**
+ * Keeps the analytics read model up to date. Only lifecycle events change
+ * a record; everything else is ignored.
+ */
+export class TaskAnalyticsProjectionHandler {
+  constructor(private store: ITaskAnalyticsStore) {}
+
+  async handle(event: AnyTaskEvent): Promise<void> {
+    if (!this.isTracked(event)) return;
+
+    const taskId = event.taskId.toString();
+    const record = await this.store.findByTaskId(taskId) ?? this.emptyRecord(taskId);
+    if (record.eventIds.includes(event.eventId)) return;
+
+    this.apply(record, event);
+    record.eventIds.push(event.eventId);
+    await this.store.save(record);
+  }
+
+  private isTracked(event: AnyTaskEvent): boolean {
+    switch (event.eventType) {
+      case 'TaskCreated':
+      case 'TaskImported':
+      case 'TaskAssigned':
+      case 'TaskUnassigned':
+      case 'TaskStarted':
+      case 'TaskStatusChanged':
+      case 'TaskCompleted':
+      case 'TaskReopened':
+      case 'TaskPriorityEscalated':
+        return true;
+      default:
+        return false;
+    }
+  }
+
+  private apply(record: TaskActivityRecord, event: AnyTaskEvent): void {
+    const at = event.occurredAt.toISOString();
+
+    switch (event.eventType) {
+      case 'TaskCreated':
+        record.createdAt = at;
+        record.dueDate = event.dueDate?.toISOString();
+        break;
+      // The file does not say who completed an imported task, so the
+      // completion goes to its assignee, or else to whoever imported it
+      case 'TaskImported':
+        record.createdAt = event.createdAt.toISOString();
+        record.dueDate = event.dueDate?.toISOString();
+        record.status = event.status.toString();
+        record.assigneeId = event.assigneeId?.toString();
+        if (event.completedAt) {
+          record.completions.push({ at: event.completedAt.toISOString(), by: (event.assigneeId ?? event.importedBy).toString() });
+        }
+        break;
+      case 'TaskAssigned':
+        record.assigneeId = event.assignedTo.toString();
+        break;
+      case 'TaskUnassigned':
+        record.assigneeId = undefined;
+        break;
+      case 'TaskStarted':
+        record.startedAt ??= at;
+        record.status = TaskStatusType.IN_PROGRESS;
+        break;
+      case 'TaskStatusChanged':
+        if (event.newStatus.isInProgress()) {
+          record.startedAt ??= at;
+        }
+        record.status = event.newStatus.toString();
+        break;
+      case 'TaskCompleted':
+        record.completions.push({ at: event.completedAt.toISOString(), by: event.completedBy.toString() });
+        record.status = TaskStatusType.DONE;
+        break;
+      case 'TaskReopened':
+        record.reopenedAt.push(event.reopenedAt.toISOString());
+        record.status = TaskStatusType.TODO;
+        break;
+      case 'TaskPriorityEscalated':
+        record.escalatedAt.push(at);
+        break;
+    }
+  }
+
+  private emptyRecord(taskId: string): TaskActivityRecord {
+    return {
+      taskId,
+      status: TaskStatusType.TODO,
+      completions: [],
+      reopenedAt: [],
+      escalatedAt: [],
+      eventIds: []
+    };
+  }
+}
@@ -1,19 +1,18 @@
 import { DomainEvent } from '../../domain/events/DomainEvent';
+import { isEventOfType } from '../../domain/events/TaskEventMap';
 import { TaskAssignedEvent } from '../../domain/events/TaskAssignedEvent';
 
 export class TaskAssignedEventHandler {
   async handle(event: DomainEvent): Promise<void> {
-    if (event.eventType !== 'TaskAssigned') return;
-
-    const taskAssignedEvent = event as TaskAssignedEvent;
+    if (!isEventOfType(event, 'TaskAssigned')) return;
 
     console.log('👤 Task Assigned Event Triggered!');
-    console.log(`Task ID: ${taskAssignedEvent.taskId.toString()}`);
-    console.log(`Assigned to: ${taskAssignedEvent.assignedTo.toString()}`);
-    console.log(`Assigned by: ${taskAssignedEvent.assignedBy.toString()}`);
+    console.log(`Task ID: ${event.taskId.toString()}`);
+    console.log(`Assigned to: ${event.assignedTo.toString()}`);
+    console.log(`Assigned by: ${event.assignedBy.toString()}`);
 
-    await this.notifyAssignedUser(taskAssignedEvent);
-    await this.updateUserTaskList(taskAssignedEvent);
+    await this.notifyAssignedUser(event);
+    await this.updateUserTaskList(event);
   }
 
   private async notifyAssignedUser(event: TaskAssignedEvent): Promise<void> {
@@ -1,19 +1,18 @@
 import { DomainEvent } from '../../domain/events/DomainEvent';
+import { isEventOfType } from '../../domain/events/TaskEventMap';
 import { TaskCompletedEvent } from '../../domain/events/TaskCompletedEvent';
 
 export class TaskCompletedEventHandler {
   async handle(event: DomainEvent): Promise<void> {
-    if (event.eventType !== 'TaskCompleted') return;
-
-    const taskCompletedEvent = event as TaskCompletedEvent;
+    if (!isEventOfType(event, 'TaskCompleted')) return;
 
     console.log('🎉 Task Completed Event Triggered!');
-    console.log(`Task ID: ${taskCompletedEvent.taskId.toString()}`);
-    console.log(`Completed by: ${taskCompletedEvent.completedBy.toString()}`);
-    console.log(`Completed at: ${taskCompletedEvent.completedAt.toISOString()}`);
+    console.log(`Task ID: ${event.taskId.toString()}`);
+    console.log(`Completed by: ${event.completedBy.toString()}`);
+    console.log(`Completed at: ${event.completedAt.toISOString()}`);
 
-    await this.sendNotification(taskCompletedEvent);
-    await this.trackCompletion(taskCompletedEvent);
+    await this.sendNotification(event);
+    await this.trackCompletion(event);
     
     console.log('✅ Checking for unblocked tasks...');
   }
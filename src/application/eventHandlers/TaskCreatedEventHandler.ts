@@ -0,0 +1,20 @@
+import { DomainEvent } from '../../domain/events/DomainEvent';
+import { isEventOfType } from '../../domain/events/TaskEventMap';
+import { TaskCreatedEvent } from '../../domain/events/TaskCreatedEvent';
+
+export class TaskCreatedEventHandler {
+  async handle(event: DomainEvent): Promise<void> {
+    if (!isEventOfType(event, 'TaskCreated')) return;
+
+    console.log('🆕 Task Created Event Triggered!');
+    console.log(`Task ID: ${event.taskId.toString()}`);
+    console.log(`Title: ${event.title}`);
+    console.log(`Priority: ${event.priority.toString()}`);
+
+    await this.trackCreation(event);
+  }
+
+  private async trackCreation(event: TaskCreatedEvent): Promise<void> {
+    console.log(`📊 Analytics: Task creation recorded (${event.priority.toString()} priority)`);
+  }
+}
@@ -0,0 +1,18 @@
+import { DomainEvent } from '../../domain/events/DomainEvent';
+import { isEventOfType } from '../../domain/events/TaskEventMap';
+
+/**
+ * Handles both TaskDependencyAdded and TaskDependencyRemoved, which carry
+ * the same data.
+ */
+export class TaskDependencyChangedEventHandler {
+  async handle(event: DomainEvent): Promise<void> {
+    if (!isEventOfType(event, 'TaskDependencyAdded') && !isEventOfType(event, 'TaskDependencyRemoved')) return;
+
+    const change = event.eventType === 'TaskDependencyAdded' ? 'Added' : 'Removed';
+
+    console.log(`🔗 Task Dependency ${change} Event Triggered!`);
+    console.log(`Task ID: ${event.taskId.toString()}`);
+    console.log(`Dependency: ${event.dependency.getType()} ${event.dependency.getDependentTaskId().toString()}`);
+  }
+}
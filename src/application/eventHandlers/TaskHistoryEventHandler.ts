@@ -0,0 +1,10 @@
+import { AnyTaskEvent } from '../../domain/events/TaskEventMap';
+import { ITaskEventStore } from '../../domain/repositories/ITaskEventStore';
+
+export class TaskHistoryEventHandler {
+  constructor(private eventStore: ITaskEventStore) {}
+
+  async handle(event: AnyTaskEvent): Promise<void> {
+    await this.eventStore.append(event);
+  }
+}
@@ -1,19 +1,18 @@
 import { DomainEvent } from '../../domain/events/DomainEvent';
+import { isEventOfType } from '../../domain/events/TaskEventMap';
 import { TaskPriorityEscalatedEvent } from '../../domain/events/TaskPriorityEscalatedEvent';
 
 export class TaskPriorityEscalatedEventHandler {
   async handle(event: DomainEvent): Promise<void> {
-    if (event.eventType !== 'TaskPriorityEscalated') return;
-
-    const escalationEvent = event as TaskPriorityEscalatedEvent;
+    if (!isEventOfType(event, 'TaskPriorityEscalated')) return;
 
     console.log('⚠️ Task Priority Escalated Event Triggered!');
-    console.log(`Task ID: ${escalationEvent.taskId.toString()}`);
-    console.log(`Old Priority: ${escalationEvent.oldPriority.toString()}`);
-    console.log(`New Priority: ${escalationEvent.newPriority.toString()}`);
+    console.log(`Task ID: ${event.taskId.toString()}`);
+    console.log(`Old Priority: ${event.oldPriority.toString()}`);
+    console.log(`New Priority: ${event.newPriority.toString()}`);
 
-    await this.alertStakeholders(escalationEvent);
-    await this.syncWithProjectManagement(escalationEvent);
+    await this.alertStakeholders(event);
+    await this.syncWithProjectManagement(event);
   }
 
   private async alertStakeholders(event: TaskPriorityEscalatedEvent): Promise<void> {
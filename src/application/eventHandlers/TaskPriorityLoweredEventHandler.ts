@@ -0,0 +1,21 @@
+import { DomainEvent } from '../../domain/events/DomainEvent';
+import { isEventOfType } from '../../domain/events/TaskEventMap';
+import { TaskPriorityLoweredEvent } from '../../domain/events/TaskPriorityLoweredEvent';
+
+export class TaskPriorityLoweredEventHandler {
+  async handle(event: DomainEvent): Promise<void> {
+    if (!isEventOfType(event, 'TaskPriorityLowered')) return;
+
+    console.log('⬇️ Task Priority Lowered Event Triggered!');
+    console.log(`Task ID: ${event.taskId.toString()}`);
+    console.log(`Old Priority: ${event.oldPriority.toString()}`);
+    console.log(`New Priority: ${event.newPriority.toString()}`);
+    console.log(`Changed by: ${event.changedBy.toString()}`);
+
+    await this.syncWithProjectManagement(event);
+  }
+
+  private async syncWithProjectManagement(event: TaskPriorityLoweredEvent): Promise<void> {
+    console.log(`🔄 Syncing priority change with external systems`);
+  }
+}
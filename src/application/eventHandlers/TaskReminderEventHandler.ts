@@ -0,0 +1,57 @@
+import { DomainEvent } from '../../domain/events/DomainEvent';
+import { isEventOfType } from '../../domain/events/TaskEventMap';
+import { IReminderNotifier, Reminder } from '../services/IReminderNotifier';
+import { IClock } from '../services/IClock';
+
+const HOUR_MS = 1000 * 60 * 60;
+const DAY_MS = HOUR_MS * 24;
+
+const plural = (count: number, unit: string) => `${count} ${unit}${count === 1 ? '' : 's'}`;
+
+/**
+ * Turns TaskDueSoon and TaskOverdue into messages for the notifier.
+ */
+export class TaskReminderEventHandler {
+  constructor(
+    private notifier: IReminderNotifier,
+    private clock: IClock
+  ) {}
+
+  async handle(event: DomainEvent): Promise<void> {
+    let reminder: Reminder;
+
+    if (isEventOfType(event, 'TaskDueSoon')) {
+      reminder = {
+        taskId: event.taskId.toString(),
+        title: event.title,
+        kind: 'dueSoon',
+        dueDate: event.dueDate,
+        message: `"${event.title}" ${this.describeTimeLeft(event.dueDate)}`
+      };
+    } else if (isEventOfType(event, 'TaskOverdue')) {
+      const days = Math.max(1, Math.floor((this.clock.now().getTime() - event.dueDate.getTime()) / DAY_MS));
+      reminder = {
+        taskId: event.taskId.toString(),
+        title: event.title,
+        kind: 'overdue',
+        dueDate: event.dueDate,
+        message: `"${event.title}" is overdue by ${plural(days, 'day')}`
+      };
+    } else {
+      return;
+    }
+
+    await this.notifier.notify(reminder);
+  }
+
+  private describeTimeLeft(dueDate: Date): string {
+    const remaining = dueDate.getTime() - this.clock.now().getTime();
+    if (remaining <= 0) {
+      return 'is due now';
+    }
+    if (remaining < DAY_MS) {
+      return `is due in ${plural(Math.max(1, Math.round(remaining / HOUR_MS)), 'hour')}`;
+    }
+    return `is due in ${plural(Math.round(remaining / DAY_MS), 'day')}`;
+  }
+}
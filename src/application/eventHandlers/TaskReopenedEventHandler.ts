@@ -1,19 +1,18 @@
 import { DomainEvent } from '../../domain/events/DomainEvent';
+import { isEventOfType } from '../../domain/events/TaskEventMap';
 import { TaskReopenedEvent } from '../../domain/events/TaskReopenedEvent';
 
 export class TaskReopenedEventHandler {
   async handle(event: DomainEvent): Promise<void> {
-    if (event.eventType !== 'TaskReopened') return;
-
-    const taskReopenedEvent = event as TaskReopenedEvent;
+    if (!isEventOfType(event, 'TaskReopened')) return;
 
     console.log('🔄 Task Reopened Event Triggered!');
-    console.log(`Task ID: ${taskReopenedEvent.taskId.toString()}`);
-    console.log(`Reopened by: ${taskReopenedEvent.reopenedBy.toString()}`);
-    console.log(`Reopened at: ${taskReopenedEvent.reopenedAt.toISOString()}`);
+    console.log(`Task ID: ${event.taskId.toString()}`);
+    console.log(`Reopened by: ${event.reopenedBy.toString()}`);
+    console.log(`Reopened at: ${event.reopenedAt.toISOString()}`);
 
-    await this.sendNotification(taskReopenedEvent);
-    await this.trackReopen(taskReopenedEvent);
+    await this.sendNotification(event);
+    await this.trackReopen(event);
   }
 
   private async sendNotification(event: TaskReopenedEvent): Promise<void> {
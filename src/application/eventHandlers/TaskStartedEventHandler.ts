@@ -0,0 +1,13 @@
+import { DomainEvent } from '../../domain/events/DomainEvent';
+import { isEventOfType } from '../../domain/events/TaskEventMap';
+
+export class TaskStartedEventHandler {
+  async handle(event: DomainEvent): Promise<void> {
+    if (!isEventOfType(event, 'TaskStarted')) return;
+
+    console.log('▶️ Task Started Event Triggered!');
+    console.log(`Task ID: ${event.taskId.toString()}`);
+    console.log(`Started by: ${event.startedBy.toString()}`);
+    console.log(`📊 Analytics: Task start recorded`);
+  }
+}
@@ -0,0 +1,13 @@
+import { DomainEvent } from '../../domain/events/DomainEvent';
+import { isEventOfType } from '../../domain/events/TaskEventMap';
+
+export class TaskTitleChangedEventHandler {
+  async handle(event: DomainEvent): Promise<void> {
+    if (!isEventOfType(event, 'TaskTitleChanged')) return;
+
+    console.log('✏️ Task Title Changed Event Triggered!');
+    console.log(`Task ID: ${event.taskId.toString()}`);
+    console.log(`Renamed from "${event.oldTitle}" to "${event.newTitle}"`);
+    console.log(`Changed by: ${event.changedBy.toString()}`);
+  }
+}
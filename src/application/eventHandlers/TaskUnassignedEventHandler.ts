@@ -0,0 +1,20 @@
+import { DomainEvent } from '../../domain/events/DomainEvent';
+import { isEventOfType } from '../../domain/events/TaskEventMap';
+import { TaskUnassignedEvent } from '../../domain/events/TaskUnassignedEvent';
+
+export class TaskUnassignedEventHandler {
+  async handle(event: DomainEvent): Promise<void> {
+    if (!isEventOfType(event, 'TaskUnassigned')) return;
+
+    console.log('👋 Task Unassigned Event Triggered!');
+    console.log(`Task ID: ${event.taskId.toString()}`);
+    console.log(`Previous assignee: ${event.previousAssignee.toString()}`);
+    console.log(`Unassigned by: ${event.unassignedBy.toString()}`);
+
+    await this.notifyPreviousAssignee(event);
+  }
+
+  private async notifyPreviousAssignee(event: TaskUnassignedEvent): Promise<void> {
+    console.log(`📧 Email sent to ${event.previousAssignee.toString()}: You are no longer assigned to a task`);
+  }
+}
@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { UnblockDependentTasksEventHandler } from './UnblockDependentTasksEventHandler';
+import { UnitOfWork } from '../services/UnitOfWork';
+import { OutboxDispatcher } from '../services/OutboxDispatcher';
+import { InMemoryEventOutbox } from '../../infrastructure/events/InMemoryEventOutbox';
+import { FakeClock } from '../../infrastructure/scheduling/FakeClock';
+import { Task } from '../../domain/entities/Task';
+import { TaskTitle } from '../../domain/valueObjects/TaskTitle';
+import { TaskStatus } from '../../domain/valueObjects/TaskStatus';
+import { TaskPriority } from '../../domain/valueObjects/TaskPriority';
+import { TaskDependency } from '../../domain/valueObjects/TaskDependency';
+import { TaskId } from '../../domain/valueObjects/TaskId';
+import { UserId } from '../../domain/valueObjects/UserId';
+import { TaskCompletedEvent } from '../../domain/events/TaskCompletedEvent';
+import { TaskAssignedEvent } from '../../domain/events/TaskAssignedEvent';
+import { TaskStatusChangedEvent } from '../../domain/events/TaskStatusChangedEvent';
+import { MockTaskRepository, MockEventPublisher } from '../../test/mocks';
+
+describe('UnblockDependentTasksEventHandler', () => {
+  let handler: UnblockDependentTasksEventHandler;
+  let taskRepository: MockTaskRepository;
+  let eventPublisher: MockEventPublisher;
+  let userId: UserId;
+
+  const createTask = (title: string, status: TaskStatus = TaskStatus.todo()): Task => {
+    const task = Task.reconstitute({
+      id: TaskId.create(),
+      title: TaskTitle.create(title),
+      status,
+      priority: TaskPriority.medium(),
+      dependencies: [],
+      createdAt: new Date()
+    });
+    taskRepository.addTask(task);
+    return task;
+  };
+
+  const blockTask = (task: Task, blocker: Task): void => {
+    task.addDependency(TaskDependency.blockedBy(blocker.id));
+    blocker.addDependency(TaskDependency.blocks(task.id));
+    task.pullDomainEvents();
+    blocker.pullDomainEvents();
+  };
+
+  const completeBlocker = async (blocker: Task): Promise<void> => {
+    blocker.complete(userId);
+    blocker.pullDomainEvents();
+    await handler.handle(new TaskCompletedEvent(blocker.id, userId, new Date()));
+  };
+
+  beforeEach(() => {
+    taskRepository = new MockTaskRepository();
+    eventPublisher = new MockEventPublisher();
+    const dispatcher = new OutboxDispatcher(new InMemoryEventOutbox(), eventPublisher, taskRepository, new FakeClock());
+    handler = new UnblockDependentTasksEventHandler(
+      taskRepository,
+      () => new UnitOfWork(taskRepository, dispatcher)
+    );
+    userId = UserId.create('user-123');
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should move a blocked dependent back to TODO and keep the dependency edges', async () => {
+    const blocker = createTask('Blocker');
+    const dependent = createTask('Dependent', TaskStatus.blocked());
+    blockTask(dependent, blocker);
+
+    await completeBlocker(blocker);
+
+    expect(dependent.status.isTodo()).toBe(true);
+    expect(dependent.getBlockingDependencies()).toHaveLength(1);
+    expect(blocker.dependencies).toHaveLength(1);
+    expect(eventPublisher.publishedEvents.map(e => e.eventType)).toEqual(['TaskStatusChanged']);
+    expect(eventPublisher.publishedEvents[0]).toMatchObject({ taskId: dependent.id, changedBy: userId });
+  });
+
+  it('should keep dependents blocked by other open tasks', async () => {
+    const blockerA = createTask('Blocker A');
+    const blockerB = createTask('Blocker B');
+    const dependent = createTask('Dependent', TaskStatus.blocked());
+    blockTask(dependent, blockerA);
+    blockTask(dependent, blockerB);
+
+    await completeBlocker(blockerA);
+
+    expect(dependent.status.equals(TaskStatus.blocked())).toBe(true);
+    expect(dependent.getBlockingDependencies()).toHaveLength(2);
+    expect(eventPublisher.publishedEvents).toHaveLength(0);
+  });
+
+  it('should leave dependents that are not parked in BLOCKED alone', async () => {
+    const blocker = createTask('Blocker');
+    const dependent = createTask('Dependent');
+    blockTask(dependent, blocker);
+    const saveAll = vi.spyOn(taskRepository, 'saveAll');
+
+    await completeBlocker(blocker);
+
+    expect(dependent.status.isTodo()).toBe(true);
+    expect(saveAll).not.toHaveBeenCalled();
+  });
+
+  it('should move a blocked dependent back to TODO once its blocker is cancelled', async () => {
+    const blocker = createTask('Blocker', TaskStatus.cancelled());
+    const dependent = createTask('Dependent', TaskStatus.blocked());
+    blockTask(dependent, blocker);
+
+    await handler.handle(new TaskStatusChangedEvent(blocker.id, TaskStatus.todo(), TaskStatus.cancelled(), userId));
+
+    expect(dependent.status.isTodo()).toBe(true);
+    expect(eventPublisher.publishedEvents[0]).toMatchObject({ taskId: dependent.id, changedBy: userId });
+  });
+
+  it('should ignore status changes to an open status', async () => {
+    const findAllSpy = vi.spyOn(taskRepository, 'findAll');
+
+    await handler.handle(new TaskStatusChangedEvent(TaskId.create(), TaskStatus.todo(), TaskStatus.inReview(), userId));
+
+    expect(findAllSpy).not.toHaveBeenCalled();
+  });
+
+  it('should ignore events of other types', async () => {
+    const findAllSpy = vi.spyOn(taskRepository, 'findAll');
+
+    await handler.handle(new TaskAssignedEvent(TaskId.create(), userId, userId));
+
+    expect(findAllSpy).not.toHaveBeenCalled();
+  });
+});
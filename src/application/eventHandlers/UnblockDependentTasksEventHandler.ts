@@ -0,0 +1,50 @@
+import { DomainEvent } from '../../domain/events/DomainEvent';
+import { isEventOfType } from '../../domain/events/TaskEventMap';
+import { ITaskRepository } from '../../domain/repositories/ITaskRepository';
+import { TaskDependencyService } from '../../domain/services/TaskDependencyService';
+import { TaskId } from '../../domain/valueObjects/TaskId';
+import { UserId } from '../../domain/valueObjects/UserId';
+import { UnitOfWork } from '../services/UnitOfWork';
+
+/**
+ * Moves BLOCKED tasks back to TODO once their last open blocker is closed,
+ * whether completed or moved to another closed status such as CANCELLED.
+ * The dependency edges stay: they record what the task waited on, and
+ * whether they still block is read from the blockers' status.
+ */
+export class UnblockDependentTasksEventHandler {
+  constructor(
+    private taskRepository: ITaskRepository,
+    private createUnitOfWork: () => UnitOfWork
+  ) {}
+
+  async handle(event: DomainEvent): Promise<void> {
+    const closed = this.closedBlocker(event);
+    if (!closed) return;
+
+    const allTasks = await this.taskRepository.findAll();
+    const closedTask = allTasks.find(t => t.id.equals(closed.taskId));
+
+    if (!closedTask) return;
+
+    const openBlockerIds = TaskDependencyService.openBlockerIds(allTasks);
+    const resumed = TaskDependencyService.getDependentTasks(closedTask, allTasks)
+      .filter(dependent => dependent.resumeWhenUnblocked(openBlockerIds, closed.closedBy));
+
+    if (resumed.length === 0) return;
+
+    const unitOfWork = this.createUnitOfWork();
+    resumed.forEach(task => unitOfWork.registerDirty(task));
+    await unitOfWork.commit(event);
+  }
+
+  private closedBlocker(event: DomainEvent): { taskId: TaskId; closedBy: UserId } | null {
+    if (isEventOfType(event, 'TaskCompleted')) {
+      return { taskId: event.taskId, closedBy: event.completedBy };
+    }
+    if (isEventOfType(event, 'TaskStatusChanged') && event.newStatus.isClosed()) {
+      return { taskId: event.taskId, closedBy: event.changedBy };
+    }
+    return null;
+  }
+}
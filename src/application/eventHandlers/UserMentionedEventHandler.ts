@@ -0,0 +1,20 @@
+import { DomainEvent } from '../../domain/events/DomainEvent';
+import { isEventOfType } from '../../domain/events/TaskEventMap';
+import { UserMentionedEvent } from '../../domain/events/UserMentionedEvent';
+
+export class UserMentionedEventHandler {
+  async handle(event: DomainEvent): Promise<void> {
+    if (!isEventOfType(event, 'UserMentioned')) return;
+
+    console.log('💬 User Mentioned Event Triggered!');
+    console.log(`Task ID: ${event.taskId.toString()}`);
+    console.log(`Mentioned: ${event.mentionedUserId.toString()}`);
+    console.log(`Mentioned by: ${event.mentionedBy.toString()}`);
+
+    await this.notifyMentionedUser(event);
+  }
+
+  private async notifyMentionedUser(event: UserMentionedEvent): Promise<void> {
+    console.log(`📧 Email sent to ${event.mentionedUserId.toString()}: ${event.mentionedBy.toString()} mentioned you in a comment`);
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * RFC 4180 CSV: fields containing commas, quotes or line breaks are quoted,
+ * with quotes doubled.
+ */
+export const toCsv = (rows: string[][]): string =>
+  rows.map(row => row.map(quoteField).join(',')).join('\r\n') + '\r\n';
+
+const quoteField = (field: string): string =>
+  /[",\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+
+/**
+ * Splits CSV text into rows of fields. Quoted fields may span lines;
+ * blank lines are skipped.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== '') rows.push(row);
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    throw new Error('CSV ends inside a quoted field');
+  }
+  if (field !== '' || row.length > 0) endRow();
+
+  return rows;
+};
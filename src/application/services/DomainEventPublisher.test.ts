@@ -1,18 +1,37 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { DomainEventPublisher } from './DomainEventPublisher';
-import { DomainEvent } from '../../domain/events/DomainEvent';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { DomainEventPublisher, EventDeliveryError } from './DomainEventPublisher';
+import { InMemoryDeadLetterStore } from '../../infrastructure/events/InMemoryDeadLetterStore';
+import { BaseDomainEvent, DomainEvent, EventMetadata } from '../../domain/events/DomainEvent';
+import { OutboxDispatcher } from './OutboxDispatcher';
+import { InMemoryEventOutbox } from '../../infrastructure/events/InMemoryEventOutbox';
+import { FakeClock } from '../../infrastructure/scheduling/FakeClock';
+import { FakeScheduler } from '../../infrastructure/scheduling/FakeScheduler';
+import { TaskAssignedEvent } from '../../domain/events/TaskAssignedEvent';
+import { TaskId } from '../../domain/valueObjects/TaskId';
+import { UserId } from '../../domain/valueObjects/UserId';
+import { MockTaskRepository } from '../../test/mocks';
+
+/** An event of any type name, so the publisher can be tested apart from the task events */
+class TestEvent extends BaseDomainEvent {
+  constructor(readonly eventType: string, metadata?: EventMetadata) {
+    super('test-aggregate', metadata);
+  }
+
+  protected payload() {
+    return {};
+  }
+}
+
+type TestEventMap = Record<string, TestEvent>;
 
 describe('DomainEventPublisher', () => {
-  let publisher: DomainEventPublisher;
+  let publisher: DomainEventPublisher<TestEventMap>;
 
   beforeEach(() => {
-    publisher = new DomainEventPublisher();
+    publisher = new DomainEventPublisher<TestEventMap>();
   });
 
-  const createMockEvent = (eventType: string): DomainEvent => ({
-    eventType,
-    occurredAt: new Date(),
-  });
+  const createMockEvent = (eventType: string): TestEvent => new TestEvent(eventType);
 
   describe('subscribe', () => {
     it('should subscribe a handler to an event type', () => {
@@ -192,10 +211,7 @@ describe('DomainEventPublisher', () => {
 
     it('should handle complex event data', async () => {
       const handler = vi.fn();
-      const complexEvent: DomainEvent = {
-        eventType: 'ComplexEvent',
-        occurredAt: new Date('2025-01-01T00:00:00Z'),
-      };
+      const complexEvent = new TestEvent('ComplexEvent', { occurredAt: new Date('2025-01-01T00:00:00Z') });
 
       publisher.subscribe('ComplexEvent', handler);
       await publisher.publish(complexEvent);
@@ -204,6 +220,227 @@ describe('DomainEventPublisher', () => {
     });
   });
 
+  describe('deliver', () => {
+    it('should run every handler and then report failures', async () => {
+      const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const failingHandler = vi.fn().mockRejectedValue(new Error('Handler failed'));
+      const successHandler = vi.fn();
+      const event = createMockEvent('DeliverEvent');
+
+      publisher.subscribe('DeliverEvent', failingHandler);
+      publisher.subscribe('DeliverEvent', successHandler);
+
+      await expect(publisher.deliver(event)).rejects.toBeInstanceOf(EventDeliveryError);
+      expect(successHandler).toHaveBeenCalledWith(event);
+
+      consoleErrorSpy.mockRestore();
+    });
+
+    it('should resolve when every handler succeeds', async () => {
+      publisher.subscribe('DeliverEvent', vi.fn());
+
+      await expect(publisher.deliver(createMockEvent('DeliverEvent'))).resolves.toBeUndefined();
+    });
+  });
+
+  describe('pattern subscriptions', () => {
+    it('should deliver every event to a wildcard subscription', async () => {
+      const handler = vi.fn();
+      publisher.subscribe('*', handler);
+
+      await publisher.publish(createMockEvent('TaskCompleted'));
+      await publisher.publish(createMockEvent('OrderPlaced'));
+
+      expect(handler).toHaveBeenCalledTimes(2);
+    });
+
+    it('should only deliver events whose type matches the pattern', async () => {
+      const handler = vi.fn();
+      publisher.subscribe('Task*', handler);
+
+      await publisher.publish(createMockEvent('TaskCompleted'));
+      await publisher.publish(createMockEvent('OrderPlaced'));
+      await publisher.publish(createMockEvent('SubTaskAdded'));
+
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(handler.mock.calls[0][0].eventType).toBe('TaskCompleted');
+    });
+
+    it('should accept a regular expression', async () => {
+      const handler = vi.fn();
+      publisher.subscribe(/^Task(Assigned|Reopened)$/, handler);
+
+      await publisher.publish(createMockEvent('TaskAssigned'));
+      await publisher.publish(createMockEvent('TaskCompleted'));
+
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    it('should run exact and pattern subscriptions in the order they were added', async () => {
+      const order: string[] = [];
+      publisher.subscribe('*', () => { order.push('wildcard'); });
+      publisher.subscribe('TaskCompleted', () => { order.push('exact'); });
+
+      await publisher.publish(createMockEvent('TaskCompleted'));
+
+      expect(order).toEqual(['wildcard', 'exact']);
+    });
+
+    it('should stop delivering after unsubscribing', async () => {
+      const handler = vi.fn();
+      const unsubscribe = publisher.subscribe('*', handler);
+
+      unsubscribe();
+      await publisher.publish(createMockEvent('TaskCompleted'));
+
+      expect(handler).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('retry and dead letters', () => {
+    let deadLetterStore: InMemoryDeadLetterStore;
+    let delays: number[];
+    let consoleErrorSpy: ReturnType<typeof vi.spyOn>;
+
+    beforeEach(() => {
+      deadLetterStore = new InMemoryDeadLetterStore();
+      delays = [];
+      publisher = new DomainEventPublisher<TestEventMap>({
+        deadLetterStore,
+        delay: async (ms) => {
+          delays.push(ms);
+        },
+      });
+      consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      consoleErrorSpy.mockRestore();
+    });
+
+    it('should retry a failing handler with exponential backoff', async () => {
+      const handler = vi.fn()
+        .mockRejectedValueOnce(new Error('Flaky'))
+        .mockRejectedValueOnce(new Error('Flaky'))
+        .mockResolvedValue(undefined);
+      publisher.subscribe('RetryEvent', handler, { retry: { maxAttempts: 3, backoffMs: 100 } });
+
+      await publisher.deliver(createMockEvent('RetryEvent'));
+
+      expect(handler).toHaveBeenCalledTimes(3);
+      expect(delays).toEqual([100, 200]);
+      expect(await deadLetterStore.findAll()).toHaveLength(0);
+    });
+
+    it('should dead-letter an event once retries are exhausted and report it', async () => {
+      const onError = vi.fn();
+      publisher.onHandlerError(onError);
+      publisher.subscribe('DeadEvent', () => {
+        throw new Error('Broken');
+      }, { name: 'broken', retry: { maxAttempts: 2, backoffMs: 10 } });
+      const event = createMockEvent('DeadEvent');
+
+      // Dead-lettered failures count as handled, so delivery succeeds
+      await expect(publisher.deliver(event)).resolves.toBeUndefined();
+
+      const [deadLetter] = await deadLetterStore.findAll();
+      expect(deadLetter).toMatchObject({ subscriptionName: 'broken', error: 'Broken', attempts: 2 });
+      expect(onError).toHaveBeenCalledWith(
+        expect.objectContaining({ event, subscriptionName: 'broken', attempts: 2, deadLettered: true })
+      );
+    });
+
+    it('should replay a dead letter against its own subscription only', async () => {
+      const other = vi.fn();
+      const flaky = vi.fn().mockRejectedValueOnce(new Error('Down')).mockResolvedValue(undefined);
+      publisher.subscribe('ReplayEvent', other, { name: 'other' });
+      publisher.subscribe('ReplayEvent', flaky, { name: 'flaky' });
+
+      await publisher.publish(createMockEvent('ReplayEvent'));
+      const [deadLetter] = await deadLetterStore.findAll();
+
+      await expect(publisher.replayDeadLetter(deadLetter.id)).resolves.toBe(true);
+
+      expect(flaky).toHaveBeenCalledTimes(2);
+      expect(other).toHaveBeenCalledTimes(1);
+      expect(await deadLetterStore.findAll()).toHaveLength(0);
+    });
+
+    it('should keep a dead letter whose replay fails again', async () => {
+      publisher.subscribe('ReplayEvent', () => {
+        throw new Error('Still down');
+      }, { name: 'down' });
+
+      await publisher.publish(createMockEvent('ReplayEvent'));
+      const [deadLetter] = await deadLetterStore.findAll();
+
+      await expect(publisher.replayDeadLetter(deadLetter.id)).resolves.toBe(false);
+
+      const [updated] = await deadLetterStore.findAll();
+      expect(updated.id).toBe(deadLetter.id);
+      expect(updated.attempts).toBe(2);
+      expect(updated.error).toBe('Still down');
+    });
+
+    describe('behind the outbox dispatcher', () => {
+      let taskPublisher: DomainEventPublisher;
+      let outbox: InMemoryEventOutbox;
+      let scheduler: FakeScheduler;
+
+      const dispatchAssigned = async () => {
+        const clock = new FakeClock(new Date('2026-01-01T00:00:00Z'));
+        const dispatcher = new OutboxDispatcher(outbox, taskPublisher, new MockTaskRepository(), clock, {
+          maxAttempts: 3,
+          baseRetryDelayMs: 1000
+        });
+        scheduler = new FakeScheduler(clock);
+        dispatcher.start(scheduler, 500);
+        const userId = UserId.create('user-123');
+        await dispatcher.commitWith([new TaskAssignedEvent(TaskId.create(), userId, userId)], async () => {});
+      };
+
+      beforeEach(() => {
+        taskPublisher = new DomainEventPublisher({ deadLetterStore });
+        outbox = new InMemoryEventOutbox();
+      });
+
+      it('should leave the retries to the dispatcher instead of dead-lettering early', async () => {
+        const handler = vi.fn()
+          .mockRejectedValueOnce(new Error('Down'))
+          .mockRejectedValueOnce(new Error('Down'))
+          .mockResolvedValue(undefined);
+        taskPublisher.subscribe('TaskAssigned', handler, { name: 'flaky' });
+
+        await dispatchAssigned();
+
+        expect(handler).toHaveBeenCalledTimes(1);
+        expect(await deadLetterStore.findAll()).toHaveLength(0);
+
+        await scheduler.advanceBy(60 * 1000);
+
+        expect(handler).toHaveBeenCalledTimes(3);
+        expect(await deadLetterStore.findAll()).toHaveLength(0);
+        expect(await outbox.findDue(new Date('2100-01-01'))).toHaveLength(0);
+      });
+
+      it('should dead-letter on the last dispatch attempt and settle the outbox entry', async () => {
+        const onError = vi.fn();
+        taskPublisher.onHandlerError(onError);
+        const handler = vi.fn().mockRejectedValue(new Error('Broken'));
+        taskPublisher.subscribe('TaskAssigned', handler, { name: 'broken' });
+
+        await dispatchAssigned();
+        await scheduler.advanceBy(60 * 1000);
+
+        expect(handler).toHaveBeenCalledTimes(3);
+        expect(await deadLetterStore.findAll()).toMatchObject([{ subscriptionName: 'broken', error: 'Broken' }]);
+        expect(onError).toHaveBeenCalledTimes(1);
+        expect(await outbox.findDue(new Date('2100-01-01'))).toHaveLength(0);
+        expect(await outbox.findFailed()).toHaveLength(0);
+      });
+    });
+  });
+
   describe('integration scenarios', () => {
     it('should handle multiple event types with multiple handlers each', async () => {
       const handlerA1 = vi.fn();
@@ -1,32 +1,286 @@
 import { DomainEvent } from "../../domain/events/DomainEvent";
+import { TaskEventMap } from "../../domain/events/TaskEventMap";
+import { IDeadLetterStore, DeadLetter } from "./IDeadLetterStore";
 
-type EventHandler = (event: DomainEvent) => Promise<void> | void;
+type EventHandler<E extends DomainEvent = DomainEvent> = (event: E) => Promise<void> | void;
 
-export class DomainEventPublisher {
-  private handlers: Map<string, EventHandler[]> = new Map();
+/**
+ * Matches several event types: `*` stands for any run of characters, so
+ * "*" matches everything and "Task*" every event type starting with Task.
+ */
+export type EventPattern = `${string}*${string}`;
 
-  subscribe(eventType: string, handler: EventHandler): () => void {
-    const handlers = this.handlers.get(eventType) || [];
-    handlers.push(handler);
-    this.handlers.set(eventType, handlers);
+export interface RetryPolicy {
+  /** Total tries including the first one */
+  maxAttempts: number;
+  /** Wait before the first retry; doubled for every retry after that */
+  backoffMs: number;
+}
+
+export interface SubscriptionOptions {
+  /**
+   * Identifies the subscription in dead letters, so they can be replayed
+   * against the same handler after a reload. Defaults to the event type
+   * plus a running number.
+   */
+  name?: string;
+  retry?: RetryPolicy;
+}
+
+export interface HandlerFailure {
+  event: DomainEvent;
+  subscriptionName: string;
+  error: unknown;
+  attempts: number;
+  deadLettered: boolean;
+}
+
+type HandlerErrorListener = (failure: HandlerFailure) => void;
+
+export interface DeliveryOptions {
+  /**
+   * Whether the caller will not deliver the event again. Only then are
+   * failed handlers dead-lettered and reported; before that their failures
+   * are thrown so the caller retries. Defaults to true.
+   */
+  finalAttempt?: boolean;
+}
+
+export interface DomainEventPublisherOptions {
+  /** Where events that exhaust their retries are kept for replay */
+  deadLetterStore?: IDeadLetterStore;
+  /** Waits between retries; replaceable so tests don't sleep */
+  delay?: (ms: number) => Promise<void>;
+}
+
+interface Subscription {
+  name: string;
+  matches: (eventType: string) => boolean;
+  handler: EventHandler<DomainEvent>;
+  retry: RetryPolicy;
+}
+
+const NO_RETRY: RetryPolicy = { maxAttempts: 1, backoffMs: 0 };
+
+const patternMatcher = (pattern: EventPattern | RegExp): ((eventType: string) => boolean) => {
+  if (pattern instanceof RegExp) {
+    return (eventType) => pattern.test(eventType);
+  }
+  const escaped = pattern.split("*").map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"));
+  const regex = new RegExp(`^${escaped.join(".*")}$`);
+  return (eventType) => regex.test(eventType);
+};
+
+/**
+ * Publishes domain events to subscribers. The event map ties each event
+ * type name to its class, so handlers receive the right type without casts.
+ */
+export class DomainEventPublisher<TEventMap extends { [K in keyof TEventMap]: DomainEvent } = TaskEventMap> {
+  private subscriptions: Subscription[] = [];
+  private subscriptionCounts: Map<string, number> = new Map();
+  private errorListeners: HandlerErrorListener[] = [];
+  private deadLetterStore?: IDeadLetterStore;
+  private delay: (ms: number) => Promise<void>;
+
+  constructor(options: DomainEventPublisherOptions = {}) {
+    this.deadLetterStore = options.deadLetterStore;
+    this.delay = options.delay ?? ((ms) => new Promise((resolve) => setTimeout(resolve, ms)));
+  }
+
+  subscribe<K extends keyof TEventMap & string>(
+    eventType: K,
+    handler: EventHandler<TEventMap[K]>,
+    options?: SubscriptionOptions
+  ): () => void;
+  subscribe(
+    pattern: EventPattern | RegExp,
+    handler: EventHandler<TEventMap[keyof TEventMap]>,
+    options?: SubscriptionOptions
+  ): () => void;
+  subscribe<K extends keyof TEventMap & string>(
+    eventTypeOrPattern: K | EventPattern | RegExp,
+    handler: EventHandler<TEventMap[K]> | EventHandler<TEventMap[keyof TEventMap]>,
+    options: SubscriptionOptions = {}
+  ): () => void {
+    const key = String(eventTypeOrPattern);
+    const count = (this.subscriptionCounts.get(key) ?? 0) + 1;
+    this.subscriptionCounts.set(key, count);
+
+    const subscription: Subscription = {
+      name: options.name ?? `${key}#${count}`,
+      matches:
+        typeof eventTypeOrPattern === "string" && !eventTypeOrPattern.includes("*")
+          ? (eventType) => eventType === eventTypeOrPattern
+          : patternMatcher(eventTypeOrPattern as EventPattern | RegExp),
+      // The matcher only lets through events of the subscribed type(s), so
+      // the handler never sees an event it was not typed for
+      handler: handler as EventHandler<DomainEvent>,
+      retry: options.retry ?? NO_RETRY,
+    };
+    this.subscriptions.push(subscription);
 
     return () => {
       // Unsubscribe logic to remove the handler and prevent memory leaks
-      const updatedHandlers =
-        this.handlers.get(eventType)?.filter((h) => h !== handler) || [];
-      this.handlers.set(eventType, updatedHandlers);
+      this.subscriptions = this.subscriptions.filter((s) => s !== subscription);
+    };
+  }
+
+  /**
+   * Called whenever a handler gives up on an event, after its retries.
+   */
+  onHandlerError(listener: HandlerErrorListener): () => void {
+    this.errorListeners.push(listener);
+    return () => {
+      this.errorListeners = this.errorListeners.filter((l) => l !== listener);
     };
   }
 
+  /**
+   * Runs every handler, logging failures instead of passing them on.
+   */
   async publish(event: DomainEvent): Promise<void> {
-    const handlers = this.handlers.get(event.eventType) || [];
+    await this.runHandlers(event, true);
+  }
+
+  /**
+   * Runs every handler like publish(), then throws if any of them failed
+   * without being dead-lettered, so callers that retry delivery know to
+   * try again. Callers that retry own the retries: dead letters are only
+   * written on their final attempt.
+   */
+  async deliver(event: DomainEvent, options: DeliveryOptions = {}): Promise<void> {
+    const errors = await this.runHandlers(event, options.finalAttempt ?? true);
+    if (errors.length > 0) {
+      throw new EventDeliveryError(event.eventType, errors);
+    }
+  }
+
+  /**
+   * Hands a dead-lettered event to its subscription again. The dead letter
+   * is removed on success and updated with the new error otherwise.
+   */
+  async replayDeadLetter(deadLetterId: string): Promise<boolean> {
+    if (!this.deadLetterStore) {
+      throw new Error("No dead letter store is configured");
+    }
+
+    const deadLetter = await this.deadLetterStore.findById(deadLetterId);
+    if (!deadLetter) {
+      throw new Error("Dead letter not found");
+    }
+
+    const subscription = this.subscriptions.find(
+      (s) => s.name === deadLetter.subscriptionName && s.matches(deadLetter.event.eventType)
+    );
+    if (!subscription) {
+      throw new Error(`No subscription named ${deadLetter.subscriptionName}`);
+    }
+
+    try {
+      await this.runWithRetry(subscription, deadLetter.event);
+      await this.deadLetterStore.remove(deadLetterId);
+      return true;
+    } catch (error) {
+      await this.deadLetterStore.save({
+        ...deadLetter,
+        error: errorMessage(error),
+        attempts: deadLetter.attempts + subscription.retry.maxAttempts,
+        failedAt: new Date(),
+      });
+      return false;
+    }
+  }
 
-    for (const handler of handlers) {
+  private async runHandlers(event: DomainEvent, finalAttempt: boolean): Promise<unknown[]> {
+    const subscriptions = this.subscriptions.filter((s) => s.matches(event.eventType));
+    const errors: unknown[] = [];
+
+    for (const subscription of subscriptions) {
       try {
-        await handler(event);
+        await this.runWithRetry(subscription, event);
       } catch (error) {
         console.error(`Error handling event ${event.eventType}:`, error);
+        if (!finalAttempt) {
+          errors.push(error);
+          continue;
+        }
+
+        const deadLettered = await this.deadLetter(subscription, event, error);
+        if (!deadLettered) {
+          errors.push(error);
+        }
+        this.notifyError({
+          event,
+          subscriptionName: subscription.name,
+          error,
+          attempts: subscription.retry.maxAttempts,
+          deadLettered,
+        });
+      }
+    }
+
+    return errors;
+  }
+
+  private async runWithRetry(subscription: Subscription, event: DomainEvent): Promise<void> {
+    const { maxAttempts, backoffMs } = subscription.retry;
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await subscription.handler(event);
+        return;
+      } catch (error) {
+        if (attempt >= maxAttempts) throw error;
+        await this.delay(backoffMs * 2 ** (attempt - 1));
       }
     }
   }
+
+  private async deadLetter(
+    subscription: Subscription,
+    event: DomainEvent,
+    error: unknown
+  ): Promise<boolean> {
+    if (!this.deadLetterStore) return false;
+
+    const deadLetter: DeadLetter = {
+      id: crypto.randomUUID(),
+      event,
+      subscriptionName: subscription.name,
+      error: errorMessage(error),
+      attempts: subscription.retry.maxAttempts,
+      failedAt: new Date(),
+    };
+
+    try {
+      await this.deadLetterStore.save(deadLetter);
+      return true;
+    } catch (storeError) {
+      console.error("Error storing dead letter:", storeError);
+      return false;
+    }
+  }
+
+  private notifyError(failure: HandlerFailure): void {
+    for (const listener of this.errorListeners) {
+      try {
+        listener(failure);
+      } catch (error) {
+        console.error("Error in handler error listener:", error);
+      }
+    }
+  }
+}
+
+const errorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : String(error);
+
+export class EventDeliveryError extends Error {
+  constructor(
+    public readonly eventType: string,
+    public readonly errors: unknown[]
+  ) {
+    super(`${errors.length} handler(s) failed for event ${eventType}`);
+    this.name = "EventDeliveryError";
+  }
 }
@@ -0,0 +1,3 @@
+export interface IClock {
+  now(): Date;
+}
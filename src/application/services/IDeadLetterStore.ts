@@ -0,0 +1,21 @@
+import { DomainEvent } from '../../domain/events/DomainEvent';
+
+/**
+ * An event one subscription could not handle after all its retries.
+ */
+export interface DeadLetter {
+  id: string;
+  event: DomainEvent;
+  subscriptionName: string;
+  error: string;
+  attempts: number;
+  failedAt: Date;
+}
+
+export interface IDeadLetterStore {
+  /** Adds the dead letter, or replaces the one with the same id */
+  save(deadLetter: DeadLetter): Promise<void>;
+  findById(id: string): Promise<DeadLetter | null>;
+  findAll(): Promise<DeadLetter[]>;
+  remove(id: string): Promise<void>;
+}
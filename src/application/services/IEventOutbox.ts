@@ -0,0 +1,50 @@
+import { TaskDomainEvent } from '../../domain/events/DomainEvent';
+
+/**
+ * `staged` entries belong to a commit whose write has not finished yet;
+ * they are never dispatched until committed, or recovered once their claim
+ * window has passed.
+ */
+export type OutboxEntryStatus = 'staged' | 'pending' | 'failed';
+
+export interface OutboxEntry {
+  id: string;
+  event: TaskDomainEvent;
+  status: OutboxEntryStatus;
+  attempts: number;
+  nextAttemptAt: Date;
+  lastError?: string;
+  /** For a staged entry, the version its task is stored at once the commit's write succeeds */
+  stagedVersion?: number;
+}
+
+/**
+ * Holds committed domain events until every handler has processed them.
+ */
+export interface IEventOutbox {
+  /**
+   * Stores the events held back until `commitStaged`, then due at
+   * `availableAt`. `stagedVersions` maps a task id to the version the
+   * commit's write stores it at.
+   */
+  stage(
+    events: TaskDomainEvent[],
+    availableAt: Date,
+    stagedVersions: ReadonlyMap<string, number>
+  ): Promise<OutboxEntry[]>;
+  /** Turns staged entries into pending ones once the write they belong to succeeded */
+  commitStaged(entryIds: string[]): Promise<void>;
+  /** Drops staged entries whose write failed */
+  discardStaged(entryIds: string[]): Promise<void>;
+  /** Staged entries whose claim window has passed at `now`, oldest first */
+  findExpiredStaged(now: Date): Promise<OutboxEntry[]>;
+  /** Pending entries due at `now`, oldest first */
+  findDue(now: Date): Promise<OutboxEntry[]>;
+  findFailed(): Promise<OutboxEntry[]>;
+  markDispatched(entryId: string): Promise<void>;
+  /**
+   * Records a failed attempt. With a `retryAt` the entry stays pending until
+   * then; without one it is marked failed and no longer retried.
+   */
+  markFailed(entryId: string, error: string, retryAt: Date | null): Promise<void>;
+}
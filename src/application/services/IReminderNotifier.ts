@@ -0,0 +1,18 @@
+import { ReminderKind } from '../../domain/valueObjects/ReminderPolicy';
+
+export interface Reminder {
+  taskId: string;
+  title: string;
+  kind: ReminderKind;
+  dueDate: Date;
+  /** Ready to show, e.g. `"Pay rent" is overdue by 2 days` */
+  message: string;
+}
+
+/**
+ * Delivers due date reminders to the user, e.g. as a toast or a browser
+ * notification.
+ */
+export interface IReminderNotifier {
+  notify(reminder: Reminder): Promise<void> | void;
+}
@@ -0,0 +1,9 @@
+export type ScheduledJob = () => Promise<void> | void;
+
+export interface IScheduler {
+  /**
+   * Runs the job every `intervalMs` milliseconds until the returned
+   * cancel function is called.
+   */
+  scheduleRecurring(job: ScheduledJob, intervalMs: number): () => void;
+}
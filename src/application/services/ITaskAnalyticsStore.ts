@@ -0,0 +1,26 @@
+/**
+ * What the analytics read model knows about one task, projected from its
+ * domain events. Dates are ISO strings so records can be stored as they are.
+ */
+export interface TaskActivityRecord {
+  taskId: string;
+  createdAt?: string;
+  dueDate?: string;
+  /** When work on the task first started */
+  startedAt?: string;
+  status: string;
+  assigneeId?: string;
+  completions: { at: string; by: string }[];
+  reopenedAt: string[];
+  escalatedAt: string[];
+  /** Events already applied, so a redelivered event is not counted twice */
+  eventIds: string[];
+}
+
+export interface ITaskAnalyticsStore {
+  findByTaskId(taskId: string): Promise<TaskActivityRecord | null>;
+  findAll(): Promise<TaskActivityRecord[]>;
+  /** Adds the record, or replaces the one for the same task */
+  save(record: TaskActivityRecord): Promise<void>;
+  clear(): Promise<void>;
+}
@@ -0,0 +1,195 @@
+import { DomainEvent, TaskDomainEvent } from '../../domain/events/DomainEvent';
+import { AnyTaskEvent } from '../../domain/events/TaskEventMap';
+import { ITaskRepository } from '../../domain/repositories/ITaskRepository';
+import { TaskId } from '../../domain/valueObjects/TaskId';
+import { DomainEventPublisher } from './DomainEventPublisher';
+import { IEventOutbox, OutboxEntry } from './IEventOutbox';
+import { IClock } from './IClock';
+import { IScheduler } from './IScheduler';
+
+export interface CommitOptions {
+  /** The event being handled, when committing from an event handler */
+  cause?: DomainEvent;
+  /** See `stage` */
+  stagedVersions?: ReadonlyMap<string, number>;
+}
+
+export interface OutboxDispatcherOptions {
+  maxAttempts?: number;
+  baseRetryDelayMs?: number;
+}
+
+/**
+ * Delivers outbox entries to the event publisher, retrying failed
+ * deliveries with exponential backoff. The dispatcher owns these retries:
+ * the publisher only dead-letters a failing handler on the last attempt.
+ *
+ * Delivery is at-least-once: a retry runs every handler for the event
+ * again, including the ones that succeeded the first time.
+ *
+ * Each sweep also settles entries left staged by a commit that never
+ * finished, e.g. because its tab closed before `commitAndDispatch`.
+ */
+export class OutboxDispatcher {
+  static readonly DEFAULT_MAX_ATTEMPTS = 5;
+  static readonly DEFAULT_BASE_RETRY_DELAY_MS = 1000;
+  static readonly DEFAULT_INTERVAL_MS = 5000;
+
+  /**
+   * How long a freshly committed entry is left to the tab that committed it
+   * before other tabs' sweeps may pick it up.
+   */
+  static readonly CLAIM_WINDOW_MS = 30 * 1000;
+
+  private readonly maxAttempts: number;
+  private readonly baseRetryDelayMs: number;
+  private cancel?: () => void;
+
+  constructor(
+    private outbox: IEventOutbox,
+    private eventPublisher: DomainEventPublisher,
+    private taskRepository: ITaskRepository,
+    private clock: IClock,
+    options: OutboxDispatcherOptions = {}
+  ) {
+    this.maxAttempts = options.maxAttempts ?? OutboxDispatcher.DEFAULT_MAX_ATTEMPTS;
+    this.baseRetryDelayMs = options.baseRetryDelayMs ?? OutboxDispatcher.DEFAULT_BASE_RETRY_DELAY_MS;
+  }
+
+  start(scheduler: IScheduler, intervalMs: number = OutboxDispatcher.DEFAULT_INTERVAL_MS): () => void {
+    if (!this.cancel) {
+      this.cancel = scheduler.scheduleRecurring(() => this.dispatchDue(), intervalMs);
+    }
+    return () => this.stop();
+  }
+
+  stop(): void {
+    this.cancel?.();
+    this.cancel = undefined;
+  }
+
+  /**
+   * Commits one write together with its events: the events are staged,
+   * then `write` runs, then they are committed and dispatched, or discarded
+   * if the write fails.
+   *
+   * With a `cause` every event is recorded as caused by it; otherwise the
+   * events are one user action and share the first one's correlation id.
+   */
+  async commitWith(
+    events: AnyTaskEvent[],
+    write: () => Promise<void>,
+    options: CommitOptions = {}
+  ): Promise<void> {
+    const { cause } = options;
+    if (cause) {
+      events.forEach(event => event.causedBy(cause));
+    } else {
+      events.slice(1).forEach(event => event.correlatedWith(events[0]));
+    }
+
+    const staged = await this.stage(events, options.stagedVersions);
+    try {
+      await write();
+    } catch (error) {
+      await this.discard(staged);
+      throw error;
+    }
+
+    await this.commitAndDispatch(staged);
+  }
+
+  /**
+   * Writes the events of a commit to the outbox before the commit's own
+   * write. Follow up with `commitAndDispatch` or `discard`; entries left
+   * staged are recovered once their claim window has passed.
+   *
+   * @param stagedVersions the version each task of the commit is stored at
+   * once its write succeeds; entries without one are dropped on recovery
+   */
+  async stage(
+    events: TaskDomainEvent[],
+    stagedVersions: ReadonlyMap<string, number> = new Map()
+  ): Promise<OutboxEntry[]> {
+    if (events.length === 0) return [];
+    return this.outbox.stage(events, this.claimedUntil(), stagedVersions);
+  }
+
+  /**
+   * Called once the commit's write succeeded, so a failure to commit the
+   * entries is only logged: the sweep recovers them later.
+   */
+  async commitAndDispatch(entries: OutboxEntry[]): Promise<void> {
+    if (entries.length === 0) return;
+
+    try {
+      await this.outbox.commitStaged(entries.map(entry => entry.id));
+    } catch (error) {
+      console.error('Error committing staged events:', error);
+      return;
+    }
+    await this.dispatch(entries);
+  }
+
+  async discard(entries: OutboxEntry[]): Promise<void> {
+    if (entries.length === 0) return;
+    await this.outbox.discardStaged(entries.map(entry => entry.id));
+  }
+
+  /**
+   * Delivers the given entries in order. Failures are recorded on the
+   * outbox rather than thrown.
+   */
+  async dispatch(entries: OutboxEntry[]): Promise<void> {
+    for (const entry of entries) {
+      try {
+        await this.eventPublisher.deliver(entry.event, { finalAttempt: entry.attempts + 1 >= this.maxAttempts });
+        await this.outbox.markDispatched(entry.id);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        await this.outbox.markFailed(entry.id, message, this.nextRetryAt(entry.attempts + 1));
+      }
+    }
+  }
+
+  async dispatchDue(): Promise<void> {
+    await this.recoverStaged();
+    const due = await this.outbox.findDue(this.clock.now());
+    await this.dispatch(due);
+  }
+
+  /**
+   * Promotes expired staged entries whose task is stored at or past the
+   * staged version, since their write went through, and drops the rest.
+   */
+  private async recoverStaged(): Promise<void> {
+    const expired = await this.outbox.findExpiredStaged(this.clock.now());
+    const committed: string[] = [];
+    const abandoned: string[] = [];
+
+    for (const entry of expired) {
+      (await this.wasWritten(entry) ? committed : abandoned).push(entry.id);
+    }
+
+    if (committed.length > 0) await this.outbox.commitStaged(committed);
+    if (abandoned.length > 0) await this.outbox.discardStaged(abandoned);
+  }
+
+  private async wasWritten(entry: OutboxEntry): Promise<boolean> {
+    if (entry.stagedVersion === undefined) return false;
+
+    const task = await this.taskRepository.findById(TaskId.fromString(entry.event.aggregateId));
+    return task !== null && task.version >= entry.stagedVersion;
+  }
+
+  private claimedUntil(): Date {
+    return new Date(this.clock.now().getTime() + OutboxDispatcher.CLAIM_WINDOW_MS);
+  }
+
+  private nextRetryAt(attempts: number): Date | null {
+    if (attempts >= this.maxAttempts) return null;
+
+    const delay = this.baseRetryDelayMs * 2 ** (attempts - 1);
+    return new Date(this.clock.now().getTime() + delay);
+  }
+}
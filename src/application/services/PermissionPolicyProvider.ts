@@ -0,0 +1,27 @@
+import { PermissionPolicy } from '../../domain/services/PermissionPolicy';
+import { IUserRepository } from '../../domain/repositories/IUserRepository';
+import { ITeamRepository } from '../../domain/repositories/ITeamRepository';
+
+/**
+ * Builds the permission policy from the stored users and teams. It is
+ * rebuilt for every command so role and team changes apply immediately.
+ * Without repositories only the assignee-only rules apply.
+ */
+export class PermissionPolicyProvider {
+  constructor(
+    private userRepository?: IUserRepository,
+    private teamRepository?: ITeamRepository
+  ) {}
+
+  async current(): Promise<PermissionPolicy> {
+    if (!this.userRepository || !this.teamRepository) {
+      return PermissionPolicy.assigneeOnly();
+    }
+
+    const [users, teams] = await Promise.all([
+      this.userRepository.findAll(),
+      this.teamRepository.findAll()
+    ]);
+    return new PermissionPolicy(users, teams);
+  }
+}
@@ -0,0 +1,40 @@
+import { EscalateStaleTasksUseCase } from '../useCases/EscalateStaleTasksUseCase';
+import { IScheduler } from './IScheduler';
+
+/**
+ * Periodically sweeps all tasks so aging ones escalate without user action.
+ */
+export class PriorityEscalationJob {
+  static readonly DEFAULT_INTERVAL_MS = 60 * 60 * 1000;
+
+  private cancel?: () => void;
+
+  constructor(
+    private escalateStaleTasksUseCase: EscalateStaleTasksUseCase,
+    private scheduler: IScheduler,
+    private intervalMs: number = PriorityEscalationJob.DEFAULT_INTERVAL_MS
+  ) {}
+
+  get isRunning(): boolean {
+    return this.cancel !== undefined;
+  }
+
+  start(): () => void {
+    if (!this.cancel) {
+      this.cancel = this.scheduler.scheduleRecurring(() => this.runOnce(), this.intervalMs);
+    }
+    return () => this.stop();
+  }
+
+  stop(): void {
+    this.cancel?.();
+    this.cancel = undefined;
+  }
+
+  async runOnce(): Promise<void> {
+    const escalated = await this.escalateStaleTasksUseCase.execute();
+    if (escalated.length > 0) {
+      console.log(`⏫ Escalation sweep: ${escalated.length} task(s) escalated`);
+    }
+  }
+}
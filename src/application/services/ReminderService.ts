@@ -0,0 +1,41 @@
+import { SendDueDateRemindersUseCase } from '../useCases/SendDueDateRemindersUseCase';
+import { IScheduler } from './IScheduler';
+
+/**
+ * Periodically checks due dates so reminders go out while the app is open.
+ * The interval bounds how late a reminder can be.
+ */
+export class ReminderService {
+  static readonly DEFAULT_INTERVAL_MS = 5 * 60 * 1000;
+
+  private cancel?: () => void;
+
+  constructor(
+    private sendDueDateRemindersUseCase: SendDueDateRemindersUseCase,
+    private scheduler: IScheduler,
+    private intervalMs: number = ReminderService.DEFAULT_INTERVAL_MS
+  ) {}
+
+  get isRunning(): boolean {
+    return this.cancel !== undefined;
+  }
+
+  start(): () => void {
+    if (!this.cancel) {
+      this.cancel = this.scheduler.scheduleRecurring(() => this.runOnce(), this.intervalMs);
+    }
+    return () => this.stop();
+  }
+
+  stop(): void {
+    this.cancel?.();
+    this.cancel = undefined;
+  }
+
+  async runOnce(): Promise<void> {
+    const reminded = await this.sendDueDateRemindersUseCase.execute();
+    if (reminded.length > 0) {
+      console.log(`⏰ Reminder sweep: ${reminded.length} reminder(s) sent`);
+    }
+  }
+}
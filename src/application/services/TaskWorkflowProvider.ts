@@ -0,0 +1,19 @@
+import { TaskWorkflow } from '../../domain/valueObjects/TaskWorkflow';
+import { ITaskWorkflowRepository } from '../../domain/repositories/ITaskWorkflowRepository';
+import { DEFAULT_WORKSPACE_ID } from '../../domain/repositories/IEscalationPolicyRepository';
+
+/**
+ * Looks up the workspace's workflow for every command, falling back to
+ * the default workflow when none was configured.
+ */
+export class TaskWorkflowProvider {
+  constructor(
+    private workflowRepository?: ITaskWorkflowRepository,
+    private workspaceId: string = DEFAULT_WORKSPACE_ID
+  ) {}
+
+  async current(): Promise<TaskWorkflow> {
+    const workflow = await this.workflowRepository?.findByWorkspace(this.workspaceId);
+    return workflow ?? TaskWorkflow.default();
+  }
+}
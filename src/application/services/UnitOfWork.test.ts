@@ -0,0 +1,260 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { UnitOfWork } from './UnitOfWork';
+import { OutboxDispatcher } from './OutboxDispatcher';
+import { DomainEventPublisher } from './DomainEventPublisher';
+import { Task } from '../../domain/entities/Task';
+import { TaskTitle } from '../../domain/valueObjects/TaskTitle';
+import { TaskId } from '../../domain/valueObjects/TaskId';
+import { UserId } from '../../domain/valueObjects/UserId';
+import { TaskPriority } from '../../domain/valueObjects/TaskPriority';
+import { DomainEvent } from '../../domain/events/DomainEvent';
+import { TaskCompletedEvent } from '../../domain/events/TaskCompletedEvent';
+import { InMemoryEventOutbox } from '../../infrastructure/events/InMemoryEventOutbox';
+import { FakeClock } from '../../infrastructure/scheduling/FakeClock';
+import { FakeScheduler } from '../../infrastructure/scheduling/FakeScheduler';
+import { MockTaskRepository } from '../../test/mocks';
+
+describe('UnitOfWork', () => {
+  let taskRepository: MockTaskRepository;
+  let outbox: InMemoryEventOutbox;
+  let publisher: DomainEventPublisher;
+  let clock: FakeClock;
+  let dispatcher: OutboxDispatcher;
+  let unitOfWork: UnitOfWork;
+  let userId: UserId;
+
+  const assignedTask = (title: string): Task => {
+    const task = Task.create(TaskTitle.create(title));
+    task.assignTo(userId, userId);
+    return task;
+  };
+
+  beforeEach(() => {
+    taskRepository = new MockTaskRepository();
+    outbox = new InMemoryEventOutbox();
+    publisher = new DomainEventPublisher();
+    clock = new FakeClock(new Date('2025-01-01T00:00:00Z'));
+    dispatcher = new OutboxDispatcher(outbox, publisher, taskRepository, clock, {
+      baseRetryDelayMs: 1000,
+      maxAttempts: 3
+    });
+    unitOfWork = new UnitOfWork(taskRepository, dispatcher);
+    userId = UserId.create('user-123');
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should save every registered task and deliver their events', async () => {
+    const handler = vi.fn();
+    publisher.subscribe('TaskAssigned', handler);
+    const first = assignedTask('First');
+    const second = assignedTask('Second');
+
+    unitOfWork.registerDirty(first);
+    unitOfWork.registerDirty(second);
+    await unitOfWork.commit();
+
+    expect(await taskRepository.findAll()).toHaveLength(2);
+    expect(handler).toHaveBeenCalledTimes(2);
+    expect(await outbox.findDue(new Date('2100-01-01'))).toHaveLength(0);
+  });
+
+  it('should give the events of one commit a shared correlation id', async () => {
+    const delivered: DomainEvent[] = [];
+    publisher.subscribe('*', (event) => {
+      delivered.push(event);
+    });
+    const task = assignedTask('Correlated');
+    task.changePriority(TaskPriority.high(), userId);
+
+    unitOfWork.registerDirty(task);
+    await unitOfWork.commit();
+
+    const [created, ...rest] = delivered;
+    expect(delivered.map(e => e.eventType)).toEqual(['TaskCreated', 'TaskAssigned', 'TaskPriorityEscalated']);
+    expect(rest.map(e => e.correlationId)).toEqual([created.eventId, created.eventId]);
+    expect(delivered.map(e => e.causationId)).toEqual([null, null, null]);
+  });
+
+  it('should record the handled event as the cause of a commit made for it', async () => {
+    const delivered: DomainEvent[] = [];
+    publisher.subscribe('*', (event) => {
+      delivered.push(event);
+    });
+    const cause = new TaskCompletedEvent(TaskId.create(), userId, new Date());
+
+    unitOfWork.registerDirty(assignedTask('Follow-up'));
+    await unitOfWork.commit(cause);
+
+    expect(delivered).toHaveLength(2);
+    delivered.forEach(event => {
+      expect(event.causationId).toBe(cause.eventId);
+      expect(event.correlationId).toBe(cause.correlationId);
+    });
+  });
+
+  it('should not enqueue events when the save fails', async () => {
+    const handler = vi.fn();
+    publisher.subscribe('TaskAssigned', handler);
+    vi.spyOn(taskRepository, 'saveAll').mockRejectedValueOnce(new Error('Storage is full'));
+    const task = assignedTask('Unsaved');
+
+    unitOfWork.registerDirty(task);
+    await expect(unitOfWork.commit()).rejects.toThrow('Storage is full');
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(await outbox.findDue(new Date('2100-01-01'))).toHaveLength(0);
+  });
+
+  it('should have the events in the outbox before the tasks are written', async () => {
+    let dueWhileSaving: unknown[] = [];
+    const save = taskRepository.saveAll.bind(taskRepository);
+    vi.spyOn(taskRepository, 'saveAll').mockImplementation(async (tasks) => {
+      dueWhileSaving = await outbox.findDue(new Date('2100-01-01'));
+      await save(tasks);
+    });
+    const stage = vi.spyOn(outbox, 'stage');
+
+    unitOfWork.registerDirty(assignedTask('Staged'));
+    await unitOfWork.commit();
+
+    expect(stage).toHaveBeenCalledTimes(1);
+    expect(stage.mock.invocationCallOrder[0]).toBeLessThan(
+      vi.mocked(taskRepository.saveAll).mock.invocationCallOrder[0]
+    );
+    expect(dueWhileSaving).toHaveLength(0);
+  });
+
+  it('should not fail the commit when the staged events cannot be committed', async () => {
+    const handler = vi.fn();
+    publisher.subscribe('TaskAssigned', handler);
+    vi.spyOn(outbox, 'commitStaged').mockRejectedValueOnce(new Error('Storage is full'));
+    const task = assignedTask('Saved');
+
+    unitOfWork.registerDirty(task);
+    await expect(unitOfWork.commit()).resolves.toBeUndefined();
+    expect(await taskRepository.findById(task.id)).toBe(task);
+    expect(handler).not.toHaveBeenCalled();
+
+    // The mock repository does not bump versions; a real write stores version 1
+    task.incrementVersion();
+    clock.advanceBy(OutboxDispatcher.CLAIM_WINDOW_MS);
+    await dispatcher.dispatchDue();
+
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('should recover staged events whose task was written once the claim window passes', async () => {
+    const handler = vi.fn();
+    publisher.subscribe('TaskAssigned', handler);
+    const task = assignedTask('Written');
+    await dispatcher.stage(task.pullDomainEvents(), new Map([[task.id.toString(), 1]]));
+    task.incrementVersion();
+    taskRepository.addTask(task);
+
+    await dispatcher.dispatchDue();
+    expect(handler).not.toHaveBeenCalled();
+
+    clock.advanceBy(OutboxDispatcher.CLAIM_WINDOW_MS);
+    await dispatcher.dispatchDue();
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('should drop expired staged events whose task was never written', async () => {
+    const handler = vi.fn();
+    publisher.subscribe('TaskAssigned', handler);
+    const task = assignedTask('Never written');
+    await dispatcher.stage(task.pullDomainEvents(), new Map([[task.id.toString(), 1]]));
+
+    clock.advanceBy(OutboxDispatcher.CLAIM_WINDOW_MS);
+    await dispatcher.dispatchDue();
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(await outbox.findExpiredStaged(new Date('2100-01-01'))).toHaveLength(0);
+  });
+
+  it('should discard the staged events when the save fails', async () => {
+    const discard = vi.spyOn(outbox, 'discardStaged');
+    vi.spyOn(taskRepository, 'saveAll').mockRejectedValueOnce(new Error('Storage is full'));
+
+    unitOfWork.registerDirty(assignedTask('Unsaved'));
+    await expect(unitOfWork.commit()).rejects.toThrow('Storage is full');
+
+    expect(discard).toHaveBeenCalledTimes(1);
+    await outbox.commitStaged(discard.mock.calls[0][0]);
+    expect(await outbox.findDue(new Date('2100-01-01'))).toHaveLength(0);
+  });
+
+  it('should not write the tasks when the events cannot be added to the outbox', async () => {
+    const handler = vi.fn();
+    publisher.subscribe('TaskAssigned', handler);
+    vi.spyOn(outbox, 'stage').mockRejectedValueOnce(new Error('Outbox is full'));
+    const task = assignedTask('Not written');
+
+    unitOfWork.registerDirty(task);
+    await expect(unitOfWork.commit()).rejects.toThrow('Outbox is full');
+
+    expect(await taskRepository.findAll()).toHaveLength(0);
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('should keep events whose handler failed and retry them', async () => {
+    const handler = vi.fn()
+      .mockRejectedValueOnce(new Error('Handler offline'))
+      .mockResolvedValue(undefined);
+    publisher.subscribe('TaskAssigned', handler);
+    const scheduler = new FakeScheduler(clock);
+    dispatcher.start(scheduler, 500);
+
+    unitOfWork.registerDirty(assignedTask('Retried'));
+    await unitOfWork.commit();
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    const [pending] = await outbox.findDue(new Date('2100-01-01'));
+    expect(pending.attempts).toBe(1);
+    expect(pending.lastError).toMatch(/handler\(s\) failed/);
+
+    await scheduler.advanceBy(1000);
+
+    expect(handler).toHaveBeenCalledTimes(2);
+    expect(await outbox.findDue(new Date('2100-01-01'))).toHaveLength(0);
+  });
+
+  it('should stop retrying after the maximum number of attempts', async () => {
+    publisher.subscribe('TaskAssigned', () => {
+      throw new Error('Always fails');
+    });
+    const scheduler = new FakeScheduler(clock);
+    dispatcher.start(scheduler, 500);
+
+    unitOfWork.registerDirty(assignedTask('Doomed'));
+    await unitOfWork.commit();
+    await scheduler.advanceBy(60 * 1000);
+
+    const failed = await outbox.findFailed();
+    expect(failed).toHaveLength(1);
+    expect(failed[0].attempts).toBe(3);
+  });
+
+  it('should leave fresh entries to the committing tab until the claim window passes', async () => {
+    const handler = vi.fn();
+    publisher.subscribe('TaskAssigned', handler);
+    const otherTab = new OutboxDispatcher(outbox, publisher, taskRepository, clock);
+    const entries = await outbox.stage(
+      assignedTask('Committed elsewhere').pullDomainEvents(),
+      new Date(clock.now().getTime() + OutboxDispatcher.CLAIM_WINDOW_MS),
+      new Map()
+    );
+    await outbox.commitStaged(entries.map(entry => entry.id));
+
+    await otherTab.dispatchDue();
+    expect(handler).not.toHaveBeenCalled();
+
+    clock.advanceBy(OutboxDispatcher.CLAIM_WINDOW_MS);
+    await otherTab.dispatchDue();
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+});
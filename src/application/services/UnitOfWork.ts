@@ -0,0 +1,51 @@
+import { Task } from '../../domain/entities/Task';
+import { DomainEvent } from '../../domain/events/DomainEvent';
+import { ITaskRepository } from '../../domain/repositories/ITaskRepository';
+import { OutboxDispatcher } from './OutboxDispatcher';
+
+/**
+ * Tracks the tasks changed by one use case and commits them together.
+ *
+ * On commit the tasks' events are staged in the outbox first, then the
+ * tasks are written in a single repository call. Only once the write
+ * succeeds are the staged events committed and dispatched; a failed write
+ * discards them, and a failed staging leaves storage untouched. Events
+ * staged by a commit that never finished are recovered by the dispatcher's
+ * sweep. A failing event handler only delays delivery, it does not lose
+ * the event.
+ */
+export class UnitOfWork {
+  private tracked: Map<string, Task> = new Map();
+
+  constructor(
+    private taskRepository: ITaskRepository,
+    private dispatcher: OutboxDispatcher
+  ) {}
+
+  registerDirty(task: Task): void {
+    this.tracked.set(task.id.toString(), task);
+  }
+
+  /**
+   * Pass the event being handled when committing from an event handler:
+   * every event of the commit is then recorded as caused by it. Otherwise
+   * the commit is one user action and its events share a correlation id.
+   */
+  async commit(cause?: DomainEvent): Promise<void> {
+    const tasks = Array.from(this.tracked.values());
+    this.tracked.clear();
+    if (tasks.length === 0) return;
+
+    const events = tasks.flatMap(task => task.pullDomainEvents());
+    // A successful write stores each task one version up
+    const stagedVersions = new Map(tasks.map(task => [task.id.toString(), task.version + 1]));
+    await this.dispatcher.commitWith(events, () => this.taskRepository.saveAll(tasks), {
+      cause,
+      stagedVersions
+    });
+  }
+
+  rollback(): void {
+    this.tracked.clear();
+  }
+}
@@ -0,0 +1,40 @@
+import { TaskId } from '../../domain/valueObjects/TaskId';
+import { UserId } from '../../domain/valueObjects/UserId';
+import { ITaskRepository } from '../../domain/repositories/ITaskRepository';
+import { ConcurrencyConflictError } from '../../domain/exceptions/TaskExceptions';
+import { UnitOfWork } from '../services/UnitOfWork';
+import { PermissionPolicyProvider } from '../services/PermissionPolicyProvider';
+
+export class AddChecklistItemUseCase {
+  constructor(
+    private taskRepository: ITaskRepository,
+    private unitOfWork: UnitOfWork,
+    private permissions: PermissionPolicyProvider = new PermissionPolicyProvider()
+  ) {}
+
+  async execute(
+    taskId: string,
+    title: string,
+    userId: string,
+    required: boolean = true,
+    expectedVersion?: number
+  ): Promise<void> {
+    const id = TaskId.fromString(taskId);
+    const user = UserId.create(userId);
+
+    const task = await this.taskRepository.findById(id);
+
+    if (!task) {
+      throw new Error('Task not found');
+    }
+
+    if (expectedVersion !== undefined && task.version !== expectedVersion) {
+      throw new ConcurrencyConflictError(id, expectedVersion, task.version);
+    }
+
+    task.addChecklistItem(title, user, required, await this.permissions.current());
+
+    this.unitOfWork.registerDirty(task);
+    await this.unitOfWork.commit();
+  }
+}
@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { AddCommentUseCase } from './AddCommentUseCase';
+import { EditCommentUseCase } from './EditCommentUseCase';
+import { GetTaskCommentsUseCase } from './GetTaskCommentsUseCase';
+import { ITaskCommentRepository } from '../../domain/repositories/ITaskCommentRepository';
+import { OutboxDispatcher } from '../services/OutboxDispatcher';
+import { InMemoryEventOutbox } from '../../infrastructure/events/InMemoryEventOutbox';
+import { InMemoryUserRepository } from '../../infrastructure/repositories/InMemoryUserRepository';
+import { FakeClock } from '../../infrastructure/scheduling/FakeClock';
+import { Task } from '../../domain/entities/Task';
+import { TaskComment } from '../../domain/entities/TaskComment';
+import { User } from '../../domain/entities/User';
+import { TaskTitle } from '../../domain/valueObjects/TaskTitle';
+import { TaskPriority } from '../../domain/valueObjects/TaskPriority';
+import { TaskId } from '../../domain/valueObjects/TaskId';
+import { UserId } from '../../domain/valueObjects/UserId';
+import { TaskCommentAddedEvent } from '../../domain/events/TaskCommentAddedEvent';
+import { UserMentionedEvent } from '../../domain/events/UserMentionedEvent';
+import { MockTaskRepository, MockEventPublisher } from '../../test/mocks';
+
+class MockTaskCommentRepository implements ITaskCommentRepository {
+  private comments: Map<string, TaskComment> = new Map();
+
+  async findById(id: string): Promise<TaskComment | null> {
+    return this.comments.get(id) ?? null;
+  }
+
+  async findByTaskId(taskId: TaskId): Promise<TaskComment[]> {
+    return Array.from(this.comments.values())
+      .filter(comment => comment.taskId.equals(taskId));
+  }
+
+  async save(comment: TaskComment): Promise<void> {
+    this.comments.set(comment.id, comment);
+  }
+}
+
+describe('AddCommentUseCase', () => {
+  let useCase: AddCommentUseCase;
+  let taskRepository: MockTaskRepository;
+  let commentRepository: MockTaskCommentRepository;
+  let userRepository: InMemoryUserRepository;
+  let eventPublisher: MockEventPublisher;
+  let outbox: InMemoryEventOutbox;
+  let dispatcher: OutboxDispatcher;
+  let task: Task;
+
+  const authorId = 'user-123';
+
+  beforeEach(() => {
+    taskRepository = new MockTaskRepository();
+    commentRepository = new MockTaskCommentRepository();
+    userRepository = new InMemoryUserRepository([
+      User.create(UserId.create(authorId), 'Alex Kim'),
+      User.create(UserId.create('user-456'), 'Sam Patel')
+    ]);
+    eventPublisher = new MockEventPublisher();
+    outbox = new InMemoryEventOutbox();
+    dispatcher = new OutboxDispatcher(outbox, eventPublisher, taskRepository, new FakeClock());
+    useCase = new AddCommentUseCase(taskRepository, commentRepository, userRepository, dispatcher);
+
+    task = Task.create(TaskTitle.create('Write release notes'), TaskPriority.medium());
+    taskRepository.addTask(task);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should save the comment and publish TaskCommentAddedEvent', async () => {
+    const comment = await useCase.execute(task.id.toString(), 'Draft is in the doc', authorId);
+
+    expect(await commentRepository.findById(comment.id)).toBe(comment);
+    expect(eventPublisher.publishedEvents).toHaveLength(1);
+    expect(eventPublisher.publishedEvents[0]).toBeInstanceOf(TaskCommentAddedEvent);
+    expect(eventPublisher.publishedEvents[0].aggregateId).toBe(task.id.toString());
+  });
+
+  it('should publish UserMentionedEvent only for users that exist', async () => {
+    await useCase.execute(task.id.toString(), '@user-456 and @ghost please review', authorId);
+
+    const mentions = eventPublisher.publishedEvents.filter(e => e instanceof UserMentionedEvent);
+    expect(mentions).toHaveLength(1);
+    expect(mentions[0].mentionedUserId.toString()).toBe('user-456');
+    expect(mentions[0].mentionedBy.toString()).toBe(authorId);
+  });
+
+  it('should correlate the mentions with the comment that made them', async () => {
+    await useCase.execute(task.id.toString(), '@user-456 please review', authorId);
+
+    const [added, mentioned] = eventPublisher.publishedEvents;
+    expect(mentioned.correlationId).toBe(added.eventId);
+  });
+
+  it('should publish nothing when the comment cannot be saved', async () => {
+    vi.spyOn(commentRepository, 'save').mockRejectedValueOnce(new Error('Storage is full'));
+
+    await expect(
+      useCase.execute(task.id.toString(), '@user-456 please review', authorId)
+    ).rejects.toThrow('Storage is full');
+
+    expect(eventPublisher.publishedEvents).toHaveLength(0);
+    expect(await outbox.findExpiredStaged(new Date('2100-01-01'))).toHaveLength(0);
+  });
+
+  it('should thread replies under the comment they answer', async () => {
+    const root = await useCase.execute(task.id.toString(), 'Ready for review', authorId);
+    const reply = await useCase.execute(task.id.toString(), 'Looking now', 'user-456', root.id);
+    await useCase.execute(task.id.toString(), 'Thanks!', authorId, reply.id);
+
+    const threads = await new GetTaskCommentsUseCase(commentRepository).execute(task.id.toString());
+
+    expect(threads).toHaveLength(1);
+    expect(threads[0].replies.map(r => r.body)).toEqual(['Looking now', 'Thanks!']);
+  });
+
+  it('should not reply to a comment on another task', async () => {
+    const other = Task.create(TaskTitle.create('Other task'), TaskPriority.low());
+    taskRepository.addTask(other);
+    const elsewhere = await useCase.execute(other.id.toString(), 'Elsewhere', authorId);
+
+    await expect(
+      useCase.execute(task.id.toString(), 'Reply', authorId, elsewhere.id)
+    ).rejects.toThrow('Comment not found');
+  });
+
+  it('should throw error when task not found', async () => {
+    await expect(
+      useCase.execute(TaskId.create().toString(), 'Hello', authorId)
+    ).rejects.toThrow('Task not found');
+  });
+
+  it('should mention users added by an edit', async () => {
+    const comment = await useCase.execute(task.id.toString(), 'Needs a reviewer', authorId);
+    eventPublisher.publishedEvents = [];
+
+    await new EditCommentUseCase(commentRepository, userRepository, dispatcher)
+      .execute(comment.id, 'Needs a reviewer, @user-456?', authorId);
+
+    expect(eventPublisher.publishedEvents.map(e => e.eventType))
+      .toEqual(['TaskCommentEdited', 'UserMentioned']);
+    expect(comment.body.toString()).toBe('Needs a reviewer, @user-456?');
+  });
+});
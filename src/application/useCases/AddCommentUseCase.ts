@@ -0,0 +1,54 @@
+import { TaskComment } from '../../domain/entities/TaskComment';
+import { TaskId } from '../../domain/valueObjects/TaskId';
+import { UserId } from '../../domain/valueObjects/UserId';
+import { CommentBody } from '../../domain/valueObjects/CommentBody';
+import { ITaskRepository } from '../../domain/repositories/ITaskRepository';
+import { ITaskCommentRepository } from '../../domain/repositories/ITaskCommentRepository';
+import { IUserRepository } from '../../domain/repositories/IUserRepository';
+import { OutboxDispatcher } from '../services/OutboxDispatcher';
+
+export class AddCommentUseCase {
+  constructor(
+    private taskRepository: ITaskRepository,
+    private commentRepository: ITaskCommentRepository,
+    private userRepository: IUserRepository,
+    private dispatcher: OutboxDispatcher
+  ) {}
+
+  /**
+   * @param parentId the comment being replied to, if any
+   */
+  async execute(
+    taskId: string,
+    body: string,
+    authorId: string,
+    parentId?: string
+  ): Promise<TaskComment> {
+    const id = TaskId.fromString(taskId);
+    const author = UserId.create(authorId);
+    const commentBody = CommentBody.create(body);
+
+    const task = await this.taskRepository.findById(id);
+
+    if (!task) {
+      throw new Error('Task not found');
+    }
+
+    const mentionable = (await this.userRepository.findAll()).map(user => user.id);
+    let comment: TaskComment;
+
+    if (parentId) {
+      const parent = await this.commentRepository.findById(parentId);
+      if (!parent || !parent.taskId.equals(id)) {
+        throw new Error('Comment not found');
+      }
+      comment = parent.reply(author, commentBody, mentionable);
+    } else {
+      comment = TaskComment.create(id, author, commentBody, mentionable);
+    }
+
+    await this.dispatcher.commitWith(comment.pullDomainEvents(), () => this.commentRepository.save(comment));
+
+    return comment;
+  }
+}
@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { AddTaskDependencyUseCase } from './AddTaskDependencyUseCase';
+import { RemoveTaskDependencyUseCase } from './RemoveTaskDependencyUseCase';
+import { UnitOfWork } from '../services/UnitOfWork';
+import { OutboxDispatcher } from '../services/OutboxDispatcher';
+import { InMemoryEventOutbox } from '../../infrastructure/events/InMemoryEventOutbox';
+import { FakeClock } from '../../infrastructure/scheduling/FakeClock';
+import { Task } from '../../domain/entities/Task';
+import { TaskTitle } from '../../domain/valueObjects/TaskTitle';
+import { DependencyType } from '../../domain/valueObjects/TaskDependency';
+import { CircularDependencyException } from '../../domain/exceptions/TaskExceptions';
+import { MockTaskRepository, MockEventPublisher } from '../../test/mocks';
+
+describe('AddTaskDependencyUseCase', () => {
+  let addUseCase: AddTaskDependencyUseCase;
+  let removeUseCase: RemoveTaskDependencyUseCase;
+  let taskRepository: MockTaskRepository;
+
+  const createTask = async (title: string): Promise<Task> => {
+    const task = Task.create(TaskTitle.create(title));
+    await taskRepository.save(task);
+    return task;
+  };
+
+  beforeEach(() => {
+    taskRepository = new MockTaskRepository();
+    const eventPublisher = new MockEventPublisher();
+    const dispatcher = new OutboxDispatcher(new InMemoryEventOutbox(), eventPublisher, taskRepository, new FakeClock());
+    addUseCase = new AddTaskDependencyUseCase(taskRepository, new UnitOfWork(taskRepository, dispatcher));
+    removeUseCase = new RemoveTaskDependencyUseCase(taskRepository, new UnitOfWork(taskRepository, dispatcher));
+  });
+
+  describe('execute', () => {
+    it('should add mirrored BLOCKED_BY and BLOCKS edges', async () => {
+      const task = await createTask('Deploy');
+      const blocker = await createTask('Build');
+
+      await addUseCase.execute(task.id.toString(), blocker.id.toString());
+
+      expect(task.dependencies.map(d => d.toJSON())).toEqual([
+        { dependentTaskId: blocker.id.toString(), type: DependencyType.BLOCKED_BY },
+      ]);
+      expect(blocker.dependencies.map(d => d.toJSON())).toEqual([
+        { dependentTaskId: task.id.toString(), type: DependencyType.BLOCKS },
+      ]);
+    });
+
+    it('should reject a direct cycle', async () => {
+      const a = await createTask('A');
+      const b = await createTask('B');
+      await addUseCase.execute(a.id.toString(), b.id.toString());
+
+      await expect(
+        addUseCase.execute(b.id.toString(), a.id.toString())
+      ).rejects.toBeInstanceOf(CircularDependencyException);
+    });
+
+    it('should reject a transitive cycle', async () => {
+      const a = await createTask('A');
+      const b = await createTask('B');
+      const c = await createTask('C');
+      await addUseCase.execute(a.id.toString(), b.id.toString());
+      await addUseCase.execute(b.id.toString(), c.id.toString());
+
+      await expect(
+        addUseCase.execute(c.id.toString(), a.id.toString())
+      ).rejects.toThrow('Cannot add dependency: it would create a circular dependency');
+      expect(c.dependencies).toHaveLength(1);
+    });
+
+    it('should allow two tasks to share the same blocker', async () => {
+      const shared = await createTask('Shared blocker');
+      const a = await createTask('A');
+      const b = await createTask('B');
+      await addUseCase.execute(a.id.toString(), shared.id.toString());
+
+      await expect(
+        addUseCase.execute(b.id.toString(), shared.id.toString())
+      ).resolves.toBeUndefined();
+      expect(shared.dependencies).toHaveLength(2);
+    });
+
+    it('should reject a task depending on itself', async () => {
+      const task = await createTask('Self');
+
+      await expect(
+        addUseCase.execute(task.id.toString(), task.id.toString())
+      ).rejects.toThrow(CircularDependencyException);
+    });
+
+    it('should throw error when blocking task is not found', async () => {
+      const task = await createTask('Task');
+
+      await expect(
+        addUseCase.execute(task.id.toString(), 'missing-task')
+      ).rejects.toThrow('Blocking task not found');
+    });
+  });
+
+  describe('RemoveTaskDependencyUseCase', () => {
+    it('should remove the edges from both tasks', async () => {
+      const task = await createTask('Deploy');
+      const blocker = await createTask('Build');
+      await addUseCase.execute(task.id.toString(), blocker.id.toString());
+
+      await removeUseCase.execute(task.id.toString(), blocker.id.toString());
+
+      expect(task.dependencies).toHaveLength(0);
+      expect(blocker.dependencies).toHaveLength(0);
+    });
+
+    it('should still remove the edge when the blocker no longer exists', async () => {
+      const task = await createTask('Deploy');
+      const blocker = await createTask('Build');
+      await addUseCase.execute(task.id.toString(), blocker.id.toString());
+      await taskRepository.delete(blocker.id);
+
+      await removeUseCase.execute(task.id.toString(), blocker.id.toString());
+
+      expect(task.dependencies).toHaveLength(0);
+    });
+  });
+});
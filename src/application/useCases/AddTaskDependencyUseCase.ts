@@ -0,0 +1,42 @@
+import { TaskId } from '../../domain/valueObjects/TaskId';
+import { TaskDependency } from '../../domain/valueObjects/TaskDependency';
+import { ITaskRepository } from '../../domain/repositories/ITaskRepository';
+import { TaskDependencyService } from '../../domain/services/TaskDependencyService';
+import { CircularDependencyException } from '../../domain/exceptions/TaskExceptions';
+import { UnitOfWork } from '../services/UnitOfWork';
+
+export class AddTaskDependencyUseCase {
+  constructor(
+    private taskRepository: ITaskRepository,
+    private unitOfWork: UnitOfWork
+  ) {}
+
+  async execute(taskId: string, blockedByTaskId: string): Promise<void> {
+    const id = TaskId.fromString(taskId);
+    const blockerId = TaskId.fromString(blockedByTaskId);
+
+    const task = await this.taskRepository.findById(id);
+    if (!task) {
+      throw new Error('Task not found');
+    }
+
+    const blocker = await this.taskRepository.findById(blockerId);
+    if (!blocker) {
+      throw new Error('Blocking task not found');
+    }
+
+    const dependency = TaskDependency.blockedBy(blocker.id);
+    const allTasks = await this.taskRepository.findAll();
+
+    if (TaskDependencyService.wouldCreateCircularDependency(task, dependency, allTasks)) {
+      throw new CircularDependencyException(task.id, blocker.id);
+    }
+
+    task.addDependency(dependency);
+    blocker.addDependency(TaskDependency.blocks(task.id));
+
+    this.unitOfWork.registerDirty(task);
+    this.unitOfWork.registerDirty(blocker);
+    await this.unitOfWork.commit();
+  }
+}
@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { AddTaskLabelUseCase } from './AddTaskLabelUseCase';
+import { RemoveTaskLabelUseCase } from './RemoveTaskLabelUseCase';
+import { DefineLabelUseCase } from './DefineLabelUseCase';
+import { DeleteLabelUseCase } from './DeleteLabelUseCase';
+import { GetLabelCatalogUseCase } from './GetLabelCatalogUseCase';
+import { UnitOfWork } from '../services/UnitOfWork';
+import { OutboxDispatcher } from '../services/OutboxDispatcher';
+import { InMemoryEventOutbox } from '../../infrastructure/events/InMemoryEventOutbox';
+import { FakeClock } from '../../infrastructure/scheduling/FakeClock';
+import { Task } from '../../domain/entities/Task';
+import { TaskTitle } from '../../domain/valueObjects/TaskTitle';
+import { TaskPriority } from '../../domain/valueObjects/TaskPriority';
+import { TaskLabelAddedEvent } from '../../domain/events/TaskLabelAddedEvent';
+import { ConcurrencyConflictError } from '../../domain/exceptions/TaskExceptions';
+import { MockTaskRepository, MockLabelCatalogRepository, MockEventPublisher } from '../../test/mocks';
+
+describe('AddTaskLabelUseCase', () => {
+  let useCase: AddTaskLabelUseCase;
+  let taskRepository: MockTaskRepository;
+  let labelRepository: MockLabelCatalogRepository;
+  let eventPublisher: MockEventPublisher;
+  let unitOfWork: UnitOfWork;
+  let task: Task;
+
+  const userId = 'user-123';
+
+  beforeEach(async () => {
+    taskRepository = new MockTaskRepository();
+    labelRepository = new MockLabelCatalogRepository();
+    eventPublisher = new MockEventPublisher();
+    const dispatcher = new OutboxDispatcher(new InMemoryEventOutbox(), eventPublisher, taskRepository, new FakeClock());
+    unitOfWork = new UnitOfWork(taskRepository, dispatcher);
+    useCase = new AddTaskLabelUseCase(taskRepository, unitOfWork, labelRepository);
+
+    await new DefineLabelUseCase(labelRepository).execute('Backend', '#2563eb');
+    task = Task.create(TaskTitle.create('Fix login'), TaskPriority.high());
+    taskRepository.addTask(task);
+  });
+
+  it('should add a catalog label under its catalog name', async () => {
+    await useCase.execute(task.id.toString(), 'backend', userId);
+
+    const saved = await taskRepository.findById(task.id);
+    expect(saved?.labels).toEqual(['Backend']);
+    expect(eventPublisher.publishedEvents[0]).toBeInstanceOf(TaskLabelAddedEvent);
+  });
+
+  it('should reject labels that are not in the catalog', async () => {
+    await expect(useCase.execute(task.id.toString(), 'Urgent', userId))
+      .rejects.toThrow('Label "Urgent" is not in the label catalog');
+    expect(eventPublisher.publishedEvents).toHaveLength(0);
+  });
+
+  it('should reject stale versions', async () => {
+    await expect(useCase.execute(task.id.toString(), 'Backend', userId, task.version + 1))
+      .rejects.toThrow(ConcurrencyConflictError);
+  });
+
+  it('should remove labels', async () => {
+    await useCase.execute(task.id.toString(), 'Backend', userId);
+
+    await new RemoveTaskLabelUseCase(taskRepository, unitOfWork).execute(task.id.toString(), 'Backend', userId);
+
+    expect((await taskRepository.findById(task.id))?.labels).toEqual([]);
+    expect(eventPublisher.publishedEvents.map(e => e.eventType)).toEqual(['TaskLabelAdded', 'TaskLabelRemoved']);
+  });
+
+  describe('label catalog', () => {
+    it('should recolor a label defined again', async () => {
+      await new DefineLabelUseCase(labelRepository).execute('backend', '#16a34a');
+
+      expect(await new GetLabelCatalogUseCase(labelRepository).execute())
+        .toEqual([{ name: 'backend', color: '#16a34a' }]);
+    });
+
+    it('should not delete a label tasks still use', async () => {
+      const deleteLabel = new DeleteLabelUseCase(labelRepository, taskRepository);
+      await useCase.execute(task.id.toString(), 'Backend', userId);
+
+      await expect(deleteLabel.execute('backend')).rejects.toThrow('Label "Backend" is still used by 1 task');
+
+      await new RemoveTaskLabelUseCase(taskRepository, unitOfWork).execute(task.id.toString(), 'Backend', userId);
+      await deleteLabel.execute('backend');
+      expect(await new GetLabelCatalogUseCase(labelRepository).execute()).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,50 @@
+import { TaskId } from '../../domain/valueObjects/TaskId';
+import { UserId } from '../../domain/valueObjects/UserId';
+import { LabelCatalog } from '../../domain/valueObjects/LabelCatalog';
+import { ITaskRepository } from '../../domain/repositories/ITaskRepository';
+import { ILabelCatalogRepository } from '../../domain/repositories/ILabelCatalogRepository';
+import { DEFAULT_WORKSPACE_ID } from '../../domain/repositories/IEscalationPolicyRepository';
+import { ConcurrencyConflictError } from '../../domain/exceptions/TaskExceptions';
+import { UnitOfWork } from '../services/UnitOfWork';
+import { PermissionPolicyProvider } from '../services/PermissionPolicyProvider';
+
+export class AddTaskLabelUseCase {
+  constructor(
+    private taskRepository: ITaskRepository,
+    private unitOfWork: UnitOfWork,
+    private labelRepository: ILabelCatalogRepository,
+    private permissions: PermissionPolicyProvider = new PermissionPolicyProvider()
+  ) {}
+
+  async execute(
+    taskId: string,
+    labelName: string,
+    userId: string,
+    expectedVersion?: number
+  ): Promise<void> {
+    const id = TaskId.fromString(taskId);
+    const user = UserId.create(userId);
+
+    const catalog = await this.labelRepository.findByWorkspace(DEFAULT_WORKSPACE_ID) ?? LabelCatalog.empty();
+    const label = catalog.find(labelName);
+
+    if (!label) {
+      throw new Error(`Label "${labelName}" is not in the label catalog`);
+    }
+
+    const task = await this.taskRepository.findById(id);
+
+    if (!task) {
+      throw new Error('Task not found');
+    }
+
+    if (expectedVersion !== undefined && task.version !== expectedVersion) {
+      throw new ConcurrencyConflictError(id, expectedVersion, task.version);
+    }
+
+    task.addLabel(label, user, await this.permissions.current());
+
+    this.unitOfWork.registerDirty(task);
+    await this.unitOfWork.commit();
+  }
+}
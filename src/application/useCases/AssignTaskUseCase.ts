@@ -1,15 +1,18 @@
 import { TaskId } from '../../domain/valueObjects/TaskId';
 import { UserId } from '../../domain/valueObjects/UserId';
 import { ITaskRepository } from '../../domain/repositories/ITaskRepository';
-import { DomainEventPublisher } from '../services/DomainEventPublisher';
+import { ConcurrencyConflictError } from '../../domain/exceptions/TaskExceptions';
+import { UnitOfWork } from '../services/UnitOfWork';
+import { PermissionPolicyProvider } from '../services/PermissionPolicyProvider';
 
 export class AssignTaskUseCase {
   constructor(
     private taskRepository: ITaskRepository,
-    private eventPublisher: DomainEventPublisher
+    private unitOfWork: UnitOfWork,
+    private permissions: PermissionPolicyProvider = new PermissionPolicyProvider()
   ) {}
 
-  async execute(taskId: string, assignedToUserId: string, assignedByUserId: string): Promise<void> {
+  async execute(taskId: string, assignedToUserId: string, assignedByUserId: string, expectedVersion?: number): Promise<void> {
     const id = TaskId.fromString(taskId);
     const assignedTo = UserId.create(assignedToUserId);
     const assignedBy = UserId.create(assignedByUserId);
@@ -20,13 +23,13 @@ export class AssignTaskUseCase {
       throw new Error('Task not found');
     }
 
-    task.assignTo(assignedTo, assignedBy);
+    if (expectedVersion !== undefined && task.version !== expectedVersion) {
+      throw new ConcurrencyConflictError(id, expectedVersion, task.version);
+    }
 
-    await this.taskRepository.save(task);
+    task.assignTo(assignedTo, assignedBy, await this.permissions.current());
 
-    const events = task.pullDomainEvents();
-    for (const event of events) {
-      await this.eventPublisher.publish(event);
-    }
+    this.unitOfWork.registerDirty(task);
+    await this.unitOfWork.commit();
   }
 }
@@ -0,0 +1,70 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ChangeTaskPriorityUseCase } from './ChangeTaskPriorityUseCase';
+import { UnitOfWork } from '../services/UnitOfWork';
+import { OutboxDispatcher } from '../services/OutboxDispatcher';
+import { InMemoryEventOutbox } from '../../infrastructure/events/InMemoryEventOutbox';
+import { FakeClock } from '../../infrastructure/scheduling/FakeClock';
+import { Task } from '../../domain/entities/Task';
+import { TaskTitle } from '../../domain/valueObjects/TaskTitle';
+import { TaskPriority } from '../../domain/valueObjects/TaskPriority';
+import { UserId } from '../../domain/valueObjects/UserId';
+import { TaskPriorityEscalatedEvent } from '../../domain/events/TaskPriorityEscalatedEvent';
+import { TaskPriorityLoweredEvent } from '../../domain/events/TaskPriorityLoweredEvent';
+import { ConcurrencyConflictError } from '../../domain/exceptions/TaskExceptions';
+import { MockTaskRepository, MockEventPublisher } from '../../test/mocks';
+
+describe('ChangeTaskPriorityUseCase', () => {
+  let useCase: ChangeTaskPriorityUseCase;
+  let taskRepository: MockTaskRepository;
+  let eventPublisher: MockEventPublisher;
+  let userId: UserId;
+
+  beforeEach(() => {
+    taskRepository = new MockTaskRepository();
+    eventPublisher = new MockEventPublisher();
+    const dispatcher = new OutboxDispatcher(new InMemoryEventOutbox(), eventPublisher, taskRepository, new FakeClock());
+    useCase = new ChangeTaskPriorityUseCase(taskRepository, new UnitOfWork(taskRepository, dispatcher));
+    userId = UserId.create('user-123');
+  });
+
+  describe('execute', () => {
+    it('should publish TaskPriorityEscalatedEvent when raising the priority', async () => {
+      const task = Task.create(TaskTitle.create('Test Task'), TaskPriority.medium());
+      taskRepository.addTask(task);
+
+      await useCase.execute(task.id.toString(), TaskPriority.critical(), userId.toString());
+
+      expect(task.priority.toString()).toBe('CRITICAL');
+      expect(eventPublisher.publishedEvents).toHaveLength(1);
+      expect(eventPublisher.publishedEvents[0]).toBeInstanceOf(TaskPriorityEscalatedEvent);
+    });
+
+    it('should publish TaskPriorityLoweredEvent when lowering the priority', async () => {
+      const task = Task.create(TaskTitle.create('Test Task'), TaskPriority.high());
+      taskRepository.addTask(task);
+
+      await useCase.execute(task.id.toString(), TaskPriority.low(), userId.toString());
+
+      expect(task.priority.toString()).toBe('LOW');
+      expect(eventPublisher.publishedEvents).toHaveLength(1);
+      expect(eventPublisher.publishedEvents[0]).toBeInstanceOf(TaskPriorityLoweredEvent);
+      expect(eventPublisher.publishedEvents[0]).toMatchObject({ changedBy: userId });
+    });
+
+    it('should throw error when task not found', async () => {
+      await expect(
+        useCase.execute('non-existent-id', TaskPriority.high(), userId.toString())
+      ).rejects.toThrow('Task not found');
+    });
+
+    it('should reject a stale version', async () => {
+      const task = Task.create(TaskTitle.create('Test Task'), TaskPriority.medium());
+      taskRepository.addTask(task);
+
+      await expect(
+        useCase.execute(task.id.toString(), TaskPriority.high(), userId.toString(), task.version + 1)
+      ).rejects.toThrow(ConcurrencyConflictError);
+      expect(task.priority.toString()).toBe('MEDIUM');
+    });
+  });
+});
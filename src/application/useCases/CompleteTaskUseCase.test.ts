@@ -0,0 +1,160 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { CompleteTaskUseCase } from './CompleteTaskUseCase';
+import { StartTaskUseCase } from './StartTaskUseCase';
+import { UnitOfWork } from '../services/UnitOfWork';
+import { OutboxDispatcher } from '../services/OutboxDispatcher';
+import { InMemoryEventOutbox } from '../../infrastructure/events/InMemoryEventOutbox';
+import { FakeClock } from '../../infrastructure/scheduling/FakeClock';
+import { Task } from '../../domain/entities/Task';
+import { TaskTitle } from '../../domain/valueObjects/TaskTitle';
+import { TaskPriority } from '../../domain/valueObjects/TaskPriority';
+import { TaskDependency } from '../../domain/valueObjects/TaskDependency';
+import { UserId } from '../../domain/valueObjects/UserId';
+import { TaskCompletedEvent } from '../../domain/events/TaskCompletedEvent';
+import { ConcurrencyConflictError, TaskBlockedByDependenciesException } from '../../domain/exceptions/TaskExceptions';
+import { TaskDependencyService } from '../../domain/services/TaskDependencyService';
+import { MockTaskRepository, MockEventPublisher } from '../../test/mocks';
+
+describe('CompleteTaskUseCase', () => {
+  let useCase: CompleteTaskUseCase;
+  let taskRepository: MockTaskRepository;
+  let eventPublisher: MockEventPublisher;
+  let unitOfWork: UnitOfWork;
+  let clock: FakeClock;
+  let userId: UserId;
+
+  const createTask = (title: string): Task => {
+    const task = Task.create(TaskTitle.create(title), TaskPriority.medium());
+    task.assignTo(userId, userId);
+    task.pullDomainEvents();
+    taskRepository.addTask(task);
+    return task;
+  };
+
+  const blockTask = (task: Task, blocker: Task): void => {
+    task.addDependency(TaskDependency.blockedBy(blocker.id));
+    blocker.addDependency(TaskDependency.blocks(task.id));
+  };
+
+  beforeEach(() => {
+    taskRepository = new MockTaskRepository();
+    eventPublisher = new MockEventPublisher();
+    clock = new FakeClock(new Date('2026-01-05T09:00:00Z'));
+    unitOfWork = new UnitOfWork(
+      taskRepository,
+      new OutboxDispatcher(new InMemoryEventOutbox(), eventPublisher, taskRepository, clock)
+    );
+    useCase = new CompleteTaskUseCase(taskRepository, unitOfWork, clock);
+    userId = UserId.create('user-123');
+  });
+
+  describe('execute', () => {
+    it('should log the time worked from start to completion on the clock', async () => {
+      const task = createTask('Timed Task');
+      const startUseCase = new StartTaskUseCase(taskRepository, unitOfWork, clock);
+      await startUseCase.execute(task.id.toString(), userId.toString());
+      clock.advanceBy(90 * 60 * 1000);
+
+      await useCase.execute(task.id.toString(), userId.toString());
+
+      expect(task.completedAt).toEqual(clock.now());
+      expect(task.workLog.map(entry => entry.durationMs)).toEqual([90 * 60 * 1000]);
+    });
+
+    it('should complete a task without dependencies', async () => {
+      const task = createTask('Independent Task');
+
+      await useCase.execute(task.id.toString(), userId.toString());
+
+      expect(task.status.isDone()).toBe(true);
+      expect(eventPublisher.publishedEvents[0]).toBeInstanceOf(TaskCompletedEvent);
+    });
+
+    it('should reject completion while a blocking task is open', async () => {
+      const blocker = createTask('Blocker');
+      const task = createTask('Blocked Task');
+      blockTask(task, blocker);
+
+      const promise = useCase.execute(task.id.toString(), userId.toString());
+
+      await expect(promise).rejects.toBeInstanceOf(TaskBlockedByDependenciesException);
+      await expect(promise).rejects.toThrow('Task is blocked by open dependencies: "Blocker"');
+      expect(task.status.isDone()).toBe(false);
+      expect(eventPublisher.publishedEvents).toHaveLength(0);
+    });
+
+    it('should list every open blocking task on the error', async () => {
+      const blockerA = createTask('Blocker A');
+      const blockerB = createTask('Blocker B');
+      const task = createTask('Blocked Task');
+      blockTask(task, blockerA);
+      blockTask(task, blockerB);
+
+      try {
+        await useCase.execute(task.id.toString(), userId.toString());
+        expect.fail('Expected completion to be rejected');
+      } catch (error) {
+        expect((error as TaskBlockedByDependenciesException).blockingTasks).toEqual([
+          { id: blockerA.id.toString(), title: 'Blocker A' },
+          { id: blockerB.id.toString(), title: 'Blocker B' },
+        ]);
+      }
+    });
+
+    it('should complete a task whose blockers are already done', async () => {
+      const blocker = createTask('Blocker');
+      const task = createTask('Blocked Task');
+      blockTask(task, blocker);
+      blocker.complete(userId);
+
+      await useCase.execute(task.id.toString(), userId.toString());
+
+      expect(task.status.isDone()).toBe(true);
+      expect(task.getBlockingDependencies()).toHaveLength(1);
+      expect(task.hasBlockingDependencies(TaskDependencyService.openBlockerIds([blocker, task]))).toBe(false);
+    });
+
+    it('should throw error when task is not found', async () => {
+      await expect(
+        useCase.execute('non-existent-id', userId.toString())
+      ).rejects.toThrow('Task not found');
+    });
+
+    it('should reject completion when the task changed since it was read', async () => {
+      const task = createTask('Edited Elsewhere');
+      task.incrementVersion();
+
+      const promise = useCase.execute(task.id.toString(), userId.toString(), 0);
+
+      await expect(promise).rejects.toBeInstanceOf(ConcurrencyConflictError);
+      expect(task.status.isDone()).toBe(false);
+      expect(eventPublisher.publishedEvents).toHaveLength(0);
+    });
+  });
+
+  describe('StartTaskUseCase', () => {
+    it('should reject starting a task while a blocking task is open', async () => {
+      const startUseCase = new StartTaskUseCase(taskRepository, unitOfWork, clock);
+      const blocker = createTask('Blocker');
+      const task = createTask('Blocked Task');
+      blockTask(task, blocker);
+
+      await expect(
+        startUseCase.execute(task.id.toString(), userId.toString())
+      ).rejects.toBeInstanceOf(TaskBlockedByDependenciesException);
+      expect(task.status.isTodo()).toBe(true);
+    });
+
+    it('should start a task once its blockers are done', async () => {
+      const startUseCase = new StartTaskUseCase(taskRepository, unitOfWork, clock);
+      const blocker = createTask('Blocker');
+      const task = createTask('Blocked Task');
+      blockTask(task, blocker);
+      blocker.complete(userId);
+
+      await startUseCase.execute(task.id.toString(), userId.toString());
+
+      expect(task.status.toString()).toBe('IN_PROGRESS');
+    });
+  });
+});
@@ -1,15 +1,23 @@
 import { TaskId } from '../../domain/valueObjects/TaskId';
 import { UserId } from '../../domain/valueObjects/UserId';
 import { ITaskRepository } from '../../domain/repositories/ITaskRepository';
-import { DomainEventPublisher } from '../services/DomainEventPublisher';
+import { ConcurrencyConflictError } from '../../domain/exceptions/TaskExceptions';
+import { TaskDependencyService } from '../../domain/services/TaskDependencyService';
+import { UnitOfWork } from '../services/UnitOfWork';
+import { IClock } from '../services/IClock';
+import { PermissionPolicyProvider } from '../services/PermissionPolicyProvider';
+import { TaskWorkflowProvider } from '../services/TaskWorkflowProvider';
 
 export class CompleteTaskUseCase {
   constructor(
     private taskRepository: ITaskRepository,
-    private eventPublisher: DomainEventPublisher
+    private unitOfWork: UnitOfWork,
+    private clock: IClock,
+    private permissions: PermissionPolicyProvider = new PermissionPolicyProvider(),
+    private workflows: TaskWorkflowProvider = new TaskWorkflowProvider()
   ) {}
 
-  async execute(taskId: string, userId: string): Promise<void> {
+  async execute(taskId: string, userId: string, expectedVersion?: number): Promise<void> {
     const id = TaskId.fromString(taskId);
     const user = UserId.create(userId);
     
@@ -18,14 +26,23 @@ export class CompleteTaskUseCase {
     if (!task) {
       throw new Error('Task not found');
     }
+
+    if (expectedVersion !== undefined && task.version !== expectedVersion) {
+      throw new ConcurrencyConflictError(id, expectedVersion, task.version);
+    }
+
+    const allTasks = await this.taskRepository.findAll();
+    TaskDependencyService.ensureNotBlocked(task, allTasks);
     
-    task.complete(user);
-    
-    await this.taskRepository.save(task);
+    task.complete(
+      user,
+      await this.permissions.current(),
+      await this.workflows.current(),
+      TaskDependencyService.openBlockerIds(allTasks),
+      this.clock.now()
+    );
     
-    const events = task.pullDomainEvents();
-    for (const event of events) {
-      await this.eventPublisher.publish(event);
-    }
+    this.unitOfWork.registerDirty(task);
+    await this.unitOfWork.commit();
   }
 }
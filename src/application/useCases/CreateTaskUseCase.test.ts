@@ -3,6 +3,10 @@ import { CreateTaskUseCase } from './CreateTaskUseCase';
 import { TaskPriority } from '../../domain/valueObjects/TaskPriority';
 import { ITaskRepository } from '../../domain/repositories/ITaskRepository';
 import { DomainEventPublisher } from '../services/DomainEventPublisher';
+import { UnitOfWork } from '../services/UnitOfWork';
+import { OutboxDispatcher } from '../services/OutboxDispatcher';
+import { InMemoryEventOutbox } from '../../infrastructure/events/InMemoryEventOutbox';
+import { FakeClock } from '../../infrastructure/scheduling/FakeClock';
 import { Task } from '../../domain/entities/Task';
 
 // Mock implementations
@@ -13,6 +17,12 @@ class MockTaskRepository implements ITaskRepository {
     this.tasks.push(task);
   }
 
+  async saveAll(tasks: Task[]): Promise<void> {
+    for (const task of tasks) {
+      await this.save(task);
+    }
+  }
+
   async findById(id: string): Promise<Task | null> {
     return this.tasks.find(t => t.id.toString() === id) ?? null;
   }
@@ -34,7 +44,7 @@ class MockTaskRepository implements ITaskRepository {
 class MockEventPublisher extends DomainEventPublisher {
   publishedEvents: any[] = [];
 
-  async publish(event: any): Promise<void> {
+  async deliver(event: any): Promise<void> {
     this.publishedEvents.push(event);
   }
 }
@@ -47,7 +57,8 @@ describe('CreateTaskUseCase', () => {
   beforeEach(() => {
     taskRepository = new MockTaskRepository();
     eventPublisher = new MockEventPublisher();
-    useCase = new CreateTaskUseCase(taskRepository, eventPublisher);
+    const dispatcher = new OutboxDispatcher(new InMemoryEventOutbox(), eventPublisher, taskRepository, new FakeClock());
+    useCase = new CreateTaskUseCase(new UnitOfWork(taskRepository, dispatcher));
   });
 
   describe('execute', () => {
@@ -1,29 +1,23 @@
 import { Task } from '../../domain/entities/Task';
 import { TaskTitle } from '../../domain/valueObjects/TaskTitle';
 import { TaskPriority } from '../../domain/valueObjects/TaskPriority';
-import { ITaskRepository } from '../../domain/repositories/ITaskRepository';
-import { DomainEventPublisher } from '../services/DomainEventPublisher';
+import { TaskRecurrence } from '../../domain/valueObjects/TaskRecurrence';
+import { UnitOfWork } from '../services/UnitOfWork';
 
 export class CreateTaskUseCase {
-  constructor(
-    private taskRepository: ITaskRepository,
-    private eventPublisher: DomainEventPublisher
-  ) {}
+  constructor(private unitOfWork: UnitOfWork) {}
 
   async execute(
     title: string,
     priority: TaskPriority = TaskPriority.medium(),
-    dueDate?: Date
+    dueDate?: Date,
+    recurrence?: TaskRecurrence
   ): Promise<Task> {
     const taskTitle = TaskTitle.create(title);
-    const task = Task.create(taskTitle, priority, dueDate);
+    const task = Task.create(taskTitle, priority, dueDate, recurrence);
     
-    await this.taskRepository.save(task);
-    
-    const events = task.pullDomainEvents();
-    for (const event of events) {
-      await this.eventPublisher.publish(event);
-    }
+    this.unitOfWork.registerDirty(task);
+    await this.unitOfWork.commit();
     
     return task;
   }
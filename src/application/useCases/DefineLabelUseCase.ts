@@ -0,0 +1,23 @@
+import { LabelCatalog } from '../../domain/valueObjects/LabelCatalog';
+import { TaskLabel } from '../../domain/valueObjects/TaskLabel';
+import { ILabelCatalogRepository } from '../../domain/repositories/ILabelCatalogRepository';
+import { DEFAULT_WORKSPACE_ID } from '../../domain/repositories/IEscalationPolicyRepository';
+
+/**
+ * Adds a label to the catalog, or recolors the existing one of that name.
+ */
+export class DefineLabelUseCase {
+  constructor(private labelRepository: ILabelCatalogRepository) {}
+
+  async execute(
+    name: string,
+    color?: string,
+    workspaceId: string = DEFAULT_WORKSPACE_ID
+  ): Promise<TaskLabel> {
+    const label = TaskLabel.create(name, color);
+    const catalog = await this.labelRepository.findByWorkspace(workspaceId) ?? LabelCatalog.empty();
+
+    await this.labelRepository.save(workspaceId, catalog.define(label));
+    return label;
+  }
+}
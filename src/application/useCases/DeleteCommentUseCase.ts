@@ -0,0 +1,26 @@
+import { UserId } from '../../domain/valueObjects/UserId';
+import { ITaskCommentRepository } from '../../domain/repositories/ITaskCommentRepository';
+import { OutboxDispatcher } from '../services/OutboxDispatcher';
+import { PermissionPolicyProvider } from '../services/PermissionPolicyProvider';
+
+export class DeleteCommentUseCase {
+  constructor(
+    private commentRepository: ITaskCommentRepository,
+    private dispatcher: OutboxDispatcher,
+    private permissions: PermissionPolicyProvider = new PermissionPolicyProvider()
+  ) {}
+
+  async execute(commentId: string, userId: string): Promise<void> {
+    const user = UserId.create(userId);
+
+    const comment = await this.commentRepository.findById(commentId);
+
+    if (!comment) {
+      throw new Error('Comment not found');
+    }
+
+    comment.delete(user, await this.permissions.current());
+
+    await this.dispatcher.commitWith(comment.pullDomainEvents(), () => this.commentRepository.save(comment));
+  }
+}
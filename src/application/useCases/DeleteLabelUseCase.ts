@@ -0,0 +1,29 @@
+import { LabelCatalog } from '../../domain/valueObjects/LabelCatalog';
+import { ILabelCatalogRepository } from '../../domain/repositories/ILabelCatalogRepository';
+import { ITaskRepository } from '../../domain/repositories/ITaskRepository';
+import { DEFAULT_WORKSPACE_ID } from '../../domain/repositories/IEscalationPolicyRepository';
+
+/**
+ * Removes a label from the catalog. It is refused while tasks still carry
+ * the label, rather than quietly stripping it from them.
+ */
+export class DeleteLabelUseCase {
+  constructor(
+    private labelRepository: ILabelCatalogRepository,
+    private taskRepository: ITaskRepository
+  ) {}
+
+  async execute(name: string, workspaceId: string = DEFAULT_WORKSPACE_ID): Promise<void> {
+    const catalog = await this.labelRepository.findByWorkspace(workspaceId) ?? LabelCatalog.empty();
+    const updated = catalog.remove(name);
+
+    const inUse = (await this.taskRepository.findAll()).filter(task => task.hasLabel(name)).length;
+    if (inUse > 0) {
+      throw new Error(
+        `Label "${catalog.find(name)!.getName()}" is still used by ${inUse} task${inUse === 1 ? '' : 's'}`
+      );
+    }
+
+    await this.labelRepository.save(workspaceId, updated);
+  }
+}
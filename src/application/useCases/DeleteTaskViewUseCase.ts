@@ -0,0 +1,20 @@
+import { UserId } from '../../domain/valueObjects/UserId';
+import { ISavedTaskViewRepository } from '../../domain/repositories/ISavedTaskViewRepository';
+
+export class DeleteTaskViewUseCase {
+  constructor(private viewRepository: ISavedTaskViewRepository) {}
+
+  async execute(viewId: string, userId: string): Promise<void> {
+    const view = await this.viewRepository.findById(viewId);
+
+    if (!view) {
+      throw new Error('View not found');
+    }
+
+    if (!view.ownerId.equals(UserId.create(userId))) {
+      throw new Error('Only the owner can delete this view');
+    }
+
+    await this.viewRepository.delete(viewId);
+  }
+}
@@ -0,0 +1,9 @@
+import { IDeadLetterStore } from '../services/IDeadLetterStore';
+
+export class DiscardDeadLetterUseCase {
+  constructor(private deadLetterStore: IDeadLetterStore) {}
+
+  async execute(deadLetterId: string): Promise<void> {
+    await this.deadLetterStore.remove(deadLetterId);
+  }
+}
@@ -0,0 +1,29 @@
+import { UserId } from '../../domain/valueObjects/UserId';
+import { CommentBody } from '../../domain/valueObjects/CommentBody';
+import { ITaskCommentRepository } from '../../domain/repositories/ITaskCommentRepository';
+import { IUserRepository } from '../../domain/repositories/IUserRepository';
+import { OutboxDispatcher } from '../services/OutboxDispatcher';
+
+export class EditCommentUseCase {
+  constructor(
+    private commentRepository: ITaskCommentRepository,
+    private userRepository: IUserRepository,
+    private dispatcher: OutboxDispatcher
+  ) {}
+
+  async execute(commentId: string, body: string, userId: string): Promise<void> {
+    const user = UserId.create(userId);
+    const commentBody = CommentBody.create(body);
+
+    const comment = await this.commentRepository.findById(commentId);
+
+    if (!comment) {
+      throw new Error('Comment not found');
+    }
+
+    const mentionable = (await this.userRepository.findAll()).map(u => u.id);
+    comment.edit(commentBody, user, mentionable);
+
+    await this.dispatcher.commitWith(comment.pullDomainEvents(), () => this.commentRepository.save(comment));
+  }
+}
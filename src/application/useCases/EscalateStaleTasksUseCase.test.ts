@@ -0,0 +1,157 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { EscalateStaleTasksUseCase } from './EscalateStaleTasksUseCase';
+import { PriorityEscalationJob } from '../services/PriorityEscalationJob';
+import { UnitOfWork } from '../services/UnitOfWork';
+import { OutboxDispatcher } from '../services/OutboxDispatcher';
+import { InMemoryEventOutbox } from '../../infrastructure/events/InMemoryEventOutbox';
+import { Task } from '../../domain/entities/Task';
+import { TaskTitle } from '../../domain/valueObjects/TaskTitle';
+import { TaskPriority, PriorityLevel } from '../../domain/valueObjects/TaskPriority';
+import { UserId } from '../../domain/valueObjects/UserId';
+import { TaskPriorityEscalatedEvent } from '../../domain/events/TaskPriorityEscalatedEvent';
+import { IEscalationPolicyRepository } from '../../domain/repositories/IEscalationPolicyRepository';
+import { EscalationPolicy } from '../../domain/valueObjects/EscalationPolicy';
+import { FakeClock } from '../../infrastructure/scheduling/FakeClock';
+import { FakeScheduler } from '../../infrastructure/scheduling/FakeScheduler';
+import { MockTaskRepository, MockEventPublisher } from '../../test/mocks';
+
+class MockEscalationPolicyRepository implements IEscalationPolicyRepository {
+  private policies: Map<string, EscalationPolicy> = new Map();
+
+  async findByWorkspace(workspaceId: string): Promise<EscalationPolicy | null> {
+    return this.policies.get(workspaceId) ?? null;
+  }
+
+  async save(workspaceId: string, policy: EscalationPolicy): Promise<void> {
+    this.policies.set(workspaceId, policy);
+  }
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('EscalateStaleTasksUseCase', () => {
+  let useCase: EscalateStaleTasksUseCase;
+  let taskRepository: MockTaskRepository;
+  let eventPublisher: MockEventPublisher;
+  let policyRepository: MockEscalationPolicyRepository;
+  let clock: FakeClock;
+
+  beforeEach(() => {
+    policyRepository = new MockEscalationPolicyRepository();
+    taskRepository = new MockTaskRepository();
+    eventPublisher = new MockEventPublisher();
+    clock = new FakeClock();
+    const dispatcher = new OutboxDispatcher(new InMemoryEventOutbox(), eventPublisher, taskRepository, clock);
+    useCase = new EscalateStaleTasksUseCase(
+      taskRepository,
+      new UnitOfWork(taskRepository, dispatcher),
+      clock,
+      policyRepository
+    );
+  });
+
+  describe('execute', () => {
+    it('should escalate tasks older than their priority threshold', async () => {
+      const task = Task.create(TaskTitle.create('Aging Task'), TaskPriority.medium());
+      taskRepository.addTask(task);
+      const save = vi.spyOn(taskRepository, 'save');
+      clock.advanceBy(15 * DAY_MS);
+
+      const escalated = await useCase.execute();
+
+      expect(escalated).toEqual([task]);
+      expect(task.priority.getLevel()).toBe(PriorityLevel.HIGH);
+      expect(save.mock.calls.map(([saved]) => saved.id)).toEqual([task.id]);
+      expect(eventPublisher.publishedEvents).toHaveLength(1);
+      expect(eventPublisher.publishedEvents[0]).toBeInstanceOf(TaskPriorityEscalatedEvent);
+    });
+
+    it('should leave fresh tasks untouched', async () => {
+      const task = Task.create(TaskTitle.create('Fresh Task'), TaskPriority.medium());
+      taskRepository.addTask(task);
+      const save = vi.spyOn(taskRepository, 'save');
+      clock.advanceBy(3 * DAY_MS);
+
+      const escalated = await useCase.execute();
+
+      expect(escalated).toHaveLength(0);
+      expect(save).not.toHaveBeenCalled();
+      expect(eventPublisher.publishedEvents).toHaveLength(0);
+    });
+
+    it('should apply the policy stored for the workspace', async () => {
+      await policyRepository.save(
+        'team-a',
+        EscalationPolicy.create({ thresholds: { low: 2, medium: 2, high: 2 } })
+      );
+      const task = Task.create(TaskTitle.create('Urgent Team Task'), TaskPriority.low());
+      taskRepository.addTask(task);
+      clock.advanceBy(3 * DAY_MS);
+
+      await useCase.execute('team-a');
+
+      expect(task.priority.getLevel()).toBe(PriorityLevel.MEDIUM);
+    });
+
+    it('should count from the last escalation rather than creation', async () => {
+      const task = Task.create(TaskTitle.create('Aging Task'), TaskPriority.medium());
+      taskRepository.addTask(task);
+      clock.advanceBy(15 * DAY_MS);
+      await useCase.execute();
+      expect(task.priority.getLevel()).toBe(PriorityLevel.HIGH);
+
+      clock.advanceBy(DAY_MS);
+      await useCase.execute();
+
+      expect(task.priority.getLevel()).toBe(PriorityLevel.HIGH);
+    });
+
+    it('should not escalate completed tasks', async () => {
+      const task = Task.create(TaskTitle.create('Done Task'), TaskPriority.low());
+      task.complete(UserId.create('user-123'));
+      task.pullDomainEvents();
+      taskRepository.addTask(task);
+      clock.advanceBy(60 * DAY_MS);
+
+      const escalated = await useCase.execute();
+
+      expect(escalated).toHaveLength(0);
+      expect(task.priority.getLevel()).toBe(PriorityLevel.LOW);
+    });
+  });
+
+  describe('PriorityEscalationJob', () => {
+    it('should sweep on every scheduled interval', async () => {
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      const scheduler = new FakeScheduler(clock);
+      const job = new PriorityEscalationJob(useCase, scheduler, DAY_MS);
+      const task = Task.create(TaskTitle.create('Aging Task'), TaskPriority.high());
+      taskRepository.addTask(task);
+
+      job.start();
+      await scheduler.advanceBy(7 * DAY_MS);
+      expect(task.priority.getLevel()).toBe(PriorityLevel.HIGH);
+
+      await scheduler.advanceBy(DAY_MS);
+      expect(task.priority.getLevel()).toBe(PriorityLevel.CRITICAL);
+      expect(eventPublisher.publishedEvents).toHaveLength(1);
+
+      vi.restoreAllMocks();
+    });
+
+    it('should stop sweeping once stopped', async () => {
+      const scheduler = new FakeScheduler(clock);
+      const job = new PriorityEscalationJob(useCase, scheduler, DAY_MS);
+      const task = Task.create(TaskTitle.create('Aging Task'), TaskPriority.medium());
+      taskRepository.addTask(task);
+
+      const stop = job.start();
+      stop();
+      await scheduler.advanceBy(30 * DAY_MS);
+
+      expect(job.isRunning).toBe(false);
+      expect(scheduler.pendingJobCount).toBe(0);
+      expect(task.priority.getLevel()).toBe(PriorityLevel.MEDIUM);
+    });
+  });
+});
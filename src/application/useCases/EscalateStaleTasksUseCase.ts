@@ -0,0 +1,38 @@
+import { Task } from '../../domain/entities/Task';
+import { ITaskRepository } from '../../domain/repositories/ITaskRepository';
+import {
+  IEscalationPolicyRepository,
+  DEFAULT_WORKSPACE_ID
+} from '../../domain/repositories/IEscalationPolicyRepository';
+import { EscalationPolicy } from '../../domain/valueObjects/EscalationPolicy';
+import { UnitOfWork } from '../services/UnitOfWork';
+import { IClock } from '../services/IClock';
+
+export class EscalateStaleTasksUseCase {
+  constructor(
+    private taskRepository: ITaskRepository,
+    private unitOfWork: UnitOfWork,
+    private clock: IClock,
+    private policyRepository: IEscalationPolicyRepository
+  ) {}
+
+  async execute(workspaceId: string = DEFAULT_WORKSPACE_ID): Promise<Task[]> {
+    const now = this.clock.now();
+    const policy =
+      (await this.policyRepository.findByWorkspace(workspaceId)) ?? EscalationPolicy.default();
+    const tasks = await this.taskRepository.findAll();
+    const escalated: Task[] = [];
+
+    for (const task of tasks) {
+      const previousPriority = task.priority;
+      task.checkAndEscalatePriority(policy, now);
+      if (task.priority === previousPriority) continue;
+
+      this.unitOfWork.registerDirty(task);
+      escalated.push(task);
+    }
+
+    await this.unitOfWork.commit();
+    return escalated;
+  }
+}
@@ -0,0 +1,192 @@
+import { Task } from '../../domain/entities/Task';
+import { ITaskRepository } from '../../domain/repositories/ITaskRepository';
+import { ILabelCatalogRepository } from '../../domain/repositories/ILabelCatalogRepository';
+import { DEFAULT_WORKSPACE_ID } from '../../domain/repositories/IEscalationPolicyRepository';
+import { LabelCatalog } from '../../domain/valueObjects/LabelCatalog';
+import { TaskLabel, TaskLabelJSON } from '../../domain/valueObjects/TaskLabel';
+import { PriorityLevel } from '../../domain/valueObjects/TaskPriority';
+import { IClock } from '../services/IClock';
+import { toCsv } from '../services/Csv';
+
+export type TaskExportFormat = 'json' | 'csv' | 'ics';
+
+export const TASK_EXPORT_FORMAT = 'ddd-task-management/tasks';
+/** Bump when the JSON shape changes, and teach the import the old one */
+export const TASK_EXPORT_VERSION = 1;
+
+export type ExportedTask = ReturnType<Task['toDTO']>;
+
+export interface TaskExportJSON {
+  format: typeof TASK_EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  /** Catalog entries of the labels the tasks use, so colors survive */
+  labels: TaskLabelJSON[];
+  tasks: ExportedTask[];
+}
+
+export interface TaskExportFile {
+  fileName: string;
+  mimeType: string;
+  content: string;
+}
+
+/**
+ * CSV columns. Lists inside a field are separated by semicolons and
+ * dependencies are written as TYPE:taskId.
+ */
+export const TASK_CSV_COLUMNS = [
+  'id',
+  'title',
+  'status',
+  'priority',
+  'assignee',
+  'dueDate',
+  'createdAt',
+  'completedAt',
+  'labels',
+  'estimate',
+  'dependencies'
+] as const;
+
+export const CSV_LIST_SEPARATOR = ';';
+
+export class ExportTasksUseCase {
+  constructor(
+    private taskRepository: ITaskRepository,
+    private labelRepository: ILabelCatalogRepository,
+    private clock: IClock
+  ) {}
+
+  async execute(format: TaskExportFormat): Promise<TaskExportFile> {
+    const tasks = await this.taskRepository.findAll();
+    const now = this.clock.now();
+    const fileName = `tasks-${now.toISOString().slice(0, 10)}.${format}`;
+
+    switch (format) {
+      case 'json':
+        return {
+          fileName,
+          mimeType: 'application/json',
+          content: JSON.stringify(await this.toJSON(tasks, now), null, 2)
+        };
+      case 'csv':
+        return { fileName, mimeType: 'text/csv', content: this.toCsv(tasks) };
+      case 'ics':
+        return { fileName, mimeType: 'text/calendar', content: this.toICalendar(tasks, now) };
+      default:
+        throw new Error(`Unsupported export format: ${format}`);
+    }
+  }
+
+  private async toJSON(tasks: Task[], now: Date): Promise<TaskExportJSON> {
+    const catalog = await this.labelRepository.findByWorkspace(DEFAULT_WORKSPACE_ID) ?? LabelCatalog.empty();
+    const used = tasks.flatMap(task => task.labels);
+
+    return {
+      format: TASK_EXPORT_FORMAT,
+      version: TASK_EXPORT_VERSION,
+      exportedAt: now.toISOString(),
+      labels: catalog.all()
+        .filter(label => used.some(name => TaskLabel.sameName(name, label.getName())))
+        .map(label => label.toJSON()),
+      tasks: tasks.map(task => task.toDTO())
+    };
+  }
+
+  private toCsv(tasks: Task[]): string {
+    const rows = tasks.map(task => {
+      const dto = task.toDTO();
+      const fields: Record<(typeof TASK_CSV_COLUMNS)[number], string> = {
+        id: dto.id,
+        title: dto.title,
+        status: dto.status,
+        priority: PriorityLevel[dto.priority.level],
+        assignee: dto.assignment?.assignedTo ?? '',
+        dueDate: dto.dueDate ?? '',
+        createdAt: dto.createdAt,
+        completedAt: dto.completedAt ?? '',
+        labels: dto.labels.join(CSV_LIST_SEPARATOR),
+        estimate: dto.estimate ? `${dto.estimate.value} ${dto.estimate.unit}` : '',
+        dependencies: dto.dependencies
+          .map(dep => `${dep.type}:${dep.dependentTaskId}`)
+          .join(CSV_LIST_SEPARATOR)
+      };
+      return TASK_CSV_COLUMNS.map(column => fields[column]);
+    });
+
+    return toCsv([[...TASK_CSV_COLUMNS], ...rows]);
+  }
+
+  /**
+   * One event per due date. SEQUENCE follows the task version, so
+   * subscribed calendars pick up a moved due date. The event has no DTEND:
+   * a due date is a moment, not a span.
+   */
+  private toICalendar(tasks: Task[], now: Date): string {
+    const lines = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//DDD Task Management//Tasks//EN',
+      'CALSCALE:GREGORIAN',
+      'X-WR-CALNAME:Task due dates'
+    ];
+
+    for (const task of tasks) {
+      if (!task.dueDate) continue;
+
+      lines.push(
+        'BEGIN:VEVENT',
+        `UID:${task.id.toString()}@ddd-task-management`,
+        `SEQUENCE:${task.version}`,
+        `DTSTAMP:${formatICalDate(now)}`,
+        `DTSTART:${formatICalDate(task.dueDate)}`,
+        `SUMMARY:${escapeICalText(task.title.toString())}`,
+        `DESCRIPTION:${escapeICalText(`Status: ${task.status.toString()}\nPriority: ${task.priority.toString()}`)}`
+      );
+      if (task.labels.length > 0) {
+        lines.push(`CATEGORIES:${task.labels.map(escapeICalText).join(',')}`);
+      }
+      if (task.status.isCancelled()) {
+        lines.push('STATUS:CANCELLED');
+      }
+      lines.push('END:VEVENT');
+    }
+
+    lines.push('END:VCALENDAR');
+    return lines.map(foldICalLine).join('\r\n') + '\r\n';
+  }
+}
+
+const formatICalDate = (date: Date): string =>
+  date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const escapeICalText = (text: string): string =>
+  text.replace(/[\\;,]/g, match => `\\${match}`).replace(/\r?\n/g, '\\n');
+
+const utf8Length = (char: string): number => {
+  const codePoint = char.codePointAt(0) ?? 0;
+  if (codePoint < 0x80) return 1;
+  if (codePoint < 0x800) return 2;
+  return codePoint < 0x10000 ? 3 : 4;
+};
+
+// Lines longer than 75 octets continue on the next line after a space,
+// which counts towards that line's 75. Characters are never split.
+const foldICalLine = (line: string): string => {
+  const parts: string[] = [];
+  let part = '';
+  let octets = 0;
+  for (const char of line) {
+    const length = utf8Length(char);
+    if (octets + length > (parts.length === 0 ? 75 : 74)) {
+      parts.push(part);
+      part = '';
+      octets = 0;
+    }
+    part += char;
+    octets += length;
+  }
+  parts.push(part);
+  return parts.join('\r\n ');
+};
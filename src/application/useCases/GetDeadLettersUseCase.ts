@@ -0,0 +1,31 @@
+import { IDeadLetterStore } from '../services/IDeadLetterStore';
+
+export interface DeadLetterSummary {
+  id: string;
+  eventType: string;
+  taskId?: string;
+  subscriptionName: string;
+  error: string;
+  attempts: number;
+  failedAt: Date;
+}
+
+export class GetDeadLettersUseCase {
+  constructor(private deadLetterStore: IDeadLetterStore) {}
+
+  async execute(): Promise<DeadLetterSummary[]> {
+    const deadLetters = await this.deadLetterStore.findAll();
+
+    return deadLetters
+      .sort((a, b) => b.failedAt.getTime() - a.failedAt.getTime())
+      .map(deadLetter => ({
+        id: deadLetter.id,
+        eventType: deadLetter.event.eventType,
+        taskId: 'taskId' in deadLetter.event ? String(deadLetter.event.taskId) : undefined,
+        subscriptionName: deadLetter.subscriptionName,
+        error: deadLetter.error,
+        attempts: deadLetter.attempts,
+        failedAt: deadLetter.failedAt
+      }));
+  }
+}
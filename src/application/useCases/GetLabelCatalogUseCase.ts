@@ -0,0 +1,15 @@
+import { LabelCatalog } from '../../domain/valueObjects/LabelCatalog';
+import { TaskLabelJSON } from '../../domain/valueObjects/TaskLabel';
+import { ILabelCatalogRepository } from '../../domain/repositories/ILabelCatalogRepository';
+import { DEFAULT_WORKSPACE_ID } from '../../domain/repositories/IEscalationPolicyRepository';
+
+export type LabelSummary = TaskLabelJSON;
+
+export class GetLabelCatalogUseCase {
+  constructor(private labelRepository: ILabelCatalogRepository) {}
+
+  async execute(workspaceId: string = DEFAULT_WORKSPACE_ID): Promise<LabelSummary[]> {
+    const catalog = await this.labelRepository.findByWorkspace(workspaceId) ?? LabelCatalog.empty();
+    return catalog.toJSON();
+  }
+}
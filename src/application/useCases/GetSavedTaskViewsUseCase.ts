@@ -0,0 +1,24 @@
+import { SavedTaskView, TaskViewCriteria } from '../../domain/entities/SavedTaskView';
+import { UserId } from '../../domain/valueObjects/UserId';
+import { ISavedTaskViewRepository } from '../../domain/repositories/ISavedTaskViewRepository';
+
+export interface SavedTaskViewSummary {
+  id: string;
+  name: string;
+  criteria: TaskViewCriteria;
+}
+
+export const toSavedTaskViewSummary = (view: SavedTaskView): SavedTaskViewSummary => ({
+  id: view.id,
+  name: view.name,
+  criteria: view.criteria
+});
+
+export class GetSavedTaskViewsUseCase {
+  constructor(private viewRepository: ISavedTaskViewRepository) {}
+
+  async execute(ownerId: string): Promise<SavedTaskViewSummary[]> {
+    const views = await this.viewRepository.findByOwner(UserId.create(ownerId));
+    return views.map(toSavedTaskViewSummary);
+  }
+}
@@ -0,0 +1,50 @@
+import { TaskComment } from '../../domain/entities/TaskComment';
+import { TaskId } from '../../domain/valueObjects/TaskId';
+import { ITaskCommentRepository } from '../../domain/repositories/ITaskCommentRepository';
+
+export interface TaskCommentSummary {
+  id: string;
+  authorId: string;
+  /** Empty for deleted comments */
+  body: string;
+  createdAt: Date;
+  editedAt?: Date;
+  deleted: boolean;
+}
+
+export interface CommentThread extends TaskCommentSummary {
+  replies: TaskCommentSummary[];
+}
+
+export class GetTaskCommentsUseCase {
+  constructor(private commentRepository: ITaskCommentRepository) {}
+
+  /**
+   * Top-level comments oldest first, each with its replies. Deleted
+   * comments stay as placeholders while they have replies.
+   */
+  async execute(taskId: string): Promise<CommentThread[]> {
+    const comments = await this.commentRepository.findByTaskId(TaskId.fromString(taskId));
+
+    return comments
+      .filter(comment => !comment.parentId)
+      .map(comment => ({
+        ...this.toSummary(comment),
+        replies: comments
+          .filter(reply => reply.parentId === comment.id && !reply.isDeleted())
+          .map(reply => this.toSummary(reply))
+      }))
+      .filter(thread => !thread.deleted || thread.replies.length > 0);
+  }
+
+  private toSummary(comment: TaskComment): TaskCommentSummary {
+    return {
+      id: comment.id,
+      authorId: comment.authorId.toString(),
+      body: comment.isDeleted() ? '' : comment.body.toString(),
+      createdAt: comment.createdAt,
+      editedAt: comment.editedAt,
+      deleted: comment.isDeleted()
+    };
+  }
+}
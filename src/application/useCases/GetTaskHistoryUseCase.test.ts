@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { GetTaskHistoryUseCase } from './GetTaskHistoryUseCase';
+import { InMemoryTaskEventStore } from '../../infrastructure/events/InMemoryTaskEventStore';
+import { TaskHistoryEventHandler } from '../eventHandlers/TaskHistoryEventHandler';
+import { TaskAssignedEvent } from '../../domain/events/TaskAssignedEvent';
+import { TaskCompletedEvent } from '../../domain/events/TaskCompletedEvent';
+import { TaskPriorityEscalatedEvent } from '../../domain/events/TaskPriorityEscalatedEvent';
+import { TaskReopenedEvent } from '../../domain/events/TaskReopenedEvent';
+import { TaskTitleChangedEvent } from '../../domain/events/TaskTitleChangedEvent';
+import { TaskDependencyAddedEvent } from '../../domain/events/TaskDependencyAddedEvent';
+import { TaskDependency } from '../../domain/valueObjects/TaskDependency';
+import { TaskId } from '../../domain/valueObjects/TaskId';
+import { UserId } from '../../domain/valueObjects/UserId';
+import { TaskPriority } from '../../domain/valueObjects/TaskPriority';
+
+describe('GetTaskHistoryUseCase', () => {
+  let eventStore: InMemoryTaskEventStore;
+  let handler: TaskHistoryEventHandler;
+  let useCase: GetTaskHistoryUseCase;
+  let taskId: TaskId;
+  let userId: UserId;
+
+  beforeEach(() => {
+    eventStore = new InMemoryTaskEventStore();
+    handler = new TaskHistoryEventHandler(eventStore);
+    useCase = new GetTaskHistoryUseCase(eventStore);
+    taskId = TaskId.create();
+    userId = UserId.create('user-123');
+  });
+
+  describe('execute', () => {
+    it('should return an empty history for a task without events', async () => {
+      const history = await useCase.execute(taskId.toString());
+
+      expect(history).toEqual([]);
+    });
+
+    it('should return recorded events in chronological order', async () => {
+      await handler.handle(
+        new TaskCompletedEvent(taskId, userId, new Date('2025-01-02T00:00:00Z'), { occurredAt: new Date('2025-01-02T00:00:00Z') })
+      );
+      await handler.handle(
+        new TaskAssignedEvent(taskId, userId, UserId.create('manager-456'), { occurredAt: new Date('2025-01-01T00:00:00Z') })
+      );
+
+      const history = await useCase.execute(taskId.toString());
+
+      expect(history.map(entry => entry.eventType)).toEqual(['TaskAssigned', 'TaskCompleted']);
+      expect(history[0].actorId).toBe('manager-456');
+      expect(history[0].description).toBe('Assigned to user-123 by manager-456');
+      expect(history[1].description).toBe('Completed by user-123');
+    });
+
+    it('should only return events of the requested task', async () => {
+      const otherTaskId = TaskId.create();
+
+      await handler.handle(new TaskReopenedEvent(taskId, userId, new Date()));
+      await handler.handle(new TaskReopenedEvent(otherTaskId, userId, new Date()));
+
+      const history = await useCase.execute(taskId.toString());
+
+      expect(history).toHaveLength(1);
+      expect(history[0].description).toBe('Reopened by user-123');
+    });
+
+    it('should describe priority escalations without an actor', async () => {
+      await handler.handle(
+        new TaskPriorityEscalatedEvent(taskId, TaskPriority.medium(), TaskPriority.high())
+      );
+
+      const history = await useCase.execute(taskId.toString());
+
+      expect(history[0].actorId).toBeUndefined();
+      expect(history[0].description).toBe('Priority escalated from MEDIUM to HIGH');
+    });
+
+    it('should describe title changes and dependency edits', async () => {
+      const blockerId = TaskId.fromString('blocker-1');
+      await handler.handle(
+        new TaskTitleChangedEvent(taskId, 'Draft', 'Final', userId, { occurredAt: new Date('2025-01-01T00:00:00Z') })
+      );
+      await handler.handle(
+        new TaskDependencyAddedEvent(taskId, TaskDependency.blockedBy(blockerId), { occurredAt: new Date('2025-01-02T00:00:00Z') })
+      );
+
+      const history = await useCase.execute(taskId.toString());
+
+      expect(history[0].actorId).toBe('user-123');
+      expect(history[0].description).toBe('Renamed from "Draft" to "Final"');
+      expect(history[1].description).toBe('Dependency added: blocked by blocker-1');
+    });
+  });
+});
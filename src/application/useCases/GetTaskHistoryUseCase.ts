@@ -0,0 +1,245 @@
+import { TaskId } from '../../domain/valueObjects/TaskId';
+import { ITaskEventStore } from '../../domain/repositories/ITaskEventStore';
+import { AnyTaskEvent } from '../../domain/events/TaskEventMap';
+import { TaskDependency, DependencyType } from '../../domain/valueObjects/TaskDependency';
+
+export interface TaskHistoryEntry {
+  eventType: string;
+  occurredAt: Date;
+  actorId?: string;
+  description: string;
+}
+
+const EXCERPT_LENGTH = 60;
+
+const excerpt = (text: string): string =>
+  text.length > EXCERPT_LENGTH ? `${text.slice(0, EXCERPT_LENGTH - 1)}…` : text;
+
+const formatDuration = (ms: number): string => {
+  const minutes = Math.max(1, Math.round(ms / 60000));
+  const hours = Math.floor(minutes / 60);
+  if (hours === 0) return `${minutes}m`;
+  return minutes % 60 === 0 ? `${hours}h` : `${hours}h ${minutes % 60}m`;
+};
+
+export class GetTaskHistoryUseCase {
+  constructor(private eventStore: ITaskEventStore) {}
+
+  async execute(taskId: string): Promise<TaskHistoryEntry[]> {
+    const id = TaskId.fromString(taskId);
+    const events = await this.eventStore.findByTaskId(id);
+
+    return events
+      .sort((a, b) => a.occurredAt.getTime() - b.occurredAt.getTime())
+      .map(event => this.toHistoryEntry(event));
+  }
+
+  private toHistoryEntry(event: AnyTaskEvent): TaskHistoryEntry {
+    const entry = { eventType: event.eventType, occurredAt: event.occurredAt };
+
+    switch (event.eventType) {
+      case 'TaskCompleted': {
+        return {
+          ...entry,
+          actorId: event.completedBy.toString(),
+          description: `Completed by ${event.completedBy.toString()}`
+        };
+      }
+      case 'TaskAssigned': {
+        return {
+          ...entry,
+          actorId: event.assignedBy.toString(),
+          description: `Assigned to ${event.assignedTo.toString()} by ${event.assignedBy.toString()}`
+        };
+      }
+      case 'TaskPriorityEscalated': {
+        return {
+          ...entry,
+          description: `Priority escalated from ${event.oldPriority.toString()} to ${event.newPriority.toString()}`
+        };
+      }
+      case 'TaskReopened': {
+        return {
+          ...entry,
+          actorId: event.reopenedBy.toString(),
+          description: `Reopened by ${event.reopenedBy.toString()}`
+        };
+      }
+      case 'TaskCreated': {
+        return {
+          ...entry,
+          description: `Created as "${event.title}" with ${event.priority.toString()} priority`
+        };
+      }
+      case 'TaskImported': {
+        return {
+          ...entry,
+          actorId: event.importedBy.toString(),
+          description: `Imported as "${event.title}" by ${event.importedBy.toString()}, ${event.status.toString()} with ${event.priority.toString()} priority`
+        };
+      }
+      case 'TaskTitleChanged': {
+        return {
+          ...entry,
+          actorId: event.changedBy.toString(),
+          description: `Renamed from "${event.oldTitle}" to "${event.newTitle}"`
+        };
+      }
+      case 'TaskUnassigned': {
+        return {
+          ...entry,
+          actorId: event.unassignedBy.toString(),
+          description: `Unassigned from ${event.previousAssignee.toString()} by ${event.unassignedBy.toString()}`
+        };
+      }
+      case 'TaskStarted': {
+        return {
+          ...entry,
+          actorId: event.startedBy.toString(),
+          description: `Started by ${event.startedBy.toString()}`
+        };
+      }
+      case 'TaskDependencyAdded': {
+        return {
+          ...entry,
+          description: `Dependency added: ${this.describeDependency(event.dependency)}`
+        };
+      }
+      case 'TaskDependencyRemoved': {
+        return {
+          ...entry,
+          description: `Dependency removed: ${this.describeDependency(event.dependency)}`
+        };
+      }
+      case 'TaskPriorityLowered': {
+        return {
+          ...entry,
+          actorId: event.changedBy.toString(),
+          description: `Priority lowered from ${event.oldPriority.toString()} to ${event.newPriority.toString()}`
+        };
+      }
+      case 'TaskChecklistItemAdded': {
+        return {
+          ...entry,
+          actorId: event.addedBy.toString(),
+          description: `Checklist item "${event.item.title}" added${event.item.required ? '' : ' (optional)'}`
+        };
+      }
+      case 'TaskChecklistItemToggled': {
+        return {
+          ...entry,
+          actorId: event.toggledBy.toString(),
+          description: `Checklist item "${event.itemTitle}" marked ${event.done ? 'done' : 'not done'}`
+        };
+      }
+      case 'TaskChecklistItemRemoved': {
+        return {
+          ...entry,
+          actorId: event.removedBy.toString(),
+          description: `Checklist item "${event.item.title}" removed`
+        };
+      }
+      case 'TaskLabelAdded': {
+        return {
+          ...entry,
+          actorId: event.addedBy.toString(),
+          description: `Label "${event.label}" added by ${event.addedBy.toString()}`
+        };
+      }
+      case 'TaskLabelRemoved': {
+        return {
+          ...entry,
+          actorId: event.removedBy.toString(),
+          description: `Label "${event.label}" removed by ${event.removedBy.toString()}`
+        };
+      }
+      case 'TaskEstimateChanged': {
+        return {
+          ...entry,
+          actorId: event.changedBy.toString(),
+          description: event.estimate
+            ? `Estimate set to ${event.estimate.toString()} by ${event.changedBy.toString()}`
+            : `Estimate cleared by ${event.changedBy.toString()}`
+        };
+      }
+      case 'TaskTimerStarted': {
+        return {
+          ...entry,
+          actorId: event.userId.toString(),
+          description: `Timer started by ${event.userId.toString()}`
+        };
+      }
+      case 'TaskWorkLogged': {
+        const { userId, durationMs, source, note } = event.entry;
+        const how = source === 'timer' ? ' with the timer' : '';
+        return {
+          ...entry,
+          actorId: userId.toString(),
+          description: `${formatDuration(durationMs)} logged by ${userId.toString()}${how}` +
+            (note ? `: ${excerpt(note)}` : '')
+        };
+      }
+      case 'TaskStatusChanged': {
+        return {
+          ...entry,
+          actorId: event.changedBy.toString(),
+          description: `Moved from ${event.oldStatus.toString()} to ${event.newStatus.toString()} by ${event.changedBy.toString()}`
+        };
+      }
+      case 'TaskCommentAdded': {
+        return {
+          ...entry,
+          actorId: event.authorId.toString(),
+          description: `${event.parentId ? 'Reply' : 'Comment'} by ${event.authorId.toString()}: "${excerpt(event.body)}"`
+        };
+      }
+      case 'TaskCommentEdited': {
+        return {
+          ...entry,
+          actorId: event.editedBy.toString(),
+          description: `Comment edited by ${event.editedBy.toString()}`
+        };
+      }
+      case 'TaskCommentDeleted': {
+        return {
+          ...entry,
+          actorId: event.deletedBy.toString(),
+          description: `Comment deleted by ${event.deletedBy.toString()}`
+        };
+      }
+      case 'UserMentioned': {
+        return {
+          ...entry,
+          actorId: event.mentionedBy.toString(),
+          description: `${event.mentionedUserId.toString()} mentioned by ${event.mentionedBy.toString()}`
+        };
+      }
+      case 'TaskDueSoon': {
+        return {
+          ...entry,
+          description: `Reminder sent: due ${event.dueDate.toLocaleString()}`
+        };
+      }
+      case 'TaskOverdue': {
+        return {
+          ...entry,
+          description: `Overdue reminder sent: was due ${event.dueDate.toLocaleString()}`
+        };
+      }
+      default:
+        return { ...entry, description: entry.eventType };
+    }
+  }
+
+  private describeDependency(dependency: TaskDependency): string {
+    const otherTaskId = dependency.getDependentTaskId().toString();
+    switch (dependency.getType()) {
+      case DependencyType.BLOCKED_BY:
+        return `blocked by ${otherTaskId}`;
+      case DependencyType.BLOCKS:
+        return `blocks ${otherTaskId}`;
+      default:
+        return `related to ${otherTaskId}`;
+    }
+  }
+}
@@ -0,0 +1,184 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { GetTaskInsightsUseCase } from './GetTaskInsightsUseCase';
+import { RebuildTaskAnalyticsUseCase } from './RebuildTaskAnalyticsUseCase';
+import { TaskAnalyticsProjectionHandler } from '../eventHandlers/TaskAnalyticsProjectionHandler';
+import { InMemoryTaskAnalyticsStore } from '../../infrastructure/events/InMemoryTaskAnalyticsStore';
+import { InMemoryTaskEventStore } from '../../infrastructure/events/InMemoryTaskEventStore';
+import { FakeClock } from '../../infrastructure/scheduling/FakeClock';
+import { TaskId } from '../../domain/valueObjects/TaskId';
+import { UserId } from '../../domain/valueObjects/UserId';
+import { TaskPriority } from '../../domain/valueObjects/TaskPriority';
+import { TaskStatus } from '../../domain/valueObjects/TaskStatus';
+import { TaskCreatedEvent } from '../../domain/events/TaskCreatedEvent';
+import { TaskImportedEvent } from '../../domain/events/TaskImportedEvent';
+import { TaskAssignedEvent } from '../../domain/events/TaskAssignedEvent';
+import { TaskStartedEvent } from '../../domain/events/TaskStartedEvent';
+import { TaskCompletedEvent } from '../../domain/events/TaskCompletedEvent';
+import { TaskReopenedEvent } from '../../domain/events/TaskReopenedEvent';
+import { TaskPriorityEscalatedEvent } from '../../domain/events/TaskPriorityEscalatedEvent';
+import { AnyTaskEvent } from '../../domain/events/TaskEventMap';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('GetTaskInsightsUseCase', () => {
+  let store: InMemoryTaskAnalyticsStore;
+  let projection: TaskAnalyticsProjectionHandler;
+  let useCase: GetTaskInsightsUseCase;
+
+  const alex = UserId.create('user-123');
+  const jordan = UserId.create('lead-1');
+  // March 2026, Monday the 2nd to Sunday the 8th
+  const at = (day: number, hour: number = 9) => ({ occurredAt: new Date(2026, 2, day, hour) });
+  const week = { from: new Date(2026, 2, 2), to: new Date(2026, 2, 8) };
+
+  const project = async (...events: AnyTaskEvent[]) => {
+    for (const event of events) {
+      await projection.handle(event);
+    }
+  };
+
+  const createdTask = (day: number, dueDate?: Date): [TaskId, TaskCreatedEvent] => {
+    const id = TaskId.create();
+    return [id, new TaskCreatedEvent(id, 'Task', TaskPriority.medium(), dueDate, at(day))];
+  };
+
+  beforeEach(() => {
+    store = new InMemoryTaskAnalyticsStore();
+    projection = new TaskAnalyticsProjectionHandler(store);
+    useCase = new GetTaskInsightsUseCase(store, new FakeClock(new Date(2026, 2, 8, 18)));
+  });
+
+  it('should count completions per day and average cycle and lead time', async () => {
+    const [first, firstCreated] = createdTask(2);
+    const [second, secondCreated] = createdTask(3);
+    await project(
+      firstCreated,
+      new TaskStartedEvent(first, alex, at(2, 13)),
+      new TaskCompletedEvent(first, alex, new Date(2026, 2, 2, 17), at(2, 17)),
+      secondCreated,
+      new TaskCompletedEvent(second, alex, new Date(2026, 2, 4, 9), at(4))
+    );
+
+    const insights = await useCase.execute(week);
+
+    expect(insights.throughput.map(day => day.completed)).toEqual([1, 0, 1, 0, 0, 0, 0]);
+    expect(insights.completedCount).toBe(2);
+    expect(insights.averageCycleTimeMs).toBe((8 * HOUR_MS + 24 * HOUR_MS) / 2);
+    expect(insights.averageLeadTimeMs).toBe(4 * HOUR_MS);
+  });
+
+  it('should work out the reopen rate and escalations within the range', async () => {
+    const [id, created] = createdTask(1);
+    await project(
+      created,
+      new TaskPriorityEscalatedEvent(id, TaskPriority.medium(), TaskPriority.high(), at(1)),
+      new TaskPriorityEscalatedEvent(id, TaskPriority.high(), TaskPriority.critical(), at(3)),
+      new TaskCompletedEvent(id, alex, new Date(2026, 2, 3, 10), at(3, 10)),
+      new TaskReopenedEvent(id, alex, new Date(2026, 2, 3, 11), at(3, 11)),
+      new TaskCompletedEvent(id, alex, new Date(2026, 2, 5, 10), at(5, 10))
+    );
+
+    const insights = await useCase.execute(week);
+
+    expect(insights.reopenRate).toBe(0.5);
+    expect(insights.escalationCount).toBe(1);
+  });
+
+  it('should count tasks that fell due without being completed in time as overdue', async () => {
+    const [onTime, onTimeCreated] = createdTask(1, new Date(2026, 2, 3, 17));
+    const [late, lateCreated] = createdTask(1, new Date(2026, 2, 4, 17));
+    const [, openCreated] = createdTask(1, new Date(2026, 2, 5, 17));
+    const [, notDueYetCreated] = createdTask(1, new Date(2026, 2, 8, 23));
+    await project(
+      onTimeCreated,
+      lateCreated,
+      openCreated,
+      notDueYetCreated,
+      new TaskCompletedEvent(onTime, alex, new Date(2026, 2, 3, 12), at(3, 12)),
+      new TaskCompletedEvent(late, alex, new Date(2026, 2, 6, 12), at(6, 12))
+    );
+
+    const insights = await useCase.execute(week);
+
+    expect(insights.overdueRatio).toBeCloseTo(2 / 3);
+  });
+
+  it('should show open, in progress and completed work per assignee', async () => {
+    const [doing, doingCreated] = createdTask(2);
+    const [waiting, waitingCreated] = createdTask(2);
+    const [done, doneCreated] = createdTask(2);
+    await project(
+      doingCreated,
+      waitingCreated,
+      doneCreated,
+      new TaskAssignedEvent(doing, alex, alex, at(2)),
+      new TaskStartedEvent(doing, alex, at(2, 10)),
+      new TaskAssignedEvent(waiting, alex, jordan, at(2)),
+      new TaskAssignedEvent(done, jordan, jordan, at(2)),
+      new TaskCompletedEvent(done, jordan, new Date(2026, 2, 3), at(3))
+    );
+
+    const insights = await useCase.execute(week);
+
+    expect(insights.workload).toEqual([
+      { assigneeId: 'user-123', open: 2, inProgress: 1, completed: 0 },
+      { assigneeId: 'lead-1', open: 0, inProgress: 0, completed: 1 },
+    ]);
+  });
+
+  it('should take imported tasks in the state they arrived in', async () => {
+    const imported = (status: TaskStatus, assignee?: UserId, completedAt?: Date) => new TaskImportedEvent(
+      TaskId.create(), 'Task', TaskPriority.medium(), status, assignee,
+      new Date(2026, 1, 20), completedAt, undefined, jordan, at(4)
+    );
+    await project(
+      imported(TaskStatus.done(), alex, new Date(2026, 2, 3)),
+      imported(TaskStatus.inProgress(), alex),
+      imported(TaskStatus.todo())
+    );
+
+    const insights = await useCase.execute(week);
+
+    expect(insights.completedCount).toBe(1);
+    expect(insights.workload).toEqual([{ assigneeId: 'user-123', open: 1, inProgress: 1, completed: 1 }]);
+  });
+
+  it('should not count an event delivered twice', async () => {
+    const [id, created] = createdTask(2);
+    const completed = new TaskCompletedEvent(id, alex, new Date(2026, 2, 3), at(3));
+
+    await project(created, completed, completed);
+
+    expect((await useCase.execute(week)).completedCount).toBe(1);
+  });
+
+  it('should rebuild the read model from the event store', async () => {
+    const eventStore = new InMemoryTaskEventStore();
+    const [id, created] = createdTask(2);
+    await eventStore.append(new TaskCompletedEvent(id, alex, new Date(2026, 2, 4), at(4)));
+    await eventStore.append(created);
+    await store.save({
+      taskId: 'stale',
+      status: 'DONE',
+      completions: [{ at: new Date(2026, 2, 4).toISOString(), by: 'user-123' }],
+      reopenedAt: [],
+      escalatedAt: [],
+      eventIds: []
+    });
+
+    await new RebuildTaskAnalyticsUseCase(eventStore, store).execute();
+
+    const insights = await useCase.execute(week);
+    expect(insights.completedCount).toBe(1);
+    expect(insights.averageCycleTimeMs).toBe(2 * 24 * HOUR_MS - 9 * HOUR_MS);
+  });
+
+  it('should default to the last two weeks and reject backwards ranges', async () => {
+    const insights = await useCase.execute();
+
+    expect(insights.throughput).toHaveLength(14);
+    expect(insights.to).toEqual(new Date(2026, 2, 8));
+    await expect(useCase.execute({ from: week.to, to: week.from }))
+      .rejects.toThrow('The start date must not be after the end date');
+  });
+});
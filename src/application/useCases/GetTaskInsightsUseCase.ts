@@ -0,0 +1,168 @@
+import { TaskStatusType } from '../../domain/valueObjects/TaskStatus';
+import { ITaskAnalyticsStore, TaskActivityRecord } from '../services/ITaskAnalyticsStore';
+import { IClock } from '../services/IClock';
+
+export interface InsightsRange {
+  /** First day of the range */
+  from: Date;
+  /** Last day of the range, included */
+  to: Date;
+}
+
+export interface DailyThroughput {
+  day: Date;
+  completed: number;
+}
+
+export interface AssigneeWorkload {
+  assigneeId: string;
+  open: number;
+  inProgress: number;
+  /** Completed by them within the range */
+  completed: number;
+}
+
+export interface TaskInsights {
+  from: Date;
+  to: Date;
+  throughput: DailyThroughput[];
+  completedCount: number;
+  /** Average time from creation to completion */
+  averageCycleTimeMs: number | null;
+  /** Average time from when work started to completion */
+  averageLeadTimeMs: number | null;
+  /** Reopens per completion */
+  reopenRate: number | null;
+  escalationCount: number;
+  /** Share of the tasks that fell due in the range which were not done in time */
+  overdueRatio: number | null;
+  workload: AssigneeWorkload[];
+}
+
+const DEFAULT_RANGE_DAYS = 14;
+const MAX_RANGE_DAYS = 366;
+
+const startOfDay = (date: Date): Date => {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day;
+};
+
+const addDays = (date: Date, days: number): Date => {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+};
+
+const average = (values: number[]): number | null =>
+  values.length === 0 ? null : values.reduce((sum, value) => sum + value, 0) / values.length;
+
+const CLOSED_STATUSES: string[] = [TaskStatusType.DONE, TaskStatusType.CANCELLED];
+
+export class GetTaskInsightsUseCase {
+  constructor(
+    private analyticsStore: ITaskAnalyticsStore,
+    private clock: IClock
+  ) {}
+
+  /**
+   * Productivity metrics for whole days, the last two weeks by default.
+   */
+  async execute(range?: InsightsRange): Promise<TaskInsights> {
+    const now = this.clock.now();
+    const from = startOfDay(range?.from ?? addDays(now, 1 - DEFAULT_RANGE_DAYS));
+    const to = startOfDay(range?.to ?? now);
+
+    if (from > to) {
+      throw new Error('The start date must not be after the end date');
+    }
+
+    const days: Date[] = [];
+    for (let day = from; day <= to; day = addDays(day, 1)) {
+      if (days.length === MAX_RANGE_DAYS) {
+        throw new Error(`The date range cannot be longer than ${MAX_RANGE_DAYS} days`);
+      }
+      days.push(day);
+    }
+
+    const end = addDays(to, 1);
+    const inRange = (iso: string) => {
+      const date = new Date(iso);
+      return date >= from && date < end;
+    };
+
+    const records = await this.analyticsStore.findAll();
+    const completions = records.flatMap(record =>
+      record.completions.filter(c => inRange(c.at)).map(completion => ({ record, completion }))
+    );
+
+    const completedPerDay = new Map<string, number>();
+    for (const { completion } of completions) {
+      const key = startOfDay(new Date(completion.at)).toDateString();
+      completedPerDay.set(key, (completedPerDay.get(key) ?? 0) + 1);
+    }
+
+    const cycleTimes = completions
+      .filter(({ record }) => record.createdAt)
+      .map(({ record, completion }) => Date.parse(completion.at) - Date.parse(record.createdAt!));
+    const leadTimes = completions
+      .filter(({ record, completion }) => record.startedAt && record.startedAt <= completion.at)
+      .map(({ record, completion }) => Date.parse(completion.at) - Date.parse(record.startedAt!));
+
+    const reopenCount = records.reduce((count, r) => count + r.reopenedAt.filter(inRange).length, 0);
+
+    return {
+      from,
+      to,
+      throughput: days.map(day => ({ day, completed: completedPerDay.get(day.toDateString()) ?? 0 })),
+      completedCount: completions.length,
+      averageCycleTimeMs: average(cycleTimes),
+      averageLeadTimeMs: average(leadTimes),
+      reopenRate: completions.length === 0 ? null : reopenCount / completions.length,
+      escalationCount: records.reduce((count, r) => count + r.escalatedAt.filter(inRange).length, 0),
+      overdueRatio: this.overdueRatio(records, inRange, now),
+      workload: this.workload(records, completions.map(({ completion }) => completion.by))
+    };
+  }
+
+  private overdueRatio(
+    records: TaskActivityRecord[],
+    inRange: (iso: string) => boolean,
+    now: Date
+  ): number | null {
+    // Tasks due later today may still be done in time, so leave them out
+    const due = records.filter(r => r.dueDate && inRange(r.dueDate) && new Date(r.dueDate) <= now);
+    if (due.length === 0) return null;
+
+    const late = due.filter(r => !r.completions.some(c => c.at <= r.dueDate!));
+    return late.length / due.length;
+  }
+
+  private workload(records: TaskActivityRecord[], completedBy: string[]): AssigneeWorkload[] {
+    const workloads = new Map<string, AssigneeWorkload>();
+    const workloadOf = (assigneeId: string) => {
+      const existing = workloads.get(assigneeId);
+      if (existing) return existing;
+
+      const created = { assigneeId, open: 0, inProgress: 0, completed: 0 };
+      workloads.set(assigneeId, created);
+      return created;
+    };
+
+    for (const record of records) {
+      if (!record.assigneeId || CLOSED_STATUSES.includes(record.status)) continue;
+
+      const workload = workloadOf(record.assigneeId);
+      workload.open++;
+      if (record.status === TaskStatusType.IN_PROGRESS) workload.inProgress++;
+    }
+
+    for (const userId of completedBy) {
+      workloadOf(userId).completed++;
+    }
+
+    return [...workloads.values()].sort((a, b) =>
+      b.open - a.open || a.assigneeId.localeCompare(b.assigneeId)
+    );
+  }
+}
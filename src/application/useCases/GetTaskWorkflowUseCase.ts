@@ -0,0 +1,10 @@
+import { TaskWorkflow } from '../../domain/valueObjects/TaskWorkflow';
+import { TaskWorkflowProvider } from '../services/TaskWorkflowProvider';
+
+export class GetTaskWorkflowUseCase {
+  constructor(private workflows: TaskWorkflowProvider) {}
+
+  async execute(): Promise<TaskWorkflow> {
+    return this.workflows.current();
+  }
+}
@@ -0,0 +1,52 @@
+import { ITaskRepository } from '../../domain/repositories/ITaskRepository';
+import { IClock } from '../services/IClock';
+
+export interface AssigneeTimeSummary {
+  assigneeId: string;
+  taskCount: number;
+  estimatedHours: number;
+  estimatedPoints: number;
+  loggedMs: number;
+}
+
+export class GetTimeTrackingSummaryUseCase {
+  constructor(
+    private taskRepository: ITaskRepository,
+    private clock: IClock
+  ) {}
+
+  /**
+   * Estimates and logged time rolled up per assignee. Logged time counts
+   * towards whoever the task is assigned to, whoever logged it.
+   */
+  async execute(): Promise<AssigneeTimeSummary[]> {
+    const now = this.clock.now();
+    const tasks = await this.taskRepository.findAll();
+    const summaries = new Map<string, AssigneeTimeSummary>();
+
+    for (const task of tasks) {
+      const assigneeId = task.assignment?.getAssignedTo().toString();
+      if (!assigneeId) continue;
+
+      const summary = summaries.get(assigneeId) ?? {
+        assigneeId,
+        taskCount: 0,
+        estimatedHours: 0,
+        estimatedPoints: 0,
+        loggedMs: 0
+      };
+
+      summary.taskCount++;
+      summary.loggedMs += task.getTrackedMs(now);
+      if (task.estimate?.getUnit() === 'hours') {
+        summary.estimatedHours += task.estimate.getValue();
+      } else if (task.estimate) {
+        summary.estimatedPoints += task.estimate.getValue();
+      }
+
+      summaries.set(assigneeId, summary);
+    }
+
+    return [...summaries.values()].sort((a, b) => a.assigneeId.localeCompare(b.assigneeId));
+  }
+}
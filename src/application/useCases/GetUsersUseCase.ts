@@ -0,0 +1,31 @@
+import { IUserRepository } from '../../domain/repositories/IUserRepository';
+import { ITeamRepository } from '../../domain/repositories/ITeamRepository';
+import { UserRole } from '../../domain/entities/User';
+
+export interface UserSummary {
+  id: string;
+  name: string;
+  role: UserRole;
+  teamNames: string[];
+}
+
+export class GetUsersUseCase {
+  constructor(
+    private userRepository: IUserRepository,
+    private teamRepository: ITeamRepository
+  ) {}
+
+  async execute(): Promise<UserSummary[]> {
+    const [users, teams] = await Promise.all([
+      this.userRepository.findAll(),
+      this.teamRepository.findAll()
+    ]);
+
+    return users.map(user => ({
+      id: user.id.toString(),
+      name: user.name,
+      role: user.role,
+      teamNames: teams.filter(team => team.hasMember(user.id)).map(team => team.name)
+    }));
+  }
+}
@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { GetWeeklyTimesheetUseCase } from './GetWeeklyTimesheetUseCase';
+import { GetTimeTrackingSummaryUseCase } from './GetTimeTrackingSummaryUseCase';
+import { StartTaskTimerUseCase } from './StartTaskTimerUseCase';
+import { StopTaskTimerUseCase } from './StopTaskTimerUseCase';
+import { LogWorkUseCase } from './LogWorkUseCase';
+import { SetTaskEstimateUseCase } from './SetTaskEstimateUseCase';
+import { UnitOfWork } from '../services/UnitOfWork';
+import { OutboxDispatcher } from '../services/OutboxDispatcher';
+import { InMemoryEventOutbox } from '../../infrastructure/events/InMemoryEventOutbox';
+import { FakeClock } from '../../infrastructure/scheduling/FakeClock';
+import { Task } from '../../domain/entities/Task';
+import { TaskTitle } from '../../domain/valueObjects/TaskTitle';
+import { TaskPriority } from '../../domain/valueObjects/TaskPriority';
+import { UserId } from '../../domain/valueObjects/UserId';
+import { TaskWorkflow } from '../../domain/valueObjects/TaskWorkflow';
+import { MockTaskRepository, MockEventPublisher } from '../../test/mocks';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('GetWeeklyTimesheetUseCase', () => {
+  let useCase: GetWeeklyTimesheetUseCase;
+  let taskRepository: MockTaskRepository;
+  let eventPublisher: MockEventPublisher;
+  let unitOfWork: UnitOfWork;
+  let clock: FakeClock;
+  let task: Task;
+
+  const userId = 'user-123';
+  const wednesday = new Date(2026, 2, 4, 9);
+
+  beforeEach(() => {
+    taskRepository = new MockTaskRepository();
+    eventPublisher = new MockEventPublisher();
+    clock = new FakeClock(wednesday);
+    const dispatcher = new OutboxDispatcher(new InMemoryEventOutbox(), eventPublisher, taskRepository, clock);
+    unitOfWork = new UnitOfWork(taskRepository, dispatcher);
+    useCase = new GetWeeklyTimesheetUseCase(taskRepository, clock);
+
+    task = Task.create(TaskTitle.create('Write report'), TaskPriority.medium());
+    task.assignTo(UserId.create(userId), UserId.create(userId));
+    task.startProgress(UserId.create(userId), TaskWorkflow.default(), wednesday);
+    taskRepository.addTask(task);
+  });
+
+  it('should credit timer and manual work to the day it started, Monday first', async () => {
+    clock.advanceBy(2 * HOUR_MS);
+    await new StopTaskTimerUseCase(taskRepository, unitOfWork, clock).execute(task.id.toString(), userId);
+    await new LogWorkUseCase(taskRepository, unitOfWork)
+      .execute(task.id.toString(), 30, new Date(2026, 2, 2, 9), userId, 'Kick-off');
+
+    const timesheet = await useCase.execute(userId);
+
+    expect(timesheet.weekStart).toEqual(new Date(2026, 2, 2));
+    expect(timesheet.days).toHaveLength(7);
+    expect(timesheet.rows).toHaveLength(1);
+    expect(timesheet.rows[0].title).toBe('Write report');
+    expect(timesheet.rows[0].dailyMs).toEqual([HOUR_MS / 2, 0, 2 * HOUR_MS, 0, 0, 0, 0]);
+    expect(timesheet.totalMs).toBe(2.5 * HOUR_MS);
+    expect(eventPublisher.publishedEvents.map(e => e.eventType)).toEqual(['TaskWorkLogged', 'TaskWorkLogged']);
+  });
+
+  it('should count a running timer up to now', async () => {
+    clock.advanceBy(HOUR_MS);
+
+    const timesheet = await useCase.execute(userId);
+
+    expect(timesheet.dailyTotalsMs[2]).toBe(HOUR_MS);
+  });
+
+  it('should leave out other weeks and other users', async () => {
+    await new StopTaskTimerUseCase(taskRepository, unitOfWork, clock).execute(task.id.toString(), userId);
+    await new LogWorkUseCase(taskRepository, unitOfWork)
+      .execute(task.id.toString(), 60, new Date(2026, 1, 27, 9), userId);
+
+    expect((await useCase.execute(userId)).rows).toEqual([]);
+    expect((await useCase.execute('user-456', new Date(2026, 1, 27))).rows).toEqual([]);
+    expect((await useCase.execute(userId, new Date(2026, 1, 27))).totalMs).toBe(HOUR_MS);
+  });
+
+  it('should restart the timer through the clock', async () => {
+    await new StopTaskTimerUseCase(taskRepository, unitOfWork, clock).execute(task.id.toString(), userId);
+    clock.advanceBy(HOUR_MS);
+
+    await new StartTaskTimerUseCase(taskRepository, unitOfWork, clock).execute(task.id.toString(), userId);
+
+    expect(task.runningTimer?.startedAt).toEqual(clock.now());
+  });
+
+  describe('GetTimeTrackingSummaryUseCase', () => {
+    it('should roll estimates and logged time up per assignee', async () => {
+      const other = Task.create(TaskTitle.create('Review'), TaskPriority.low());
+      other.assignTo(UserId.create(userId), UserId.create(userId));
+      taskRepository.addTask(other);
+      const setEstimate = new SetTaskEstimateUseCase(taskRepository, unitOfWork);
+      await setEstimate.execute(task.id.toString(), { value: 3, unit: 'hours' }, userId);
+      await setEstimate.execute(other.id.toString(), { value: 5, unit: 'points' }, userId);
+      clock.advanceBy(HOUR_MS);
+
+      const summary = await new GetTimeTrackingSummaryUseCase(taskRepository, clock).execute();
+
+      expect(summary).toEqual([{
+        assigneeId: userId,
+        taskCount: 2,
+        estimatedHours: 3,
+        estimatedPoints: 5,
+        loggedMs: HOUR_MS
+      }]);
+    });
+  });
+});
@@ -0,0 +1,111 @@
+import { Task } from '../../domain/entities/Task';
+import { UserId } from '../../domain/valueObjects/UserId';
+import { ITaskRepository } from '../../domain/repositories/ITaskRepository';
+import { IClock } from '../services/IClock';
+
+export interface TimesheetRow {
+  taskId: string;
+  title: string;
+  /** Milliseconds logged on each day of the week, Monday first */
+  dailyMs: number[];
+  totalMs: number;
+}
+
+export interface WeeklyTimesheet {
+  userId: string;
+  weekStart: Date;
+  days: Date[];
+  rows: TimesheetRow[];
+  dailyTotalsMs: number[];
+  totalMs: number;
+}
+
+const DAYS_PER_WEEK = 7;
+
+function startOfWeek(date: Date): Date {
+  const monday = new Date(date);
+  monday.setHours(0, 0, 0, 0);
+  // getDay() counts from Sunday
+  monday.setDate(monday.getDate() - ((monday.getDay() + 6) % 7));
+  return monday;
+}
+
+export class GetWeeklyTimesheetUseCase {
+  constructor(
+    private taskRepository: ITaskRepository,
+    private clock: IClock
+  ) {}
+
+  /**
+   * Time `userId` logged in the Monday-to-Sunday week containing `weekOf`,
+   * one row per task. Work is credited to the day it started on, and a
+   * running timer counts up to now.
+   */
+  async execute(userId: string, weekOf: Date = this.clock.now()): Promise<WeeklyTimesheet> {
+    const user = UserId.create(userId);
+    const now = this.clock.now();
+    const weekStart = startOfWeek(weekOf);
+    const days = Array.from({ length: DAYS_PER_WEEK }, (_, index) => {
+      const day = new Date(weekStart);
+      day.setDate(weekStart.getDate() + index);
+      return day;
+    });
+    const weekEnd = new Date(weekStart);
+    weekEnd.setDate(weekStart.getDate() + DAYS_PER_WEEK);
+
+    const dayIndexOf = (date: Date): number => {
+      if (date < weekStart || date >= weekEnd) return -1;
+      return days.filter(day => day <= date).length - 1;
+    };
+
+    const tasks = await this.taskRepository.findAll();
+    const rows = tasks
+      .map(task => this.toRow(task, user, now, dayIndexOf))
+      .filter(row => row.totalMs > 0)
+      .sort((a, b) => b.totalMs - a.totalMs);
+
+    const dailyTotalsMs = days.map((_, index) =>
+      rows.reduce((total, row) => total + row.dailyMs[index], 0)
+    );
+
+    return {
+      userId,
+      weekStart,
+      days,
+      rows,
+      dailyTotalsMs,
+      totalMs: dailyTotalsMs.reduce((total, ms) => total + ms, 0)
+    };
+  }
+
+  private toRow(
+    task: Task,
+    user: UserId,
+    now: Date,
+    dayIndexOf: (date: Date) => number
+  ): TimesheetRow {
+    const dailyMs: number[] = new Array(DAYS_PER_WEEK).fill(0);
+    const credit = (startedAt: Date, durationMs: number) => {
+      const index = dayIndexOf(startedAt);
+      if (index >= 0) dailyMs[index] += durationMs;
+    };
+
+    for (const entry of task.workLog) {
+      if (entry.userId.equals(user)) {
+        credit(entry.startedAt, entry.durationMs);
+      }
+    }
+
+    const timer = task.runningTimer;
+    if (timer && timer.userId.equals(user)) {
+      credit(timer.startedAt, Math.max(0, now.getTime() - timer.startedAt.getTime()));
+    }
+
+    return {
+      taskId: task.id.toString(),
+      title: task.title.toString(),
+      dailyMs,
+      totalMs: dailyMs.reduce((total, ms) => total + ms, 0)
+    };
+  }
+}
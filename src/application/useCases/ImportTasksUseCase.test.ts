@@ -0,0 +1,239 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ImportTasksUseCase } from './ImportTasksUseCase';
+import { ExportTasksUseCase, TASK_EXPORT_FORMAT, TASK_EXPORT_VERSION } from './ExportTasksUseCase';
+import { UnitOfWork } from '../services/UnitOfWork';
+import { OutboxDispatcher } from '../services/OutboxDispatcher';
+import { InMemoryEventOutbox } from '../../infrastructure/events/InMemoryEventOutbox';
+import { FakeClock } from '../../infrastructure/scheduling/FakeClock';
+import { Task } from '../../domain/entities/Task';
+import { ChecklistItem } from '../../domain/entities/ChecklistItem';
+import { TaskTitle } from '../../domain/valueObjects/TaskTitle';
+import { TaskStatus } from '../../domain/valueObjects/TaskStatus';
+import { TaskPriority } from '../../domain/valueObjects/TaskPriority';
+import { TaskId } from '../../domain/valueObjects/TaskId';
+import { UserId } from '../../domain/valueObjects/UserId';
+import { TaskAssignment } from '../../domain/valueObjects/TaskAssignment';
+import { TaskDependency } from '../../domain/valueObjects/TaskDependency';
+import { TaskEstimate } from '../../domain/valueObjects/TaskEstimate';
+import { TaskLabel } from '../../domain/valueObjects/TaskLabel';
+import { LabelCatalog } from '../../domain/valueObjects/LabelCatalog';
+import { DEFAULT_WORKSPACE_ID } from '../../domain/repositories/IEscalationPolicyRepository';
+import { isEventOfType } from '../../domain/events/TaskEventMap';
+import { MockTaskRepository, MockLabelCatalogRepository, MockEventPublisher } from '../../test/mocks';
+
+describe('ImportTasksUseCase', () => {
+  const clock = new FakeClock(new Date('2026-03-02T09:00:00Z'));
+  const alex = UserId.create('user-123');
+
+  let source: MockTaskRepository;
+  let sourceLabels: MockLabelCatalogRepository;
+  let target: MockTaskRepository;
+  let targetLabels: MockLabelCatalogRepository;
+  let eventPublisher: MockEventPublisher;
+  let exportTasks: ExportTasksUseCase;
+  let importTasks: ImportTasksUseCase;
+
+  const storedTask = (title: string, overrides: Partial<Parameters<typeof Task.reconstitute>[0]> = {}) => {
+    const task = Task.reconstitute({
+      id: TaskId.create(),
+      title: TaskTitle.create(title),
+      status: TaskStatus.todo(),
+      priority: TaskPriority.medium(),
+      dependencies: [],
+      createdAt: new Date('2026-02-20T09:00:00Z'),
+      ...overrides
+    });
+    source.addTask(task);
+    return task;
+  };
+
+  beforeEach(() => {
+    source = new MockTaskRepository();
+    sourceLabels = new MockLabelCatalogRepository();
+    target = new MockTaskRepository();
+    targetLabels = new MockLabelCatalogRepository();
+    eventPublisher = new MockEventPublisher();
+    const dispatcher = new OutboxDispatcher(new InMemoryEventOutbox(), eventPublisher, target, new FakeClock());
+    exportTasks = new ExportTasksUseCase(source, sourceLabels, clock);
+    importTasks = new ImportTasksUseCase(new UnitOfWork(target, dispatcher), targetLabels, clock);
+  });
+
+  it('should import a JSON export as new tasks with their dependencies remapped', async () => {
+    await sourceLabels.save(DEFAULT_WORKSPACE_ID, LabelCatalog.empty().define(TaskLabel.create('Backend', '#2563eb')));
+    const api = storedTask('Build the API', {
+      status: TaskStatus.done(),
+      priority: TaskPriority.high(),
+      assignment: TaskAssignment.reconstitute(alex, new Date('2026-02-21T09:00:00Z'), alex),
+      checklist: [ChecklistItem.create('Write tests').toggled()],
+      labels: ['Backend'],
+      estimate: TaskEstimate.points(3),
+      completedAt: new Date('2026-02-25T17:00:00Z')
+    });
+    const client = storedTask('Call the API', { dependencies: [] });
+    client.addDependency(TaskDependency.blockedBy(api.id));
+    api.addDependency(TaskDependency.blocks(client.id));
+
+    const file = await exportTasks.execute('json');
+    const result = await importTasks.execute(file.content, 'json', 'user-123');
+
+    expect(result).toMatchObject({ importedCount: 2, errors: [] });
+    const importedApi = (await target.findById(TaskId.fromString(result.taskIds[api.id.toString()])))!;
+    const importedClient = (await target.findById(TaskId.fromString(result.taskIds[client.id.toString()])))!;
+    expect(importedApi.id.equals(api.id)).toBe(false);
+    expect(importedApi.status.isDone()).toBe(true);
+    expect(importedApi.assignment?.isAssignedTo(alex)).toBe(true);
+    expect(importedApi.checklist[0]).toMatchObject({ title: 'Write tests', done: true });
+    expect(importedApi.estimate?.equals(TaskEstimate.points(3))).toBe(true);
+    expect(importedApi.completedAt).toEqual(new Date('2026-02-25T17:00:00Z'));
+    expect(importedClient.dependencies[0].getDependentTaskId().equals(importedApi.id)).toBe(true);
+    expect(importedApi.dependencies[0].getDependentTaskId().equals(importedClient.id)).toBe(true);
+    expect((await targetLabels.findByWorkspace(DEFAULT_WORKSPACE_ID))?.find('backend')?.getColor()).toBe('#2563eb');
+    expect(eventPublisher.publishedEvents.map(e => e.eventType).sort()).toEqual([
+      'TaskDependencyAdded', 'TaskDependencyAdded', 'TaskImported', 'TaskImported'
+    ]);
+    const apiImported = eventPublisher.publishedEvents
+      .find(e => isEventOfType(e, 'TaskImported') && e.taskId.equals(importedApi.id));
+    expect(apiImported).toMatchObject({
+      status: TaskStatus.done(),
+      assigneeId: alex,
+      createdAt: new Date('2026-02-20T09:00:00Z'),
+      completedAt: new Date('2026-02-25T17:00:00Z'),
+      importedBy: alex
+    });
+  });
+
+  it('should check dependencies like ones added in the app and add missing mirror edges', async () => {
+    const file = JSON.stringify({
+      format: TASK_EXPORT_FORMAT,
+      version: TASK_EXPORT_VERSION,
+      tasks: [
+        { id: 'a', title: 'Design', dependencies: [{ type: 'BLOCKS', dependentTaskId: 'b' }, { type: 'BLOCKS', dependentTaskId: 'b' }] },
+        { id: 'b', title: 'Build', dependencies: [{ type: 'BLOCKS', dependentTaskId: 'c' }, { type: 'BLOCKED_BY', dependentTaskId: 'b' }] },
+        { id: 'c', title: 'Ship', dependencies: [{ type: 'BLOCKS', dependentTaskId: 'a' }] }
+      ]
+    });
+
+    const result = await importTasks.execute(file, 'json', 'user-123');
+
+    expect(result.errors).toEqual([
+      { row: 2, message: 'Dependency on task b was dropped: a task cannot depend on itself' },
+      { row: 3, message: 'Dependency on task a was dropped: it would create a circular dependency' }
+    ]);
+    const edges = async (exportedId: string) =>
+      (await target.findById(TaskId.fromString(result.taskIds[exportedId])))!.dependencies
+        .map(d => `${d.getType()}:${Object.keys(result.taskIds).find(id => result.taskIds[id] === d.getDependentTaskId().toString())}`);
+    expect(await edges('a')).toEqual(['BLOCKS:b']);
+    expect(await edges('b')).toEqual(['BLOCKED_BY:a', 'BLOCKS:c']);
+    expect(await edges('c')).toEqual(['BLOCKED_BY:b']);
+  });
+
+  it('should import a BLOCKED task as TODO when none of its blockers is open', async () => {
+    const file = JSON.stringify({
+      format: TASK_EXPORT_FORMAT,
+      version: TASK_EXPORT_VERSION,
+      tasks: [
+        { id: 'a', title: 'Design', status: 'TODO' },
+        { id: 'b', title: 'Build', status: 'BLOCKED', dependencies: [{ type: 'BLOCKED_BY', dependentTaskId: 'a' }] },
+        { id: 'c', title: 'Ship', status: 'BLOCKED', dependencies: [{ type: 'BLOCKED_BY', dependentTaskId: 'z' }] }
+      ]
+    });
+
+    const result = await importTasks.execute(file, 'json', 'user-123');
+
+    expect(result.errors).toEqual([
+      { row: 3, message: 'Dependency on task z was dropped: that task was not imported' },
+      { row: 3, message: 'Imported as TODO instead of BLOCKED: none of its blockers is open' }
+    ]);
+    const statusOf = async (exportedId: string) =>
+      (await target.findById(TaskId.fromString(result.taskIds[exportedId])))!.status.toString();
+    expect(await statusOf('b')).toBe('BLOCKED');
+    expect(await statusOf('c')).toBe('TODO');
+  });
+
+  it('should not add labels to the workspace when the tasks cannot be saved', async () => {
+    vi.spyOn(target, 'saveAll').mockRejectedValueOnce(new Error('Storage is full'));
+
+    await expect(importTasks.execute('title,labels\r\nPlan sprint,Planning', 'csv', 'user-123'))
+      .rejects.toThrow('Storage is full');
+
+    expect(await targetLabels.findByWorkspace(DEFAULT_WORKSPACE_ID)).toBeNull();
+  });
+
+  it('should report the CSV rows that fail validation and import the rest', async () => {
+    const csv = [
+      'id,title,status,priority,assignee,dueDate,labels,estimate,dependencies',
+      'a,Plan sprint,IN_PROGRESS,high,user-123,2026-03-06T17:00:00Z,Planning; Team,2 hours,',
+      'b,,TODO,LOW,,,,,',
+      'c,Review plan,LATER,LOW,,,,,',
+      'd,Ship it,TODO,urgent,,,,,',
+      'e,Retro,TODO,,,,,,"BLOCKED_BY:a;BLOCKED_BY:z"',
+      'f,"Demo, ""live""",TODO,,,not a date,,,'
+    ].join('\r\n');
+
+    const result = await importTasks.execute(csv, 'csv', 'lead-1');
+
+    expect(result.importedCount).toBe(2);
+    expect(result.errors).toEqual([
+      { row: 3, message: 'Task title cannot be empty' },
+      { row: 4, message: 'Invalid task status: LATER' },
+      { row: 5, message: 'Invalid task priority: urgent' },
+      { row: 6, message: 'Dependency on task z was dropped: that task was not imported' },
+      { row: 7, message: 'Invalid due date: not a date' }
+    ]);
+
+    const [plan, retro] = await target.findAll();
+    expect(plan.title.toString()).toBe('Plan sprint');
+    expect(plan.status.isInProgress()).toBe(true);
+    expect(plan.priority.equals(TaskPriority.high())).toBe(true);
+    expect(plan.assignment?.getAssignedBy().toString()).toBe('lead-1');
+    expect(plan.labels).toEqual(['Planning', 'Team']);
+    expect(plan.estimate?.toMs()).toBe(2 * 60 * 60 * 1000);
+    expect(retro.dependencies.map(d => d.getDependentTaskId().toString())).toEqual([plan.id.toString()]);
+  });
+
+  it('should read back its own CSV export', async () => {
+    storedTask('Write "the" docs, finally', { dueDate: new Date('2026-03-04T12:00:00Z') });
+
+    const file = await exportTasks.execute('csv');
+    const result = await importTasks.execute(file.content, 'csv', 'user-123');
+
+    expect(result.errors).toEqual([]);
+    const [imported] = await target.findAll();
+    expect(imported.title.toString()).toBe('Write "the" docs, finally');
+    expect(imported.dueDate).toEqual(new Date('2026-03-04T12:00:00Z'));
+  });
+
+  it('should reject files that are not a supported export', async () => {
+    await expect(importTasks.execute('{"tasks": []}', 'json', 'user-123'))
+      .rejects.toThrow('The file is not a task export');
+    await expect(importTasks.execute('{"format": "ddd-task-management/tasks", "version": 2, "tasks": []}', 'json', 'user-123'))
+      .rejects.toThrow('Unsupported task export version: 2');
+    await expect(importTasks.execute('name,owner\r\nx,y', 'csv', 'user-123'))
+      .rejects.toThrow('The CSV file needs a title column');
+  });
+
+  it('should export due dates as calendar events', async () => {
+    const due = storedTask('Pay invoices; then, file', { dueDate: new Date('2026-03-04T12:00:00Z') });
+    storedTask('Someday');
+
+    const file = await exportTasks.execute('ics');
+
+    expect(file).toMatchObject({ fileName: 'tasks-2026-03-02.ics', mimeType: 'text/calendar' });
+    expect(file.content.match(/BEGIN:VEVENT/g)).toHaveLength(1);
+    expect(file.content).toContain(`UID:${due.id.toString()}@ddd-task-management\r\n`);
+    expect(file.content).toContain('DTSTART:20260304T120000Z\r\n');
+    expect(file.content).not.toContain('DTEND');
+    expect(file.content).toContain('SUMMARY:Pay invoices\\; then\\, file\r\n');
+  });
+
+  it('should fold calendar lines at 75 octets without splitting characters', async () => {
+    storedTask('Überprüfung '.repeat(8), { dueDate: new Date('2026-03-04T12:00:00Z') });
+
+    const file = await exportTasks.execute('ics');
+
+    file.content.split('\r\n').forEach(line =>
+      expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75)
+    );
+    expect(file.content.replace(/\r\n /g, '')).toContain(`SUMMARY:${'Überprüfung '.repeat(8).trim()}\r\n`);
+  });
+});
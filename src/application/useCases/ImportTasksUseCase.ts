@@ -0,0 +1,377 @@
+import { Task } from '../../domain/entities/Task';
+import { ChecklistItem } from '../../domain/entities/ChecklistItem';
+import { WorkLogEntry } from '../../domain/entities/WorkLogEntry';
+import { ILabelCatalogRepository } from '../../domain/repositories/ILabelCatalogRepository';
+import { DEFAULT_WORKSPACE_ID } from '../../domain/repositories/IEscalationPolicyRepository';
+import { TaskId } from '../../domain/valueObjects/TaskId';
+import { TaskTitle } from '../../domain/valueObjects/TaskTitle';
+import { TaskStatus, TaskStatusType } from '../../domain/valueObjects/TaskStatus';
+import { TaskPriority, PriorityLevel } from '../../domain/valueObjects/TaskPriority';
+import { TaskAssignment } from '../../domain/valueObjects/TaskAssignment';
+import { TaskDependency, DependencyType } from '../../domain/valueObjects/TaskDependency';
+import { TaskEstimate, EstimateUnit } from '../../domain/valueObjects/TaskEstimate';
+import { TaskRecurrence, RecurrenceFrequency } from '../../domain/valueObjects/TaskRecurrence';
+import { TaskLabel, TaskLabelJSON } from '../../domain/valueObjects/TaskLabel';
+import { LabelCatalog } from '../../domain/valueObjects/LabelCatalog';
+import { UserId } from '../../domain/valueObjects/UserId';
+import { TaskDependencyService } from '../../domain/services/TaskDependencyService';
+import { UnitOfWork } from '../services/UnitOfWork';
+import { IClock } from '../services/IClock';
+import { parseCsv } from '../services/Csv';
+import { CSV_LIST_SEPARATOR, TASK_EXPORT_FORMAT, TASK_EXPORT_VERSION } from './ExportTasksUseCase';
+
+export type TaskImportFormat = 'json' | 'csv';
+
+export interface TaskImportError {
+  /** Position of the task in the JSON task list, or its CSV row */
+  row: number;
+  message: string;
+}
+
+export interface TaskImportResult {
+  importedCount: number;
+  /** New task ids by the id the task had in the file */
+  taskIds: Record<string, string>;
+  errors: TaskImportError[];
+}
+
+interface ImportRow {
+  row: number;
+  /** A task as exported, not trusted until validated */
+  raw: Record<string, unknown>;
+}
+
+type ValidRow = ImportRow & { props: Omit<Parameters<typeof Task.imported>[0], 'dependencies'> };
+
+export class ImportTasksUseCase {
+  constructor(
+    private unitOfWork: UnitOfWork,
+    private labelRepository: ILabelCatalogRepository,
+    private clock: IClock
+  ) {}
+
+  /**
+   * Imports the tasks in an export as new tasks. Rows that fail validation
+   * are skipped and reported; the rest are saved together. Dependencies are
+   * pointed at the new ids and checked like ones added in the app; those on
+   * tasks that were not imported, or that the app would refuse, are dropped
+   * and reported. A BLOCKED task left without an open blocker is moved to
+   * TODO, and reported too.
+   */
+  async execute(content: string, format: TaskImportFormat, userId: string): Promise<TaskImportResult> {
+    const importedBy = UserId.create(userId);
+    const now = this.clock.now();
+    const { rows, labels } = format === 'json'
+      ? this.readJSON(content)
+      : { rows: this.readCsv(content, importedBy, now), labels: [] };
+
+    const originalCatalog = await this.labelRepository.findByWorkspace(DEFAULT_WORKSPACE_ID) ?? LabelCatalog.empty();
+    let catalog = originalCatalog;
+    const errors: TaskImportError[] = [];
+    const valid: ValidRow[] = [];
+    const taskIds = new Map<string, TaskId>();
+
+    for (const row of rows) {
+      try {
+        const exportedId = row.raw.id === undefined || row.raw.id === '' ? undefined : String(row.raw.id);
+        if (exportedId && taskIds.has(exportedId)) {
+          throw new Error(`Task ${exportedId} appears more than once`);
+        }
+
+        const props = this.toProps(row.raw, importedBy, now);
+        catalog = this.withLabels(catalog, props.labels, labels);
+
+        valid.push({ ...row, props });
+        if (exportedId) taskIds.set(exportedId, props.id);
+      } catch (err) {
+        errors.push({ row: row.row, message: err instanceof Error ? err.message : String(err) });
+      }
+    }
+
+    const imported = valid.map(({ row, raw, props }) => ({
+      row,
+      raw,
+      task: Task.imported({ ...props, dependencies: [] }, importedBy)
+    }));
+    const tasks = imported.map(({ task }) => task);
+
+    for (const { row, raw, task } of imported) {
+      for (const value of asArray(raw.dependencies)) {
+        const dep = asRecord(value) ?? {};
+        const type = Object.values(DependencyType).find(t => t === dep.type);
+        if (!type) {
+          errors.push({ row, message: `Invalid dependency type: ${dep.type}` });
+          continue;
+        }
+
+        const exportedId = String(dep.dependentTaskId);
+        const otherId = taskIds.get(exportedId);
+        const other = otherId && tasks.find(t => t.id.equals(otherId));
+        if (!other) {
+          errors.push({ row, message: `Dependency on task ${exportedId} was dropped: that task was not imported` });
+          continue;
+        }
+
+        try {
+          this.link(task, other, type, tasks);
+        } catch (err) {
+          const reason = err instanceof Error ? err.message : String(err);
+          errors.push({ row, message: `Dependency on task ${exportedId} was dropped: ${reason}` });
+        }
+      }
+    }
+
+    // A BLOCKED task whose blockers were all dropped or are closed would wait forever
+    const openBlockerIds = TaskDependencyService.openBlockerIds(tasks);
+    for (const { row, task } of imported) {
+      if (task.resumeWhenUnblocked(openBlockerIds, importedBy)) {
+        errors.push({ row, message: 'Imported as TODO instead of BLOCKED: none of its blockers is open' });
+      }
+    }
+
+    tasks.forEach(task => this.unitOfWork.registerDirty(task));
+    await this.unitOfWork.commit();
+
+    // Only once the tasks are in, so a failed import leaves no new labels
+    if (catalog !== originalCatalog) {
+      await this.labelRepository.save(DEFAULT_WORKSPACE_ID, catalog);
+    }
+
+    return {
+      importedCount: valid.length,
+      taskIds: Object.fromEntries([...taskIds].map(([exported, id]) => [exported, id.toString()])),
+      errors: errors.sort((a, b) => a.row - b.row)
+    };
+  }
+
+  /**
+   * Links two imported tasks the way the app would. A blocking edge gets
+   * its mirror on the other task, so the mirror an export already carries
+   * is skipped rather than added twice.
+   */
+  private link(task: Task, other: Task, type: DependencyType, tasks: Task[]): void {
+    if (task.id.equals(other.id)) {
+      throw new Error('a task cannot depend on itself');
+    }
+
+    if (type === DependencyType.RELATED) {
+      if (!hasEdge(task, other, type)) {
+        task.addDependency(TaskDependency.relatedTo(other.id));
+      }
+      return;
+    }
+
+    const [blocked, blocker] = type === DependencyType.BLOCKED_BY ? [task, other] : [other, task];
+    if (hasEdge(blocked, blocker, DependencyType.BLOCKED_BY) && hasEdge(blocker, blocked, DependencyType.BLOCKS)) {
+      return;
+    }
+
+    const dependency = TaskDependency.blockedBy(blocker.id);
+    if (TaskDependencyService.wouldCreateCircularDependency(blocked, dependency, tasks)) {
+      throw new Error('it would create a circular dependency');
+    }
+
+    // Checked up front so a conflict on the blocker does not leave half a link
+    if (isLinked(blocked, blocker) || isLinked(blocker, blocked)) {
+      throw new Error('the tasks are already linked another way');
+    }
+
+    blocked.addDependency(dependency);
+    blocker.addDependency(TaskDependency.blocks(blocked.id));
+  }
+
+  private readJSON(content: string): { rows: ImportRow[]; labels: TaskLabelJSON[] } {
+    let json: unknown;
+    try {
+      json = JSON.parse(content);
+    } catch {
+      throw new Error('The file is not valid JSON');
+    }
+
+    const file = asRecord(json);
+    if (file?.format !== TASK_EXPORT_FORMAT || !Array.isArray(file.tasks)) {
+      throw new Error('The file is not a task export');
+    }
+
+    if (typeof file.version !== 'number' || file.version > TASK_EXPORT_VERSION) {
+      throw new Error(`Unsupported task export version: ${file.version}`);
+    }
+
+    return {
+      rows: file.tasks.map((raw: unknown, index: number) => ({ row: index + 1, raw: asRecord(raw) ?? {} })),
+      labels: asArray(file.labels).filter(isLabelJSON)
+    };
+  }
+
+  private readCsv(content: string, importedBy: UserId, now: Date): ImportRow[] {
+    const [header, ...records] = parseCsv(content.replace(/^\uFEFF/, ''));
+    const columns = (header ?? []).map(column => column.trim());
+
+    if (!columns.includes('title')) {
+      throw new Error('The CSV file needs a title column');
+    }
+
+    const list = (value: string | undefined) =>
+      (value ?? '').split(CSV_LIST_SEPARATOR).map(item => item.trim()).filter(Boolean);
+
+    // Row 1 is the header
+    return records.map((record, index) => {
+      const field = (column: string) => {
+        const value = record[columns.indexOf(column)]?.trim();
+        return value === '' ? undefined : value;
+      };
+      const [estimateValue, estimateUnit] = (field('estimate') ?? '').split(/\s+/);
+
+      return {
+        row: index + 2,
+        raw: {
+          id: field('id'),
+          title: field('title') ?? '',
+          status: field('status'),
+          priority: field('priority'),
+          assignment: field('assignee') && {
+            assignedTo: field('assignee'),
+            assignedAt: now.toISOString(),
+            assignedBy: importedBy.toString()
+          },
+          dueDate: field('dueDate'),
+          createdAt: field('createdAt'),
+          completedAt: field('completedAt'),
+          labels: list(field('labels')),
+          estimate: field('estimate') && { value: Number(estimateValue), unit: estimateUnit },
+          dependencies: list(field('dependencies')).map(dep => {
+            const [type, dependentTaskId] = dep.split(':');
+            return { type, dependentTaskId };
+          })
+        }
+      };
+    });
+  }
+
+  private toProps(raw: Record<string, unknown>, importedBy: UserId, now: Date): ValidRow['props'] {
+    const status = TaskStatus.fromString(asString(raw.status) ?? TaskStatusType.TODO);
+    const assignment = parseRecord(raw.assignment, 'assignment');
+    const estimate = parseRecord(raw.estimate, 'estimate');
+    const repeat = parseRecord(raw.recurrence, 'recurrence');
+    // Frequency and estimate unit are checked by the value objects
+    const recurrence = repeat && TaskRecurrence.create({
+      frequency: repeat.frequency as RecurrenceFrequency,
+      interval: parseNumber(repeat.interval),
+      until: parseDate(repeat.until, 'recurrence end'),
+      count: parseNumber(repeat.count)
+    });
+
+    return {
+      id: TaskId.create(),
+      title: TaskTitle.create(String(raw.title ?? '')),
+      status,
+      priority: parsePriority(raw.priority),
+      assignment: assignment && TaskAssignment.reconstitute(
+        UserId.create(asString(assignment.assignedTo) ?? ''),
+        parseDate(assignment.assignedAt, 'assignment date') ?? now,
+        assignment.assignedBy ? UserId.create(String(assignment.assignedBy)) : importedBy
+      ),
+      checklist: asArray(raw.checklist).map(value => {
+        const item = asRecord(value) ?? {};
+        const created = ChecklistItem.create(String(item.title ?? ''), item.required !== false);
+        return item.done === true ? created.toggled() : created;
+      }),
+      labels: asArray(raw.labels).reduce<string[]>((names, name) => {
+        const label = TaskLabel.create(String(name));
+        return names.some(n => TaskLabel.sameName(n, label.getName())) ? names : [...names, label.getName()];
+      }, []),
+      estimate: estimate && TaskEstimate.create(Number(estimate.value), estimate.unit as EstimateUnit),
+      workLog: asArray(raw.workLog).map(value => {
+        const entry = asRecord(value) ?? {};
+        const durationMs = Number(entry.durationMs);
+        if (!(durationMs > 0)) {
+          throw new Error('Logged time must be positive');
+        }
+        return WorkLogEntry.reconstitute({
+          id: crypto.randomUUID(),
+          userId: asString(entry.userId) ?? '',
+          startedAt: (parseDate(entry.startedAt, 'work log date') ?? now).toISOString(),
+          durationMs,
+          source: entry.source === 'timer' ? 'timer' : 'manual',
+          note: typeof entry.note === 'string' ? entry.note : undefined
+        });
+      }),
+      createdAt: parseDate(raw.createdAt, 'creation date') ?? now,
+      completedAt: status.isDone() ? parseDate(raw.completedAt, 'completion date') ?? now : undefined,
+      dueDate: parseDate(raw.dueDate, 'due date'),
+      recurrence
+    };
+  }
+
+  /**
+   * Tasks can only carry catalog labels, so labels the workspace does not
+   * have yet are added, in the exported color when the file has one.
+   */
+  private withLabels(catalog: LabelCatalog, names: string[], exported: TaskLabelJSON[]): LabelCatalog {
+    return names.reduce((current, name) => {
+      if (current.find(name)) return current;
+
+      const color = exported.find(label => TaskLabel.sameName(label.name, name))?.color;
+      return current.define(TaskLabel.create(name, color));
+    }, catalog);
+  }
+}
+
+const asArray = (value: unknown): unknown[] => (Array.isArray(value) ? value : []);
+
+const asRecord = (value: unknown): Record<string, unknown> | undefined =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+    ? value as Record<string, unknown>
+    : undefined;
+
+const asString = (value: unknown): string | undefined =>
+  value === undefined || value === null || value === '' ? undefined : String(value);
+
+const parseNumber = (value: unknown): number | undefined =>
+  value === undefined || value === null || value === '' ? undefined : Number(value);
+
+const parseRecord = (value: unknown, field: string): Record<string, unknown> | undefined => {
+  if (value === undefined || value === null || value === '') return undefined;
+
+  const record = asRecord(value);
+  if (!record) {
+    throw new Error(`Invalid ${field}: ${value}`);
+  }
+  return record;
+};
+
+const isLabelJSON = (value: unknown): value is TaskLabelJSON => {
+  const label = asRecord(value);
+  return typeof label?.name === 'string' && typeof label.color === 'string';
+};
+
+const isLinked = (task: Task, other: Task): boolean =>
+  task.dependencies.some(d => d.getDependentTaskId().equals(other.id));
+
+const hasEdge = (task: Task, other: Task, type: DependencyType): boolean =>
+  task.dependencies.some(d => d.getDependentTaskId().equals(other.id) && d.getType() === type);
+
+const parseDate = (value: unknown, field: string): Date | undefined => {
+  if (value === undefined || value === null || value === '') return undefined;
+
+  const date = new Date(String(value));
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid ${field}: ${value}`);
+  }
+  return date;
+};
+
+// Exports carry { level }; people writing CSV by hand use names like HIGH
+const parsePriority = (value: unknown): TaskPriority => {
+  if (value === undefined || value === null || value === '') return TaskPriority.medium();
+
+  const raw = typeof value === 'object' ? (value as { level?: unknown }).level : value;
+  const level = typeof raw === 'string' && Number.isNaN(Number(raw))
+    ? PriorityLevel[raw.toUpperCase() as keyof typeof PriorityLevel]
+    : Number(raw);
+
+  if (!Object.values(PriorityLevel).includes(level)) {
+    throw new Error(`Invalid task priority: ${raw}`);
+  }
+  return TaskPriority.fromLevel(level);
+};
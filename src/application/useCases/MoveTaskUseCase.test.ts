@@ -0,0 +1,139 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { MoveTaskUseCase } from './MoveTaskUseCase';
+import { UnitOfWork } from '../services/UnitOfWork';
+import { OutboxDispatcher } from '../services/OutboxDispatcher';
+import { InMemoryEventOutbox } from '../../infrastructure/events/InMemoryEventOutbox';
+import { FakeClock } from '../../infrastructure/scheduling/FakeClock';
+import { Task } from '../../domain/entities/Task';
+import { TaskTitle } from '../../domain/valueObjects/TaskTitle';
+import { TaskPriority } from '../../domain/valueObjects/TaskPriority';
+import { UserId } from '../../domain/valueObjects/UserId';
+import { TaskStatus, TaskStatusType } from '../../domain/valueObjects/TaskStatus';
+import { TaskDependency } from '../../domain/valueObjects/TaskDependency';
+import { TaskWorkflow } from '../../domain/valueObjects/TaskWorkflow';
+import { ITaskWorkflowRepository } from '../../domain/repositories/ITaskWorkflowRepository';
+import { TaskBlockedByDependenciesException } from '../../domain/exceptions/TaskExceptions';
+import { TaskStatusChangedEvent } from '../../domain/events/TaskStatusChangedEvent';
+import { TaskCompletedEvent } from '../../domain/events/TaskCompletedEvent';
+import { PermissionPolicyProvider } from '../services/PermissionPolicyProvider';
+import { TaskWorkflowProvider } from '../services/TaskWorkflowProvider';
+import { MockTaskRepository, MockEventPublisher } from '../../test/mocks';
+
+describe('MoveTaskUseCase', () => {
+  let useCase: MoveTaskUseCase;
+  let taskRepository: MockTaskRepository;
+  let eventPublisher: MockEventPublisher;
+  let clock: FakeClock;
+  let userId: UserId;
+
+  beforeEach(() => {
+    taskRepository = new MockTaskRepository();
+    eventPublisher = new MockEventPublisher();
+    clock = new FakeClock(new Date('2026-01-05T09:00:00Z'));
+    const dispatcher = new OutboxDispatcher(new InMemoryEventOutbox(), eventPublisher, taskRepository, clock);
+    useCase = new MoveTaskUseCase(taskRepository, new UnitOfWork(taskRepository, dispatcher), clock);
+    userId = UserId.create('user-123');
+  });
+
+  describe('execute', () => {
+    it('should move the task and publish TaskStatusChangedEvent', async () => {
+      const task = Task.create(TaskTitle.create('Review me'), TaskPriority.medium());
+      task.assignTo(userId, userId);
+      task.startProgress(userId);
+      task.stopTimer(userId);
+      taskRepository.addTask(task);
+
+      await useCase.execute(task.id.toString(), 'IN_REVIEW', userId.toString());
+
+      expect(task.status.toString()).toBe('IN_REVIEW');
+      expect(eventPublisher.publishedEvents).toHaveLength(1);
+      expect(eventPublisher.publishedEvents[0]).toBeInstanceOf(TaskStatusChangedEvent);
+    });
+
+    it('should log the running timer up to the clock time when moving to review', async () => {
+      const task = Task.create(TaskTitle.create('Review me'), TaskPriority.medium());
+      task.assignTo(userId, userId);
+      task.startProgress(userId, undefined, clock.now());
+      taskRepository.addTask(task);
+      clock.advanceBy(30 * 60 * 1000);
+
+      await useCase.execute(task.id.toString(), 'IN_REVIEW', userId.toString());
+
+      expect(task.runningTimer).toBeUndefined();
+      expect(task.workLog.map(entry => entry.durationMs)).toEqual([30 * 60 * 1000]);
+    });
+
+    it('should restart the timer when moving back into progress', async () => {
+      const task = Task.create(TaskTitle.create('Review me'), TaskPriority.medium());
+      task.assignTo(userId, userId);
+      task.startProgress(userId, undefined, clock.now());
+      task.moveTo(TaskStatus.inReview(), userId, undefined, undefined, undefined, clock.now());
+      taskRepository.addTask(task);
+      clock.advanceBy(60 * 60 * 1000);
+
+      await useCase.execute(task.id.toString(), 'IN_PROGRESS', userId.toString());
+
+      expect(task.runningTimer).toEqual({ userId, startedAt: clock.now() });
+    });
+
+    it('should name the open blockers when completing a blocked task', async () => {
+      const blocker = Task.create(TaskTitle.create('Blocker'), TaskPriority.medium());
+      const task = Task.create(TaskTitle.create('Blocked'), TaskPriority.medium());
+      task.addDependency(TaskDependency.blockedBy(blocker.id));
+      taskRepository.addTask(blocker);
+      taskRepository.addTask(task);
+
+      await expect(
+        useCase.execute(task.id.toString(), 'DONE', userId.toString())
+      ).rejects.toThrow(TaskBlockedByDependenciesException);
+    });
+
+    it('should release blockers that were cancelled', async () => {
+      const blocker = Task.create(TaskTitle.create('Blocker'), TaskPriority.medium());
+      blocker.moveTo(TaskStatus.cancelled(), userId);
+      const task = Task.create(TaskTitle.create('Blocked'), TaskPriority.medium());
+      task.addDependency(TaskDependency.blockedBy(blocker.id));
+      taskRepository.addTask(blocker);
+      taskRepository.addTask(task);
+
+      await useCase.execute(task.id.toString(), 'DONE', userId.toString());
+
+      expect(task.status.isDone()).toBe(true);
+      expect(eventPublisher.publishedEvents[0]).toBeInstanceOf(TaskCompletedEvent);
+    });
+
+    it('should use the configured workflow', async () => {
+      const { TODO, DONE } = TaskStatusType;
+      const workflowRepository: ITaskWorkflowRepository = {
+        findByWorkspace: async () => TaskWorkflow.define({
+          states: [{ status: TODO, label: 'To Do' }, { status: DONE, label: 'Done' }],
+          transitions: [{ from: TODO, to: DONE, label: 'Complete' }]
+        }),
+        save: async () => {}
+      };
+      const dispatcher = new OutboxDispatcher(new InMemoryEventOutbox(), eventPublisher, taskRepository, clock);
+      useCase = new MoveTaskUseCase(
+        taskRepository,
+        new UnitOfWork(taskRepository, dispatcher),
+        clock,
+        new PermissionPolicyProvider(),
+        new TaskWorkflowProvider(workflowRepository)
+      );
+      const task = Task.create(TaskTitle.create('Task'), TaskPriority.medium());
+      taskRepository.addTask(task);
+
+      await expect(
+        useCase.execute(task.id.toString(), 'CANCELLED', userId.toString())
+      ).rejects.toThrow('Cannot move task from To Do to CANCELLED');
+    });
+
+    it('should reject unknown statuses', async () => {
+      const task = Task.create(TaskTitle.create('Task'), TaskPriority.medium());
+      taskRepository.addTask(task);
+
+      await expect(
+        useCase.execute(task.id.toString(), 'ARCHIVED', userId.toString())
+      ).rejects.toThrow('Invalid task status: ARCHIVED');
+    });
+  });
+});
@@ -0,0 +1,57 @@
+import { TaskId } from '../../domain/valueObjects/TaskId';
+import { UserId } from '../../domain/valueObjects/UserId';
+import { TaskStatus } from '../../domain/valueObjects/TaskStatus';
+import { ITaskRepository } from '../../domain/repositories/ITaskRepository';
+import { ConcurrencyConflictError } from '../../domain/exceptions/TaskExceptions';
+import { TaskDependencyService } from '../../domain/services/TaskDependencyService';
+import { UnitOfWork } from '../services/UnitOfWork';
+import { IClock } from '../services/IClock';
+import { PermissionPolicyProvider } from '../services/PermissionPolicyProvider';
+import { TaskWorkflowProvider } from '../services/TaskWorkflowProvider';
+
+export class MoveTaskUseCase {
+  constructor(
+    private taskRepository: ITaskRepository,
+    private unitOfWork: UnitOfWork,
+    private clock: IClock,
+    private permissions: PermissionPolicyProvider = new PermissionPolicyProvider(),
+    private workflows: TaskWorkflowProvider = new TaskWorkflowProvider()
+  ) {}
+
+  async execute(taskId: string, status: string, userId: string, expectedVersion?: number): Promise<void> {
+    const id = TaskId.fromString(taskId);
+    const target = TaskStatus.fromString(status);
+    const user = UserId.create(userId);
+
+    const task = await this.taskRepository.findById(id);
+
+    if (!task) {
+      throw new Error('Task not found');
+    }
+
+    if (expectedVersion !== undefined && task.version !== expectedVersion) {
+      throw new ConcurrencyConflictError(id, expectedVersion, task.version);
+    }
+
+    const workflow = await this.workflows.current();
+    const transition = workflow.findTransition(task.status, target);
+    const allTasks = await this.taskRepository.findAll();
+
+    // Completing always requires open blockers to be done; other moves only if the workflow says so
+    if (target.isDone() || transition?.guards?.includes('notBlocked')) {
+      TaskDependencyService.ensureNotBlocked(task, allTasks);
+    }
+
+    task.moveTo(
+      target,
+      user,
+      await this.permissions.current(),
+      workflow,
+      TaskDependencyService.openBlockerIds(allTasks),
+      this.clock.now()
+    );
+
+    this.unitOfWork.registerDirty(task);
+    await this.unitOfWork.commit();
+  }
+}
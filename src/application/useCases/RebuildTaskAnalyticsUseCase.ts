@@ -0,0 +1,24 @@
+import { ITaskEventStore } from '../../domain/repositories/ITaskEventStore';
+import { ITaskAnalyticsStore } from '../services/ITaskAnalyticsStore';
+import { TaskAnalyticsProjectionHandler } from '../eventHandlers/TaskAnalyticsProjectionHandler';
+
+export class RebuildTaskAnalyticsUseCase {
+  constructor(
+    private eventStore: ITaskEventStore,
+    private analyticsStore: ITaskAnalyticsStore
+  ) {}
+
+  /**
+   * Replays the whole event history into an empty read model, for history
+   * recorded before analytics existed or after the projection changes.
+   */
+  async execute(): Promise<void> {
+    const events = await this.eventStore.findAll();
+    const projection = new TaskAnalyticsProjectionHandler(this.analyticsStore);
+
+    await this.analyticsStore.clear();
+    for (const event of events.sort((a, b) => a.occurredAt.getTime() - b.occurredAt.getTime())) {
+      await projection.handle(event);
+    }
+  }
+}
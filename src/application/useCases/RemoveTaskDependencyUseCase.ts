@@ -0,0 +1,32 @@
+import { TaskId } from '../../domain/valueObjects/TaskId';
+import { ITaskRepository } from '../../domain/repositories/ITaskRepository';
+import { UnitOfWork } from '../services/UnitOfWork';
+
+export class RemoveTaskDependencyUseCase {
+  constructor(
+    private taskRepository: ITaskRepository,
+    private unitOfWork: UnitOfWork
+  ) {}
+
+  async execute(taskId: string, blockedByTaskId: string): Promise<void> {
+    const id = TaskId.fromString(taskId);
+    const blockerId = TaskId.fromString(blockedByTaskId);
+
+    const task = await this.taskRepository.findById(id);
+    if (!task) {
+      throw new Error('Task not found');
+    }
+
+    task.removeDependency(blockerId);
+    this.unitOfWork.registerDirty(task);
+
+    // The blocker may already have been deleted; only the task's edge matters then
+    const blocker = await this.taskRepository.findById(blockerId);
+    if (blocker) {
+      blocker.removeDependency(task.id);
+      this.unitOfWork.registerDirty(blocker);
+    }
+
+    await this.unitOfWork.commit();
+  }
+}
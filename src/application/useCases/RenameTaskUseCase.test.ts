@@ -0,0 +1,60 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { RenameTaskUseCase } from './RenameTaskUseCase';
+import { UnitOfWork } from '../services/UnitOfWork';
+import { OutboxDispatcher } from '../services/OutboxDispatcher';
+import { InMemoryEventOutbox } from '../../infrastructure/events/InMemoryEventOutbox';
+import { FakeClock } from '../../infrastructure/scheduling/FakeClock';
+import { Task } from '../../domain/entities/Task';
+import { TaskTitle } from '../../domain/valueObjects/TaskTitle';
+import { TaskPriority } from '../../domain/valueObjects/TaskPriority';
+import { UserId } from '../../domain/valueObjects/UserId';
+import { TaskTitleChangedEvent } from '../../domain/events/TaskTitleChangedEvent';
+import { MockTaskRepository, MockEventPublisher } from '../../test/mocks';
+
+describe('RenameTaskUseCase', () => {
+  let useCase: RenameTaskUseCase;
+  let taskRepository: MockTaskRepository;
+  let eventPublisher: MockEventPublisher;
+  let userId: UserId;
+
+  beforeEach(() => {
+    taskRepository = new MockTaskRepository();
+    eventPublisher = new MockEventPublisher();
+    const dispatcher = new OutboxDispatcher(new InMemoryEventOutbox(), eventPublisher, taskRepository, new FakeClock());
+    useCase = new RenameTaskUseCase(taskRepository, new UnitOfWork(taskRepository, dispatcher));
+    userId = UserId.create('user-123');
+  });
+
+  describe('execute', () => {
+    it('should rename the task and publish TaskTitleChangedEvent', async () => {
+      const task = Task.create(TaskTitle.create('Old Title'), TaskPriority.medium());
+      taskRepository.addTask(task);
+
+      await useCase.execute(task.id.toString(), '  New Title ', userId.toString());
+
+      expect(task.title.toString()).toBe('New Title');
+      expect(eventPublisher.publishedEvents).toHaveLength(1);
+      expect(eventPublisher.publishedEvents[0]).toBeInstanceOf(TaskTitleChangedEvent);
+      expect(eventPublisher.publishedEvents[0]).toMatchObject({ oldTitle: 'Old Title' });
+    });
+
+    it('should reject an empty title', async () => {
+      const task = Task.create(TaskTitle.create('Old Title'), TaskPriority.medium());
+      taskRepository.addTask(task);
+
+      await expect(
+        useCase.execute(task.id.toString(), '   ', userId.toString())
+      ).rejects.toThrow('Task title cannot be empty');
+    });
+
+    it('should only let the assignee rename an assigned task', async () => {
+      const task = Task.create(TaskTitle.create('Old Title'), TaskPriority.medium());
+      task.assignTo(UserId.create('user-789'), userId);
+      taskRepository.addTask(task);
+
+      await expect(
+        useCase.execute(task.id.toString(), 'New Title', userId.toString())
+      ).rejects.toThrow('Only assigned user can update task title');
+    });
+  });
+});
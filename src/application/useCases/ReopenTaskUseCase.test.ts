@@ -2,12 +2,21 @@ import { describe, it, expect, beforeEach } from 'vitest';
 import { ReopenTaskUseCase } from './ReopenTaskUseCase';
 import { ITaskRepository } from '../../domain/repositories/ITaskRepository';
 import { DomainEventPublisher } from '../services/DomainEventPublisher';
+import { UnitOfWork } from '../services/UnitOfWork';
+import { OutboxDispatcher } from '../services/OutboxDispatcher';
+import { InMemoryEventOutbox } from '../../infrastructure/events/InMemoryEventOutbox';
+import { FakeClock } from '../../infrastructure/scheduling/FakeClock';
 import { Task } from '../../domain/entities/Task';
 import { TaskTitle } from '../../domain/valueObjects/TaskTitle';
 import { TaskPriority } from '../../domain/valueObjects/TaskPriority';
 import { UserId } from '../../domain/valueObjects/UserId';
 import { TaskId } from '../../domain/valueObjects/TaskId';
 import { TaskReopenedEvent } from '../../domain/events/TaskReopenedEvent';
+import { PermissionPolicyProvider } from '../services/PermissionPolicyProvider';
+import { InMemoryUserRepository } from '../../infrastructure/repositories/InMemoryUserRepository';
+import { InMemoryTeamRepository } from '../../infrastructure/repositories/InMemoryTeamRepository';
+import { User, UserRole } from '../../domain/entities/User';
+import { Team } from '../../domain/entities/Team';
 
 // Mock implementations
 class MockTaskRepository implements ITaskRepository {
@@ -17,6 +26,12 @@ class MockTaskRepository implements ITaskRepository {
     this.tasks.set(task.id.toString(), task);
   }
 
+  async saveAll(tasks: Task[]): Promise<void> {
+    for (const task of tasks) {
+      await this.save(task);
+    }
+  }
+
   async findById(id: TaskId): Promise<Task | null> {
     return this.tasks.get(id.toString()) ?? null;
   }
@@ -38,7 +53,7 @@ class MockTaskRepository implements ITaskRepository {
 class MockEventPublisher extends DomainEventPublisher {
   publishedEvents: any[] = [];
 
-  async publish(event: any): Promise<void> {
+  async deliver(event: any): Promise<void> {
     this.publishedEvents.push(event);
   }
 }
@@ -52,7 +67,8 @@ describe('ReopenTaskUseCase', () => {
   beforeEach(() => {
     taskRepository = new MockTaskRepository();
     eventPublisher = new MockEventPublisher();
-    useCase = new ReopenTaskUseCase(taskRepository, eventPublisher);
+    const dispatcher = new OutboxDispatcher(new InMemoryEventOutbox(), eventPublisher, taskRepository, new FakeClock());
+    useCase = new ReopenTaskUseCase(taskRepository, new UnitOfWork(taskRepository, dispatcher));
     userId = UserId.create('user-123');
   });
 
@@ -206,4 +222,69 @@ describe('ReopenTaskUseCase', () => {
       expect(allTasks[0].status.isTodo()).toBe(true);
     });
   });
+
+  describe('with roles', () => {
+    const ownerUserId = UserId.create('owner-123');
+    const leadUserId = UserId.create('lead-1');
+    const adminUserId = UserId.create('admin-1');
+
+    beforeEach(() => {
+      const permissions = new PermissionPolicyProvider(
+        new InMemoryUserRepository([
+          User.create(ownerUserId, 'Owner'),
+          User.create(leadUserId, 'Lead', UserRole.LEAD),
+          User.create(adminUserId, 'Admin', UserRole.ADMIN)
+        ]),
+        new InMemoryTeamRepository([Team.create('team-a', 'Team A', [ownerUserId, leadUserId])])
+      );
+      const dispatcher = new OutboxDispatcher(new InMemoryEventOutbox(), eventPublisher, taskRepository, new FakeClock());
+      useCase = new ReopenTaskUseCase(taskRepository, new UnitOfWork(taskRepository, dispatcher), permissions);
+    });
+
+    const completedTask = (hoursAgo: number): Task => {
+      const task = Task.create(TaskTitle.create('Team Task'), TaskPriority.medium());
+      task.assignTo(ownerUserId, ownerUserId);
+      task.complete(ownerUserId);
+      const completedAt = new Date();
+      completedAt.setHours(completedAt.getHours() - hoursAgo);
+      return Task.reconstitute({
+        id: task.id,
+        title: task.title,
+        status: task.status,
+        priority: task.priority,
+        assignment: task.assignment,
+        dependencies: [],
+        createdAt: task.createdAt,
+        completedAt
+      });
+    };
+
+    it('should let a lead reopen a task of their team', async () => {
+      const task = completedTask(1);
+      taskRepository.addTask(task);
+
+      await useCase.execute(task.id.toString(), leadUserId.toString());
+
+      expect(task.status.isTodo()).toBe(true);
+    });
+
+    it('should not let a lead bypass the 24-hour window', async () => {
+      const task = completedTask(48);
+      taskRepository.addTask(task);
+
+      await expect(
+        useCase.execute(task.id.toString(), leadUserId.toString())
+      ).rejects.toThrow('Can only reopen tasks completed within 24 hours');
+    });
+
+    it('should let an admin reopen after the 24-hour window', async () => {
+      const task = completedTask(48);
+      taskRepository.addTask(task);
+
+      await useCase.execute(task.id.toString(), adminUserId.toString());
+
+      expect(task.status.isTodo()).toBe(true);
+      expect(eventPublisher.publishedEvents[0].reopenedBy.equals(adminUserId)).toBe(true);
+    });
+  });
 });
@@ -1,15 +1,20 @@
 import { TaskId } from '../../domain/valueObjects/TaskId';
 import { UserId } from '../../domain/valueObjects/UserId';
 import { ITaskRepository } from '../../domain/repositories/ITaskRepository';
-import { DomainEventPublisher } from '../services/DomainEventPublisher';
+import { ConcurrencyConflictError } from '../../domain/exceptions/TaskExceptions';
+import { UnitOfWork } from '../services/UnitOfWork';
+import { PermissionPolicyProvider } from '../services/PermissionPolicyProvider';
+import { TaskWorkflowProvider } from '../services/TaskWorkflowProvider';
 
 export class ReopenTaskUseCase {
   constructor(
     private taskRepository: ITaskRepository,
-    private eventPublisher: DomainEventPublisher
+    private unitOfWork: UnitOfWork,
+    private permissions: PermissionPolicyProvider = new PermissionPolicyProvider(),
+    private workflows: TaskWorkflowProvider = new TaskWorkflowProvider()
   ) {}
 
-  async execute(taskId: string, userId: string): Promise<void> {
+  async execute(taskId: string, userId: string, expectedVersion?: number): Promise<void> {
     const id = TaskId.fromString(taskId);
     const user = UserId.create(userId);
 
@@ -19,13 +24,13 @@ export class ReopenTaskUseCase {
       throw new Error('Task not found');
     }
 
-    task.reopen(user);
+    if (expectedVersion !== undefined && task.version !== expectedVersion) {
+      throw new ConcurrencyConflictError(id, expectedVersion, task.version);
+    }
 
-    await this.taskRepository.save(task);
+    task.reopen(user, await this.permissions.current(), await this.workflows.current());
 
-    const events = task.pullDomainEvents();
-    for (const event of events) {
-      await this.eventPublisher.publish(event);
-    }
+    this.unitOfWork.registerDirty(task);
+    await this.unitOfWork.commit();
   }
 }
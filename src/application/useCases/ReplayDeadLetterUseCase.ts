@@ -0,0 +1,12 @@
+import { DomainEventPublisher } from '../services/DomainEventPublisher';
+
+export class ReplayDeadLetterUseCase {
+  constructor(private eventPublisher: DomainEventPublisher) {}
+
+  /**
+   * @returns whether the handler succeeded this time
+   */
+  async execute(deadLetterId: string): Promise<boolean> {
+    return await this.eventPublisher.replayDeadLetter(deadLetterId);
+  }
+}
@@ -0,0 +1,99 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { SaveTaskViewUseCase } from './SaveTaskViewUseCase';
+import { GetSavedTaskViewsUseCase } from './GetSavedTaskViewsUseCase';
+import { DeleteTaskViewUseCase } from './DeleteTaskViewUseCase';
+import { ISavedTaskViewRepository } from '../../domain/repositories/ISavedTaskViewRepository';
+import { SavedTaskView, SavedTaskViewJSON } from '../../domain/entities/SavedTaskView';
+import { UserId } from '../../domain/valueObjects/UserId';
+
+// Stores views as JSON, like the localStorage adapter
+class MockSavedTaskViewRepository implements ISavedTaskViewRepository {
+  private views: Map<string, SavedTaskViewJSON> = new Map();
+
+  async findById(id: string): Promise<SavedTaskView | null> {
+    const json = this.views.get(id);
+    return json ? SavedTaskView.reconstitute(JSON.parse(JSON.stringify(json))) : null;
+  }
+
+  async findByOwner(ownerId: UserId): Promise<SavedTaskView[]> {
+    return Array.from(this.views.values())
+      .filter(view => view.ownerId === ownerId.toString())
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map(view => SavedTaskView.reconstitute(JSON.parse(JSON.stringify(view))));
+  }
+
+  async save(view: SavedTaskView): Promise<void> {
+    this.views.set(view.id, view.toJSON());
+  }
+
+  async delete(id: string): Promise<void> {
+    this.views.delete(id);
+  }
+}
+
+describe('SaveTaskViewUseCase', () => {
+  let useCase: SaveTaskViewUseCase;
+  let getViews: GetSavedTaskViewsUseCase;
+  let viewRepository: MockSavedTaskViewRepository;
+
+  const ownerId = 'user-123';
+
+  beforeEach(() => {
+    viewRepository = new MockSavedTaskViewRepository();
+    useCase = new SaveTaskViewUseCase(viewRepository);
+    getViews = new GetSavedTaskViewsUseCase(viewRepository);
+  });
+
+  it('should save filters and sort under a name', async () => {
+    const dueTo = new Date(2026, 5, 30, 23, 59, 59);
+
+    await useCase.execute(
+      '  My bugs ',
+      { assigneeId: ownerId, labels: ['Bug'], statuses: [], dueTo, sortBy: 'priority', sortDirection: 'desc' },
+      ownerId
+    );
+
+    const [view] = await getViews.execute(ownerId);
+    expect(view.name).toBe('My bugs');
+    expect(view.criteria).toEqual({
+      assigneeId: ownerId,
+      labels: ['Bug'],
+      dueTo,
+      sortBy: 'priority',
+      sortDirection: 'desc'
+    });
+  });
+
+  it('should overwrite the view with the same name', async () => {
+    const first = await useCase.execute('Urgent', { priorities: ['HIGH'] }, ownerId);
+    const second = await useCase.execute('urgent', { priorities: ['CRITICAL'] }, ownerId);
+
+    expect(second.id).toBe(first.id);
+    expect(await getViews.execute(ownerId)).toEqual([
+      { id: first.id, name: 'Urgent', criteria: { priorities: ['CRITICAL'] } }
+    ]);
+  });
+
+  it('should keep views personal', async () => {
+    await useCase.execute('Unassigned', { assigneeId: null }, ownerId);
+    await useCase.execute('Unassigned', { assigneeId: null }, 'lead-1');
+
+    expect(await getViews.execute(ownerId)).toHaveLength(1);
+    expect((await getViews.execute(ownerId))[0].criteria).toEqual({ assigneeId: null });
+  });
+
+  it('should reject views without a name', async () => {
+    await expect(useCase.execute('   ', {}, ownerId)).rejects.toThrow('View name cannot be empty');
+  });
+
+  it('should only let the owner delete a view', async () => {
+    const deleteView = new DeleteTaskViewUseCase(viewRepository);
+    const view = await useCase.execute('Overdue', { overdue: true }, ownerId);
+
+    await expect(deleteView.execute(view.id, 'lead-1')).rejects.toThrow('Only the owner can delete this view');
+    await deleteView.execute(view.id, ownerId);
+
+    expect(await getViews.execute(ownerId)).toEqual([]);
+    await expect(deleteView.execute(view.id, ownerId)).rejects.toThrow('View not found');
+  });
+});
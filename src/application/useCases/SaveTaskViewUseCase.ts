@@ -0,0 +1,27 @@
+import { SavedTaskView, TaskViewCriteria } from '../../domain/entities/SavedTaskView';
+import { UserId } from '../../domain/valueObjects/UserId';
+import { ISavedTaskViewRepository } from '../../domain/repositories/ISavedTaskViewRepository';
+import { SavedTaskViewSummary, toSavedTaskViewSummary } from './GetSavedTaskViewsUseCase';
+
+export class SaveTaskViewUseCase {
+  constructor(private viewRepository: ISavedTaskViewRepository) {}
+
+  /**
+   * Saving under the name of one of the user's views overwrites it.
+   */
+  async execute(name: string, criteria: TaskViewCriteria, ownerId: string): Promise<SavedTaskViewSummary> {
+    const owner = UserId.create(ownerId);
+    const existing = (await this.viewRepository.findByOwner(owner)).find(view => view.hasName(name));
+
+    let view: SavedTaskView;
+    if (existing) {
+      existing.update(criteria);
+      view = existing;
+    } else {
+      view = SavedTaskView.create(owner, name, criteria);
+    }
+
+    await this.viewRepository.save(view);
+    return toSavedTaskViewSummary(view);
+  }
+}
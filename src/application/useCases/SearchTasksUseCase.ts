@@ -0,0 +1,50 @@
+import { ITaskRepository } from '../../domain/repositories/ITaskRepository';
+import { TaskQuery, TaskQueryResult } from '../../domain/repositories/TaskQuery';
+import { TaskViewCriteria } from '../../domain/entities/SavedTaskView';
+import { TaskStatus, TaskStatusType } from '../../domain/valueObjects/TaskStatus';
+import { PriorityLevel } from '../../domain/valueObjects/TaskPriority';
+
+export interface SearchTasksCriteria extends TaskViewCriteria {
+  cursor?: string;
+  limit?: number;
+}
+
+export class SearchTasksUseCase {
+  constructor(private taskRepository: ITaskRepository) {}
+
+  async execute(criteria: SearchTasksCriteria = {}): Promise<TaskQueryResult> {
+    const query = TaskQuery.create({
+      filters: {
+        statuses: criteria.statuses?.map(s => TaskStatus.fromString(s).toString() as TaskStatusType),
+        priorities: criteria.priorities?.map(p => this.parsePriority(p)),
+        assigneeId: criteria.assigneeId,
+        overdue: criteria.overdue,
+        dueFrom: criteria.dueFrom,
+        dueTo: criteria.dueTo,
+        dependencyState: criteria.dependencyState,
+        labels: criteria.labels
+      },
+      sort: criteria.sortBy
+        ? { key: criteria.sortBy, direction: criteria.sortDirection ?? 'asc' }
+        : undefined,
+      cursor: criteria.cursor,
+      limit: criteria.limit
+    });
+
+    return await this.taskRepository.findByQuery(query);
+  }
+
+  /**
+   * Accepts a level name ("HIGH") or its number ("3"). Numbers are mapped
+   * directly, since indexing the enum with one gives back its name.
+   */
+  private parsePriority(priority: string): PriorityLevel {
+    const level: PriorityLevel = /^\d+$/.test(priority)
+      ? Number(priority)
+      : PriorityLevel[priority.toUpperCase() as keyof typeof PriorityLevel];
+    if (!Object.values(PriorityLevel).includes(level)) {
+      throw new Error(`Invalid task priority: ${priority}`);
+    }
+    return level;
+  }
+}
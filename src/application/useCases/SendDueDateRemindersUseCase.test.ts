@@ -0,0 +1,178 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { SendDueDateRemindersUseCase } from './SendDueDateRemindersUseCase';
+import { ReminderService } from '../services/ReminderService';
+import { IReminderNotifier, Reminder } from '../services/IReminderNotifier';
+import { TaskReminderEventHandler } from '../eventHandlers/TaskReminderEventHandler';
+import { DomainEventPublisher } from '../services/DomainEventPublisher';
+import { UnitOfWork } from '../services/UnitOfWork';
+import { OutboxDispatcher } from '../services/OutboxDispatcher';
+import { InMemoryEventOutbox } from '../../infrastructure/events/InMemoryEventOutbox';
+import { Task } from '../../domain/entities/Task';
+import { TaskTitle } from '../../domain/valueObjects/TaskTitle';
+import { TaskPriority } from '../../domain/valueObjects/TaskPriority';
+import { UserId } from '../../domain/valueObjects/UserId';
+import { ConcurrencyConflictError } from '../../domain/exceptions/TaskExceptions';
+import { FakeClock } from '../../infrastructure/scheduling/FakeClock';
+import { FakeScheduler } from '../../infrastructure/scheduling/FakeScheduler';
+import { MockTaskRepository } from '../../test/mocks';
+
+class RecordingNotifier implements IReminderNotifier {
+  reminders: Reminder[] = [];
+
+  notify(reminder: Reminder): void {
+    this.reminders.push(reminder);
+  }
+
+  get messages(): string[] {
+    return this.reminders.map(r => r.message);
+  }
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+describe('SendDueDateRemindersUseCase', () => {
+  let useCase: SendDueDateRemindersUseCase;
+  let taskRepository: MockTaskRepository;
+  let notifier: RecordingNotifier;
+  let clock: FakeClock;
+
+  const taskDueIn = (ms: number, title: string = 'Pay rent'): Task => {
+    const task = Task.create(
+      TaskTitle.create(title),
+      TaskPriority.medium(),
+      new Date(clock.now().getTime() + ms)
+    );
+    taskRepository.addTask(task);
+    return task;
+  };
+
+  beforeEach(() => {
+    taskRepository = new MockTaskRepository();
+    notifier = new RecordingNotifier();
+    clock = new FakeClock(new Date(2026, 0, 1, 9));
+
+    const publisher = new DomainEventPublisher();
+    const handler = new TaskReminderEventHandler(notifier, clock);
+    publisher.subscribe('TaskDueSoon', (event) => handler.handle(event));
+    publisher.subscribe('TaskOverdue', (event) => handler.handle(event));
+
+    const dispatcher = new OutboxDispatcher(new InMemoryEventOutbox(), publisher, taskRepository, clock);
+    useCase = new SendDueDateRemindersUseCase(
+      taskRepository,
+      () => new UnitOfWork(taskRepository, dispatcher),
+      clock
+    );
+  });
+
+  describe('execute', () => {
+    it('should remind a day before the due date', async () => {
+      const task = taskDueIn(DAY_MS - HOUR_MS);
+
+      const reminded = await useCase.execute();
+
+      expect(reminded).toEqual([task]);
+      expect(notifier.reminders[0]).toMatchObject({ taskId: task.id.toString(), kind: 'dueSoon' });
+      expect(notifier.messages).toEqual(['"Pay rent" is due in 23 hours']);
+    });
+
+    it('should send each reminder once', async () => {
+      taskDueIn(DAY_MS - HOUR_MS);
+
+      await useCase.execute();
+      const second = await useCase.execute();
+
+      expect(second).toHaveLength(0);
+      expect(notifier.reminders).toHaveLength(1);
+    });
+
+    it('should leave tasks without a due date or that are closed alone', async () => {
+      taskRepository.addTask(Task.create(TaskTitle.create('Someday')));
+      const done = taskDueIn(-DAY_MS, 'Filed taxes');
+      done.complete(UserId.create('user-123'));
+
+      expect(await useCase.execute()).toHaveLength(0);
+      expect(notifier.reminders).toHaveLength(0);
+    });
+
+    it('should commit each task on its own and skip one changed elsewhere', async () => {
+      const conflicted = taskDueIn(DAY_MS - HOUR_MS, 'Pay rent');
+      const other = taskDueIn(DAY_MS - HOUR_MS, 'Renew passport');
+      vi.spyOn(taskRepository, 'saveAll').mockRejectedValueOnce(
+        new ConcurrencyConflictError(conflicted.id, conflicted.version, conflicted.version + 1)
+      );
+
+      const reminded = await useCase.execute();
+
+      expect(reminded).toEqual([other]);
+      expect(notifier.messages).toEqual(['"Renew passport" is due in 23 hours']);
+    });
+
+    it('should skip reminders missed while the app was closed', async () => {
+      taskDueIn(-3 * DAY_MS - HOUR_MS);
+
+      await useCase.execute();
+
+      expect(notifier.messages).toEqual(['"Pay rent" is overdue by 3 days']);
+    });
+  });
+
+  describe('ReminderService', () => {
+    let scheduler: FakeScheduler;
+    let service: ReminderService;
+
+    beforeEach(() => {
+      scheduler = new FakeScheduler(clock);
+      service = new ReminderService(useCase, scheduler, HOUR_MS);
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('should remind before, at and after the due date as time passes', async () => {
+      taskDueIn(3 * DAY_MS);
+      service.start();
+
+      await scheduler.advanceBy(DAY_MS);
+      expect(notifier.reminders).toHaveLength(0);
+
+      await scheduler.advanceBy(DAY_MS);
+      expect(notifier.messages).toEqual(['"Pay rent" is due in 1 day']);
+
+      await scheduler.advanceBy(DAY_MS);
+      expect(notifier.messages.at(-1)).toBe('"Pay rent" is due now');
+
+      await scheduler.advanceBy(DAY_MS);
+      expect(notifier.messages.at(-1)).toBe('"Pay rent" is overdue by 1 day');
+      expect(notifier.reminders.at(-1)?.kind).toBe('overdue');
+
+      await scheduler.advanceBy(DAY_MS);
+      expect(notifier.messages.at(-1)).toBe('"Pay rent" is overdue by 2 days');
+      expect(notifier.reminders).toHaveLength(4);
+    });
+
+    it('should stop reminding once the task is completed', async () => {
+      const task = taskDueIn(HOUR_MS);
+      task.complete(UserId.create('user-123'));
+      service.start();
+
+      await scheduler.advanceBy(3 * DAY_MS);
+
+      expect(notifier.reminders).toHaveLength(0);
+    });
+
+    it('should stop sweeping once stopped', async () => {
+      taskDueIn(HOUR_MS);
+
+      const stop = service.start();
+      stop();
+      await scheduler.advanceBy(3 * DAY_MS);
+
+      expect(service.isRunning).toBe(false);
+      expect(scheduler.pendingJobCount).toBe(0);
+      expect(notifier.reminders).toHaveLength(0);
+    });
+  });
+});
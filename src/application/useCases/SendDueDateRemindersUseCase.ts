@@ -0,0 +1,45 @@
+import { Task } from '../../domain/entities/Task';
+import { ITaskRepository } from '../../domain/repositories/ITaskRepository';
+import { ReminderPolicy } from '../../domain/valueObjects/ReminderPolicy';
+import { ConcurrencyConflictError } from '../../domain/exceptions/TaskExceptions';
+import { UnitOfWork } from '../services/UnitOfWork';
+import { IClock } from '../services/IClock';
+
+export class SendDueDateRemindersUseCase {
+  constructor(
+    private taskRepository: ITaskRepository,
+    private createUnitOfWork: () => UnitOfWork,
+    private clock: IClock,
+    private policy: ReminderPolicy = ReminderPolicy.default()
+  ) {}
+
+  /**
+   * Raises TaskDueSoon and TaskOverdue for every task that is due a
+   * reminder and returns those tasks. Each task is committed on its own, so
+   * a task changed elsewhere in the meantime is skipped until the next run
+   * instead of failing the whole sweep.
+   */
+  async execute(): Promise<Task[]> {
+    const now = this.clock.now();
+    const tasks = await this.taskRepository.findAll();
+    const reminded: Task[] = [];
+
+    for (const task of tasks) {
+      const previousReminderAt = task.lastReminderAt;
+      task.checkDueDateReminders(this.policy, now);
+      if (task.lastReminderAt === previousReminderAt) continue;
+
+      const unitOfWork = this.createUnitOfWork();
+      unitOfWork.registerDirty(task);
+      try {
+        await unitOfWork.commit();
+      } catch (error) {
+        if (error instanceof ConcurrencyConflictError) continue;
+        throw error;
+      }
+      reminded.push(task);
+    }
+
+    return reminded;
+  }
+}
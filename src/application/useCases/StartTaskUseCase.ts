@@ -0,0 +1,45 @@
+import { TaskId } from '../../domain/valueObjects/TaskId';
+import { UserId } from '../../domain/valueObjects/UserId';
+import { ITaskRepository } from '../../domain/repositories/ITaskRepository';
+import { ConcurrencyConflictError } from '../../domain/exceptions/TaskExceptions';
+import { TaskDependencyService } from '../../domain/services/TaskDependencyService';
+import { UnitOfWork } from '../services/UnitOfWork';
+import { IClock } from '../services/IClock';
+import { TaskWorkflowProvider } from '../services/TaskWorkflowProvider';
+
+export class StartTaskUseCase {
+  constructor(
+    private taskRepository: ITaskRepository,
+    private unitOfWork: UnitOfWork,
+    private clock: IClock,
+    private workflows: TaskWorkflowProvider = new TaskWorkflowProvider()
+  ) {}
+
+  async execute(taskId: string, userId: string, expectedVersion?: number): Promise<void> {
+    const id = TaskId.fromString(taskId);
+    const user = UserId.create(userId);
+
+    const task = await this.taskRepository.findById(id);
+
+    if (!task) {
+      throw new Error('Task not found');
+    }
+
+    if (expectedVersion !== undefined && task.version !== expectedVersion) {
+      throw new ConcurrencyConflictError(id, expectedVersion, task.version);
+    }
+
+    const allTasks = await this.taskRepository.findAll();
+    TaskDependencyService.ensureNotBlocked(task, allTasks);
+
+    task.startProgress(
+      user,
+      await this.workflows.current(),
+      this.clock.now(),
+      TaskDependencyService.openBlockerIds(allTasks)
+    );
+
+    this.unitOfWork.registerDirty(task);
+    await this.unitOfWork.commit();
+  }
+}
@@ -0,0 +1,50 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ToggleChecklistItemUseCase } from './ToggleChecklistItemUseCase';
+import { UnitOfWork } from '../services/UnitOfWork';
+import { OutboxDispatcher } from '../services/OutboxDispatcher';
+import { InMemoryEventOutbox } from '../../infrastructure/events/InMemoryEventOutbox';
+import { FakeClock } from '../../infrastructure/scheduling/FakeClock';
+import { Task } from '../../domain/entities/Task';
+import { TaskTitle } from '../../domain/valueObjects/TaskTitle';
+import { TaskPriority } from '../../domain/valueObjects/TaskPriority';
+import { UserId } from '../../domain/valueObjects/UserId';
+import { TaskChecklistItemToggledEvent } from '../../domain/events/TaskChecklistItemToggledEvent';
+import { MockTaskRepository, MockEventPublisher } from '../../test/mocks';
+
+describe('ToggleChecklistItemUseCase', () => {
+  let useCase: ToggleChecklistItemUseCase;
+  let taskRepository: MockTaskRepository;
+  let eventPublisher: MockEventPublisher;
+  let userId: UserId;
+
+  beforeEach(() => {
+    taskRepository = new MockTaskRepository();
+    eventPublisher = new MockEventPublisher();
+    const dispatcher = new OutboxDispatcher(new InMemoryEventOutbox(), eventPublisher, taskRepository, new FakeClock());
+    useCase = new ToggleChecklistItemUseCase(taskRepository, new UnitOfWork(taskRepository, dispatcher));
+    userId = UserId.create('user-123');
+  });
+
+  describe('execute', () => {
+    it('should toggle the item and publish TaskChecklistItemToggledEvent', async () => {
+      const task = Task.create(TaskTitle.create('Release'), TaskPriority.medium());
+      const item = task.addChecklistItem('Update changelog', userId);
+      taskRepository.addTask(task);
+
+      await useCase.execute(task.id.toString(), item.id, userId.toString());
+
+      expect(task.checklist[0].done).toBe(true);
+      expect(eventPublisher.publishedEvents).toHaveLength(1);
+      expect(eventPublisher.publishedEvents[0]).toBeInstanceOf(TaskChecklistItemToggledEvent);
+    });
+
+    it('should reject unknown items', async () => {
+      const task = Task.create(TaskTitle.create('Release'), TaskPriority.medium());
+      taskRepository.addTask(task);
+
+      await expect(
+        useCase.execute(task.id.toString(), 'missing-item', userId.toString())
+      ).rejects.toThrow('Checklist item not found');
+    });
+  });
+});
@@ -0,0 +1,18 @@
+import { EscalationPolicy, EscalationPolicyProps } from '../../domain/valueObjects/EscalationPolicy';
+import {
+  IEscalationPolicyRepository,
+  DEFAULT_WORKSPACE_ID
+} from '../../domain/repositories/IEscalationPolicyRepository';
+
+export class UpdateEscalationPolicyUseCase {
+  constructor(private policyRepository: IEscalationPolicyRepository) {}
+
+  async execute(
+    props: EscalationPolicyProps,
+    workspaceId: string = DEFAULT_WORKSPACE_ID
+  ): Promise<EscalationPolicy> {
+    const policy = EscalationPolicy.create(props);
+    await this.policyRepository.save(workspaceId, policy);
+    return policy;
+  }
+}
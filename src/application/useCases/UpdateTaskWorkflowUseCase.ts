@@ -0,0 +1,16 @@
+import { TaskWorkflow, WorkflowDefinition } from '../../domain/valueObjects/TaskWorkflow';
+import { ITaskWorkflowRepository } from '../../domain/repositories/ITaskWorkflowRepository';
+import { DEFAULT_WORKSPACE_ID } from '../../domain/repositories/IEscalationPolicyRepository';
+
+export class UpdateTaskWorkflowUseCase {
+  constructor(private workflowRepository: ITaskWorkflowRepository) {}
+
+  async execute(
+    definition: WorkflowDefinition,
+    workspaceId: string = DEFAULT_WORKSPACE_ID
+  ): Promise<TaskWorkflow> {
+    const workflow = TaskWorkflow.define(definition);
+    await this.workflowRepository.save(workspaceId, workflow);
+    return workflow;
+  }
+}
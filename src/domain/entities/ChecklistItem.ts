@@ -0,0 +1,55 @@
+export interface ChecklistItemJSON {
+  id: string;
+  title: string;
+  done: boolean;
+  required: boolean;
+}
+
+/**
+ * A step inside a task. Required items must be done before the task can
+ * be completed; optional ones only count towards progress.
+ *
+ * Items are immutable and only changed through their Task, so every
+ * change raises the task's events.
+ */
+export class ChecklistItem {
+  private static readonly MAX_TITLE_LENGTH = 200;
+
+  private constructor(
+    readonly id: string,
+    readonly title: string,
+    readonly done: boolean,
+    readonly required: boolean
+  ) {}
+
+  static create(title: string, required: boolean = true): ChecklistItem {
+    const trimmed = title.trim();
+
+    if (trimmed.length === 0) {
+      throw new Error('Checklist item title cannot be empty');
+    }
+
+    if (trimmed.length > ChecklistItem.MAX_TITLE_LENGTH) {
+      throw new Error(`Checklist item title cannot exceed ${ChecklistItem.MAX_TITLE_LENGTH} characters`);
+    }
+
+    return new ChecklistItem(crypto.randomUUID(), trimmed, false, required);
+  }
+
+  static reconstitute(json: ChecklistItemJSON): ChecklistItem {
+    return new ChecklistItem(json.id, json.title, json.done, json.required);
+  }
+
+  toggled(): ChecklistItem {
+    return new ChecklistItem(this.id, this.title, !this.done, this.required);
+  }
+
+  toJSON(): ChecklistItemJSON {
+    return {
+      id: this.id,
+      title: this.title,
+      done: this.done,
+      required: this.required
+    };
+  }
+}
@@ -0,0 +1,132 @@
+import { UserId } from '../valueObjects/UserId';
+import { TaskSortKey, SortDirection, DependencyState } from '../repositories/TaskQuery';
+
+/**
+ * Filters and sort of the task list as the user picked them, before they
+ * are parsed into a TaskQuery.
+ */
+export interface TaskViewCriteria {
+  statuses?: string[];
+  priorities?: string[];
+  /** `null` means unassigned tasks */
+  assigneeId?: string | null;
+  overdue?: boolean;
+  dueFrom?: Date;
+  dueTo?: Date;
+  dependencyState?: DependencyState;
+  labels?: string[];
+  sortBy?: TaskSortKey;
+  sortDirection?: SortDirection;
+}
+
+type TaskViewCriteriaJSON = Omit<TaskViewCriteria, 'dueFrom' | 'dueTo'> & {
+  dueFrom?: string;
+  dueTo?: string;
+};
+
+export interface SavedTaskViewJSON {
+  id: string;
+  ownerId: string;
+  name: string;
+  criteria: TaskViewCriteriaJSON;
+}
+
+interface SavedTaskViewProps {
+  id: string;
+  ownerId: UserId;
+  name: string;
+  criteria: TaskViewCriteria;
+}
+
+// Unset filters are left out so equal views compare and store the same
+const compact = (criteria: TaskViewCriteria): TaskViewCriteria =>
+  Object.fromEntries(
+    Object.entries(criteria).filter(([, value]) =>
+      value !== undefined && !(Array.isArray(value) && value.length === 0)
+    )
+  ) as TaskViewCriteria;
+
+/**
+ * A named combination of task filters and sort that a user saved to switch
+ * back to later. Views are personal; each user sees only their own.
+ */
+export class SavedTaskView {
+  private static readonly MAX_NAME_LENGTH = 40;
+
+  private constructor(private props: SavedTaskViewProps) {}
+
+  static create(ownerId: UserId, name: string, criteria: TaskViewCriteria): SavedTaskView {
+    return new SavedTaskView({
+      id: crypto.randomUUID(),
+      ownerId,
+      name: SavedTaskView.validateName(name),
+      criteria: compact(criteria)
+    });
+  }
+
+  static reconstitute(json: SavedTaskViewJSON): SavedTaskView {
+    const { dueFrom, dueTo, ...rest } = json.criteria;
+    return new SavedTaskView({
+      id: json.id,
+      ownerId: UserId.create(json.ownerId),
+      name: json.name,
+      criteria: compact({
+        ...rest,
+        dueFrom: dueFrom ? new Date(dueFrom) : undefined,
+        dueTo: dueTo ? new Date(dueTo) : undefined
+      })
+    });
+  }
+
+  private static validateName(name: string): string {
+    const trimmed = name.trim();
+
+    if (trimmed.length === 0) {
+      throw new Error('View name cannot be empty');
+    }
+
+    if (trimmed.length > SavedTaskView.MAX_NAME_LENGTH) {
+      throw new Error(`View name cannot exceed ${SavedTaskView.MAX_NAME_LENGTH} characters`);
+    }
+
+    return trimmed;
+  }
+
+  get id(): string {
+    return this.props.id;
+  }
+
+  get ownerId(): UserId {
+    return this.props.ownerId;
+  }
+
+  get name(): string {
+    return this.props.name;
+  }
+
+  get criteria(): TaskViewCriteria {
+    return { ...this.props.criteria };
+  }
+
+  hasName(name: string): boolean {
+    return this.props.name.toLowerCase() === name.trim().toLowerCase();
+  }
+
+  update(criteria: TaskViewCriteria): void {
+    this.props.criteria = compact(criteria);
+  }
+
+  toJSON(): SavedTaskViewJSON {
+    const { dueFrom, dueTo, ...rest } = this.props.criteria;
+    return {
+      id: this.props.id,
+      ownerId: this.props.ownerId.toString(),
+      name: this.props.name,
+      criteria: {
+        ...rest,
+        ...(dueFrom && { dueFrom: dueFrom.toISOString() }),
+        ...(dueTo && { dueTo: dueTo.toISOString() })
+      }
+    };
+  }
+}
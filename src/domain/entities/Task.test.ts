@@ -6,6 +6,34 @@ import { UserId } from '../valueObjects/UserId';
 import { TaskStatus } from '../valueObjects/TaskStatus';
 import { TaskCompletedEvent } from '../events/TaskCompletedEvent';
 import { TaskAssignedEvent } from '../events/TaskAssignedEvent';
+import { TaskCreatedEvent } from '../events/TaskCreatedEvent';
+import { TaskTitleChangedEvent } from '../events/TaskTitleChangedEvent';
+import { TaskUnassignedEvent } from '../events/TaskUnassignedEvent';
+import { TaskStartedEvent } from '../events/TaskStartedEvent';
+import { TaskDependencyAddedEvent } from '../events/TaskDependencyAddedEvent';
+import { TaskDependencyRemovedEvent } from '../events/TaskDependencyRemovedEvent';
+import { TaskPriorityLoweredEvent } from '../events/TaskPriorityLoweredEvent';
+import { TaskDependency } from '../valueObjects/TaskDependency';
+import { TaskId } from '../valueObjects/TaskId';
+import { User, UserRole } from './User';
+import { Team } from './Team';
+import { PermissionPolicy } from '../services/PermissionPolicy';
+import { TaskWorkflow } from '../valueObjects/TaskWorkflow';
+import { EscalationPolicy } from '../valueObjects/EscalationPolicy';
+import { TaskStatusType } from '../valueObjects/TaskStatus';
+import { TaskStatusChangedEvent } from '../events/TaskStatusChangedEvent';
+import { TaskRecurrence, RecurrenceFrequency } from '../valueObjects/TaskRecurrence';
+import { TaskChecklistItemAddedEvent } from '../events/TaskChecklistItemAddedEvent';
+import { TaskChecklistItemToggledEvent } from '../events/TaskChecklistItemToggledEvent';
+import { TaskChecklistItemRemovedEvent } from '../events/TaskChecklistItemRemovedEvent';
+import { InvalidStatusTransitionException } from '../exceptions/TaskExceptions';
+import { TaskLabel } from '../valueObjects/TaskLabel';
+import { TaskLabelAddedEvent } from '../events/TaskLabelAddedEvent';
+import { TaskLabelRemovedEvent } from '../events/TaskLabelRemovedEvent';
+import { TaskEstimate } from '../valueObjects/TaskEstimate';
+import { TaskEstimateChangedEvent } from '../events/TaskEstimateChangedEvent';
+import { TaskTimerStartedEvent } from '../events/TaskTimerStartedEvent';
+import { TaskWorkLoggedEvent } from '../events/TaskWorkLoggedEvent';
 
 describe('Task', () => {
   let task: Task;
@@ -14,6 +42,7 @@ describe('Task', () => {
   beforeEach(() => {
     const title = TaskTitle.create('Test Task');
     task = Task.create(title, TaskPriority.medium());
+    task.pullDomainEvents();
     userId = UserId.create('user-123');
   });
 
@@ -29,6 +58,15 @@ describe('Task', () => {
       expect(newTask.assignment).toBeUndefined();
     });
 
+    it('should emit TaskCreatedEvent', () => {
+      const newTask = Task.create(TaskTitle.create('New Task'), TaskPriority.high());
+
+      const events = newTask.pullDomainEvents();
+      expect(events).toHaveLength(1);
+      expect(events[0]).toBeInstanceOf(TaskCreatedEvent);
+      expect((events[0] as TaskCreatedEvent).title).toBe('New Task');
+    });
+
     it('should create a task with custom priority', () => {
       const title = TaskTitle.create('High Priority Task');
       const newTask = Task.create(title, TaskPriority.high());
@@ -43,6 +81,15 @@ describe('Task', () => {
 
       expect(newTask.dueDate).toEqual(dueDate);
     });
+
+    it('should start unversioned until it is saved', () => {
+      expect(task.version).toBe(0);
+      expect(task.toDTO().version).toBe(0);
+
+      task.incrementVersion();
+
+      expect(task.version).toBe(1);
+    });
   });
 
   describe('assignTo', () => {
@@ -74,6 +121,45 @@ describe('Task', () => {
     });
   });
 
+  describe('permissions', () => {
+    const owner = UserId.create('owner-1');
+    const lead = UserId.create('lead-1');
+    const permissions = new PermissionPolicy(
+      [User.create(owner, 'Owner'), User.create(lead, 'Lead', UserRole.LEAD)],
+      [Team.create('team-a', 'Team A', [owner, lead])]
+    );
+
+    beforeEach(() => {
+      task.assignTo(owner, owner);
+    });
+
+    it('should not let other users reassign the task', () => {
+      expect(() => task.assignTo(userId, userId)).toThrow(
+        'Only the assigned user, their lead or an admin can reassign this task'
+      );
+    });
+
+    it('should let the lead of the assignee reassign the task', () => {
+      task.assignTo(userId, lead, permissions);
+
+      expect(task.isAssignedTo(userId)).toBe(true);
+    });
+
+    it('should let the lead of the assignee unassign and reprioritize the task', () => {
+      task.changePriority(TaskPriority.low(), lead, permissions);
+      task.unassign(lead, permissions);
+
+      expect(task.assignment).toBeUndefined();
+      expect(task.priority.toString()).toBe('LOW');
+    });
+
+    it('should not let other users unassign the task', () => {
+      expect(() => task.unassign(userId, permissions)).toThrow(
+        'Only the assigned user, their lead or an admin can unassign this task'
+      );
+    });
+  });
+
   describe('complete', () => {
     it('should complete a task', () => {
       task.assignTo(userId, userId);
@@ -109,6 +195,49 @@ describe('Task', () => {
         'Only assigned user can complete this task'
       );
     });
+
+    it('should not be blocked by a blocker that is already closed', () => {
+      const blockerId = TaskId.create();
+      task.addDependency(TaskDependency.blockedBy(blockerId));
+      task.assignTo(userId, userId);
+
+      expect(task.hasBlockingDependencies(new Set([blockerId.toString()]))).toBe(true);
+      expect(task.hasBlockingDependencies(new Set())).toBe(false);
+
+      task.complete(userId, undefined, undefined, new Set());
+
+      expect(task.status.isDone()).toBe(true);
+      expect(task.getBlockingDependencies()).toHaveLength(1);
+    });
+
+    it('should refuse to complete while a blocker is open', () => {
+      const blockerId = TaskId.create();
+      task.addDependency(TaskDependency.blockedBy(blockerId));
+      task.assignTo(userId, userId);
+
+      expect(() => task.complete(userId, undefined, undefined, new Set([blockerId.toString()]))).toThrow();
+      expect(task.status.isDone()).toBe(false);
+    });
+  });
+
+  describe('resumeWhenUnblocked', () => {
+    it('should send a blocked task back to TODO once no blocker is open', () => {
+      const blockerId = TaskId.create();
+      task.addDependency(TaskDependency.blockedBy(blockerId));
+      task.moveTo(TaskStatus.blocked(), userId);
+      task.pullDomainEvents();
+
+      expect(task.resumeWhenUnblocked(new Set([blockerId.toString()]), userId)).toBe(false);
+      expect(task.resumeWhenUnblocked(new Set(), userId)).toBe(true);
+
+      expect(task.status.isTodo()).toBe(true);
+      expect(task.pullDomainEvents().map(e => e.eventType)).toEqual(['TaskStatusChanged']);
+    });
+
+    it('should leave tasks that are not blocked alone', () => {
+      expect(task.resumeWhenUnblocked(new Set(), userId)).toBe(false);
+      expect(task.pullDomainEvents()).toHaveLength(0);
+    });
   });
 
   describe('startProgress', () => {
@@ -135,6 +264,317 @@ describe('Task', () => {
     });
   });
 
+  describe('moveTo', () => {
+    beforeEach(() => {
+      task.assignTo(userId, userId);
+      task.startProgress(userId);
+      task.stopTimer(userId);
+      task.pullDomainEvents();
+    });
+
+    it('should move the task along the workflow and emit TaskStatusChangedEvent', () => {
+      task.moveTo(TaskStatus.inReview(), userId);
+
+      expect(task.status.equals(TaskStatus.inReview())).toBe(true);
+      const events = task.pullDomainEvents();
+      expect(events[0]).toBeInstanceOf(TaskStatusChangedEvent);
+      expect((events[0] as TaskStatusChangedEvent).oldStatus.isInProgress()).toBe(true);
+    });
+
+    it('should complete through the complete command', () => {
+      task.moveTo(TaskStatus.inReview(), userId);
+      task.moveTo(TaskStatus.done(), userId);
+
+      expect(task.status.isDone()).toBe(true);
+      expect(task.completedAt).toBeDefined();
+      expect(task.pullDomainEvents()[1]).toBeInstanceOf(TaskCompletedEvent);
+    });
+
+    it('should reject moves the workflow does not allow', () => {
+      task.moveTo(TaskStatus.blocked(), userId);
+
+      expect(() => task.moveTo(TaskStatus.done(), userId)).toThrow(InvalidStatusTransitionException);
+      expect(() => task.moveTo(TaskStatus.done(), userId)).toThrow('Cannot move task from Blocked to Done');
+    });
+
+    it('should check the guards of the transition', () => {
+      task.moveTo(TaskStatus.blocked(), userId);
+      task.addDependency(TaskDependency.blockedBy(TaskId.create()));
+
+      expect(() => task.moveTo(TaskStatus.inProgress(), userId)).toThrow(
+        'Cannot move task to In Progress: blocked by dependencies'
+      );
+    });
+
+    it('should only let the assignee move an assigned task', () => {
+      expect(() => task.moveTo(TaskStatus.cancelled(), UserId.create('user-789'))).toThrow(
+        'Only the assigned user, their lead or an admin can move this task'
+      );
+    });
+
+    it('should follow a custom workflow', () => {
+      const { TODO, DONE } = TaskStatusType;
+      const strict = TaskWorkflow.define({
+        states: [{ status: TODO, label: 'To Do' }, { status: DONE, label: 'Done' }],
+        transitions: [{ from: TODO, to: DONE, label: 'Complete', guards: ['assigned'] }]
+      });
+      const fresh = Task.create(TaskTitle.create('Fresh'));
+
+      expect(() => fresh.complete(userId, PermissionPolicy.assigneeOnly(), strict)).toThrow(
+        'Task must be assigned before moving to Done'
+      );
+
+      fresh.assignTo(userId, userId);
+      expect(() => fresh.startProgress(userId, strict)).toThrow(
+        'Cannot move task from To Do to IN_PROGRESS'
+      );
+    });
+  });
+
+  describe('checklist', () => {
+    it('should add items and emit TaskChecklistItemAddedEvent', () => {
+      const item = task.addChecklistItem('  Write tests ', userId);
+
+      expect(task.checklist).toHaveLength(1);
+      expect(item.title).toBe('Write tests');
+      expect(item.done).toBe(false);
+      expect(task.pullDomainEvents()[0]).toBeInstanceOf(TaskChecklistItemAddedEvent);
+    });
+
+    it('should emit TaskChecklistItemToggledEvent with the new state', () => {
+      const item = task.addChecklistItem('Write tests', userId);
+      task.pullDomainEvents();
+
+      task.toggleChecklistItem(item.id, userId);
+
+      expect(task.checklist[0].done).toBe(true);
+      const event = task.pullDomainEvents()[0] as TaskChecklistItemToggledEvent;
+      expect(event).toBeInstanceOf(TaskChecklistItemToggledEvent);
+      expect(event.done).toBe(true);
+      expect(event.itemTitle).toBe('Write tests');
+    });
+
+    it('should block completion while required items are open', () => {
+      const item = task.addChecklistItem('Write tests', userId);
+      task.addChecklistItem('Nice to have', userId, false);
+
+      expect(() => task.complete(userId)).toThrow(
+        'Cannot complete task: required checklist items are still open'
+      );
+
+      task.toggleChecklistItem(item.id, userId);
+      task.complete(userId);
+      expect(task.status.isDone()).toBe(true);
+    });
+
+    it('should report progress as a percentage of done items', () => {
+      expect(task.getChecklistProgress()).toBe(0);
+
+      const first = task.addChecklistItem('One', userId);
+      task.addChecklistItem('Two', userId);
+      task.addChecklistItem('Three', userId, false);
+      task.toggleChecklistItem(first.id, userId);
+
+      expect(task.getChecklistProgress()).toBe(33);
+    });
+
+    it('should remove items and emit TaskChecklistItemRemovedEvent', () => {
+      const item = task.addChecklistItem('Write tests', userId);
+      task.pullDomainEvents();
+
+      task.removeChecklistItem(item.id, userId);
+
+      expect(task.checklist).toHaveLength(0);
+      expect(task.pullDomainEvents()[0]).toBeInstanceOf(TaskChecklistItemRemovedEvent);
+      expect(() => task.toggleChecklistItem(item.id, userId)).toThrow('Checklist item not found');
+    });
+
+    it('should only let the assignee change the checklist of an assigned task', () => {
+      task.assignTo(userId, userId);
+
+      expect(() => task.addChecklistItem('Sneaky', UserId.create('user-789'))).toThrow(
+        'Only the assigned user, their lead or an admin can change the checklist'
+      );
+    });
+
+    it('should freeze the checklist of a completed task', () => {
+      task.complete(userId);
+
+      expect(() => task.addChecklistItem('Too late', userId)).toThrow(
+        'Cannot change the checklist of a completed task'
+      );
+    });
+  });
+
+  describe('labels', () => {
+    it('should add labels and emit TaskLabelAddedEvent', () => {
+      task.addLabel(TaskLabel.create('Backend'), userId);
+
+      expect(task.labels).toEqual(['Backend']);
+      expect(task.hasLabel('backend')).toBe(true);
+      const event = task.pullDomainEvents()[0] as TaskLabelAddedEvent;
+      expect(event).toBeInstanceOf(TaskLabelAddedEvent);
+      expect(event.label).toBe('Backend');
+    });
+
+    it('should not add the same label twice, ignoring case', () => {
+      task.addLabel(TaskLabel.create('Backend'), userId);
+
+      expect(() => task.addLabel(TaskLabel.create('BACKEND'), userId))
+        .toThrow('Task already has label "BACKEND"');
+    });
+
+    it('should remove labels by name and emit TaskLabelRemovedEvent', () => {
+      task.addLabel(TaskLabel.create('Backend'), userId);
+      task.pullDomainEvents();
+
+      task.removeLabel('backend', userId);
+
+      expect(task.labels).toEqual([]);
+      const event = task.pullDomainEvents()[0] as TaskLabelRemovedEvent;
+      expect(event).toBeInstanceOf(TaskLabelRemovedEvent);
+      expect(event.label).toBe('Backend');
+      expect(() => task.removeLabel('Backend', userId)).toThrow('Task does not have label "Backend"');
+    });
+
+    it('should let completed tasks be labelled, but only by those who manage them', () => {
+      task.assignTo(userId, userId);
+      task.complete(userId);
+
+      task.addLabel(TaskLabel.create('Shipped'), userId);
+
+      expect(() => task.removeLabel('Shipped', UserId.create('user-456')))
+        .toThrow('Only the assigned user, their lead or an admin can change labels');
+    });
+  });
+
+  describe('time tracking', () => {
+    const started = new Date(2026, 2, 2, 9);
+    const minutesLater = (minutes: number) => new Date(started.getTime() + minutes * 60 * 1000);
+
+    beforeEach(() => {
+      task.assignTo(userId, userId);
+      task.startProgress(userId, TaskWorkflow.default(), started);
+      task.pullDomainEvents();
+    });
+
+    it('should set and clear the estimate with TaskEstimateChangedEvent', () => {
+      task.setEstimate(TaskEstimate.hours(4), userId);
+      task.setEstimate(TaskEstimate.hours(4), userId);
+      task.setEstimate(undefined, userId);
+
+      expect(task.estimate).toBeUndefined();
+      const events = task.pullDomainEvents() as TaskEstimateChangedEvent[];
+      expect(events).toHaveLength(2);
+      expect(events[0].estimate?.toString()).toBe('4h');
+      expect(events[1].previousEstimate?.toString()).toBe('4h');
+    });
+
+    it('should run the timer from starting work until the task leaves progress', () => {
+      expect(task.runningTimer?.startedAt).toEqual(started);
+      expect(task.getTrackedMs(minutesLater(30))).toBe(30 * 60 * 1000);
+
+      task.stopTimer(userId, PermissionPolicy.assigneeOnly(), minutesLater(45));
+
+      expect(task.runningTimer).toBeUndefined();
+      expect(task.workLog).toHaveLength(1);
+      expect(task.workLog[0].source).toBe('timer');
+      expect(task.getTrackedMs(minutesLater(90))).toBe(45 * 60 * 1000);
+      expect(task.pullDomainEvents()[0]).toBeInstanceOf(TaskWorkLoggedEvent);
+    });
+
+    it('should log the running timer when the task is completed', () => {
+      task.complete(userId);
+
+      expect(task.runningTimer).toBeUndefined();
+      expect(task.workLog.map(entry => entry.source)).toEqual(['timer']);
+    });
+
+    it('should only restart the timer for the assignee of a task in progress', () => {
+      task.stopTimer(userId, PermissionPolicy.assigneeOnly(), minutesLater(10));
+
+      expect(() => task.startTimer(UserId.create('user-456'))).toThrow(
+        'Only the assigned user can track time on this task'
+      );
+
+      task.startTimer(userId, minutesLater(20));
+      expect(task.pullDomainEvents().at(-1)).toBeInstanceOf(TaskTimerStartedEvent);
+      expect(() => task.startTimer(userId)).toThrow('A timer is already running on this task');
+
+      task.moveTo(TaskStatus.blocked(), userId);
+      expect(() => task.startTimer(userId)).toThrow('Can only track time on tasks in progress');
+    });
+
+    it('should stop the timer when the task is handed to someone else', () => {
+      task.assignTo(UserId.create('user-456'), userId);
+
+      expect(task.runningTimer).toBeUndefined();
+      expect(task.workLog[0].userId.equals(userId)).toBe(true);
+    });
+
+    it('should log work by hand, credited to the user', () => {
+      const entry = task.logWork(userId, 90, new Date(2026, 1, 27, 9), 'Pairing');
+
+      expect(entry.durationMs).toBe(90 * 60 * 1000);
+      expect(entry.source).toBe('manual');
+      expect(() => task.logWork(UserId.create('user-456'), 30, new Date())).toThrow(
+        'Only the assigned user, their lead or an admin can log time on this task'
+      );
+      expect(() => task.logWork(userId, 0, new Date())).toThrow(
+        'Logged time must be a positive number of minutes'
+      );
+    });
+  });
+
+  describe('createNextOccurrence', () => {
+    const weekly = () => TaskRecurrence.create({ frequency: RecurrenceFrequency.WEEKLY, count: 2 });
+
+    it('should create the next task of the series from the due date', () => {
+      const dueDate = new Date(2026, 0, 5, 17);
+      const recurring = Task.create(TaskTitle.create('Weekly report'), TaskPriority.high(), dueDate, weekly());
+      recurring.assignTo(userId, userId);
+      recurring.addChecklistItem('Collect numbers', userId);
+      recurring.toggleChecklistItem(recurring.checklist[0].id, userId);
+      recurring.complete(userId);
+
+      const next = recurring.createNextOccurrence();
+
+      expect(next).not.toBeNull();
+      expect(next!.id.equals(recurring.id)).toBe(false);
+      expect(next!.title.toString()).toBe('Weekly report');
+      expect(next!.priority.toString()).toBe('HIGH');
+      expect(next!.dueDate).toEqual(new Date(2026, 0, 12, 17));
+      expect(next!.recurrence?.getOccurrence()).toBe(2);
+      expect(next!.isAssignedTo(userId)).toBe(true);
+      expect(next!.checklist.map(item => item.done)).toEqual([false]);
+    });
+
+    it('should hand the schedule over so the series is only continued once', () => {
+      const recurring = Task.create(TaskTitle.create('Weekly report'), TaskPriority.medium(), new Date(), weekly());
+      recurring.complete(userId);
+
+      recurring.createNextOccurrence();
+
+      expect(recurring.recurrence).toBeUndefined();
+      expect(recurring.createNextOccurrence()).toBeNull();
+    });
+
+    it('should return null once the series has ended', () => {
+      const recurring = Task.create(TaskTitle.create('Weekly report'), TaskPriority.medium(), new Date(), weekly());
+      recurring.complete(userId);
+      const last = recurring.createNextOccurrence()!;
+      last.complete(userId);
+
+      expect(last.createNextOccurrence()).toBeNull();
+    });
+
+    it('should only schedule completed tasks', () => {
+      expect(() => task.createNextOccurrence()).toThrow(
+        'Can only schedule the next occurrence of a completed task'
+      );
+    });
+  });
+
   describe('changePriority', () => {
     it('should change task priority', () => {
       task.changePriority(TaskPriority.high(), userId);
@@ -149,6 +589,43 @@ describe('Task', () => {
       expect(events.length).toBeGreaterThan(0);
     });
 
+    it('should emit TaskPriorityLoweredEvent when priority decreases', () => {
+      task.changePriority(TaskPriority.low(), userId);
+
+      const events = task.pullDomainEvents();
+      expect(events).toHaveLength(1);
+      expect(events[0]).toBeInstanceOf(TaskPriorityLoweredEvent);
+    });
+
+    it('should restart the escalation clock when priority is lowered by hand', () => {
+      const created = new Date('2026-01-01T09:00:00Z');
+      const lowered = new Date('2026-03-01T09:00:00Z');
+      const stale = Task.reconstitute({
+        id: TaskId.create(),
+        title: TaskTitle.create('Stale task'),
+        status: TaskStatus.todo(),
+        priority: TaskPriority.medium(),
+        dependencies: [],
+        createdAt: created
+      });
+
+      stale.changePriority(TaskPriority.low(), userId, undefined, lowered);
+      stale.checkAndEscalatePriority(EscalationPolicy.default(), new Date('2026-03-02T09:00:00Z'));
+
+      expect(stale.priority.toString()).toBe('LOW');
+      expect(stale.priority.getAutoEscalationDate()).toEqual(lowered);
+
+      stale.checkAndEscalatePriority(EscalationPolicy.default(), new Date('2026-04-01T09:00:00Z'));
+
+      expect(stale.priority.toString()).toBe('MEDIUM');
+    });
+
+    it('should emit nothing when priority is unchanged', () => {
+      task.changePriority(TaskPriority.medium(), userId);
+
+      expect(task.pullDomainEvents()).toHaveLength(0);
+    });
+
     it('should throw error when changing priority of completed task', () => {
       task.assignTo(userId, userId);
       task.complete(userId);
@@ -159,6 +636,58 @@ describe('Task', () => {
     });
   });
 
+  describe('lifecycle events', () => {
+    it('should emit TaskTitleChangedEvent when the title changes', () => {
+      task.updateTitle(TaskTitle.create('Renamed Task'), userId);
+
+      const events = task.pullDomainEvents();
+      expect(events).toHaveLength(1);
+      expect(events[0]).toBeInstanceOf(TaskTitleChangedEvent);
+      expect((events[0] as TaskTitleChangedEvent).oldTitle).toBe('Test Task');
+    });
+
+    it('should not emit when the title is set to the same value', () => {
+      task.updateTitle(TaskTitle.create('Test Task'), userId);
+
+      expect(task.pullDomainEvents()).toHaveLength(0);
+    });
+
+    it('should emit TaskUnassignedEvent with the previous assignee', () => {
+      task.assignTo(userId, userId);
+      task.pullDomainEvents();
+
+      task.unassign(userId);
+
+      const events = task.pullDomainEvents();
+      expect(events[0]).toBeInstanceOf(TaskUnassignedEvent);
+      expect((events[0] as TaskUnassignedEvent).previousAssignee.equals(userId)).toBe(true);
+    });
+
+    it('should emit TaskStartedEvent when work starts', () => {
+      task.assignTo(userId, userId);
+      task.pullDomainEvents();
+
+      task.startProgress(userId);
+
+      const events = task.pullDomainEvents();
+      expect(events).toHaveLength(1);
+      expect(events[0]).toBeInstanceOf(TaskStartedEvent);
+    });
+
+    it('should emit events when dependencies are added and removed', () => {
+      const blockerId = TaskId.create();
+
+      task.addDependency(TaskDependency.blockedBy(blockerId));
+      task.removeDependency(blockerId);
+      task.removeDependency(TaskId.create());
+
+      const events = task.pullDomainEvents();
+      expect(events).toHaveLength(2);
+      expect(events[0]).toBeInstanceOf(TaskDependencyAddedEvent);
+      expect(events[1]).toBeInstanceOf(TaskDependencyRemovedEvent);
+    });
+  });
+
   describe('isOverdue', () => {
     it('should return false when no due date is set', () => {
       expect(task.isOverdue()).toBe(false);
@@ -1,15 +1,49 @@
 import { TaskId } from '../valueObjects/TaskId';
 import { TaskTitle } from '../valueObjects/TaskTitle';
-import { TaskStatus } from '../valueObjects/TaskStatus';
+import { TaskStatus, TaskStatusType } from '../valueObjects/TaskStatus';
 import { TaskPriority } from '../valueObjects/TaskPriority';
 import { TaskAssignment } from '../valueObjects/TaskAssignment';
 import { TaskDependency } from '../valueObjects/TaskDependency';
 import { UserId } from '../valueObjects/UserId';
-import { DomainEvent } from '../events/DomainEvent';
+import { EscalationPolicy } from '../valueObjects/EscalationPolicy';
+import { ReminderPolicy } from '../valueObjects/ReminderPolicy';
+import { TaskWorkflow, WorkflowGuard } from '../valueObjects/TaskWorkflow';
+import { TaskRecurrence } from '../valueObjects/TaskRecurrence';
+import { TaskLabel } from '../valueObjects/TaskLabel';
+import { TaskEstimate } from '../valueObjects/TaskEstimate';
+import { ChecklistItem } from './ChecklistItem';
+import { WorkLogEntry } from './WorkLogEntry';
+import { PermissionPolicy } from '../services/PermissionPolicy';
+import { InvalidStatusTransitionException } from '../exceptions/TaskExceptions';
+import { AnyTaskEvent } from '../events/TaskEventMap';
 import { TaskCompletedEvent } from '../events/TaskCompletedEvent';
 import { TaskAssignedEvent } from '../events/TaskAssignedEvent';
 import { TaskPriorityEscalatedEvent } from '../events/TaskPriorityEscalatedEvent';
 import { TaskReopenedEvent } from '../events/TaskReopenedEvent';
+import { TaskCreatedEvent } from '../events/TaskCreatedEvent';
+import { TaskImportedEvent } from '../events/TaskImportedEvent';
+import { TaskTitleChangedEvent } from '../events/TaskTitleChangedEvent';
+import { TaskUnassignedEvent } from '../events/TaskUnassignedEvent';
+import { TaskStartedEvent } from '../events/TaskStartedEvent';
+import { TaskDependencyAddedEvent } from '../events/TaskDependencyAddedEvent';
+import { TaskDependencyRemovedEvent } from '../events/TaskDependencyRemovedEvent';
+import { TaskPriorityLoweredEvent } from '../events/TaskPriorityLoweredEvent';
+import { TaskStatusChangedEvent } from '../events/TaskStatusChangedEvent';
+import { TaskChecklistItemAddedEvent } from '../events/TaskChecklistItemAddedEvent';
+import { TaskChecklistItemToggledEvent } from '../events/TaskChecklistItemToggledEvent';
+import { TaskChecklistItemRemovedEvent } from '../events/TaskChecklistItemRemovedEvent';
+import { TaskDueSoonEvent } from '../events/TaskDueSoonEvent';
+import { TaskOverdueEvent } from '../events/TaskOverdueEvent';
+import { TaskLabelAddedEvent } from '../events/TaskLabelAddedEvent';
+import { TaskLabelRemovedEvent } from '../events/TaskLabelRemovedEvent';
+import { TaskEstimateChangedEvent } from '../events/TaskEstimateChangedEvent';
+import { TaskTimerStartedEvent } from '../events/TaskTimerStartedEvent';
+import { TaskWorkLoggedEvent } from '../events/TaskWorkLoggedEvent';
+
+export interface RunningTimer {
+  userId: UserId;
+  startedAt: Date;
+}
 
 interface TaskProps {
   id: TaskId;
@@ -18,34 +52,91 @@ interface TaskProps {
   priority: TaskPriority;
   assignment?: TaskAssignment;
   dependencies: TaskDependency[];
+  checklist: ChecklistItem[];
+  /** Names of labels from the workspace's label catalog */
+  labels: string[];
+  estimate?: TaskEstimate;
+  workLog: WorkLogEntry[];
+  /** Time being tracked right now; logged when it stops */
+  runningTimer?: RunningTimer;
   createdAt: Date;
   completedAt?: Date;
   dueDate?: Date;
+  recurrence?: TaskRecurrence;
+  /** When the last due date reminder was due, so it is not sent twice */
+  lastReminderAt?: Date;
+  /** Number of times the task has been persisted; 0 until first saved */
+  version: number;
 }
 
 export class Task {
-  private domainEvents: DomainEvent[] = [];
+  private domainEvents: AnyTaskEvent[] = [];
 
   private constructor(private props: TaskProps) {}
 
   static create(
     title: TaskTitle,
     priority: TaskPriority = TaskPriority.medium(),
-    dueDate?: Date
+    dueDate?: Date,
+    recurrence?: TaskRecurrence
   ): Task {
-    return new Task({
+    const task = new Task({
       id: TaskId.create(),
       title,
       status: TaskStatus.todo(),
       priority,
       dependencies: [],
+      checklist: [],
+      labels: [],
+      workLog: [],
       createdAt: new Date(),
-      dueDate
+      dueDate,
+      recurrence,
+      version: 0
     });
+    task.addDomainEvent(new TaskCreatedEvent(task.id, title.toString(), priority, dueDate));
+    return task;
   }
 
-  static reconstitute(props: TaskProps): Task {
-    return new Task(props);
+  static reconstitute(
+    props: Omit<TaskProps, 'version' | 'checklist' | 'labels' | 'workLog'> & {
+      version?: number;
+      checklist?: ChecklistItem[];
+      labels?: string[];
+      workLog?: WorkLogEntry[];
+    }
+  ): Task {
+    return new Task({
+      ...props,
+      checklist: props.checklist ?? [],
+      labels: props.labels ?? [],
+      workLog: props.workLog ?? [],
+      version: props.version ?? 0
+    });
+  }
+
+  /**
+   * A task brought in from an export. It keeps the exported state but is
+   * a new task to this workspace, so it starts at version 0 and raises
+   * TaskImported with the state it arrived in.
+   */
+  static imported(
+    props: Omit<TaskProps, 'version' | 'runningTimer' | 'lastReminderAt'>,
+    importedBy: UserId
+  ): Task {
+    const task = new Task({ ...props, version: 0 });
+    task.addDomainEvent(new TaskImportedEvent(
+      task.id,
+      props.title.toString(),
+      props.priority,
+      props.status,
+      props.assignment?.getAssignedTo(),
+      props.createdAt,
+      props.completedAt,
+      props.dueDate,
+      importedBy
+    ));
+    return task;
   }
 
   get id(): TaskId {
@@ -72,6 +163,26 @@ export class Task {
     return this.props.dependencies;
   }
 
+  get checklist(): ReadonlyArray<ChecklistItem> {
+    return this.props.checklist;
+  }
+
+  get labels(): ReadonlyArray<string> {
+    return this.props.labels;
+  }
+
+  get estimate(): TaskEstimate | undefined {
+    return this.props.estimate;
+  }
+
+  get workLog(): ReadonlyArray<WorkLogEntry> {
+    return this.props.workLog;
+  }
+
+  get runningTimer(): RunningTimer | undefined {
+    return this.props.runningTimer;
+  }
+
   get createdAt(): Date {
     return this.props.createdAt;
   }
@@ -84,69 +195,164 @@ export class Task {
     return this.props.dueDate;
   }
 
-  pullDomainEvents(): DomainEvent[] {
+  get recurrence(): TaskRecurrence | undefined {
+    return this.props.recurrence;
+  }
+
+  get lastReminderAt(): Date | undefined {
+    return this.props.lastReminderAt;
+  }
+
+  get version(): number {
+    return this.props.version;
+  }
+
+  /**
+   * Called by repositories once a save has been written, so the next save
+   * is checked against the newly stored version.
+   */
+  incrementVersion(): void {
+    this.props.version += 1;
+  }
+
+  pullDomainEvents(): AnyTaskEvent[] {
     const events = [...this.domainEvents];
     this.domainEvents = [];
     return events;
   }
 
-  private addDomainEvent(event: DomainEvent): void {
+  private addDomainEvent(event: AnyTaskEvent): void {
     this.domainEvents.push(event);
   }
 
-  updateTitle(newTitle: TaskTitle, userId: UserId): void {
+  updateTitle(
+    newTitle: TaskTitle,
+    userId: UserId,
+    permissions: PermissionPolicy = PermissionPolicy.assigneeOnly()
+  ): void {
     if (this.props.status.isDone()) {
       throw new Error('Cannot update title of completed task');
     }
 
-    if (this.props.assignment && !this.props.assignment.isAssignedTo(userId)) {
+    if (!this.canBeManagedBy(userId, permissions)) {
       throw new Error('Only assigned user can update task title');
     }
 
+    const oldTitle = this.props.title;
     this.props.title = newTitle;
+
+    if (oldTitle.toString() !== newTitle.toString()) {
+      this.addDomainEvent(
+        new TaskTitleChangedEvent(this.props.id, oldTitle.toString(), newTitle.toString(), userId)
+      );
+    }
   }
 
-  assignTo(userId: UserId, assignedBy: UserId): void {
+  assignTo(
+    userId: UserId,
+    assignedBy: UserId,
+    permissions: PermissionPolicy = PermissionPolicy.assigneeOnly()
+  ): void {
     if (this.props.status.isDone()) {
       throw new Error('Cannot assign completed task');
     }
 
+    if (!this.canBeManagedBy(assignedBy, permissions)) {
+      throw new Error('Only the assigned user, their lead or an admin can reassign this task');
+    }
+
+    if (this.props.runningTimer && !this.props.runningTimer.userId.equals(userId)) {
+      this.logRunningTimer();
+    }
+
     this.props.assignment = TaskAssignment.create(userId, assignedBy);
     this.addDomainEvent(new TaskAssignedEvent(this.props.id, userId, assignedBy));
   }
 
-  unassign(): void {
+  unassign(
+    unassignedBy: UserId,
+    permissions: PermissionPolicy = PermissionPolicy.assigneeOnly()
+  ): void {
     if (!this.props.assignment) {
       throw new Error('Task is not assigned');
     }
+
+    if (!this.canBeManagedBy(unassignedBy, permissions)) {
+      throw new Error('Only the assigned user, their lead or an admin can unassign this task');
+    }
+    const previousAssignee = this.props.assignment.getAssignedTo();
+    this.logRunningTimer();
     this.props.assignment = undefined;
+    this.addDomainEvent(new TaskUnassignedEvent(this.props.id, previousAssignee, unassignedBy));
   }
 
-  changePriority(newPriority: TaskPriority, userId: UserId): void {
+  changePriority(
+    newPriority: TaskPriority,
+    userId: UserId,
+    permissions: PermissionPolicy = PermissionPolicy.assigneeOnly(),
+    changedAt: Date = new Date()
+  ): void {
     if (this.props.status.isDone()) {
       throw new Error('Cannot change priority of completed task');
     }
 
+    if (!this.canBeManagedBy(userId, permissions)) {
+      throw new Error('Only the assigned user, their lead or an admin can change priority');
+    }
+
     const oldPriority = this.props.priority;
-    this.props.priority = newPriority;
+    if (newPriority.equals(oldPriority)) {
+      return;
+    }
+
+    // Auto-escalation counts from the manual change, not from task creation
+    this.props.priority = newPriority.setAt(changedAt);
 
     if (newPriority.isHigherThan(oldPriority)) {
       this.addDomainEvent(new TaskPriorityEscalatedEvent(this.props.id, oldPriority, newPriority));
+    } else if (oldPriority.isHigherThan(newPriority)) {
+      this.addDomainEvent(new TaskPriorityLoweredEvent(this.props.id, oldPriority, newPriority, userId));
     }
   }
 
-  checkAndEscalatePriority(): void {
-    const ageInDays = this.getAgeInDays();
-    
-    if (this.props.priority.shouldEscalate(ageInDays)) {
+  checkAndEscalatePriority(
+    policy: EscalationPolicy = EscalationPolicy.default(),
+    now: Date = new Date()
+  ): void {
+    if (this.props.status.isClosed()) {
+      return;
+    }
+
+    if (policy.shouldEscalate(this.props.priority, this.props.createdAt, now)) {
       const oldPriority = this.props.priority;
-      this.props.priority = this.props.priority.escalate();
+      this.props.priority = this.props.priority.escalate(now);
       this.addDomainEvent(
         new TaskPriorityEscalatedEvent(this.props.id, oldPriority, this.props.priority)
       );
     }
   }
 
+  checkDueDateReminders(
+    policy: ReminderPolicy = ReminderPolicy.default(),
+    now: Date = new Date()
+  ): void {
+    if (!this.props.dueDate || this.props.status.isClosed()) {
+      return;
+    }
+
+    const reminder = policy.dueReminder(this.props.dueDate, now, this.props.lastReminderAt);
+    if (!reminder) {
+      return;
+    }
+
+    this.props.lastReminderAt = reminder.at;
+    const title = this.props.title.toString();
+    this.addDomainEvent(reminder.kind === 'overdue'
+      ? new TaskOverdueEvent(this.props.id, title, this.props.dueDate)
+      : new TaskDueSoonEvent(this.props.id, title, this.props.dueDate)
+    );
+  }
+
   addDependency(dependency: TaskDependency): void {
     const exists = this.props.dependencies.some(
       d => d.getDependentTaskId().equals(dependency.getDependentTaskId())
@@ -161,23 +367,244 @@ export class Task {
     }
 
     this.props.dependencies.push(dependency);
+    this.addDomainEvent(new TaskDependencyAddedEvent(this.props.id, dependency));
   }
 
   removeDependency(dependentTaskId: TaskId): void {
+    const removed = this.props.dependencies.filter(
+      d => d.getDependentTaskId().equals(dependentTaskId)
+    );
     this.props.dependencies = this.props.dependencies.filter(
       d => !d.getDependentTaskId().equals(dependentTaskId)
     );
+
+    removed.forEach(dependency =>
+      this.addDomainEvent(new TaskDependencyRemovedEvent(this.props.id, dependency))
+    );
   }
 
-  hasBlockingDependencies(): boolean {
-    return this.props.dependencies.some(d => d.isBlocking());
+  /**
+   * Whether a BLOCKED_BY edge points at a blocker that is still open. The
+   * blockers' status lives on their own aggregates, so callers pass the
+   * ids of open tasks (see TaskDependencyService.openBlockerIds).
+   */
+  hasBlockingDependencies(openBlockerIds: ReadonlySet<string>): boolean {
+    return this.getBlockingDependencies().some(d => openBlockerIds.has(d.getDependentTaskId().toString()));
+  }
+
+  /**
+   * Sends a task parked in BLOCKED back to TODO once none of its blockers
+   * is open. The edges stay, so reopening a blocker blocks the task again.
+   * Returns whether the task moved.
+   */
+  resumeWhenUnblocked(openBlockerIds: ReadonlySet<string>, resumedBy: UserId): boolean {
+    if (this.props.status.getType() !== TaskStatusType.BLOCKED || this.hasBlockingDependencies(openBlockerIds)) {
+      return false;
+    }
+
+    const oldStatus = this.props.status;
+    this.props.status = TaskStatus.todo();
+    this.addDomainEvent(new TaskStatusChangedEvent(this.props.id, oldStatus, this.props.status, resumedBy));
+    return true;
   }
 
   getBlockingDependencies(): TaskDependency[] {
     return this.props.dependencies.filter(d => d.isBlocking());
   }
 
-  startProgress(userId: UserId): void {
+  // Used when the blockers have not been looked up: every one counts as open
+  private blockerIds(): Set<string> {
+    return new Set(this.getBlockingDependencies().map(d => d.getDependentTaskId().toString()));
+  }
+
+  addChecklistItem(
+    title: string,
+    userId: UserId,
+    required: boolean = true,
+    permissions: PermissionPolicy = PermissionPolicy.assigneeOnly()
+  ): ChecklistItem {
+    this.ensureChecklistEditableBy(userId, permissions);
+
+    const item = ChecklistItem.create(title, required);
+    this.props.checklist.push(item);
+    this.addDomainEvent(new TaskChecklistItemAddedEvent(this.props.id, item, userId));
+    return item;
+  }
+
+  toggleChecklistItem(
+    itemId: string,
+    userId: UserId,
+    permissions: PermissionPolicy = PermissionPolicy.assigneeOnly()
+  ): void {
+    this.ensureChecklistEditableBy(userId, permissions);
+
+    const index = this.findChecklistItemIndex(itemId);
+    const item = this.props.checklist[index].toggled();
+    this.props.checklist[index] = item;
+    this.addDomainEvent(
+      new TaskChecklistItemToggledEvent(this.props.id, item.id, item.title, item.done, userId)
+    );
+  }
+
+  removeChecklistItem(
+    itemId: string,
+    userId: UserId,
+    permissions: PermissionPolicy = PermissionPolicy.assigneeOnly()
+  ): void {
+    this.ensureChecklistEditableBy(userId, permissions);
+
+    const [item] = this.props.checklist.splice(this.findChecklistItemIndex(itemId), 1);
+    this.addDomainEvent(new TaskChecklistItemRemovedEvent(this.props.id, item, userId));
+  }
+
+  hasLabel(name: string): boolean {
+    return this.props.labels.some(label => TaskLabel.sameName(label, name));
+  }
+
+  addLabel(
+    label: TaskLabel,
+    userId: UserId,
+    permissions: PermissionPolicy = PermissionPolicy.assigneeOnly()
+  ): void {
+    this.ensureLabelsEditableBy(userId, permissions);
+
+    if (this.hasLabel(label.getName())) {
+      throw new Error(`Task already has label "${label.getName()}"`);
+    }
+
+    this.props.labels.push(label.getName());
+    this.addDomainEvent(new TaskLabelAddedEvent(this.props.id, label.getName(), userId));
+  }
+
+  removeLabel(
+    name: string,
+    userId: UserId,
+    permissions: PermissionPolicy = PermissionPolicy.assigneeOnly()
+  ): void {
+    this.ensureLabelsEditableBy(userId, permissions);
+
+    const index = this.props.labels.findIndex(label => TaskLabel.sameName(label, name));
+    if (index < 0) {
+      throw new Error(`Task does not have label "${name}"`);
+    }
+
+    const [removed] = this.props.labels.splice(index, 1);
+    this.addDomainEvent(new TaskLabelRemovedEvent(this.props.id, removed, userId));
+  }
+
+  setEstimate(
+    estimate: TaskEstimate | undefined,
+    userId: UserId,
+    permissions: PermissionPolicy = PermissionPolicy.assigneeOnly()
+  ): void {
+    if (this.props.status.isDone()) {
+      throw new Error('Cannot change the estimate of a completed task');
+    }
+
+    if (!this.canBeManagedBy(userId, permissions)) {
+      throw new Error('Only the assigned user, their lead or an admin can change the estimate');
+    }
+
+    const previous = this.props.estimate;
+    if (previous === estimate || (previous && estimate && previous.equals(estimate))) {
+      return;
+    }
+
+    this.props.estimate = estimate;
+    this.addDomainEvent(new TaskEstimateChangedEvent(this.props.id, estimate, previous, userId));
+  }
+
+  /**
+   * Starting a task starts its timer, so this is only needed to resume
+   * tracking after stopping it.
+   */
+  startTimer(userId: UserId, now: Date = new Date()): void {
+    if (!this.props.status.isInProgress()) {
+      throw new Error('Can only track time on tasks in progress');
+    }
+
+    if (!this.isAssignedTo(userId)) {
+      throw new Error('Only the assigned user can track time on this task');
+    }
+
+    if (this.props.runningTimer) {
+      throw new Error('A timer is already running on this task');
+    }
+
+    this.props.runningTimer = { userId, startedAt: now };
+    this.addDomainEvent(new TaskTimerStartedEvent(this.props.id, userId, now));
+  }
+
+  stopTimer(
+    userId: UserId,
+    permissions: PermissionPolicy = PermissionPolicy.assigneeOnly(),
+    now: Date = new Date()
+  ): void {
+    const timer = this.props.runningTimer;
+    if (!timer) {
+      throw new Error('No timer is running on this task');
+    }
+
+    if (!permissions.canManageTasksOf(userId, timer.userId)) {
+      throw new Error('Only the user tracking time, their lead or an admin can stop the timer');
+    }
+
+    this.logRunningTimer(now);
+  }
+
+  /**
+   * Adds time worked on the task after the fact, credited to `userId`.
+   */
+  logWork(
+    userId: UserId,
+    minutes: number,
+    startedAt: Date,
+    note?: string,
+    permissions: PermissionPolicy = PermissionPolicy.assigneeOnly()
+  ): WorkLogEntry {
+    if (!this.canBeManagedBy(userId, permissions)) {
+      throw new Error('Only the assigned user, their lead or an admin can log time on this task');
+    }
+
+    const entry = WorkLogEntry.manual(userId, startedAt, minutes, note);
+    this.props.workLog.push(entry);
+    this.addDomainEvent(new TaskWorkLoggedEvent(this.props.id, entry));
+    return entry;
+  }
+
+  /**
+   * Logged time, including the running timer up to `now`.
+   */
+  getTrackedMs(now: Date = new Date()): number {
+    const logged = this.props.workLog.reduce((total, entry) => total + entry.durationMs, 0);
+    const running = this.props.runningTimer
+      ? Math.max(0, now.getTime() - this.props.runningTimer.startedAt.getTime())
+      : 0;
+    return logged + running;
+  }
+
+  hasOpenRequiredChecklistItems(): boolean {
+    return this.props.checklist.some(item => item.required && !item.done);
+  }
+
+  /**
+   * Share of checklist items that are done, as a whole percentage;
+   * 0 when the task has no checklist.
+   */
+  getChecklistProgress(): number {
+    if (this.props.checklist.length === 0) {
+      return 0;
+    }
+    const done = this.props.checklist.filter(item => item.done).length;
+    return Math.round((done / this.props.checklist.length) * 100);
+  }
+
+  startProgress(
+    userId: UserId,
+    workflow: TaskWorkflow = TaskWorkflow.default(),
+    now: Date = new Date(),
+    openBlockerIds: ReadonlySet<string> = this.blockerIds()
+  ): void {
     if (!this.props.status.isTodo()) {
       throw new Error('Can only start tasks that are in TODO status');
     }
@@ -190,24 +617,40 @@ export class Task {
       throw new Error('Only assigned user can start this task');
     }
 
-    if (this.hasBlockingDependencies()) {
+    if (this.hasBlockingDependencies(openBlockerIds)) {
       throw new Error('Cannot start task: blocked by dependencies');
     }
 
-    this.props.status = TaskStatus.inProgress();
+    this.applyTransition(TaskStatus.inProgress(), userId, workflow, now, openBlockerIds);
+    this.addDomainEvent(new TaskStartedEvent(this.props.id, userId));
+    this.props.runningTimer = { userId, startedAt: now };
   }
 
-  complete(userId: UserId): void {
+  complete(
+    userId: UserId,
+    permissions: PermissionPolicy = PermissionPolicy.assigneeOnly(),
+    workflow: TaskWorkflow = TaskWorkflow.default(),
+    openBlockerIds: ReadonlySet<string> = this.blockerIds(),
+    now: Date = new Date()
+  ): void {
     if (this.props.status.isDone()) {
       throw new Error('Task is already completed');
     }
 
-    if (this.props.assignment && !this.props.assignment.isAssignedTo(userId)) {
+    if (!this.canBeManagedBy(userId, permissions)) {
       throw new Error('Only assigned user can complete this task');
     }
 
-    this.props.status = TaskStatus.done();
-    this.props.completedAt = new Date();
+    if (this.hasBlockingDependencies(openBlockerIds)) {
+      throw new Error('Cannot complete task: blocked by dependencies');
+    }
+
+    if (this.hasOpenRequiredChecklistItems()) {
+      throw new Error('Cannot complete task: required checklist items are still open');
+    }
+
+    this.applyTransition(TaskStatus.done(), userId, workflow, now, openBlockerIds);
+    this.props.completedAt = now;
 
     this.addDomainEvent(new TaskCompletedEvent(
       this.props.id,
@@ -216,7 +659,12 @@ export class Task {
     ));
   }
 
-  reopen(userId: UserId): void {
+  reopen(
+    userId: UserId,
+    permissions: PermissionPolicy = PermissionPolicy.assigneeOnly(),
+    workflow: TaskWorkflow = TaskWorkflow.default(),
+    now: Date = new Date()
+  ): void {
     if (!this.props.status.isDone()) {
       throw new Error('Can only reopen completed tasks');
     }
@@ -225,41 +673,206 @@ export class Task {
       throw new Error('Task has no completion date');
     }
 
-    // Check if task was completed within 24 hours
-    const hoursSinceCompletion = (new Date().getTime() - this.props.completedAt.getTime()) / (1000 * 60 * 60);
-    if (hoursSinceCompletion > 24) {
+    // Check if task was completed within 24 hours; admins may reopen later
+    const hoursSinceCompletion = (now.getTime() - this.props.completedAt.getTime()) / (1000 * 60 * 60);
+    if (hoursSinceCompletion > 24 && !permissions.canOverrideReopenWindow(userId)) {
       throw new Error('Can only reopen tasks completed within 24 hours');
     }
 
-    // Check if user is the original task owner
-    if (this.props.assignment && !this.props.assignment.isAssignedTo(userId)) {
+    // Check if user is the original task owner, or manages their tasks
+    if (!this.canBeManagedBy(userId, permissions)) {
       throw new Error('Only the original task owner can reopen this task');
     }
 
-    const reopenedAt = new Date();
-    this.props.status = TaskStatus.todo();
+    this.applyTransition(TaskStatus.todo(), userId, workflow, now);
     this.props.completedAt = undefined;
 
     this.addDomainEvent(new TaskReopenedEvent(
       this.props.id,
       userId,
-      reopenedAt
+      now
     ));
   }
 
+  /**
+   * Moves the task to any status the workflow allows from its current one.
+   * Starting, completing and reopening go through their own commands so
+   * their extra rules and events still apply. Moving back into progress,
+   * e.g. from review, restarts the assignee's timer like starting does.
+   */
+  moveTo(
+    target: TaskStatus,
+    userId: UserId,
+    permissions: PermissionPolicy = PermissionPolicy.assigneeOnly(),
+    workflow: TaskWorkflow = TaskWorkflow.default(),
+    openBlockerIds: ReadonlySet<string> = this.blockerIds(),
+    now: Date = new Date()
+  ): void {
+    if (target.isDone()) {
+      return this.complete(userId, permissions, workflow, openBlockerIds, now);
+    }
+    if (this.props.status.isDone() && target.isTodo()) {
+      return this.reopen(userId, permissions, workflow, now);
+    }
+    if (this.props.status.isTodo() && target.isInProgress()) {
+      return this.startProgress(userId, workflow, now, openBlockerIds);
+    }
+
+    if (!this.canBeManagedBy(userId, permissions)) {
+      throw new Error('Only the assigned user, their lead or an admin can move this task');
+    }
+
+    const oldStatus = this.props.status;
+    this.applyTransition(target, userId, workflow, now, openBlockerIds);
+    if (oldStatus.isDone()) {
+      this.props.completedAt = undefined;
+    }
+    if (target.isInProgress() && !oldStatus.isInProgress() && this.props.assignment) {
+      this.props.runningTimer = { userId: this.props.assignment.getAssignedTo(), startedAt: now };
+    }
+
+    this.addDomainEvent(new TaskStatusChangedEvent(this.props.id, oldStatus, target, userId));
+  }
+
+  /**
+   * Builds the next task of a recurring series once this one is done. The
+   * schedule moves to the new task, so completing this task again after a
+   * reopen does not start a second series. Returns null for one-off tasks
+   * and when the series has ended.
+   */
+  createNextOccurrence(): Task | null {
+    if (!this.props.status.isDone()) {
+      throw new Error('Can only schedule the next occurrence of a completed task');
+    }
+
+    const base = this.props.dueDate ?? this.props.completedAt;
+    const next = base && this.props.recurrence?.next(base);
+    this.props.recurrence = undefined;
+    if (!next) {
+      return null;
+    }
+
+    const task = Task.create(this.props.title, this.props.priority, next.dueDate, next.recurrence);
+    for (const item of this.props.checklist) {
+      task.props.checklist.push(ChecklistItem.create(item.title, item.required));
+    }
+    task.props.labels = [...this.props.labels];
+    task.props.estimate = this.props.estimate;
+    if (this.props.assignment) {
+      const assignee = this.props.assignment.getAssignedTo();
+      task.assignTo(assignee, assignee);
+    }
+    return task;
+  }
+
   isOverdue(): boolean {
-    if (!this.props.dueDate || this.props.status.isDone()) {
+    if (!this.props.dueDate || this.props.status.isClosed()) {
       return false;
     }
     return new Date() > this.props.dueDate;
   }
 
-  getAgeInDays(): number {
-    const now = new Date();
+  getAgeInDays(now: Date = new Date()): number {
     const diffTime = Math.abs(now.getTime() - this.props.createdAt.getTime());
     return Math.ceil(diffTime / (1000 * 60 * 60 * 24));
   }
 
+  private applyTransition(
+    target: TaskStatus,
+    userId: UserId,
+    workflow: TaskWorkflow,
+    now: Date,
+    openBlockerIds: ReadonlySet<string> = this.blockerIds()
+  ): void {
+    const transition = workflow.findTransition(this.props.status, target);
+    if (!transition) {
+      throw new InvalidStatusTransitionException(
+        this.props.id,
+        workflow.labelOf(this.props.status),
+        workflow.labelOf(target)
+      );
+    }
+
+    for (const guard of transition.guards ?? []) {
+      this.checkGuard(guard, userId, workflow.labelOf(target), openBlockerIds);
+    }
+
+    // Time is only tracked while work is in progress
+    if (!target.isInProgress()) {
+      this.logRunningTimer(now);
+    }
+
+    this.props.status = target;
+  }
+
+  private logRunningTimer(now: Date = new Date()): void {
+    const timer = this.props.runningTimer;
+    if (!timer) return;
+
+    this.props.runningTimer = undefined;
+    if (now.getTime() <= timer.startedAt.getTime()) return;
+
+    const entry = WorkLogEntry.fromTimer(timer.userId, timer.startedAt, now);
+    this.props.workLog.push(entry);
+    this.addDomainEvent(new TaskWorkLoggedEvent(this.props.id, entry));
+  }
+
+  private checkGuard(
+    guard: WorkflowGuard,
+    userId: UserId,
+    targetLabel: string,
+    openBlockerIds: ReadonlySet<string>
+  ): void {
+    switch (guard) {
+      case 'assigned':
+        if (!this.props.assignment) {
+          throw new Error(`Task must be assigned before moving to ${targetLabel}`);
+        }
+        break;
+      case 'byAssignee':
+        if (!this.isAssignedTo(userId)) {
+          throw new Error(`Only the assigned user can move this task to ${targetLabel}`);
+        }
+        break;
+      case 'notBlocked':
+        if (this.hasBlockingDependencies(openBlockerIds)) {
+          throw new Error(`Cannot move task to ${targetLabel}: blocked by dependencies`);
+        }
+        break;
+    }
+  }
+
+  private ensureChecklistEditableBy(userId: UserId, permissions: PermissionPolicy): void {
+    if (this.props.status.isDone()) {
+      throw new Error('Cannot change the checklist of a completed task');
+    }
+
+    if (!this.canBeManagedBy(userId, permissions)) {
+      throw new Error('Only the assigned user, their lead or an admin can change the checklist');
+    }
+  }
+
+  // Closed tasks can still be labelled, so finished work can be categorised
+  private ensureLabelsEditableBy(userId: UserId, permissions: PermissionPolicy): void {
+    if (!this.canBeManagedBy(userId, permissions)) {
+      throw new Error('Only the assigned user, their lead or an admin can change labels');
+    }
+  }
+
+  private findChecklistItemIndex(itemId: string): number {
+    const index = this.props.checklist.findIndex(item => item.id === itemId);
+    if (index < 0) {
+      throw new Error('Checklist item not found');
+    }
+    return index;
+  }
+
+  // Unassigned tasks are open to everyone
+  private canBeManagedBy(userId: UserId, permissions: PermissionPolicy): boolean {
+    return !this.props.assignment ||
+      permissions.canManageTasksOf(userId, this.props.assignment.getAssignedTo());
+  }
+
   isAssignedTo(userId: UserId): boolean {
     return this.props.assignment?.isAssignedTo(userId) ?? false;
   }
@@ -272,9 +885,20 @@ export class Task {
       priority: this.props.priority.toJSON(),
       assignment: this.props.assignment?.toJSON(),
       dependencies: this.props.dependencies.map(d => d.toJSON()),
+      checklist: this.props.checklist.map(item => item.toJSON()),
+      labels: [...this.props.labels],
+      estimate: this.props.estimate?.toJSON(),
+      workLog: this.props.workLog.map(entry => entry.toJSON()),
+      runningTimer: this.props.runningTimer && {
+        userId: this.props.runningTimer.userId.toString(),
+        startedAt: this.props.runningTimer.startedAt.toISOString()
+      },
       createdAt: this.props.createdAt.toISOString(),
       completedAt: this.props.completedAt?.toISOString(),
       dueDate: this.props.dueDate?.toISOString(),
+      recurrence: this.props.recurrence?.toJSON(),
+      lastReminderAt: this.props.lastReminderAt?.toISOString(),
+      version: this.props.version,
       isOverdue: this.isOverdue(),
       ageInDays: this.getAgeInDays()
     };
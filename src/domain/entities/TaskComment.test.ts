@@ -0,0 +1,140 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { TaskComment } from './TaskComment';
+import { User, UserRole } from './User';
+import { TaskId } from '../valueObjects/TaskId';
+import { UserId } from '../valueObjects/UserId';
+import { CommentBody } from '../valueObjects/CommentBody';
+import { PermissionPolicy } from '../services/PermissionPolicy';
+import { TaskCommentAddedEvent } from '../events/TaskCommentAddedEvent';
+import { TaskCommentEditedEvent } from '../events/TaskCommentEditedEvent';
+import { TaskCommentDeletedEvent } from '../events/TaskCommentDeletedEvent';
+import { UserMentionedEvent } from '../events/UserMentionedEvent';
+
+describe('TaskComment', () => {
+  const taskId = TaskId.create();
+  const author = UserId.create('user-123');
+  const sam = UserId.create('user-456');
+  const jordan = UserId.create('lead-1');
+  const mentionable = [author, sam, jordan];
+
+  let comment: TaskComment;
+
+  const mentionedIn = (events: ReturnType<TaskComment['pullDomainEvents']>) =>
+    events
+      .filter((e): e is UserMentionedEvent => e instanceof UserMentionedEvent)
+      .map(e => e.mentionedUserId.toString());
+
+  beforeEach(() => {
+    comment = TaskComment.create(taskId, author, CommentBody.create('Looks good'), mentionable);
+  });
+
+  describe('CommentBody', () => {
+    it('should reject empty comments', () => {
+      expect(() => CommentBody.create('   ')).toThrow('Comment cannot be empty');
+    });
+
+    it('should find each @mention once, ignoring email addresses', () => {
+      const body = CommentBody.create('@user-456 can you check with @lead-1? cc @user-456, not me@example.com');
+
+      expect(body.mentions().map(id => id.toString())).toEqual(['user-456', 'lead-1']);
+    });
+  });
+
+  describe('create', () => {
+    it('should emit TaskCommentAddedEvent for the task', () => {
+      const [event] = comment.pullDomainEvents();
+
+      expect(event).toBeInstanceOf(TaskCommentAddedEvent);
+      expect(event.taskId).toBe(taskId);
+      expect((event as TaskCommentAddedEvent).body).toBe('Looks good');
+    });
+
+    it('should emit UserMentionedEvent for known users other than the author', () => {
+      const mentioning = TaskComment.create(
+        taskId,
+        author,
+        CommentBody.create('@user-456 and @nobody, see what @user-123 wrote'),
+        mentionable
+      );
+
+      expect(mentionedIn(mentioning.pullDomainEvents())).toEqual(['user-456']);
+    });
+  });
+
+  describe('reply', () => {
+    it('should keep replies to replies in the same thread', () => {
+      const reply = comment.reply(sam, CommentBody.create('Thanks'), mentionable);
+      const nested = reply.reply(author, CommentBody.create('You are welcome'), mentionable);
+
+      expect(reply.parentId).toBe(comment.id);
+      expect(nested.parentId).toBe(comment.id);
+      expect(nested.taskId).toBe(taskId);
+    });
+
+    it('should not reply to deleted comments', () => {
+      comment.delete(author);
+
+      expect(() => comment.reply(sam, CommentBody.create('Hello?'), mentionable))
+        .toThrow('Cannot reply to a deleted comment');
+    });
+  });
+
+  describe('edit', () => {
+    it('should only mention users the edit adds', () => {
+      const mentioning = TaskComment.create(taskId, author, CommentBody.create('Ask @user-456'), mentionable);
+      mentioning.pullDomainEvents();
+
+      mentioning.edit(CommentBody.create('Ask @user-456 and @lead-1'), author, mentionable);
+
+      const events = mentioning.pullDomainEvents();
+      expect(events[0]).toBeInstanceOf(TaskCommentEditedEvent);
+      expect(mentionedIn(events)).toEqual(['lead-1']);
+      expect(mentioning.editedAt).toBeDefined();
+    });
+
+    it('should only let the author edit', () => {
+      expect(() => comment.edit(CommentBody.create('Mine now'), sam, mentionable))
+        .toThrow('Only the author can edit this comment');
+    });
+
+    it('should ignore edits that change nothing', () => {
+      comment.pullDomainEvents();
+
+      comment.edit(CommentBody.create('  Looks good '), author, mentionable);
+
+      expect(comment.pullDomainEvents()).toHaveLength(0);
+      expect(comment.editedAt).toBeUndefined();
+    });
+  });
+
+  describe('delete', () => {
+    it('should mark the comment deleted and keep it', () => {
+      comment.pullDomainEvents();
+
+      comment.delete(author);
+
+      expect(comment.isDeleted()).toBe(true);
+      expect(comment.pullDomainEvents()[0]).toBeInstanceOf(TaskCommentDeletedEvent);
+      expect(() => comment.delete(author)).toThrow('Comment is already deleted');
+    });
+
+    it('should let admins but not other members delete', () => {
+      const admin = User.create(UserId.create('admin-1'), 'Riley Chen', UserRole.ADMIN);
+      const policy = new PermissionPolicy([admin], []);
+
+      expect(() => comment.delete(sam, policy))
+        .toThrow('Only the author, their lead or an admin can delete this comment');
+      comment.delete(admin.id, policy);
+      expect(comment.isDeleted()).toBe(true);
+    });
+  });
+
+  it('should survive a JSON round trip', () => {
+    comment.delete(author);
+
+    const restored = TaskComment.reconstitute(JSON.parse(JSON.stringify(comment.toJSON())));
+
+    expect(restored.toJSON()).toEqual(comment.toJSON());
+    expect(restored.isDeleted()).toBe(true);
+  });
+});
@@ -0,0 +1,220 @@
+import { TaskId } from '../valueObjects/TaskId';
+import { UserId } from '../valueObjects/UserId';
+import { CommentBody } from '../valueObjects/CommentBody';
+import { PermissionPolicy } from '../services/PermissionPolicy';
+import { TaskCommentAddedEvent } from '../events/TaskCommentAddedEvent';
+import { TaskCommentEditedEvent } from '../events/TaskCommentEditedEvent';
+import { TaskCommentDeletedEvent } from '../events/TaskCommentDeletedEvent';
+import { UserMentionedEvent } from '../events/UserMentionedEvent';
+
+type TaskCommentEvent =
+  | TaskCommentAddedEvent
+  | TaskCommentEditedEvent
+  | TaskCommentDeletedEvent
+  | UserMentionedEvent;
+
+interface TaskCommentProps {
+  id: string;
+  taskId: TaskId;
+  authorId: UserId;
+  body: CommentBody;
+  /** The comment this one replies to; threads are one level deep */
+  parentId?: string;
+  createdAt: Date;
+  editedAt?: Date;
+  deletedAt?: Date;
+}
+
+export interface TaskCommentJSON {
+  id: string;
+  taskId: string;
+  authorId: string;
+  body: string;
+  parentId?: string;
+  createdAt: string;
+  editedAt?: string;
+  deletedAt?: string;
+}
+
+/**
+ * A comment on a task. Comments are stored apart from their task so
+ * talking about a task never conflicts with changes to it, but their events
+ * belong to the task and show up in its history.
+ *
+ * Deleting only marks the comment, so replies keep their place in the
+ * thread.
+ */
+export class TaskComment {
+  private domainEvents: TaskCommentEvent[] = [];
+
+  private constructor(private props: TaskCommentProps) {}
+
+  /**
+   * @param mentionable users who can be @mentioned; other handles are
+   * left as plain text
+   */
+  static create(
+    taskId: TaskId,
+    authorId: UserId,
+    body: CommentBody,
+    mentionable: ReadonlyArray<UserId>,
+    parentId?: string
+  ): TaskComment {
+    const comment = new TaskComment({
+      id: crypto.randomUUID(),
+      taskId,
+      authorId,
+      body,
+      parentId,
+      createdAt: new Date()
+    });
+    comment.addDomainEvent(
+      new TaskCommentAddedEvent(taskId, comment.id, authorId, body.toString(), parentId)
+    );
+    comment.mentionUsers(body.mentions(), mentionable);
+    return comment;
+  }
+
+  static reconstitute(json: TaskCommentJSON): TaskComment {
+    return new TaskComment({
+      id: json.id,
+      taskId: TaskId.fromString(json.taskId),
+      authorId: UserId.create(json.authorId),
+      body: CommentBody.create(json.body),
+      parentId: json.parentId,
+      createdAt: new Date(json.createdAt),
+      editedAt: json.editedAt ? new Date(json.editedAt) : undefined,
+      deletedAt: json.deletedAt ? new Date(json.deletedAt) : undefined
+    });
+  }
+
+  get id(): string {
+    return this.props.id;
+  }
+
+  get taskId(): TaskId {
+    return this.props.taskId;
+  }
+
+  get authorId(): UserId {
+    return this.props.authorId;
+  }
+
+  get body(): CommentBody {
+    return this.props.body;
+  }
+
+  get parentId(): string | undefined {
+    return this.props.parentId;
+  }
+
+  get createdAt(): Date {
+    return this.props.createdAt;
+  }
+
+  get editedAt(): Date | undefined {
+    return this.props.editedAt;
+  }
+
+  isDeleted(): boolean {
+    return this.props.deletedAt !== undefined;
+  }
+
+  pullDomainEvents(): TaskCommentEvent[] {
+    const events = [...this.domainEvents];
+    this.domainEvents = [];
+    return events;
+  }
+
+  private addDomainEvent(event: TaskCommentEvent): void {
+    this.domainEvents.push(event);
+  }
+
+  /**
+   * Replies to a reply join the thread of the comment it answers.
+   */
+  reply(authorId: UserId, body: CommentBody, mentionable: ReadonlyArray<UserId>): TaskComment {
+    if (this.isDeleted()) {
+      throw new Error('Cannot reply to a deleted comment');
+    }
+    return TaskComment.create(
+      this.props.taskId,
+      authorId,
+      body,
+      mentionable,
+      this.props.parentId ?? this.props.id
+    );
+  }
+
+  edit(newBody: CommentBody, editorId: UserId, mentionable: ReadonlyArray<UserId>): void {
+    if (this.isDeleted()) {
+      throw new Error('Cannot edit a deleted comment');
+    }
+
+    if (!editorId.equals(this.props.authorId)) {
+      throw new Error('Only the author can edit this comment');
+    }
+
+    const oldBody = this.props.body;
+    if (oldBody.toString() === newBody.toString()) {
+      return;
+    }
+
+    this.props.body = newBody;
+    this.props.editedAt = new Date();
+    this.addDomainEvent(new TaskCommentEditedEvent(
+      this.props.taskId,
+      this.props.id,
+      oldBody.toString(),
+      newBody.toString(),
+      editorId
+    ));
+
+    // Users mentioned before the edit were already told
+    const alreadyMentioned = oldBody.mentions();
+    this.mentionUsers(
+      newBody.mentions().filter(id => !alreadyMentioned.some(old => old.equals(id))),
+      mentionable
+    );
+  }
+
+  delete(
+    userId: UserId,
+    permissions: PermissionPolicy = PermissionPolicy.assigneeOnly()
+  ): void {
+    if (this.isDeleted()) {
+      throw new Error('Comment is already deleted');
+    }
+
+    if (!permissions.canManageTasksOf(userId, this.props.authorId)) {
+      throw new Error('Only the author, their lead or an admin can delete this comment');
+    }
+
+    this.props.deletedAt = new Date();
+    this.addDomainEvent(new TaskCommentDeletedEvent(this.props.taskId, this.props.id, userId));
+  }
+
+  private mentionUsers(candidates: UserId[], mentionable: ReadonlyArray<UserId>): void {
+    for (const userId of candidates) {
+      const known = mentionable.some(id => id.equals(userId));
+      if (!known || userId.equals(this.props.authorId)) continue;
+
+      this.addDomainEvent(
+        new UserMentionedEvent(this.props.taskId, this.props.id, userId, this.props.authorId)
+      );
+    }
+  }
+
+  toJSON(): TaskCommentJSON {
+    return {
+      id: this.props.id,
+      taskId: this.props.taskId.toString(),
+      authorId: this.props.authorId.toString(),
+      body: this.props.body.toString(),
+      parentId: this.props.parentId,
+      createdAt: this.props.createdAt.toISOString(),
+      editedAt: this.props.editedAt?.toISOString(),
+      deletedAt: this.props.deletedAt?.toISOString()
+    };
+  }
+}
@@ -0,0 +1,34 @@
+import { UserId } from '../valueObjects/UserId';
+
+interface TeamProps {
+  id: string;
+  name: string;
+  memberIds: UserId[];
+}
+
+export class Team {
+  private constructor(private props: TeamProps) {}
+
+  static create(id: string, name: string, memberIds: UserId[] = []): Team {
+    if (!name.trim()) {
+      throw new Error('Team name cannot be empty');
+    }
+    return new Team({ id, name: name.trim(), memberIds: [...memberIds] });
+  }
+
+  get id(): string {
+    return this.props.id;
+  }
+
+  get name(): string {
+    return this.props.name;
+  }
+
+  get memberIds(): ReadonlyArray<UserId> {
+    return this.props.memberIds;
+  }
+
+  hasMember(userId: UserId): boolean {
+    return this.props.memberIds.some(id => id.equals(userId));
+  }
+}
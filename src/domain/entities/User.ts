@@ -0,0 +1,46 @@
+import { UserId } from '../valueObjects/UserId';
+
+export enum UserRole {
+  MEMBER = 'MEMBER',
+  /** Manages the tasks of everyone in their teams */
+  LEAD = 'LEAD',
+  /** Manages every task and may bend time-based rules */
+  ADMIN = 'ADMIN'
+}
+
+interface UserProps {
+  id: UserId;
+  name: string;
+  role: UserRole;
+}
+
+export class User {
+  private constructor(private props: UserProps) {}
+
+  static create(id: UserId, name: string, role: UserRole = UserRole.MEMBER): User {
+    if (!name.trim()) {
+      throw new Error('User name cannot be empty');
+    }
+    return new User({ id, name: name.trim(), role });
+  }
+
+  get id(): UserId {
+    return this.props.id;
+  }
+
+  get name(): string {
+    return this.props.name;
+  }
+
+  get role(): UserRole {
+    return this.props.role;
+  }
+
+  isAdmin(): boolean {
+    return this.props.role === UserRole.ADMIN;
+  }
+
+  isLead(): boolean {
+    return this.props.role === UserRole.LEAD;
+  }
+}
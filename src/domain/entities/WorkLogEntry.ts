@@ -0,0 +1,96 @@
+import { UserId } from '../valueObjects/UserId';
+
+export type WorkLogSource = 'timer' | 'manual';
+
+export interface WorkLogEntryJSON {
+  id: string;
+  userId: string;
+  startedAt: string;
+  durationMs: number;
+  source: WorkLogSource;
+  note?: string;
+}
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+/**
+ * Time someone spent on a task, either measured by the task's timer or
+ * entered by hand afterwards.
+ *
+ * Entries are immutable and only added through their Task.
+ */
+export class WorkLogEntry {
+  private static readonly MAX_NOTE_LENGTH = 200;
+
+  private constructor(
+    readonly id: string,
+    readonly userId: UserId,
+    readonly startedAt: Date,
+    readonly durationMs: number,
+    readonly source: WorkLogSource,
+    readonly note?: string
+  ) {}
+
+  static fromTimer(userId: UserId, startedAt: Date, endedAt: Date): WorkLogEntry {
+    const durationMs = endedAt.getTime() - startedAt.getTime();
+    if (durationMs <= 0) {
+      throw new Error('A timer must run before it can be logged');
+    }
+    return new WorkLogEntry(crypto.randomUUID(), userId, startedAt, durationMs, 'timer');
+  }
+
+  /**
+   * Manual entries are whole minutes and at most a day long; longer work
+   * is logged one day at a time.
+   */
+  static manual(userId: UserId, startedAt: Date, minutes: number, note?: string): WorkLogEntry {
+    if (!Number.isInteger(minutes) || minutes <= 0) {
+      throw new Error('Logged time must be a positive number of minutes');
+    }
+
+    if (minutes * MINUTE_MS > DAY_MS) {
+      throw new Error('A single work log entry cannot exceed 24 hours');
+    }
+
+    const trimmed = note?.trim();
+    if (trimmed && trimmed.length > WorkLogEntry.MAX_NOTE_LENGTH) {
+      throw new Error(`Work log note cannot exceed ${WorkLogEntry.MAX_NOTE_LENGTH} characters`);
+    }
+
+    return new WorkLogEntry(
+      crypto.randomUUID(),
+      userId,
+      startedAt,
+      minutes * MINUTE_MS,
+      'manual',
+      trimmed || undefined
+    );
+  }
+
+  static reconstitute(json: WorkLogEntryJSON): WorkLogEntry {
+    return new WorkLogEntry(
+      json.id,
+      UserId.create(json.userId),
+      new Date(json.startedAt),
+      json.durationMs,
+      json.source,
+      json.note
+    );
+  }
+
+  get endedAt(): Date {
+    return new Date(this.startedAt.getTime() + this.durationMs);
+  }
+
+  toJSON(): WorkLogEntryJSON {
+    return {
+      id: this.id,
+      userId: this.userId.toString(),
+      startedAt: this.startedAt.toISOString(),
+      durationMs: this.durationMs,
+      source: this.source,
+      note: this.note
+    };
+  }
+}
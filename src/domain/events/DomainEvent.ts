@@ -1,4 +1,118 @@
+import { TaskId } from '../valueObjects/TaskId';
+
 export interface DomainEvent {
-  occurredAt: Date;
+  /** Unique per event; stable across serialization */
+  readonly eventId: string;
+  readonly eventType: string;
+  /** Id of the aggregate that raised the event */
+  readonly aggregateId: string;
+  readonly occurredAt: Date;
+  /** Shared by every event that stems from the same user action */
+  readonly correlationId: string;
+  /** Id of the event that directly led to this one; null for the first */
+  readonly causationId: string | null;
+  toJSON(): DomainEventJSON;
+}
+
+export interface TaskDomainEvent extends DomainEvent {
+  taskId: TaskId;
+}
+
+/**
+ * JSON-safe form of an event, for storage and for other tabs.
+ */
+export interface DomainEventJSON<TPayload extends object = Record<string, any>> {
+  eventId: string;
   eventType: string;
+  aggregateId: string;
+  occurredAt: string;
+  correlationId: string;
+  causationId: string | null;
+  payload: TPayload;
+}
+
+export interface EventMetadata {
+  eventId?: string;
+  occurredAt?: Date;
+  correlationId?: string;
+  causationId?: string | null;
+}
+
+/**
+ * Shared bookkeeping for concrete events: ids, timestamps and the JSON
+ * envelope. Subclasses only describe their payload.
+ */
+export abstract class BaseDomainEvent<TPayload extends object = Record<string, any>> implements DomainEvent {
+  abstract readonly eventType: string;
+  readonly eventId: string;
+  readonly occurredAt: Date;
+  private _correlationId: string;
+  private _causationId: string | null;
+
+  protected constructor(
+    public readonly aggregateId: string,
+    metadata: EventMetadata = {}
+  ) {
+    this.eventId = metadata.eventId ?? crypto.randomUUID();
+    this.occurredAt = metadata.occurredAt ?? new Date();
+    this._correlationId = metadata.correlationId ?? this.eventId;
+    this._causationId = metadata.causationId ?? null;
+  }
+
+  get correlationId(): string {
+    return this._correlationId;
+  }
+
+  get causationId(): string | null {
+    return this._causationId;
+  }
+
+  /**
+   * Links this event to the one that caused it. Only meaningful before the
+   * event is committed; afterwards it has already been stored and sent.
+   */
+  causedBy(cause: DomainEvent): void {
+    this._correlationId = cause.correlationId;
+    this._causationId = cause.eventId;
+  }
+
+  /**
+   * Puts this event in the correlation of another raised by the same
+   * action, without making it the cause.
+   */
+  correlatedWith(other: DomainEvent): void {
+    this._correlationId = other.correlationId;
+  }
+
+  protected abstract payload(): TPayload;
+
+  toJSON(): DomainEventJSON<TPayload> {
+    return {
+      eventId: this.eventId,
+      eventType: this.eventType,
+      aggregateId: this.aggregateId,
+      occurredAt: this.occurredAt.toISOString(),
+      correlationId: this.correlationId,
+      causationId: this.causationId,
+      payload: this.payload()
+    };
+  }
 }
+
+/**
+ * Reads the envelope of a serialized event. Events stored before ids were
+ * introduced carry a `taskId` instead of an `aggregateId` and no ids, so
+ * a stable id is derived from their content.
+ */
+export const metadataFromJSON = (json: DomainEventJSON & { taskId?: string }): EventMetadata & { aggregateId: string } => {
+  const aggregateId = json.aggregateId ?? json.taskId;
+  const eventId = json.eventId ?? `${json.eventType}:${aggregateId}:${json.occurredAt}`;
+
+  return {
+    aggregateId,
+    eventId,
+    occurredAt: new Date(json.occurredAt),
+    correlationId: json.correlationId ?? eventId,
+    causationId: json.causationId ?? null
+  };
+};
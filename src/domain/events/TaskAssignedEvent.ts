@@ -1,16 +1,38 @@
 import { TaskId } from '../valueObjects/TaskId';
 import { UserId } from '../valueObjects/UserId';
-import { DomainEvent } from './DomainEvent';
+import { BaseDomainEvent, DomainEventJSON, EventMetadata, TaskDomainEvent, metadataFromJSON } from './DomainEvent';
 
-export class TaskAssignedEvent implements DomainEvent {
-  public readonly eventType = 'TaskAssigned';
-  public readonly occurredAt: Date;
+interface TaskAssignedPayload {
+  assignedTo: string;
+  assignedBy: string;
+}
+
+export class TaskAssignedEvent extends BaseDomainEvent<TaskAssignedPayload> implements TaskDomainEvent {
+  public readonly eventType = 'TaskAssigned' as const;
 
   constructor(
     public readonly taskId: TaskId,
     public readonly assignedTo: UserId,
-    public readonly assignedBy: UserId
+    public readonly assignedBy: UserId,
+    metadata: EventMetadata = {}
   ) {
-    this.occurredAt = new Date();
+    super(taskId.toString(), metadata);
+  }
+
+  static fromJSON(json: DomainEventJSON<TaskAssignedPayload>): TaskAssignedEvent {
+    const { aggregateId, ...metadata } = metadataFromJSON(json);
+    return new TaskAssignedEvent(
+      TaskId.fromString(aggregateId),
+      UserId.create(json.payload.assignedTo),
+      UserId.create(json.payload.assignedBy),
+      metadata
+    );
+  }
+
+  protected payload(): TaskAssignedPayload {
+    return {
+      assignedTo: this.assignedTo.toString(),
+      assignedBy: this.assignedBy.toString()
+    };
   }
 }
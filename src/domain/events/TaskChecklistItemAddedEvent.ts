@@ -0,0 +1,42 @@
+import { TaskId } from '../valueObjects/TaskId';
+import { UserId } from '../valueObjects/UserId';
+import { ChecklistItem, ChecklistItemJSON } from '../entities/ChecklistItem';
+import { BaseDomainEvent, DomainEventJSON, EventMetadata, TaskDomainEvent, metadataFromJSON } from './DomainEvent';
+
+interface TaskChecklistItemAddedPayload {
+  item: ChecklistItemJSON;
+  addedBy: string;
+}
+
+export class TaskChecklistItemAddedEvent
+  extends BaseDomainEvent<TaskChecklistItemAddedPayload>
+  implements TaskDomainEvent
+{
+  public readonly eventType = 'TaskChecklistItemAdded' as const;
+
+  constructor(
+    public readonly taskId: TaskId,
+    public readonly item: ChecklistItem,
+    public readonly addedBy: UserId,
+    metadata: EventMetadata = {}
+  ) {
+    super(taskId.toString(), metadata);
+  }
+
+  static fromJSON(json: DomainEventJSON<TaskChecklistItemAddedPayload>): TaskChecklistItemAddedEvent {
+    const { aggregateId, ...metadata } = metadataFromJSON(json);
+    return new TaskChecklistItemAddedEvent(
+      TaskId.fromString(aggregateId),
+      ChecklistItem.reconstitute(json.payload.item),
+      UserId.create(json.payload.addedBy),
+      metadata
+    );
+  }
+
+  protected payload(): TaskChecklistItemAddedPayload {
+    return {
+      item: this.item.toJSON(),
+      addedBy: this.addedBy.toString()
+    };
+  }
+}
@@ -0,0 +1,42 @@
+import { TaskId } from '../valueObjects/TaskId';
+import { UserId } from '../valueObjects/UserId';
+import { ChecklistItem, ChecklistItemJSON } from '../entities/ChecklistItem';
+import { BaseDomainEvent, DomainEventJSON, EventMetadata, TaskDomainEvent, metadataFromJSON } from './DomainEvent';
+
+interface TaskChecklistItemRemovedPayload {
+  item: ChecklistItemJSON;
+  removedBy: string;
+}
+
+export class TaskChecklistItemRemovedEvent
+  extends BaseDomainEvent<TaskChecklistItemRemovedPayload>
+  implements TaskDomainEvent
+{
+  public readonly eventType = 'TaskChecklistItemRemoved' as const;
+
+  constructor(
+    public readonly taskId: TaskId,
+    public readonly item: ChecklistItem,
+    public readonly removedBy: UserId,
+    metadata: EventMetadata = {}
+  ) {
+    super(taskId.toString(), metadata);
+  }
+
+  static fromJSON(json: DomainEventJSON<TaskChecklistItemRemovedPayload>): TaskChecklistItemRemovedEvent {
+    const { aggregateId, ...metadata } = metadataFromJSON(json);
+    return new TaskChecklistItemRemovedEvent(
+      TaskId.fromString(aggregateId),
+      ChecklistItem.reconstitute(json.payload.item),
+      UserId.create(json.payload.removedBy),
+      metadata
+    );
+  }
+
+  protected payload(): TaskChecklistItemRemovedPayload {
+    return {
+      item: this.item.toJSON(),
+      removedBy: this.removedBy.toString()
+    };
+  }
+}
@@ -0,0 +1,50 @@
+import { TaskId } from '../valueObjects/TaskId';
+import { UserId } from '../valueObjects/UserId';
+import { BaseDomainEvent, DomainEventJSON, EventMetadata, TaskDomainEvent, metadataFromJSON } from './DomainEvent';
+
+interface TaskChecklistItemToggledPayload {
+  itemId: string;
+  itemTitle: string;
+  done: boolean;
+  toggledBy: string;
+}
+
+export class TaskChecklistItemToggledEvent
+  extends BaseDomainEvent<TaskChecklistItemToggledPayload>
+  implements TaskDomainEvent
+{
+  public readonly eventType = 'TaskChecklistItemToggled' as const;
+
+  constructor(
+    public readonly taskId: TaskId,
+    public readonly itemId: string,
+    public readonly itemTitle: string,
+    /** The item's state after the toggle */
+    public readonly done: boolean,
+    public readonly toggledBy: UserId,
+    metadata: EventMetadata = {}
+  ) {
+    super(taskId.toString(), metadata);
+  }
+
+  static fromJSON(json: DomainEventJSON<TaskChecklistItemToggledPayload>): TaskChecklistItemToggledEvent {
+    const { aggregateId, ...metadata } = metadataFromJSON(json);
+    return new TaskChecklistItemToggledEvent(
+      TaskId.fromString(aggregateId),
+      json.payload.itemId,
+      json.payload.itemTitle,
+      json.payload.done,
+      UserId.create(json.payload.toggledBy),
+      metadata
+    );
+  }
+
+  protected payload(): TaskChecklistItemToggledPayload {
+    return {
+      itemId: this.itemId,
+      itemTitle: this.itemTitle,
+      done: this.done,
+      toggledBy: this.toggledBy.toString()
+    };
+  }
+}
@@ -0,0 +1,50 @@
+import { TaskId } from '../valueObjects/TaskId';
+import { UserId } from '../valueObjects/UserId';
+import { BaseDomainEvent, DomainEventJSON, EventMetadata, TaskDomainEvent, metadataFromJSON } from './DomainEvent';
+
+interface TaskCommentAddedPayload {
+  commentId: string;
+  authorId: string;
+  body: string;
+  parentId?: string;
+}
+
+export class TaskCommentAddedEvent
+  extends BaseDomainEvent<TaskCommentAddedPayload>
+  implements TaskDomainEvent
+{
+  public readonly eventType = 'TaskCommentAdded' as const;
+
+  constructor(
+    public readonly taskId: TaskId,
+    public readonly commentId: string,
+    public readonly authorId: UserId,
+    public readonly body: string,
+    /** Set for replies */
+    public readonly parentId?: string,
+    metadata: EventMetadata = {}
+  ) {
+    super(taskId.toString(), metadata);
+  }
+
+  static fromJSON(json: DomainEventJSON<TaskCommentAddedPayload>): TaskCommentAddedEvent {
+    const { aggregateId, ...metadata } = metadataFromJSON(json);
+    return new TaskCommentAddedEvent(
+      TaskId.fromString(aggregateId),
+      json.payload.commentId,
+      UserId.create(json.payload.authorId),
+      json.payload.body,
+      json.payload.parentId,
+      metadata
+    );
+  }
+
+  protected payload(): TaskCommentAddedPayload {
+    return {
+      commentId: this.commentId,
+      authorId: this.authorId.toString(),
+      body: this.body,
+      parentId: this.parentId
+    };
+  }
+}
@@ -0,0 +1,41 @@
+import { TaskId } from '../valueObjects/TaskId';
+import { UserId } from '../valueObjects/UserId';
+import { BaseDomainEvent, DomainEventJSON, EventMetadata, TaskDomainEvent, metadataFromJSON } from './DomainEvent';
+
+interface TaskCommentDeletedPayload {
+  commentId: string;
+  deletedBy: string;
+}
+
+export class TaskCommentDeletedEvent
+  extends BaseDomainEvent<TaskCommentDeletedPayload>
+  implements TaskDomainEvent
+{
+  public readonly eventType = 'TaskCommentDeleted' as const;
+
+  constructor(
+    public readonly taskId: TaskId,
+    public readonly commentId: string,
+    public readonly deletedBy: UserId,
+    metadata: EventMetadata = {}
+  ) {
+    super(taskId.toString(), metadata);
+  }
+
+  static fromJSON(json: DomainEventJSON<TaskCommentDeletedPayload>): TaskCommentDeletedEvent {
+    const { aggregateId, ...metadata } = metadataFromJSON(json);
+    return new TaskCommentDeletedEvent(
+      TaskId.fromString(aggregateId),
+      json.payload.commentId,
+      UserId.create(json.payload.deletedBy),
+      metadata
+    );
+  }
+
+  protected payload(): TaskCommentDeletedPayload {
+    return {
+      commentId: this.commentId,
+      deletedBy: this.deletedBy.toString()
+    };
+  }
+}
@@ -0,0 +1,49 @@
+import { TaskId } from '../valueObjects/TaskId';
+import { UserId } from '../valueObjects/UserId';
+import { BaseDomainEvent, DomainEventJSON, EventMetadata, TaskDomainEvent, metadataFromJSON } from './DomainEvent';
+
+interface TaskCommentEditedPayload {
+  commentId: string;
+  oldBody: string;
+  newBody: string;
+  editedBy: string;
+}
+
+export class TaskCommentEditedEvent
+  extends BaseDomainEvent<TaskCommentEditedPayload>
+  implements TaskDomainEvent
+{
+  public readonly eventType = 'TaskCommentEdited' as const;
+
+  constructor(
+    public readonly taskId: TaskId,
+    public readonly commentId: string,
+    public readonly oldBody: string,
+    public readonly newBody: string,
+    public readonly editedBy: UserId,
+    metadata: EventMetadata = {}
+  ) {
+    super(taskId.toString(), metadata);
+  }
+
+  static fromJSON(json: DomainEventJSON<TaskCommentEditedPayload>): TaskCommentEditedEvent {
+    const { aggregateId, ...metadata } = metadataFromJSON(json);
+    return new TaskCommentEditedEvent(
+      TaskId.fromString(aggregateId),
+      json.payload.commentId,
+      json.payload.oldBody,
+      json.payload.newBody,
+      UserId.create(json.payload.editedBy),
+      metadata
+    );
+  }
+
+  protected payload(): TaskCommentEditedPayload {
+    return {
+      commentId: this.commentId,
+      oldBody: this.oldBody,
+      newBody: this.newBody,
+      editedBy: this.editedBy.toString()
+    };
+  }
+}
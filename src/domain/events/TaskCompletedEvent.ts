@@ -1,16 +1,38 @@
 import { TaskId } from '../valueObjects/TaskId';
 import { UserId } from '../valueObjects/UserId';
-import { DomainEvent } from './DomainEvent';
+import { BaseDomainEvent, DomainEventJSON, EventMetadata, TaskDomainEvent, metadataFromJSON } from './DomainEvent';
 
-export class TaskCompletedEvent implements DomainEvent {
-  public readonly eventType = 'TaskCompleted';
-  public readonly occurredAt: Date;
+interface TaskCompletedPayload {
+  completedBy: string;
+  completedAt: string;
+}
+
+export class TaskCompletedEvent extends BaseDomainEvent<TaskCompletedPayload> implements TaskDomainEvent {
+  public readonly eventType = 'TaskCompleted' as const;
 
   constructor(
     public readonly taskId: TaskId,
     public readonly completedBy: UserId,
-    public readonly completedAt: Date
+    public readonly completedAt: Date,
+    metadata: EventMetadata = {}
   ) {
-    this.occurredAt = new Date();
+    super(taskId.toString(), metadata);
+  }
+
+  static fromJSON(json: DomainEventJSON<TaskCompletedPayload>): TaskCompletedEvent {
+    const { aggregateId, ...metadata } = metadataFromJSON(json);
+    return new TaskCompletedEvent(
+      TaskId.fromString(aggregateId),
+      UserId.create(json.payload.completedBy),
+      new Date(json.payload.completedAt),
+      metadata
+    );
+  }
+
+  protected payload(): TaskCompletedPayload {
+    return {
+      completedBy: this.completedBy.toString(),
+      completedAt: this.completedAt.toISOString()
+    };
   }
 }
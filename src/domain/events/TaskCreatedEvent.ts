@@ -0,0 +1,42 @@
+import { TaskId } from '../valueObjects/TaskId';
+import { TaskPriority, TaskPriorityJSON } from '../valueObjects/TaskPriority';
+import { BaseDomainEvent, DomainEventJSON, EventMetadata, TaskDomainEvent, metadataFromJSON } from './DomainEvent';
+
+interface TaskCreatedPayload {
+  title: string;
+  priority: TaskPriorityJSON;
+  dueDate?: string;
+}
+
+export class TaskCreatedEvent extends BaseDomainEvent<TaskCreatedPayload> implements TaskDomainEvent {
+  public readonly eventType = 'TaskCreated' as const;
+
+  constructor(
+    public readonly taskId: TaskId,
+    public readonly title: string,
+    public readonly priority: TaskPriority,
+    public readonly dueDate?: Date,
+    metadata: EventMetadata = {}
+  ) {
+    super(taskId.toString(), metadata);
+  }
+
+  static fromJSON(json: DomainEventJSON<TaskCreatedPayload>): TaskCreatedEvent {
+    const { aggregateId, ...metadata } = metadataFromJSON(json);
+    return new TaskCreatedEvent(
+      TaskId.fromString(aggregateId),
+      json.payload.title,
+      TaskPriority.fromJSON(json.payload.priority),
+      json.payload.dueDate ? new Date(json.payload.dueDate) : undefined,
+      metadata
+    );
+  }
+
+  protected payload(): TaskCreatedPayload {
+    return {
+      title: this.title,
+      priority: this.priority.toJSON(),
+      dueDate: this.dueDate?.toISOString()
+    };
+  }
+}
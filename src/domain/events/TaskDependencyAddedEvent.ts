@@ -0,0 +1,36 @@
+import { TaskId } from '../valueObjects/TaskId';
+import { TaskDependency, DependencyType } from '../valueObjects/TaskDependency';
+import { BaseDomainEvent, DomainEventJSON, EventMetadata, TaskDomainEvent, metadataFromJSON } from './DomainEvent';
+
+interface TaskDependencyAddedPayload {
+  dependentTaskId: string;
+  type: DependencyType;
+}
+
+export class TaskDependencyAddedEvent
+  extends BaseDomainEvent<TaskDependencyAddedPayload>
+  implements TaskDomainEvent
+{
+  public readonly eventType = 'TaskDependencyAdded' as const;
+
+  constructor(
+    public readonly taskId: TaskId,
+    public readonly dependency: TaskDependency,
+    metadata: EventMetadata = {}
+  ) {
+    super(taskId.toString(), metadata);
+  }
+
+  static fromJSON(json: DomainEventJSON<TaskDependencyAddedPayload>): TaskDependencyAddedEvent {
+    const { aggregateId, ...metadata } = metadataFromJSON(json);
+    return new TaskDependencyAddedEvent(
+      TaskId.fromString(aggregateId),
+      TaskDependency.reconstitute(TaskId.fromString(json.payload.dependentTaskId), json.payload.type),
+      metadata
+    );
+  }
+
+  protected payload(): TaskDependencyAddedPayload {
+    return this.dependency.toJSON();
+  }
+}
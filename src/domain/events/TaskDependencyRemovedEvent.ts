@@ -0,0 +1,36 @@
+import { TaskId } from '../valueObjects/TaskId';
+import { TaskDependency, DependencyType } from '../valueObjects/TaskDependency';
+import { BaseDomainEvent, DomainEventJSON, EventMetadata, TaskDomainEvent, metadataFromJSON } from './DomainEvent';
+
+interface TaskDependencyRemovedPayload {
+  dependentTaskId: string;
+  type: DependencyType;
+}
+
+export class TaskDependencyRemovedEvent
+  extends BaseDomainEvent<TaskDependencyRemovedPayload>
+  implements TaskDomainEvent
+{
+  public readonly eventType = 'TaskDependencyRemoved' as const;
+
+  constructor(
+    public readonly taskId: TaskId,
+    public readonly dependency: TaskDependency,
+    metadata: EventMetadata = {}
+  ) {
+    super(taskId.toString(), metadata);
+  }
+
+  static fromJSON(json: DomainEventJSON<TaskDependencyRemovedPayload>): TaskDependencyRemovedEvent {
+    const { aggregateId, ...metadata } = metadataFromJSON(json);
+    return new TaskDependencyRemovedEvent(
+      TaskId.fromString(aggregateId),
+      TaskDependency.reconstitute(TaskId.fromString(json.payload.dependentTaskId), json.payload.type),
+      metadata
+    );
+  }
+
+  protected payload(): TaskDependencyRemovedPayload {
+    return this.dependency.toJSON();
+  }
+}
@@ -0,0 +1,37 @@
+import { TaskId } from '../valueObjects/TaskId';
+import { BaseDomainEvent, DomainEventJSON, EventMetadata, TaskDomainEvent, metadataFromJSON } from './DomainEvent';
+
+interface TaskDueSoonPayload {
+  title: string;
+  dueDate: string;
+}
+
+export class TaskDueSoonEvent extends BaseDomainEvent<TaskDueSoonPayload> implements TaskDomainEvent {
+  public readonly eventType = 'TaskDueSoon' as const;
+
+  constructor(
+    public readonly taskId: TaskId,
+    public readonly title: string,
+    public readonly dueDate: Date,
+    metadata: EventMetadata = {}
+  ) {
+    super(taskId.toString(), metadata);
+  }
+
+  static fromJSON(json: DomainEventJSON<TaskDueSoonPayload>): TaskDueSoonEvent {
+    const { aggregateId, ...metadata } = metadataFromJSON(json);
+    return new TaskDueSoonEvent(
+      TaskId.fromString(aggregateId),
+      json.payload.title,
+      new Date(json.payload.dueDate),
+      metadata
+    );
+  }
+
+  protected payload(): TaskDueSoonPayload {
+    return {
+      title: this.title,
+      dueDate: this.dueDate.toISOString()
+    };
+  }
+}
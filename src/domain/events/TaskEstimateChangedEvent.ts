@@ -0,0 +1,51 @@
+import { TaskId } from '../valueObjects/TaskId';
+import { UserId } from '../valueObjects/UserId';
+import { TaskEstimate, TaskEstimateJSON } from '../valueObjects/TaskEstimate';
+import { BaseDomainEvent, DomainEventJSON, EventMetadata, TaskDomainEvent, metadataFromJSON } from './DomainEvent';
+
+interface TaskEstimateChangedPayload {
+  estimate?: TaskEstimateJSON;
+  previousEstimate?: TaskEstimateJSON;
+  changedBy: string;
+}
+
+/**
+ * Raised when a task is estimated, re-estimated or has its estimate
+ * cleared (`estimate` is then undefined).
+ */
+export class TaskEstimateChangedEvent
+  extends BaseDomainEvent<TaskEstimateChangedPayload>
+  implements TaskDomainEvent
+{
+  public readonly eventType = 'TaskEstimateChanged' as const;
+
+  constructor(
+    public readonly taskId: TaskId,
+    public readonly estimate: TaskEstimate | undefined,
+    public readonly previousEstimate: TaskEstimate | undefined,
+    public readonly changedBy: UserId,
+    metadata: EventMetadata = {}
+  ) {
+    super(taskId.toString(), metadata);
+  }
+
+  static fromJSON(json: DomainEventJSON<TaskEstimateChangedPayload>): TaskEstimateChangedEvent {
+    const { aggregateId, ...metadata } = metadataFromJSON(json);
+    const { estimate, previousEstimate, changedBy } = json.payload;
+    return new TaskEstimateChangedEvent(
+      TaskId.fromString(aggregateId),
+      estimate && TaskEstimate.fromJSON(estimate),
+      previousEstimate && TaskEstimate.fromJSON(previousEstimate),
+      UserId.create(changedBy),
+      metadata
+    );
+  }
+
+  protected payload(): TaskEstimateChangedPayload {
+    return {
+      estimate: this.estimate?.toJSON(),
+      previousEstimate: this.previousEstimate?.toJSON(),
+      changedBy: this.changedBy.toString()
+    };
+  }
+}
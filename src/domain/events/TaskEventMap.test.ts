@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { taskEventFromJSON, isEventOfType } from './TaskEventMap';
+import { TaskCompletedEvent } from './TaskCompletedEvent';
+import { TaskAssignedEvent } from './TaskAssignedEvent';
+import { TaskPriorityEscalatedEvent } from './TaskPriorityEscalatedEvent';
+import { TaskId } from '../valueObjects/TaskId';
+import { UserId } from '../valueObjects/UserId';
+import { TaskPriority } from '../valueObjects/TaskPriority';
+
+describe('TaskEventMap', () => {
+  const taskId = TaskId.create();
+  const userId = UserId.create('user-123');
+
+  describe('taskEventFromJSON', () => {
+    it('should round-trip an event with its metadata', () => {
+      const event = new TaskCompletedEvent(taskId, userId, new Date('2025-01-02T00:00:00Z'), {
+        occurredAt: new Date('2025-01-02T00:00:00Z')
+      });
+
+      const restored = taskEventFromJSON(JSON.parse(JSON.stringify(event)));
+
+      expect(restored).toBeInstanceOf(TaskCompletedEvent);
+      expect(restored.toJSON()).toEqual(event.toJSON());
+      expect(restored.aggregateId).toBe(taskId.toString());
+      expect(restored.taskId.equals(taskId)).toBe(true);
+    });
+
+    it('should restore priorities on escalation events', () => {
+      const event = new TaskPriorityEscalatedEvent(taskId, TaskPriority.low(), TaskPriority.high());
+
+      const restored = taskEventFromJSON(event.toJSON());
+
+      expect(isEventOfType(restored, 'TaskPriorityEscalated')).toBe(true);
+      expect((restored as TaskPriorityEscalatedEvent).newPriority.equals(TaskPriority.high())).toBe(true);
+    });
+
+    it('should read events stored before they carried ids', () => {
+      const legacy = {
+        eventType: 'TaskAssigned',
+        occurredAt: '2025-01-01T00:00:00.000Z',
+        taskId: taskId.toString(),
+        payload: { assignedTo: 'user-123', assignedBy: 'manager-456' }
+      };
+
+      const first = taskEventFromJSON(legacy as any);
+      const second = taskEventFromJSON(legacy as any);
+
+      expect(first).toBeInstanceOf(TaskAssignedEvent);
+      expect(first.aggregateId).toBe(taskId.toString());
+      expect(first.eventId).toBe(second.eventId);
+      expect(first.correlationId).toBe(first.eventId);
+      expect(first.causationId).toBeNull();
+    });
+
+    it('should reject unknown event types', () => {
+      const json = { ...new TaskCompletedEvent(taskId, userId, new Date()).toJSON(), eventType: 'TaskArchived' };
+
+      expect(() => taskEventFromJSON(json)).toThrow('Unknown domain event type: TaskArchived');
+    });
+  });
+
+  describe('metadata', () => {
+    it('should start a new correlation for each event', () => {
+      const event = new TaskCompletedEvent(taskId, userId, new Date());
+
+      expect(event.correlationId).toBe(event.eventId);
+      expect(event.causationId).toBeNull();
+    });
+
+    it('should link an event to the one that caused it', () => {
+      const cause = new TaskCompletedEvent(taskId, userId, new Date());
+      const effect = new TaskAssignedEvent(TaskId.create(), userId, userId);
+
+      effect.causedBy(cause);
+
+      expect(effect.correlationId).toBe(cause.correlationId);
+      expect(effect.causationId).toBe(cause.eventId);
+    });
+  });
+});
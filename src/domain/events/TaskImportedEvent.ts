@@ -0,0 +1,69 @@
+import { TaskId } from '../valueObjects/TaskId';
+import { TaskPriority, TaskPriorityJSON } from '../valueObjects/TaskPriority';
+import { TaskStatus } from '../valueObjects/TaskStatus';
+import { UserId } from '../valueObjects/UserId';
+import { BaseDomainEvent, DomainEventJSON, EventMetadata, TaskDomainEvent, metadataFromJSON } from './DomainEvent';
+
+interface TaskImportedPayload {
+  title: string;
+  priority: TaskPriorityJSON;
+  status: string;
+  assigneeId?: string;
+  createdAt: string;
+  completedAt?: string;
+  dueDate?: string;
+  importedBy: string;
+}
+
+/**
+ * Raised instead of TaskCreated for a task brought in from an export. It
+ * carries the state the task arrived in, since an imported task can
+ * already be assigned or done.
+ */
+export class TaskImportedEvent extends BaseDomainEvent<TaskImportedPayload> implements TaskDomainEvent {
+  public readonly eventType = 'TaskImported' as const;
+
+  constructor(
+    public readonly taskId: TaskId,
+    public readonly title: string,
+    public readonly priority: TaskPriority,
+    public readonly status: TaskStatus,
+    public readonly assigneeId: UserId | undefined,
+    public readonly createdAt: Date,
+    public readonly completedAt: Date | undefined,
+    public readonly dueDate: Date | undefined,
+    public readonly importedBy: UserId,
+    metadata: EventMetadata = {}
+  ) {
+    super(taskId.toString(), metadata);
+  }
+
+  static fromJSON(json: DomainEventJSON<TaskImportedPayload>): TaskImportedEvent {
+    const { aggregateId, ...metadata } = metadataFromJSON(json);
+    return new TaskImportedEvent(
+      TaskId.fromString(aggregateId),
+      json.payload.title,
+      TaskPriority.fromJSON(json.payload.priority),
+      TaskStatus.fromString(json.payload.status),
+      json.payload.assigneeId ? UserId.create(json.payload.assigneeId) : undefined,
+      new Date(json.payload.createdAt),
+      json.payload.completedAt ? new Date(json.payload.completedAt) : undefined,
+      json.payload.dueDate ? new Date(json.payload.dueDate) : undefined,
+      UserId.create(json.payload.importedBy),
+      metadata
+    );
+  }
+
+  protected payload(): TaskImportedPayload {
+    return {
+      title: this.title,
+      priority: this.priority.toJSON(),
+      status: this.status.toString(),
+      assigneeId: this.assigneeId?.toString(),
+      createdAt: this.createdAt.toISOString(),
+      completedAt: this.completedAt?.toISOString(),
+      dueDate: this.dueDate?.toISOString(),
+      importedBy: this.importedBy.toString()
+    };
+  }
+}
@@ -0,0 +1,41 @@
+import { TaskId } from '../valueObjects/TaskId';
+import { UserId } from '../valueObjects/UserId';
+import { BaseDomainEvent, DomainEventJSON, EventMetadata, TaskDomainEvent, metadataFromJSON } from './DomainEvent';
+
+interface TaskLabelAddedPayload {
+  label: string;
+  addedBy: string;
+}
+
+export class TaskLabelAddedEvent
+  extends BaseDomainEvent<TaskLabelAddedPayload>
+  implements TaskDomainEvent
+{
+  public readonly eventType = 'TaskLabelAdded' as const;
+
+  constructor(
+    public readonly taskId: TaskId,
+    public readonly label: string,
+    public readonly addedBy: UserId,
+    metadata: EventMetadata = {}
+  ) {
+    super(taskId.toString(), metadata);
+  }
+
+  static fromJSON(json: DomainEventJSON<TaskLabelAddedPayload>): TaskLabelAddedEvent {
+    const { aggregateId, ...metadata } = metadataFromJSON(json);
+    return new TaskLabelAddedEvent(
+      TaskId.fromString(aggregateId),
+      json.payload.label,
+      UserId.create(json.payload.addedBy),
+      metadata
+    );
+  }
+
+  protected payload(): TaskLabelAddedPayload {
+    return {
+      label: this.label,
+      addedBy: this.addedBy.toString()
+    };
+  }
+}
@@ -0,0 +1,41 @@
+import { TaskId } from '../valueObjects/TaskId';
+import { UserId } from '../valueObjects/UserId';
+import { BaseDomainEvent, DomainEventJSON, EventMetadata, TaskDomainEvent, metadataFromJSON } from './DomainEvent';
+
+interface TaskLabelRemovedPayload {
+  label: string;
+  removedBy: string;
+}
+
+export class TaskLabelRemovedEvent
+  extends BaseDomainEvent<TaskLabelRemovedPayload>
+  implements TaskDomainEvent
+{
+  public readonly eventType = 'TaskLabelRemoved' as const;
+
+  constructor(
+    public readonly taskId: TaskId,
+    public readonly label: string,
+    public readonly removedBy: UserId,
+    metadata: EventMetadata = {}
+  ) {
+    super(taskId.toString(), metadata);
+  }
+
+  static fromJSON(json: DomainEventJSON<TaskLabelRemovedPayload>): TaskLabelRemovedEvent {
+    const { aggregateId, ...metadata } = metadataFromJSON(json);
+    return new TaskLabelRemovedEvent(
+      TaskId.fromString(aggregateId),
+      json.payload.label,
+      UserId.create(json.payload.removedBy),
+      metadata
+    );
+  }
+
+  protected payload(): TaskLabelRemovedPayload {
+    return {
+      label: this.label,
+      removedBy: this.removedBy.toString()
+    };
+  }
+}
@@ -0,0 +1,37 @@
+import { TaskId } from '../valueObjects/TaskId';
+import { BaseDomainEvent, DomainEventJSON, EventMetadata, TaskDomainEvent, metadataFromJSON } from './DomainEvent';
+
+interface TaskOverduePayload {
+  title: string;
+  dueDate: string;
+}
+
+export class TaskOverdueEvent extends BaseDomainEvent<TaskOverduePayload> implements TaskDomainEvent {
+  public readonly eventType = 'TaskOverdue' as const;
+
+  constructor(
+    public readonly taskId: TaskId,
+    public readonly title: string,
+    public readonly dueDate: Date,
+    metadata: EventMetadata = {}
+  ) {
+    super(taskId.toString(), metadata);
+  }
+
+  static fromJSON(json: DomainEventJSON<TaskOverduePayload>): TaskOverdueEvent {
+    const { aggregateId, ...metadata } = metadataFromJSON(json);
+    return new TaskOverdueEvent(
+      TaskId.fromString(aggregateId),
+      json.payload.title,
+      new Date(json.payload.dueDate),
+      metadata
+    );
+  }
+
+  protected payload(): TaskOverduePayload {
+    return {
+      title: this.title,
+      dueDate: this.dueDate.toISOString()
+    };
+  }
+}
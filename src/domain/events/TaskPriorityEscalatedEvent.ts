@@ -1,16 +1,41 @@
 import { TaskId } from '../valueObjects/TaskId';
-import { TaskPriority } from '../valueObjects/TaskPriority';
-import { DomainEvent } from './DomainEvent';
+import { TaskPriority, TaskPriorityJSON } from '../valueObjects/TaskPriority';
+import { BaseDomainEvent, DomainEventJSON, EventMetadata, TaskDomainEvent, metadataFromJSON } from './DomainEvent';
 
-export class TaskPriorityEscalatedEvent implements DomainEvent {
-  public readonly eventType = 'TaskPriorityEscalated';
-  public readonly occurredAt: Date;
+interface TaskPriorityEscalatedPayload {
+  oldPriority: TaskPriorityJSON;
+  newPriority: TaskPriorityJSON;
+}
+
+export class TaskPriorityEscalatedEvent
+  extends BaseDomainEvent<TaskPriorityEscalatedPayload>
+  implements TaskDomainEvent
+{
+  public readonly eventType = 'TaskPriorityEscalated' as const;
 
   constructor(
     public readonly taskId: TaskId,
     public readonly oldPriority: TaskPriority,
-    public readonly newPriority: TaskPriority
+    public readonly newPriority: TaskPriority,
+    metadata: EventMetadata = {}
   ) {
-    this.occurredAt = new Date();
+    super(taskId.toString(), metadata);
+  }
+
+  static fromJSON(json: DomainEventJSON<TaskPriorityEscalatedPayload>): TaskPriorityEscalatedEvent {
+    const { aggregateId, ...metadata } = metadataFromJSON(json);
+    return new TaskPriorityEscalatedEvent(
+      TaskId.fromString(aggregateId),
+      TaskPriority.fromJSON(json.payload.oldPriority),
+      TaskPriority.fromJSON(json.payload.newPriority),
+      metadata
+    );
+  }
+
+  protected payload(): TaskPriorityEscalatedPayload {
+    return {
+      oldPriority: this.oldPriority.toJSON(),
+      newPriority: this.newPriority.toJSON()
+    };
   }
 }
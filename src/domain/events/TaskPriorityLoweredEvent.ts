@@ -0,0 +1,46 @@
+import { TaskId } from '../valueObjects/TaskId';
+import { UserId } from '../valueObjects/UserId';
+import { TaskPriority, TaskPriorityJSON } from '../valueObjects/TaskPriority';
+import { BaseDomainEvent, DomainEventJSON, EventMetadata, TaskDomainEvent, metadataFromJSON } from './DomainEvent';
+
+interface TaskPriorityLoweredPayload {
+  oldPriority: TaskPriorityJSON;
+  newPriority: TaskPriorityJSON;
+  changedBy: string;
+}
+
+export class TaskPriorityLoweredEvent
+  extends BaseDomainEvent<TaskPriorityLoweredPayload>
+  implements TaskDomainEvent
+{
+  public readonly eventType = 'TaskPriorityLowered' as const;
+
+  constructor(
+    public readonly taskId: TaskId,
+    public readonly oldPriority: TaskPriority,
+    public readonly newPriority: TaskPriority,
+    public readonly changedBy: UserId,
+    metadata: EventMetadata = {}
+  ) {
+    super(taskId.toString(), metadata);
+  }
+
+  static fromJSON(json: DomainEventJSON<TaskPriorityLoweredPayload>): TaskPriorityLoweredEvent {
+    const { aggregateId, ...metadata } = metadataFromJSON(json);
+    return new TaskPriorityLoweredEvent(
+      TaskId.fromString(aggregateId),
+      TaskPriority.fromJSON(json.payload.oldPriority),
+      TaskPriority.fromJSON(json.payload.newPriority),
+      UserId.create(json.payload.changedBy),
+      metadata
+    );
+  }
+
+  protected payload(): TaskPriorityLoweredPayload {
+    return {
+      oldPriority: this.oldPriority.toJSON(),
+      newPriority: this.newPriority.toJSON(),
+      changedBy: this.changedBy.toString()
+    };
+  }
+}
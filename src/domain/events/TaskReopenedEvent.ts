@@ -1,16 +1,38 @@
 import { TaskId } from '../valueObjects/TaskId';
 import { UserId } from '../valueObjects/UserId';
-import { DomainEvent } from './DomainEvent';
+import { BaseDomainEvent, DomainEventJSON, EventMetadata, TaskDomainEvent, metadataFromJSON } from './DomainEvent';
 
-export class TaskReopenedEvent implements DomainEvent {
-  public readonly eventType = 'TaskReopened';
-  public readonly occurredAt: Date;
+interface TaskReopenedPayload {
+  reopenedBy: string;
+  reopenedAt: string;
+}
+
+export class TaskReopenedEvent extends BaseDomainEvent<TaskReopenedPayload> implements TaskDomainEvent {
+  public readonly eventType = 'TaskReopened' as const;
 
   constructor(
     public readonly taskId: TaskId,
     public readonly reopenedBy: UserId,
-    public readonly reopenedAt: Date
+    public readonly reopenedAt: Date,
+    metadata: EventMetadata = {}
   ) {
-    this.occurredAt = new Date();
+    super(taskId.toString(), metadata);
+  }
+
+  static fromJSON(json: DomainEventJSON<TaskReopenedPayload>): TaskReopenedEvent {
+    const { aggregateId, ...metadata } = metadataFromJSON(json);
+    return new TaskReopenedEvent(
+      TaskId.fromString(aggregateId),
+      UserId.create(json.payload.reopenedBy),
+      new Date(json.payload.reopenedAt),
+      metadata
+    );
+  }
+
+  protected payload(): TaskReopenedPayload {
+    return {
+      reopenedBy: this.reopenedBy.toString(),
+      reopenedAt: this.reopenedAt.toISOString()
+    };
   }
 }
@@ -0,0 +1,34 @@
+import { TaskId } from '../valueObjects/TaskId';
+import { UserId } from '../valueObjects/UserId';
+import { BaseDomainEvent, DomainEventJSON, EventMetadata, TaskDomainEvent, metadataFromJSON } from './DomainEvent';
+
+interface TaskStartedPayload {
+  startedBy: string;
+}
+
+export class TaskStartedEvent extends BaseDomainEvent<TaskStartedPayload> implements TaskDomainEvent {
+  public readonly eventType = 'TaskStarted' as const;
+
+  constructor(
+    public readonly taskId: TaskId,
+    public readonly startedBy: UserId,
+    metadata: EventMetadata = {}
+  ) {
+    super(taskId.toString(), metadata);
+  }
+
+  static fromJSON(json: DomainEventJSON<TaskStartedPayload>): TaskStartedEvent {
+    const { aggregateId, ...metadata } = metadataFromJSON(json);
+    return new TaskStartedEvent(
+      TaskId.fromString(aggregateId),
+      UserId.create(json.payload.startedBy),
+      metadata
+    );
+  }
+
+  protected payload(): TaskStartedPayload {
+    return {
+      startedBy: this.startedBy.toString()
+    };
+  }
+}
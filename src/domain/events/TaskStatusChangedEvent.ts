@@ -0,0 +1,51 @@
+import { TaskId } from '../valueObjects/TaskId';
+import { UserId } from '../valueObjects/UserId';
+import { TaskStatus } from '../valueObjects/TaskStatus';
+import { BaseDomainEvent, DomainEventJSON, EventMetadata, TaskDomainEvent, metadataFromJSON } from './DomainEvent';
+
+interface TaskStatusChangedPayload {
+  oldStatus: string;
+  newStatus: string;
+  changedBy: string;
+}
+
+/**
+ * Raised for workflow moves that have no dedicated event, such as sending
+ * a task to review or cancelling it. Starting, completing and reopening
+ * keep raising their own events.
+ */
+export class TaskStatusChangedEvent
+  extends BaseDomainEvent<TaskStatusChangedPayload>
+  implements TaskDomainEvent
+{
+  public readonly eventType = 'TaskStatusChanged' as const;
+
+  constructor(
+    public readonly taskId: TaskId,
+    public readonly oldStatus: TaskStatus,
+    public readonly newStatus: TaskStatus,
+    public readonly changedBy: UserId,
+    metadata: EventMetadata = {}
+  ) {
+    super(taskId.toString(), metadata);
+  }
+
+  static fromJSON(json: DomainEventJSON<TaskStatusChangedPayload>): TaskStatusChangedEvent {
+    const { aggregateId, ...metadata } = metadataFromJSON(json);
+    return new TaskStatusChangedEvent(
+      TaskId.fromString(aggregateId),
+      TaskStatus.fromString(json.payload.oldStatus),
+      TaskStatus.fromString(json.payload.newStatus),
+      UserId.create(json.payload.changedBy),
+      metadata
+    );
+  }
+
+  protected payload(): TaskStatusChangedPayload {
+    return {
+      oldStatus: this.oldStatus.toString(),
+      newStatus: this.newStatus.toString(),
+      changedBy: this.changedBy.toString()
+    };
+  }
+}
@@ -0,0 +1,41 @@
+import { TaskId } from '../valueObjects/TaskId';
+import { UserId } from '../valueObjects/UserId';
+import { BaseDomainEvent, DomainEventJSON, EventMetadata, TaskDomainEvent, metadataFromJSON } from './DomainEvent';
+
+interface TaskTimerStartedPayload {
+  userId: string;
+  startedAt: string;
+}
+
+export class TaskTimerStartedEvent
+  extends BaseDomainEvent<TaskTimerStartedPayload>
+  implements TaskDomainEvent
+{
+  public readonly eventType = 'TaskTimerStarted' as const;
+
+  constructor(
+    public readonly taskId: TaskId,
+    public readonly userId: UserId,
+    public readonly startedAt: Date,
+    metadata: EventMetadata = {}
+  ) {
+    super(taskId.toString(), metadata);
+  }
+
+  static fromJSON(json: DomainEventJSON<TaskTimerStartedPayload>): TaskTimerStartedEvent {
+    const { aggregateId, ...metadata } = metadataFromJSON(json);
+    return new TaskTimerStartedEvent(
+      TaskId.fromString(aggregateId),
+      UserId.create(json.payload.userId),
+      new Date(json.payload.startedAt),
+      metadata
+    );
+  }
+
+  protected payload(): TaskTimerStartedPayload {
+    return {
+      userId: this.userId.toString(),
+      startedAt: this.startedAt.toISOString()
+    };
+  }
+}
@@ -0,0 +1,42 @@
+import { TaskId } from '../valueObjects/TaskId';
+import { UserId } from '../valueObjects/UserId';
+import { BaseDomainEvent, DomainEventJSON, EventMetadata, TaskDomainEvent, metadataFromJSON } from './DomainEvent';
+
+interface TaskTitleChangedPayload {
+  oldTitle: string;
+  newTitle: string;
+  changedBy: string;
+}
+
+export class TaskTitleChangedEvent extends BaseDomainEvent<TaskTitleChangedPayload> implements TaskDomainEvent {
+  public readonly eventType = 'TaskTitleChanged' as const;
+
+  constructor(
+    public readonly taskId: TaskId,
+    public readonly oldTitle: string,
+    public readonly newTitle: string,
+    public readonly changedBy: UserId,
+    metadata: EventMetadata = {}
+  ) {
+    super(taskId.toString(), metadata);
+  }
+
+  static fromJSON(json: DomainEventJSON<TaskTitleChangedPayload>): TaskTitleChangedEvent {
+    const { aggregateId, ...metadata } = metadataFromJSON(json);
+    return new TaskTitleChangedEvent(
+      TaskId.fromString(aggregateId),
+      json.payload.oldTitle,
+      json.payload.newTitle,
+      UserId.create(json.payload.changedBy),
+      metadata
+    );
+  }
+
+  protected payload(): TaskTitleChangedPayload {
+    return {
+      oldTitle: this.oldTitle,
+      newTitle: this.newTitle,
+      changedBy: this.changedBy.toString()
+    };
+  }
+}
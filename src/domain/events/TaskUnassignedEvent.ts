@@ -0,0 +1,38 @@
+import { TaskId } from '../valueObjects/TaskId';
+import { UserId } from '../valueObjects/UserId';
+import { BaseDomainEvent, DomainEventJSON, EventMetadata, TaskDomainEvent, metadataFromJSON } from './DomainEvent';
+
+interface TaskUnassignedPayload {
+  previousAssignee: string;
+  unassignedBy: string;
+}
+
+export class TaskUnassignedEvent extends BaseDomainEvent<TaskUnassignedPayload> implements TaskDomainEvent {
+  public readonly eventType = 'TaskUnassigned' as const;
+
+  constructor(
+    public readonly taskId: TaskId,
+    public readonly previousAssignee: UserId,
+    public readonly unassignedBy: UserId,
+    metadata: EventMetadata = {}
+  ) {
+    super(taskId.toString(), metadata);
+  }
+
+  static fromJSON(json: DomainEventJSON<TaskUnassignedPayload>): TaskUnassignedEvent {
+    const { aggregateId, ...metadata } = metadataFromJSON(json);
+    return new TaskUnassignedEvent(
+      TaskId.fromString(aggregateId),
+      UserId.create(json.payload.previousAssignee),
+      UserId.create(json.payload.unassignedBy),
+      metadata
+    );
+  }
+
+  protected payload(): TaskUnassignedPayload {
+    return {
+      previousAssignee: this.previousAssignee.toString(),
+      unassignedBy: this.unassignedBy.toString()
+    };
+  }
+}
@@ -0,0 +1,39 @@
+import { TaskId } from '../valueObjects/TaskId';
+import { WorkLogEntry, WorkLogEntryJSON } from '../entities/WorkLogEntry';
+import { BaseDomainEvent, DomainEventJSON, EventMetadata, TaskDomainEvent, metadataFromJSON } from './DomainEvent';
+
+interface TaskWorkLoggedPayload {
+  entry: WorkLogEntryJSON;
+}
+
+/**
+ * Raised when time is added to a task's work log, whether by stopping its
+ * timer or by hand.
+ */
+export class TaskWorkLoggedEvent
+  extends BaseDomainEvent<TaskWorkLoggedPayload>
+  implements TaskDomainEvent
+{
+  public readonly eventType = 'TaskWorkLogged' as const;
+
+  constructor(
+    public readonly taskId: TaskId,
+    public readonly entry: WorkLogEntry,
+    metadata: EventMetadata = {}
+  ) {
+    super(taskId.toString(), metadata);
+  }
+
+  static fromJSON(json: DomainEventJSON<TaskWorkLoggedPayload>): TaskWorkLoggedEvent {
+    const { aggregateId, ...metadata } = metadataFromJSON(json);
+    return new TaskWorkLoggedEvent(
+      TaskId.fromString(aggregateId),
+      WorkLogEntry.reconstitute(json.payload.entry),
+      metadata
+    );
+  }
+
+  protected payload(): TaskWorkLoggedPayload {
+    return { entry: this.entry.toJSON() };
+  }
+}
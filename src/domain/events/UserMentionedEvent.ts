@@ -0,0 +1,49 @@
+import { TaskId } from '../valueObjects/TaskId';
+import { UserId } from '../valueObjects/UserId';
+import { BaseDomainEvent, DomainEventJSON, EventMetadata, TaskDomainEvent, metadataFromJSON } from './DomainEvent';
+
+interface UserMentionedPayload {
+  commentId: string;
+  mentionedUserId: string;
+  mentionedBy: string;
+}
+
+/**
+ * Raised once per user @mentioned in a comment on the task, and again
+ * only if an edit adds a mention that was not there before.
+ */
+export class UserMentionedEvent
+  extends BaseDomainEvent<UserMentionedPayload>
+  implements TaskDomainEvent
+{
+  public readonly eventType = 'UserMentioned' as const;
+
+  constructor(
+    public readonly taskId: TaskId,
+    public readonly commentId: string,
+    public readonly mentionedUserId: UserId,
+    public readonly mentionedBy: UserId,
+    metadata: EventMetadata = {}
+  ) {
+    super(taskId.toString(), metadata);
+  }
+
+  static fromJSON(json: DomainEventJSON<UserMentionedPayload>): UserMentionedEvent {
+    const { aggregateId, ...metadata } = metadataFromJSON(json);
+    return new UserMentionedEvent(
+      TaskId.fromString(aggregateId),
+      json.payload.commentId,
+      UserId.create(json.payload.mentionedUserId),
+      UserId.create(json.payload.mentionedBy),
+      metadata
+    );
+  }
+
+  protected payload(): UserMentionedPayload {
+    return {
+      commentId: this.commentId,
+      mentionedUserId: this.mentionedUserId.toString(),
+      mentionedBy: this.mentionedBy.toString()
+    };
+  }
+}
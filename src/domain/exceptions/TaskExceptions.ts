@@ -0,0 +1,71 @@
+import { TaskId } from '../valueObjects/TaskId';
+
+/**
+ * Base class for all task-related domain exceptions
+ */
+export abstract class TaskDomainException extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = this.constructor.name;
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+export interface BlockingTaskSummary {
+  id: string;
+  title: string;
+}
+
+/**
+ * Thrown when a task cannot be started or completed because
+ * tasks it is blocked by are still open
+ */
+export class TaskBlockedByDependenciesException extends TaskDomainException {
+  constructor(
+    public readonly taskId: TaskId,
+    public readonly blockingTasks: BlockingTaskSummary[]
+  ) {
+    super(
+      `Task is blocked by open dependencies: ${blockingTasks.map(t => `"${t.title}"`).join(', ')}`
+    );
+  }
+}
+
+/**
+ * Thrown when adding a dependency would make a task (transitively) block itself
+ */
+export class CircularDependencyException extends TaskDomainException {
+  constructor(
+    public readonly taskId: TaskId,
+    public readonly blockerId: TaskId
+  ) {
+    super('Cannot add dependency: it would create a circular dependency');
+  }
+}
+
+/**
+ * Thrown when a task was changed by someone else since it was loaded
+ */
+export class ConcurrencyConflictError extends TaskDomainException {
+  constructor(
+    public readonly taskId: TaskId,
+    public readonly expectedVersion: number,
+    public readonly actualVersion: number
+  ) {
+    super('Task was modified elsewhere. Reload it and try again.');
+  }
+}
+
+/**
+ * Thrown when the workflow has no transition between the task's current
+ * status and the requested one
+ */
+export class InvalidStatusTransitionException extends TaskDomainException {
+  constructor(
+    public readonly taskId: TaskId,
+    public readonly from: string,
+    public readonly to: string
+  ) {
+    super(`Cannot move task from ${from} to ${to}`);
+  }
+}
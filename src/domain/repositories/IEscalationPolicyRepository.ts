@@ -0,0 +1,8 @@
+import { EscalationPolicy } from '../valueObjects/EscalationPolicy';
+
+export const DEFAULT_WORKSPACE_ID = 'default';
+
+export interface IEscalationPolicyRepository {
+  findByWorkspace(workspaceId: string): Promise<EscalationPolicy | null>;
+  save(workspaceId: string, policy: EscalationPolicy): Promise<void>;
+}
@@ -0,0 +1,6 @@
+import { LabelCatalog } from '../valueObjects/LabelCatalog';
+
+export interface ILabelCatalogRepository {
+  findByWorkspace(workspaceId: string): Promise<LabelCatalog | null>;
+  save(workspaceId: string, catalog: LabelCatalog): Promise<void>;
+}
@@ -0,0 +1,10 @@
+import { SavedTaskView } from '../entities/SavedTaskView';
+import { UserId } from '../valueObjects/UserId';
+
+export interface ISavedTaskViewRepository {
+  findById(id: string): Promise<SavedTaskView | null>;
+  /** Sorted by name */
+  findByOwner(ownerId: UserId): Promise<SavedTaskView[]>;
+  save(view: SavedTaskView): Promise<void>;
+  delete(id: string): Promise<void>;
+}
@@ -0,0 +1,9 @@
+import { TaskComment } from '../entities/TaskComment';
+import { TaskId } from '../valueObjects/TaskId';
+
+export interface ITaskCommentRepository {
+  findById(id: string): Promise<TaskComment | null>;
+  /** Deleted comments included, oldest first */
+  findByTaskId(taskId: TaskId): Promise<TaskComment[]>;
+  save(comment: TaskComment): Promise<void>;
+}
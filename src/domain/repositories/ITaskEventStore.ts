@@ -0,0 +1,13 @@
+import { AnyTaskEvent } from '../events/TaskEventMap';
+import { TaskId } from '../valueObjects/TaskId';
+
+/**
+ * Append-only store of every domain event raised by Task aggregates.
+ * Events are never updated or removed once appended, and appending an
+ * event that is already stored does nothing.
+ */
+export interface ITaskEventStore {
+  append(event: AnyTaskEvent): Promise<void>;
+  findByTaskId(taskId: TaskId): Promise<AnyTaskEvent[]>;
+  findAll(): Promise<AnyTaskEvent[]>;
+}
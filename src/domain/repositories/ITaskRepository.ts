@@ -1,9 +1,13 @@
 import { Task } from '../entities/Task';
 import { TaskId } from '../valueObjects/TaskId';
+import { TaskQuery, TaskQueryResult } from './TaskQuery';
 
 export interface ITaskRepository {
   save(task: Task): Promise<void>;
+  /** Writes every task or, if any write fails, none of them */
+  saveAll(tasks: Task[]): Promise<void>;
   findById(id: TaskId): Promise<Task | null>;
   findAll(): Promise<Task[]>;
+  findByQuery(query: TaskQuery): Promise<TaskQueryResult>;
   delete(id: TaskId): Promise<void>;
 }
@@ -0,0 +1,6 @@
+import { TaskWorkflow } from '../valueObjects/TaskWorkflow';
+
+export interface ITaskWorkflowRepository {
+  findByWorkspace(workspaceId: string): Promise<TaskWorkflow | null>;
+  save(workspaceId: string, workflow: TaskWorkflow): Promise<void>;
+}
@@ -0,0 +1,5 @@
+import { Team } from '../entities/Team';
+
+export interface ITeamRepository {
+  findAll(): Promise<Team[]>;
+}
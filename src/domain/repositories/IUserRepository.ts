@@ -0,0 +1,7 @@
+import { User } from '../entities/User';
+import { UserId } from '../valueObjects/UserId';
+
+export interface IUserRepository {
+  findAll(): Promise<User[]>;
+  findById(id: UserId): Promise<User | null>;
+}
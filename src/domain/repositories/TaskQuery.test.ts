@@ -0,0 +1,164 @@
+import { describe, it, expect } from 'vitest';
+import { TaskQuery } from './TaskQuery';
+import { Task } from '../entities/Task';
+import { TaskTitle } from '../valueObjects/TaskTitle';
+import { TaskPriority, PriorityLevel } from '../valueObjects/TaskPriority';
+import { TaskStatusType } from '../valueObjects/TaskStatus';
+import { TaskDependency } from '../valueObjects/TaskDependency';
+import { UserId } from '../valueObjects/UserId';
+import { TaskLabel } from '../valueObjects/TaskLabel';
+
+describe('TaskQuery', () => {
+  const userId = UserId.create('user-123');
+  const now = new Date('2025-06-15T12:00:00Z');
+
+  const createTask = (title: string, priority = TaskPriority.medium(), dueDate?: Date): Task =>
+    Task.create(TaskTitle.create(title), priority, dueDate);
+
+  describe('create', () => {
+    it('should reject limits outside the allowed range', () => {
+      expect(() => TaskQuery.create({ limit: 0 })).toThrow('Query limit must be between 1 and 100');
+      expect(() => TaskQuery.create({ limit: 101 })).toThrow('Query limit must be between 1 and 100');
+    });
+
+    it('should reject an inverted due date range', () => {
+      expect(() =>
+        TaskQuery.create({ filters: { dueFrom: new Date('2025-02-01'), dueTo: new Date('2025-01-01') } })
+      ).toThrow('Due date range start must be before its end');
+    });
+  });
+
+  describe('filters', () => {
+    it('should filter by status and priority', () => {
+      const done = createTask('Done', TaskPriority.high());
+      done.complete(userId);
+      const high = createTask('High', TaskPriority.high());
+      const low = createTask('Low', TaskPriority.low());
+
+      const result = TaskQuery.create({
+        filters: { statuses: [TaskStatusType.TODO], priorities: [PriorityLevel.HIGH] },
+      }).apply([done, high, low], now);
+
+      expect(result.tasks).toEqual([high]);
+      expect(result.totalCount).toBe(1);
+    });
+
+    it('should filter by assignee and unassigned tasks', () => {
+      const mine = createTask('Mine');
+      mine.assignTo(userId, userId);
+      const unassigned = createTask('Unassigned');
+
+      expect(TaskQuery.create({ filters: { assigneeId: 'user-123' } }).apply([mine, unassigned]).tasks)
+        .toEqual([mine]);
+      expect(TaskQuery.create({ filters: { assigneeId: null } }).apply([mine, unassigned]).tasks)
+        .toEqual([unassigned]);
+    });
+
+    it('should filter overdue tasks and due date ranges', () => {
+      const overdue = createTask('Overdue', TaskPriority.medium(), new Date('2025-06-01'));
+      const upcoming = createTask('Upcoming', TaskPriority.medium(), new Date('2025-07-01'));
+      const noDueDate = createTask('No due date');
+      const tasks = [overdue, upcoming, noDueDate];
+
+      expect(TaskQuery.create({ filters: { overdue: true } }).apply(tasks, now).tasks).toEqual([overdue]);
+      expect(
+        TaskQuery.create({
+          filters: { dueFrom: new Date('2025-06-20'), dueTo: new Date('2025-07-31') },
+        }).apply(tasks, now).tasks
+      ).toEqual([upcoming]);
+    });
+
+    it('should filter by dependency state', () => {
+      const blocker = createTask('Blocker');
+      const blocked = createTask('Blocked');
+      const independent = createTask('Independent');
+      blocked.addDependency(TaskDependency.blockedBy(blocker.id));
+      blocker.addDependency(TaskDependency.blocks(blocked.id));
+      const tasks = [blocker, blocked, independent];
+
+      expect(TaskQuery.create({ filters: { dependencyState: 'blocked' } }).apply(tasks).tasks).toEqual([blocked]);
+      expect(TaskQuery.create({ filters: { dependencyState: 'blocking' } }).apply(tasks).tasks).toEqual([blocker]);
+      expect(TaskQuery.create({ filters: { dependencyState: 'independent' } }).apply(tasks).tasks)
+        .toEqual([independent]);
+    });
+
+    it('should not count tasks whose blockers are closed as blocked', () => {
+      const blocker = createTask('Blocker');
+      const blocked = createTask('Blocked');
+      blocked.addDependency(TaskDependency.blockedBy(blocker.id));
+      blocker.addDependency(TaskDependency.blocks(blocked.id));
+      blocker.complete(userId);
+
+      expect(TaskQuery.create({ filters: { dependencyState: 'blocked' } }).apply([blocker, blocked]).tasks)
+        .toEqual([]);
+    });
+
+    it('should filter by labels, requiring all of them and ignoring case', () => {
+      const both = createTask('Both');
+      const bugOnly = createTask('Bug only');
+      both.addLabel(TaskLabel.create('Bug'), userId);
+      both.addLabel(TaskLabel.create('Frontend'), userId);
+      bugOnly.addLabel(TaskLabel.create('Bug'), userId);
+      const tasks = [both, bugOnly, createTask('Unlabelled')];
+
+      expect(TaskQuery.create({ filters: { labels: ['bug'] } }).apply(tasks).tasks).toHaveLength(2);
+      expect(TaskQuery.create({ filters: { labels: ['bug', 'FRONTEND'] } }).apply(tasks).tasks).toEqual([both]);
+    });
+  });
+
+  describe('sorting', () => {
+    it('should sort by priority descending', () => {
+      const low = createTask('Low', TaskPriority.low());
+      const critical = createTask('Critical', TaskPriority.critical());
+      const medium = createTask('Medium', TaskPriority.medium());
+
+      const result = TaskQuery.create({ sort: { key: 'priority', direction: 'desc' } })
+        .apply([low, critical, medium]);
+
+      expect(result.tasks.map(t => t.title.toString())).toEqual(['Critical', 'Medium', 'Low']);
+    });
+
+    it('should place tasks without a due date last in both directions', () => {
+      const early = createTask('Early', TaskPriority.medium(), new Date('2025-01-01'));
+      const late = createTask('Late', TaskPriority.medium(), new Date('2025-12-01'));
+      const none = createTask('None');
+
+      const asc = TaskQuery.create({ sort: { key: 'dueDate', direction: 'asc' } }).apply([none, late, early]);
+      const desc = TaskQuery.create({ sort: { key: 'dueDate', direction: 'desc' } }).apply([none, early, late]);
+
+      expect(asc.tasks.map(t => t.title.toString())).toEqual(['Early', 'Late', 'None']);
+      expect(desc.tasks.map(t => t.title.toString())).toEqual(['Late', 'Early', 'None']);
+    });
+  });
+
+  describe('pagination', () => {
+    it('should page through results with a cursor', () => {
+      const tasks = ['Alpha', 'Bravo', 'Charlie', 'Delta', 'Écho'].map(title => createTask(title));
+      const sort = { key: 'title' as const, direction: 'asc' as const };
+
+      const first = TaskQuery.create({ sort, limit: 2 }).apply(tasks);
+      const second = TaskQuery.create({ sort, limit: 2, cursor: first.nextCursor! }).apply(tasks);
+      const third = TaskQuery.create({ sort, limit: 2, cursor: second.nextCursor! }).apply(tasks);
+
+      expect(first.tasks.map(t => t.title.toString())).toEqual(['Alpha', 'Bravo']);
+      expect(second.tasks.map(t => t.title.toString())).toEqual(['Charlie', 'Delta']);
+      expect(third.tasks.map(t => t.title.toString())).toEqual(['Écho']);
+      expect(third.nextCursor).toBeNull();
+      expect(first.totalCount).toBe(5);
+    });
+
+    it('should keep its position when an earlier task is removed', () => {
+      const tasks = ['A', 'B', 'C', 'D'].map(title => createTask(title));
+      const sort = { key: 'title' as const, direction: 'asc' as const };
+
+      const first = TaskQuery.create({ sort, limit: 2 }).apply(tasks);
+      const second = TaskQuery.create({ sort, limit: 2, cursor: first.nextCursor! }).apply(tasks.slice(1));
+
+      expect(second.tasks.map(t => t.title.toString())).toEqual(['C', 'D']);
+    });
+
+    it('should reject a malformed cursor', () => {
+      expect(() => TaskQuery.create({ cursor: 'not-a-cursor' }).apply([])).toThrow('Invalid task query cursor');
+    });
+  });
+});
@@ -0,0 +1,217 @@
+import { Task } from '../entities/Task';
+import { TaskStatusType } from '../valueObjects/TaskStatus';
+import { PriorityLevel } from '../valueObjects/TaskPriority';
+import { DependencyType } from '../valueObjects/TaskDependency';
+import { TaskDependencyService } from '../services/TaskDependencyService';
+
+export type TaskSortKey = 'createdAt' | 'dueDate' | 'priority' | 'title' | 'status';
+export type SortDirection = 'asc' | 'desc';
+
+/**
+ * - `blocked`: at least one of its blockers is still open
+ * - `blocking`: other tasks are blocked by it
+ * - `independent`: neither blocked nor blocking
+ */
+export type DependencyState = 'blocked' | 'blocking' | 'independent';
+
+export interface TaskQueryFilters {
+  statuses?: TaskStatusType[];
+  priorities?: PriorityLevel[];
+  /** `null` matches unassigned tasks only */
+  assigneeId?: string | null;
+  overdue?: boolean;
+  dueFrom?: Date;
+  dueTo?: Date;
+  dependencyState?: DependencyState;
+  /** Matches tasks that have every one of these labels */
+  labels?: string[];
+}
+
+export interface TaskQuerySort {
+  key: TaskSortKey;
+  direction: SortDirection;
+}
+
+export interface TaskQueryProps {
+  filters?: TaskQueryFilters;
+  sort?: TaskQuerySort;
+  cursor?: string;
+  limit?: number;
+}
+
+export interface TaskQueryResult {
+  tasks: Task[];
+  nextCursor: string | null;
+  totalCount: number;
+}
+
+type SortValue = number | string | null;
+
+interface CursorPosition {
+  value: SortValue;
+  id: string;
+}
+
+const STATUS_ORDER: Record<string, number> = {
+  [TaskStatusType.TODO]: 0,
+  [TaskStatusType.IN_PROGRESS]: 1,
+  [TaskStatusType.IN_REVIEW]: 2,
+  [TaskStatusType.BLOCKED]: 3,
+  [TaskStatusType.DONE]: 4,
+  [TaskStatusType.CANCELLED]: 5
+};
+
+/**
+ * Specification for searching tasks: filters, a sort order and keyset
+ * (cursor) pagination. Repositories may use it to narrow what they load,
+ * but `apply` is the single source of truth for matching and ordering.
+ */
+export class TaskQuery {
+  static readonly DEFAULT_LIMIT = 20;
+  static readonly MAX_LIMIT = 100;
+
+  private constructor(
+    readonly filters: TaskQueryFilters,
+    readonly sort: TaskQuerySort,
+    readonly cursor: string | undefined,
+    readonly limit: number
+  ) {}
+
+  static create(props: TaskQueryProps = {}): TaskQuery {
+    const limit = props.limit ?? TaskQuery.DEFAULT_LIMIT;
+    if (!Number.isInteger(limit) || limit < 1 || limit > TaskQuery.MAX_LIMIT) {
+      throw new Error(`Query limit must be between 1 and ${TaskQuery.MAX_LIMIT}`);
+    }
+
+    const { dueFrom, dueTo } = props.filters ?? {};
+    if (dueFrom && dueTo && dueFrom > dueTo) {
+      throw new Error('Due date range start must be before its end');
+    }
+
+    return new TaskQuery(
+      { ...props.filters },
+      props.sort ?? { key: 'createdAt', direction: 'desc' },
+      props.cursor,
+      limit
+    );
+  }
+
+  /**
+   * `openBlockerIds` are the open tasks among those searched; blockers that
+   * are not in it no longer block.
+   */
+  matches(task: Task, now: Date, openBlockerIds: ReadonlySet<string>): boolean {
+    const { statuses, priorities, assigneeId, overdue, dueFrom, dueTo, dependencyState, labels } = this.filters;
+
+    if (statuses?.length && !statuses.includes(task.status.toString() as TaskStatusType)) {
+      return false;
+    }
+
+    if (priorities?.length && !priorities.includes(task.priority.getLevel())) {
+      return false;
+    }
+
+    if (assigneeId !== undefined) {
+      const assignedTo = task.assignment?.getAssignedTo().toString() ?? null;
+      if (assignedTo !== assigneeId) return false;
+    }
+
+    if (overdue !== undefined) {
+      const isOverdue = !!task.dueDate && !task.status.isClosed() && now > task.dueDate;
+      if (isOverdue !== overdue) return false;
+    }
+
+    if (dueFrom && (!task.dueDate || task.dueDate < dueFrom)) {
+      return false;
+    }
+
+    if (dueTo && (!task.dueDate || task.dueDate > dueTo)) {
+      return false;
+    }
+
+    if (dependencyState && this.getDependencyState(task, openBlockerIds) !== dependencyState) {
+      return false;
+    }
+
+    if (labels?.length && !labels.every(label => task.hasLabel(label))) {
+      return false;
+    }
+
+    return true;
+  }
+
+  apply(tasks: Task[], now: Date = new Date()): TaskQueryResult {
+    const openBlockerIds = TaskDependencyService.openBlockerIds(tasks);
+    const matching = tasks
+      .filter(task => this.matches(task, now, openBlockerIds))
+      .sort((a, b) => this.compare(this.positionOf(a), this.positionOf(b)));
+
+    let start = 0;
+    if (this.cursor) {
+      const after = TaskQuery.decodeCursor(this.cursor);
+      start = matching.findIndex(task => this.compare(this.positionOf(task), after) > 0);
+      if (start === -1) start = matching.length;
+    }
+
+    const page = matching.slice(start, start + this.limit);
+    const hasMore = start + this.limit < matching.length;
+
+    return {
+      tasks: page,
+      nextCursor: hasMore ? TaskQuery.encodeCursor(this.positionOf(page[page.length - 1])) : null,
+      totalCount: matching.length
+    };
+  }
+
+  private getDependencyState(task: Task, openBlockerIds: ReadonlySet<string>): DependencyState {
+    if (task.hasBlockingDependencies(openBlockerIds)) return 'blocked';
+    if (task.dependencies.some(d => d.getType() === DependencyType.BLOCKS)) return 'blocking';
+    return 'independent';
+  }
+
+  private positionOf(task: Task): CursorPosition {
+    return { value: this.sortValue(task), id: task.id.toString() };
+  }
+
+  private sortValue(task: Task): SortValue {
+    switch (this.sort.key) {
+      case 'createdAt':
+        return task.createdAt.getTime();
+      case 'dueDate':
+        return task.dueDate?.getTime() ?? null;
+      case 'priority':
+        return task.priority.getLevel();
+      case 'title':
+        return task.title.toString().toLowerCase();
+      case 'status':
+        return STATUS_ORDER[task.status.toString()] ?? Number.MAX_SAFE_INTEGER;
+    }
+  }
+
+  private compare(a: CursorPosition, b: CursorPosition): number {
+    // Tasks without a value (e.g. no due date) always sort last
+    if (a.value === null && b.value !== null) return 1;
+    if (a.value !== null && b.value === null) return -1;
+
+    if (a.value !== null && b.value !== null && a.value !== b.value) {
+      const order = a.value < b.value ? -1 : 1;
+      return this.sort.direction === 'asc' ? order : -order;
+    }
+
+    return a.id.localeCompare(b.id);
+  }
+
+  private static encodeCursor(position: CursorPosition): string {
+    return btoa(encodeURIComponent(JSON.stringify(position)));
+  }
+
+  private static decodeCursor(cursor: string): CursorPosition {
+    try {
+      const position = JSON.parse(decodeURIComponent(atob(cursor)));
+      if (typeof position?.id !== 'string') throw new Error();
+      return position;
+    } catch {
+      throw new Error('Invalid task query cursor');
+    }
+  }
+}
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { PermissionPolicy } from './PermissionPolicy';
+import { User, UserRole } from '../entities/User';
+import { Team } from '../entities/Team';
+import { UserId } from '../valueObjects/UserId';
+
+describe('PermissionPolicy', () => {
+  const member = UserId.create('member-1');
+  const teammate = UserId.create('member-2');
+  const outsider = UserId.create('member-3');
+  const lead = UserId.create('lead-1');
+  const admin = UserId.create('admin-1');
+
+  const policy = new PermissionPolicy(
+    [
+      User.create(member, 'Member'),
+      User.create(teammate, 'Teammate'),
+      User.create(outsider, 'Outsider'),
+      User.create(lead, 'Lead', UserRole.LEAD),
+      User.create(admin, 'Admin', UserRole.ADMIN)
+    ],
+    [
+      Team.create('team-a', 'Team A', [member, teammate, lead]),
+      Team.create('team-b', 'Team B', [outsider])
+    ]
+  );
+
+  describe('canManageTasksOf', () => {
+    it('should let everyone manage their own tasks', () => {
+      expect(policy.canManageTasksOf(member, member)).toBe(true);
+      expect(policy.canManageTasksOf(UserId.create('unknown'), UserId.create('unknown'))).toBe(true);
+    });
+
+    it('should not let members manage tasks of their teammates', () => {
+      expect(policy.canManageTasksOf(member, teammate)).toBe(false);
+    });
+
+    it('should let leads manage tasks of their team only', () => {
+      expect(policy.canManageTasksOf(lead, member)).toBe(true);
+      expect(policy.canManageTasksOf(lead, outsider)).toBe(false);
+    });
+
+    it('should let admins manage every task', () => {
+      expect(policy.canManageTasksOf(admin, outsider)).toBe(true);
+    });
+  });
+
+  describe('canOverrideReopenWindow', () => {
+    it('should only allow admins', () => {
+      expect(policy.canOverrideReopenWindow(admin)).toBe(true);
+      expect(policy.canOverrideReopenWindow(lead)).toBe(false);
+      expect(policy.canOverrideReopenWindow(member)).toBe(false);
+    });
+  });
+
+  describe('assigneeOnly', () => {
+    it('should ignore roles it does not know about', () => {
+      expect(PermissionPolicy.assigneeOnly().canManageTasksOf(admin, member)).toBe(false);
+    });
+  });
+});
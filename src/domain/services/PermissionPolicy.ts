@@ -0,0 +1,41 @@
+import { User } from '../entities/User';
+import { Team } from '../entities/Team';
+import { UserId } from '../valueObjects/UserId';
+
+/**
+ * Decides who may act on a task that belongs to someone else.
+ *
+ * Everyone may act on their own tasks. Leads may also act on the tasks of
+ * anyone who shares a team with them, and admins on every task. Users the
+ * policy does not know are treated as plain members.
+ */
+export class PermissionPolicy {
+  private users: Map<string, User>;
+
+  constructor(users: User[], private teams: Team[]) {
+    this.users = new Map(users.map(user => [user.id.toString(), user]));
+  }
+
+  /**
+   * The rules without any roles or teams: only the assignee may act.
+   */
+  static assigneeOnly(): PermissionPolicy {
+    return new PermissionPolicy([], []);
+  }
+
+  canManageTasksOf(actorId: UserId, assigneeId: UserId): boolean {
+    if (actorId.equals(assigneeId)) return true;
+
+    const actor = this.users.get(actorId.toString());
+    if (!actor) return false;
+    if (actor.isAdmin()) return true;
+
+    return actor.isLead() && this.teams.some(team =>
+      team.hasMember(actorId) && team.hasMember(assigneeId)
+    );
+  }
+
+  canOverrideReopenWindow(actorId: UserId): boolean {
+    return this.users.get(actorId.toString())?.isAdmin() ?? false;
+  }
+}
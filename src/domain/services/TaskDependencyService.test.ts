@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { TaskDependencyService } from './TaskDependencyService';
+import { Task } from '../entities/Task';
+import { TaskTitle } from '../valueObjects/TaskTitle';
+import { TaskDependency } from '../valueObjects/TaskDependency';
+import { UserId } from '../valueObjects/UserId';
+
+describe('TaskDependencyService', () => {
+  const createTask = (title: string): Task => Task.create(TaskTitle.create(title));
+
+  const block = (task: Task, blocker: Task): void => {
+    task.addDependency(TaskDependency.blockedBy(blocker.id));
+    blocker.addDependency(TaskDependency.blocks(task.id));
+  };
+
+  describe('getBlockingTasks', () => {
+    it('should only return blockers that are not done', () => {
+      const userId = UserId.create('user-123');
+      const open = createTask('Open blocker');
+      const done = createTask('Done blocker');
+      const task = createTask('Task');
+      block(task, open);
+      block(task, done);
+      done.complete(userId);
+
+      const blocking = TaskDependencyService.getBlockingTasks(task, [open, done, task]);
+
+      expect(blocking).toEqual([open]);
+    });
+  });
+
+  describe('getCriticalPath', () => {
+    it('should return an empty path when there are no tasks', () => {
+      expect(TaskDependencyService.getCriticalPath([])).toEqual([]);
+    });
+
+    it('should return the longest chain of open tasks in execution order', () => {
+      const design = createTask('Design');
+      const build = createTask('Build');
+      const test = createTask('Test');
+      const release = createTask('Release');
+      const docs = createTask('Docs');
+      block(build, design);
+      block(test, build);
+      block(release, test);
+      block(release, docs);
+
+      const path = TaskDependencyService.getCriticalPath([release, docs, test, build, design]);
+
+      expect(path.map(t => t.title.toString())).toEqual(['Design', 'Build', 'Test', 'Release']);
+    });
+
+    it('should ignore completed tasks', () => {
+      const userId = UserId.create('user-123');
+      const design = createTask('Design');
+      const build = createTask('Build');
+      block(build, design);
+      design.complete(userId);
+
+      const path = TaskDependencyService.getCriticalPath([design, build]);
+
+      expect(path.map(t => t.title.toString())).toEqual(['Build']);
+    });
+  });
+});
@@ -1,6 +1,7 @@
 import { Task } from '../entities/Task';
 import { TaskId } from '../valueObjects/TaskId';
 import { TaskDependency } from '../valueObjects/TaskDependency';
+import { TaskBlockedByDependenciesException } from '../exceptions/TaskExceptions';
 
 export class TaskDependencyService {
   static wouldCreateCircularDependency(
@@ -42,7 +43,9 @@ export class TaskDependencyService {
       return false;
     }
 
-    for (const dep of currentTask.dependencies) {
+    // Only BLOCKED_BY edges form the blocking chain; the mirrored BLOCKS
+    // edges would otherwise report a cycle for every shared blocker.
+    for (const dep of currentTask.getBlockingDependencies()) {
       if (this.hasCyclicDependency(
         dep.getDependentTaskId(),
         targetTaskId,
@@ -61,11 +64,70 @@ export class TaskDependencyService {
     
     return blockingDeps
       .map(dep => allTasks.find(t => t.id.equals(dep.getDependentTaskId())))
-      .filter((t): t is Task => t !== undefined && !t.status.isDone());
+      .filter((t): t is Task => t !== undefined && !t.status.isClosed());
   }
 
   static canComplete(task: Task, allTasks: Task[]): boolean {
     const blockingTasks = this.getBlockingTasks(task, allTasks);
     return blockingTasks.length === 0;
   }
+
+  static ensureNotBlocked(task: Task, allTasks: Task[]): void {
+    const blockingTasks = this.getBlockingTasks(task, allTasks);
+
+    if (blockingTasks.length > 0) {
+      throw new TaskBlockedByDependenciesException(
+        task.id,
+        blockingTasks.map(t => ({ id: t.id.toString(), title: t.title.toString() }))
+      );
+    }
+  }
+
+  /**
+   * Ids of the tasks that can still block others: those that are neither
+   * done nor cancelled. Blockers that no longer exist are left out.
+   */
+  static openBlockerIds(allTasks: Task[]): Set<string> {
+    return new Set(allTasks.filter(t => !t.status.isClosed()).map(t => t.id.toString()));
+  }
+
+  static getDependentTasks(blocker: Task, allTasks: Task[]): Task[] {
+    return allTasks.filter(t =>
+      t.getBlockingDependencies().some(d => d.getDependentTaskId().equals(blocker.id))
+    );
+  }
+
+  /**
+   * Returns the longest chain of open tasks linked by BLOCKED_BY edges,
+   * ordered from the first task that has to be done to the last.
+   */
+  static getCriticalPath(allTasks: Task[]): Task[] {
+    const openTasks = allTasks.filter(t => !t.status.isClosed());
+    const chains = new Map<string, Task[]>();
+
+    const longestChainTo = (task: Task, visiting: Set<string>): Task[] => {
+      const key = task.id.toString();
+      const cached = chains.get(key);
+      if (cached) return cached;
+
+      visiting.add(key);
+      let longest: Task[] = [];
+      for (const blocker of this.getBlockingTasks(task, openTasks)) {
+        if (visiting.has(blocker.id.toString())) continue;
+        const chain = longestChainTo(blocker, visiting);
+        if (chain.length > longest.length) {
+          longest = chain;
+        }
+      }
+      visiting.delete(key);
+
+      const result = [...longest, task];
+      chains.set(key, result);
+      return result;
+    };
+
+    return openTasks
+      .map(task => longestChainTo(task, new Set()))
+      .reduce<Task[]>((longest, chain) => (chain.length > longest.length ? chain : longest), []);
+  }
 }
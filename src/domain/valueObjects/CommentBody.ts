@@ -0,0 +1,37 @@
+import { UserId } from './UserId';
+
+// "@user-456" at the start of the text or after whitespace; ids are letters, digits, - and _
+const MENTION_PATTERN = /(?:^|\s)@([A-Za-z0-9][\w-]*)/g;
+
+export class CommentBody {
+  private static readonly MAX_LENGTH = 2000;
+
+  private constructor(private readonly value: string) {}
+
+  static create(value: string): CommentBody {
+    const trimmed = value.trim();
+
+    if (trimmed.length === 0) {
+      throw new Error('Comment cannot be empty');
+    }
+
+    if (trimmed.length > CommentBody.MAX_LENGTH) {
+      throw new Error(`Comment cannot exceed ${CommentBody.MAX_LENGTH} characters`);
+    }
+
+    return new CommentBody(trimmed);
+  }
+
+  /**
+   * Everyone @mentioned in the text, once each, in order of first mention.
+   * Handles are not checked against real users here.
+   */
+  mentions(): UserId[] {
+    const handles = Array.from(this.value.matchAll(MENTION_PATTERN), match => match[1]);
+    return Array.from(new Set(handles), handle => UserId.create(handle));
+  }
+
+  toString(): string {
+    return this.value;
+  }
+}
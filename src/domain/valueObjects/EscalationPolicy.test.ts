@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { EscalationPolicy } from './EscalationPolicy';
+import { TaskPriority, PriorityLevel } from './TaskPriority';
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+describe('EscalationPolicy', () => {
+  const createdAt = new Date('2025-01-06T09:00:00'); // Monday
+  const daysLater = (days: number) => new Date(createdAt.getTime() + days * DAY_MS);
+
+  describe('default', () => {
+    it('should use the 30/14/7 day thresholds', () => {
+      const policy = EscalationPolicy.default();
+
+      expect(policy.getThreshold(PriorityLevel.LOW)).toBe(30);
+      expect(policy.getThreshold(PriorityLevel.MEDIUM)).toBe(14);
+      expect(policy.getThreshold(PriorityLevel.HIGH)).toBe(7);
+      expect(policy.getThreshold(PriorityLevel.CRITICAL)).toBeNull();
+    });
+
+    it('should escalate only once the threshold is exceeded', () => {
+      const policy = EscalationPolicy.default();
+
+      expect(policy.shouldEscalate(TaskPriority.high(), createdAt, daysLater(7))).toBe(false);
+      expect(policy.shouldEscalate(TaskPriority.high(), createdAt, daysLater(8))).toBe(true);
+    });
+
+    it('should never escalate critical tasks', () => {
+      const policy = EscalationPolicy.default();
+
+      expect(policy.shouldEscalate(TaskPriority.critical(), createdAt, daysLater(365))).toBe(false);
+    });
+  });
+
+  describe('create', () => {
+    it('should allow disabling escalation for a level', () => {
+      const policy = EscalationPolicy.create({ thresholds: { low: null, medium: 5, high: 2 } });
+
+      expect(policy.shouldEscalate(TaskPriority.low(), createdAt, daysLater(100))).toBe(false);
+      expect(policy.shouldEscalate(TaskPriority.medium(), createdAt, daysLater(6))).toBe(true);
+    });
+
+    it('should reject non-positive thresholds', () => {
+      expect(() =>
+        EscalationPolicy.create({ thresholds: { low: 0, medium: 5, high: 2 } })
+      ).toThrow('Escalation threshold for low must be a positive whole number of days');
+    });
+  });
+
+  describe('business days', () => {
+    it('should skip weekends when counting elapsed days', () => {
+      const policy = EscalationPolicy.create({
+        thresholds: { low: 30, medium: 14, high: 5 },
+        businessDaysOnly: true,
+      });
+
+      // Monday to the following Monday: 7 calendar days, 5 business days
+      expect(policy.elapsedDays(createdAt, daysLater(7))).toBe(5);
+      expect(policy.shouldEscalate(TaskPriority.high(), createdAt, daysLater(7))).toBe(false);
+      expect(policy.shouldEscalate(TaskPriority.high(), createdAt, daysLater(8))).toBe(true);
+    });
+  });
+
+  describe('reset after escalation', () => {
+    it('should count from the last automatic escalation date', () => {
+      const policy = EscalationPolicy.default();
+      const escalated = TaskPriority.medium().escalate(daysLater(15));
+
+      expect(policy.shouldEscalate(escalated, createdAt, daysLater(20))).toBe(false);
+      expect(policy.shouldEscalate(escalated, createdAt, daysLater(23))).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,91 @@
+import { PriorityLevel, TaskPriority } from './TaskPriority';
+
+export interface EscalationThresholds {
+  low: number | null;
+  medium: number | null;
+  high: number | null;
+}
+
+export interface EscalationPolicyProps {
+  thresholds: EscalationThresholds;
+  businessDaysOnly?: boolean;
+}
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+/**
+ * Decides when a task's priority is escalated automatically.
+ *
+ * Each level has a threshold in days (`null` disables escalation for that
+ * level). Days are counted from the last automatic escalation or manual
+ * priority change, or from task creation if there was neither.
+ */
+export class EscalationPolicy {
+  private constructor(
+    private readonly thresholds: EscalationThresholds,
+    private readonly businessDaysOnly: boolean
+  ) {}
+
+  static default(): EscalationPolicy {
+    return new EscalationPolicy({ low: 30, medium: 14, high: 7 }, false);
+  }
+
+  static create(props: EscalationPolicyProps): EscalationPolicy {
+    for (const [level, days] of Object.entries(props.thresholds)) {
+      if (days !== null && (!Number.isInteger(days) || days <= 0)) {
+        throw new Error(`Escalation threshold for ${level} must be a positive whole number of days`);
+      }
+    }
+    return new EscalationPolicy({ ...props.thresholds }, props.businessDaysOnly ?? false);
+  }
+
+  getThreshold(level: PriorityLevel): number | null {
+    switch (level) {
+      case PriorityLevel.LOW:
+        return this.thresholds.low;
+      case PriorityLevel.MEDIUM:
+        return this.thresholds.medium;
+      case PriorityLevel.HIGH:
+        return this.thresholds.high;
+      case PriorityLevel.CRITICAL:
+        return null;
+    }
+  }
+
+  countsBusinessDaysOnly(): boolean {
+    return this.businessDaysOnly;
+  }
+
+  shouldEscalate(priority: TaskPriority, createdAt: Date, now: Date): boolean {
+    const threshold = this.getThreshold(priority.getLevel());
+    if (threshold === null) {
+      return false;
+    }
+
+    const since = priority.getAutoEscalationDate() ?? createdAt;
+    return this.elapsedDays(since, now) > threshold;
+  }
+
+  elapsedDays(from: Date, to: Date): number {
+    const calendarDays = Math.ceil(Math.max(0, to.getTime() - from.getTime()) / DAY_MS);
+    if (!this.businessDaysOnly) {
+      return calendarDays;
+    }
+
+    let businessDays = 0;
+    for (let day = 1; day <= calendarDays; day++) {
+      const weekday = new Date(from.getTime() + day * DAY_MS).getDay();
+      if (weekday !== 0 && weekday !== 6) {
+        businessDays++;
+      }
+    }
+    return businessDays;
+  }
+
+  toJSON() {
+    return {
+      thresholds: { ...this.thresholds },
+      businessDaysOnly: this.businessDaysOnly
+    };
+  }
+}
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { LabelCatalog } from './LabelCatalog';
+import { TaskLabel } from './TaskLabel';
+
+describe('LabelCatalog', () => {
+  describe('TaskLabel', () => {
+    it('should trim names and normalize colors', () => {
+      const label = TaskLabel.create('  Bug ', '#FF0000');
+
+      expect(label.getName()).toBe('Bug');
+      expect(label.getColor()).toBe('#ff0000');
+    });
+
+    it('should reject empty names and invalid colors', () => {
+      expect(() => TaskLabel.create(' ')).toThrow('Label name cannot be empty');
+      expect(() => TaskLabel.create('Bug', 'red')).toThrow('Invalid label color: red');
+    });
+  });
+
+  it('should list labels sorted by name', () => {
+    const catalog = LabelCatalog.empty()
+      .define(TaskLabel.create('frontend'))
+      .define(TaskLabel.create('Backend'))
+      .define(TaskLabel.create('customer'));
+
+    expect(catalog.all().map(label => label.getName())).toEqual(['Backend', 'customer', 'frontend']);
+  });
+
+  it('should replace a label defined again under the same name', () => {
+    const catalog = LabelCatalog.empty()
+      .define(TaskLabel.create('bug', '#ff0000'))
+      .define(TaskLabel.create('Bug', '#00ff00'));
+
+    expect(catalog.toJSON()).toEqual([{ name: 'Bug', color: '#00ff00' }]);
+    expect(catalog.find('BUG')?.getColor()).toBe('#00ff00');
+  });
+
+  it('should remove labels and reject unknown ones', () => {
+    const catalog = LabelCatalog.empty().define(TaskLabel.create('Bug'));
+
+    expect(catalog.remove('bug').all()).toHaveLength(0);
+    expect(() => catalog.remove('Feature')).toThrow('Label "Feature" not found');
+  });
+
+  it('should survive a JSON round trip', () => {
+    const catalog = LabelCatalog.empty()
+      .define(TaskLabel.create('Bug', '#ef4444'))
+      .define(TaskLabel.create('Docs'));
+
+    expect(LabelCatalog.fromJSON(catalog.toJSON()).toJSON()).toEqual(catalog.toJSON());
+  });
+});
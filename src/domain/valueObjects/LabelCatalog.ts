@@ -0,0 +1,54 @@
+import { TaskLabel, TaskLabelJSON } from './TaskLabel';
+
+/**
+ * The labels a workspace has defined. Tasks can only be given labels from
+ * the catalog, and refer to them by name so a recolor shows everywhere.
+ */
+export class LabelCatalog {
+  private static readonly MAX_LABELS = 50;
+
+  private constructor(private readonly labels: TaskLabel[]) {}
+
+  static empty(): LabelCatalog {
+    return new LabelCatalog([]);
+  }
+
+  static fromJSON(json: TaskLabelJSON[]): LabelCatalog {
+    return json.reduce((catalog, label) => catalog.define(TaskLabel.fromJSON(label)), LabelCatalog.empty());
+  }
+
+  /**
+   * Adds the label, or replaces the one with the same name so it can be
+   * recolored or have its capitalization fixed.
+   */
+  define(label: TaskLabel): LabelCatalog {
+    const others = this.labels.filter(l => !l.equals(label));
+    if (others.length >= LabelCatalog.MAX_LABELS) {
+      throw new Error(`A workspace can have at most ${LabelCatalog.MAX_LABELS} labels`);
+    }
+    return new LabelCatalog([...others, label]);
+  }
+
+  remove(name: string): LabelCatalog {
+    const label = this.find(name);
+    if (!label) {
+      throw new Error(`Label "${name}" not found`);
+    }
+    return new LabelCatalog(this.labels.filter(l => !l.equals(label)));
+  }
+
+  find(name: string): TaskLabel | undefined {
+    return this.labels.find(label => TaskLabel.sameName(label.getName(), name));
+  }
+
+  /** Sorted by name */
+  all(): TaskLabel[] {
+    return [...this.labels].sort((a, b) =>
+      a.getName().localeCompare(b.getName(), undefined, { sensitivity: 'base' })
+    );
+  }
+
+  toJSON(): TaskLabelJSON[] {
+    return this.all().map(label => label.toJSON());
+  }
+}
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { ReminderPolicy } from './ReminderPolicy';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+describe('ReminderPolicy', () => {
+  const dueDate = new Date(2026, 0, 10, 9);
+  const at = (offsetMs: number) => new Date(dueDate.getTime() + offsetMs);
+
+  describe('dueReminder', () => {
+    it('should have nothing to send before the first lead time', () => {
+      expect(ReminderPolicy.default().dueReminder(dueDate, at(-2 * DAY_MS))).toBeNull();
+    });
+
+    it('should remind a day before and at the due time', () => {
+      const policy = ReminderPolicy.default();
+
+      expect(policy.dueReminder(dueDate, at(-DAY_MS + HOUR_MS))).toEqual({ kind: 'dueSoon', at: at(-DAY_MS) });
+      expect(policy.dueReminder(dueDate, at(HOUR_MS), at(-DAY_MS))).toEqual({ kind: 'dueSoon', at: dueDate });
+    });
+
+    it('should repeat daily while overdue', () => {
+      const policy = ReminderPolicy.default();
+
+      expect(policy.dueReminder(dueDate, at(DAY_MS), dueDate)).toEqual({ kind: 'overdue', at: at(DAY_MS) });
+      expect(policy.dueReminder(dueDate, at(DAY_MS + HOUR_MS), at(DAY_MS))).toBeNull();
+      expect(policy.dueReminder(dueDate, at(2 * DAY_MS), at(DAY_MS))).toEqual({ kind: 'overdue', at: at(2 * DAY_MS) });
+    });
+
+    it('should use custom lead times', () => {
+      const policy = ReminderPolicy.create({ leadTimesMs: [2 * HOUR_MS], overdueRepeatMs: DAY_MS });
+
+      expect(policy.dueReminder(dueDate, at(-3 * HOUR_MS))).toBeNull();
+      expect(policy.dueReminder(dueDate, at(-HOUR_MS))?.at).toEqual(at(-2 * HOUR_MS));
+    });
+  });
+
+  describe('create', () => {
+    it('should reject negative lead times and overly frequent repeats', () => {
+      expect(() => ReminderPolicy.create({ leadTimesMs: [-1], overdueRepeatMs: DAY_MS }))
+        .toThrow('Reminder lead times must not be negative');
+      expect(() => ReminderPolicy.create({ leadTimesMs: [], overdueRepeatMs: 60 * 1000 }))
+        .toThrow('Overdue reminders can repeat at most once an hour');
+    });
+  });
+});
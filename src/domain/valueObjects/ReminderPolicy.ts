@@ -0,0 +1,69 @@
+export type ReminderKind = 'dueSoon' | 'overdue';
+
+export interface ReminderPolicyProps {
+  /** How long before the due date to remind; 0 reminds at the due time */
+  leadTimesMs: number[];
+  /** How often to remind again while a task is overdue */
+  overdueRepeatMs: number;
+}
+
+export interface ScheduledReminder {
+  kind: ReminderKind;
+  /** When the reminder was due to go out, not when it was noticed */
+  at: Date;
+}
+
+const HOUR_MS = 1000 * 60 * 60;
+const DAY_MS = HOUR_MS * 24;
+
+/**
+ * Decides when a task with a due date is due a reminder.
+ *
+ * By default that is a day before the due date, at the due time, and once
+ * a day while the task stays overdue.
+ */
+export class ReminderPolicy {
+  private constructor(
+    private readonly leadTimesMs: number[],
+    private readonly overdueRepeatMs: number
+  ) {}
+
+  static default(): ReminderPolicy {
+    return new ReminderPolicy([DAY_MS, 0], DAY_MS);
+  }
+
+  static create(props: ReminderPolicyProps): ReminderPolicy {
+    if (props.leadTimesMs.some(lead => !Number.isFinite(lead) || lead < 0)) {
+      throw new Error('Reminder lead times must not be negative');
+    }
+    if (!Number.isFinite(props.overdueRepeatMs) || props.overdueRepeatMs < HOUR_MS) {
+      throw new Error('Overdue reminders can repeat at most once an hour');
+    }
+    return new ReminderPolicy([...props.leadTimesMs], props.overdueRepeatMs);
+  }
+
+  /**
+   * The latest reminder that has fallen due by `now` and comes after the
+   * last one sent. Reminders missed while nothing was running are skipped
+   * rather than sent in a burst.
+   */
+  dueReminder(dueDate: Date, now: Date, lastSentAt?: Date): ScheduledReminder | null {
+    const candidates: ScheduledReminder[] = this.leadTimesMs.map(lead => ({
+      kind: 'dueSoon',
+      at: new Date(dueDate.getTime() - lead)
+    }));
+
+    const repeats = Math.floor((now.getTime() - dueDate.getTime()) / this.overdueRepeatMs);
+    if (repeats >= 1) {
+      candidates.push({
+        kind: 'overdue',
+        at: new Date(dueDate.getTime() + repeats * this.overdueRepeatMs)
+      });
+    }
+
+    return candidates
+      .filter(r => r.at.getTime() <= now.getTime())
+      .filter(r => !lastSentAt || r.at.getTime() > lastSentAt.getTime())
+      .sort((a, b) => b.at.getTime() - a.at.getTime())[0] ?? null;
+  }
+}
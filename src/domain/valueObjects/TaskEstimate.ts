@@ -0,0 +1,74 @@
+export type EstimateUnit = 'points' | 'hours';
+
+export interface TaskEstimateJSON {
+  value: number;
+  unit: EstimateUnit;
+}
+
+/**
+ * How much work a task is expected to take, in story points or hours.
+ * Only hour estimates can be compared with logged time.
+ */
+export class TaskEstimate {
+  private static readonly MAX_VALUE = 1000;
+
+  private constructor(
+    private readonly value: number,
+    private readonly unit: EstimateUnit
+  ) {}
+
+  static create(value: number, unit: EstimateUnit): TaskEstimate {
+    if (unit !== 'points' && unit !== 'hours') {
+      throw new Error(`Invalid estimate unit: ${unit}`);
+    }
+
+    if (!Number.isFinite(value) || value <= 0) {
+      throw new Error('Estimate must be a positive number');
+    }
+
+    if (value > TaskEstimate.MAX_VALUE) {
+      throw new Error(`Estimate cannot exceed ${TaskEstimate.MAX_VALUE} ${unit}`);
+    }
+
+    return new TaskEstimate(value, unit);
+  }
+
+  static points(value: number): TaskEstimate {
+    return TaskEstimate.create(value, 'points');
+  }
+
+  static hours(value: number): TaskEstimate {
+    return TaskEstimate.create(value, 'hours');
+  }
+
+  static fromJSON(json: TaskEstimateJSON): TaskEstimate {
+    return TaskEstimate.create(json.value, json.unit);
+  }
+
+  getValue(): number {
+    return this.value;
+  }
+
+  getUnit(): EstimateUnit {
+    return this.unit;
+  }
+
+  /** The estimate in milliseconds, or null for story points */
+  toMs(): number | null {
+    return this.unit === 'hours' ? this.value * 60 * 60 * 1000 : null;
+  }
+
+  equals(other: TaskEstimate): boolean {
+    return this.value === other.value && this.unit === other.unit;
+  }
+
+  toString(): string {
+    return this.unit === 'hours'
+      ? `${this.value}h`
+      : `${this.value} ${this.value === 1 ? 'pt' : 'pts'}`;
+  }
+
+  toJSON(): TaskEstimateJSON {
+    return { value: this.value, unit: this.unit };
+  }
+}
@@ -0,0 +1,63 @@
+export interface TaskLabelJSON {
+  name: string;
+  color: string;
+}
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+/**
+ * A named, colored tag for grouping tasks, e.g. "frontend" or "customer".
+ * Labels are told apart by name, ignoring case.
+ */
+export class TaskLabel {
+  private static readonly MAX_LENGTH = 30;
+  static readonly DEFAULT_COLOR = '#6b7280';
+
+  private constructor(
+    private readonly name: string,
+    private readonly color: string
+  ) {}
+
+  static create(name: string, color: string = TaskLabel.DEFAULT_COLOR): TaskLabel {
+    const trimmed = name.trim();
+
+    if (trimmed.length === 0) {
+      throw new Error('Label name cannot be empty');
+    }
+
+    if (trimmed.length > TaskLabel.MAX_LENGTH) {
+      throw new Error(`Label name cannot exceed ${TaskLabel.MAX_LENGTH} characters`);
+    }
+
+    if (!HEX_COLOR.test(color)) {
+      throw new Error(`Invalid label color: ${color}`);
+    }
+
+    return new TaskLabel(trimmed, color.toLowerCase());
+  }
+
+  static fromJSON(json: TaskLabelJSON): TaskLabel {
+    return TaskLabel.create(json.name, json.color);
+  }
+
+  /** Compares label names the way labels are matched */
+  static sameName(a: string, b: string): boolean {
+    return a.trim().toLowerCase() === b.trim().toLowerCase();
+  }
+
+  getName(): string {
+    return this.name;
+  }
+
+  getColor(): string {
+    return this.color;
+  }
+
+  equals(other: TaskLabel): boolean {
+    return TaskLabel.sameName(this.name, other.name);
+  }
+
+  toJSON(): TaskLabelJSON {
+    return { name: this.name, color: this.color };
+  }
+}
@@ -5,6 +5,11 @@ export enum PriorityLevel {
   CRITICAL = 4
 }
 
+export interface TaskPriorityJSON {
+  level: PriorityLevel;
+  autoEscalationDate?: string;
+}
+
 export class TaskPriority {
   private constructor(
     private readonly level: PriorityLevel,
@@ -39,22 +44,18 @@ export class TaskPriority {
     return this.level;
   }
 
-  escalate(): TaskPriority {
-    const newLevel = Math.min(this.level + 1, PriorityLevel.CRITICAL) as PriorityLevel;
-    return new TaskPriority(newLevel, new Date());
+  getAutoEscalationDate(): Date | undefined {
+    return this.autoEscalationDate;
+  }
+
+  /** The same level, with the escalation clock restarted at `changedAt` */
+  setAt(changedAt: Date): TaskPriority {
+    return new TaskPriority(this.level, changedAt);
   }
 
-  shouldEscalate(daysOld: number): boolean {
-    switch (this.level) {
-      case PriorityLevel.LOW:
-        return daysOld > 30;
-      case PriorityLevel.MEDIUM:
-        return daysOld > 14;
-      case PriorityLevel.HIGH:
-        return daysOld > 7;
-      case PriorityLevel.CRITICAL:
-        return false;
-    }
+  escalate(escalatedAt: Date = new Date()): TaskPriority {
+    const newLevel = Math.min(this.level + 1, PriorityLevel.CRITICAL) as PriorityLevel;
+    return new TaskPriority(newLevel, escalatedAt);
   }
 
   isHigherThan(other: TaskPriority): boolean {
@@ -69,7 +70,14 @@ export class TaskPriority {
     return PriorityLevel[this.level];
   }
 
-  toJSON() {
+  static fromJSON(json: TaskPriorityJSON): TaskPriority {
+    return TaskPriority.reconstitute(
+      json.level,
+      json.autoEscalationDate ? new Date(json.autoEscalationDate) : undefined
+    );
+  }
+
+  toJSON(): TaskPriorityJSON {
     return {
       level: this.level,
       autoEscalationDate: this.autoEscalationDate?.toISOString()
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { TaskRecurrence, RecurrenceFrequency } from './TaskRecurrence';
+
+describe('TaskRecurrence', () => {
+  describe('create', () => {
+    it('should default to an interval of 1 and start at the first occurrence', () => {
+      const recurrence = TaskRecurrence.create({ frequency: RecurrenceFrequency.WEEKLY });
+
+      expect(recurrence.getInterval()).toBe(1);
+      expect(recurrence.getOccurrence()).toBe(1);
+    });
+
+    it('should reject intervals and counts that are not positive whole numbers', () => {
+      expect(() => TaskRecurrence.create({ frequency: RecurrenceFrequency.DAILY, interval: 0 }))
+        .toThrow('Recurrence interval must be a positive whole number');
+      expect(() => TaskRecurrence.create({ frequency: RecurrenceFrequency.DAILY, interval: 1.5 }))
+        .toThrow('Recurrence interval must be a positive whole number');
+      expect(() => TaskRecurrence.create({ frequency: RecurrenceFrequency.DAILY, count: 0 }))
+        .toThrow('Recurrence count must be a positive whole number');
+    });
+
+    it('should not accept both an end date and a count', () => {
+      expect(() => TaskRecurrence.create({
+        frequency: RecurrenceFrequency.DAILY,
+        until: new Date(2026, 0, 31),
+        count: 3
+      })).toThrow('A recurrence ends either on a date or after a number of occurrences, not both');
+    });
+  });
+
+  describe('next', () => {
+    it('should advance by the interval in days or weeks', () => {
+      const start = new Date(2026, 0, 1, 9);
+
+      const daily = TaskRecurrence.create({ frequency: RecurrenceFrequency.DAILY, interval: 3 }).next(start);
+      const weekly = TaskRecurrence.create({ frequency: RecurrenceFrequency.WEEKLY, interval: 2 }).next(start);
+
+      expect(daily?.dueDate).toEqual(new Date(2026, 0, 4, 9));
+      expect(weekly?.dueDate).toEqual(new Date(2026, 0, 15, 9));
+    });
+
+    it('should clamp monthly occurrences to the end of shorter months', () => {
+      const recurrence = TaskRecurrence.create({ frequency: RecurrenceFrequency.MONTHLY });
+
+      const next = recurrence.next(new Date(2026, 0, 31, 9));
+
+      expect(next?.dueDate).toEqual(new Date(2026, 1, 28, 9));
+    });
+
+    it('should return to the original day of the month after clamping', () => {
+      const recurrence = TaskRecurrence.create({ frequency: RecurrenceFrequency.MONTHLY });
+
+      const february = recurrence.next(new Date(2026, 0, 31, 9))!;
+      const march = february.recurrence.next(february.dueDate);
+
+      expect(march?.dueDate).toEqual(new Date(2026, 2, 31, 9));
+    });
+
+    it('should count occurrences and stop after the last one', () => {
+      const recurrence = TaskRecurrence.create({ frequency: RecurrenceFrequency.DAILY, count: 2 });
+
+      const second = recurrence.next(new Date(2026, 0, 1));
+
+      expect(second?.recurrence.getOccurrence()).toBe(2);
+      expect(second?.recurrence.next(new Date(2026, 0, 2))).toBeNull();
+    });
+
+    it('should stop once the next date would pass the end date', () => {
+      const recurrence = TaskRecurrence.create({
+        frequency: RecurrenceFrequency.WEEKLY,
+        until: new Date(2026, 0, 10)
+      });
+
+      expect(recurrence.next(new Date(2026, 0, 1))).not.toBeNull();
+      expect(recurrence.next(new Date(2026, 0, 5))).toBeNull();
+    });
+  });
+
+  describe('preview', () => {
+    it('should list due dates starting with the first one', () => {
+      const recurrence = TaskRecurrence.create({ frequency: RecurrenceFrequency.MONTHLY, count: 3 });
+
+      const dates = recurrence.preview(new Date(2026, 0, 15), 5);
+
+      expect(dates).toEqual([new Date(2026, 0, 15), new Date(2026, 1, 15), new Date(2026, 2, 15)]);
+    });
+  });
+
+  describe('describe', () => {
+    it('should summarize the schedule', () => {
+      expect(TaskRecurrence.create({ frequency: RecurrenceFrequency.DAILY }).describe()).toBe('Every day');
+      expect(TaskRecurrence.create({ frequency: RecurrenceFrequency.WEEKLY, interval: 2, count: 5 }).describe())
+        .toBe('Every 2 weeks, 5 times');
+    });
+  });
+
+  it('should survive a JSON round trip', () => {
+    const recurrence = TaskRecurrence.create({
+      frequency: RecurrenceFrequency.WEEKLY,
+      until: new Date(2026, 5, 30)
+    });
+
+    const restored = TaskRecurrence.fromJSON(JSON.parse(JSON.stringify(recurrence.toJSON())));
+
+    expect(restored).toEqual(recurrence);
+  });
+});
@@ -0,0 +1,199 @@
+export enum RecurrenceFrequency {
+  DAILY = 'DAILY',
+  WEEKLY = 'WEEKLY',
+  MONTHLY = 'MONTHLY'
+}
+
+export interface TaskRecurrenceProps {
+  frequency: RecurrenceFrequency;
+  /** Repeat every `interval` days, weeks or months; defaults to 1 */
+  interval?: number;
+  /** Last day an occurrence may fall on */
+  until?: Date;
+  /** Total number of occurrences, including the first */
+  count?: number;
+}
+
+export interface TaskRecurrenceJSON {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  until?: string;
+  count?: number;
+  occurrence: number;
+  dayOfMonth?: number;
+}
+
+export interface NextOccurrence {
+  dueDate: Date;
+  recurrence: TaskRecurrence;
+}
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+/**
+ * An RRULE-like repeat schedule: a frequency, an interval and an optional
+ * end, given either as a date or as a number of occurrences.
+ *
+ * Each task in a series carries the schedule together with its own
+ * position in the series, so the count can be enforced.
+ */
+export class TaskRecurrence {
+  private constructor(
+    private readonly frequency: RecurrenceFrequency,
+    private readonly interval: number,
+    private readonly until: Date | undefined,
+    private readonly count: number | undefined,
+    private readonly occurrence: number,
+    /** Day monthly series stay on, so a clamped Feb 28 is followed by Mar 31 */
+    private readonly dayOfMonth?: number
+  ) {}
+
+  static create(props: TaskRecurrenceProps): TaskRecurrence {
+    const interval = props.interval ?? 1;
+
+    if (!Object.values(RecurrenceFrequency).includes(props.frequency)) {
+      throw new Error(`Invalid recurrence frequency: ${props.frequency}`);
+    }
+
+    if (!Number.isInteger(interval) || interval <= 0) {
+      throw new Error('Recurrence interval must be a positive whole number');
+    }
+
+    if (props.count !== undefined && (!Number.isInteger(props.count) || props.count <= 0)) {
+      throw new Error('Recurrence count must be a positive whole number');
+    }
+
+    if (props.until && props.count !== undefined) {
+      throw new Error('A recurrence ends either on a date or after a number of occurrences, not both');
+    }
+
+    return new TaskRecurrence(props.frequency, interval, props.until, props.count, 1);
+  }
+
+  static fromJSON(json: TaskRecurrenceJSON): TaskRecurrence {
+    return new TaskRecurrence(
+      json.frequency,
+      json.interval,
+      json.until ? new Date(json.until) : undefined,
+      json.count,
+      json.occurrence,
+      json.dayOfMonth
+    );
+  }
+
+  getFrequency(): RecurrenceFrequency {
+    return this.frequency;
+  }
+
+  getInterval(): number {
+    return this.interval;
+  }
+
+  getUntil(): Date | undefined {
+    return this.until;
+  }
+
+  getCount(): number | undefined {
+    return this.count;
+  }
+
+  /** 1 for the first task of the series */
+  getOccurrence(): number {
+    return this.occurrence;
+  }
+
+  /**
+   * The occurrence after the one due (or completed) at `from`, or null once
+   * the series has ended.
+   */
+  next(from: Date): NextOccurrence | null {
+    if (this.count !== undefined && this.occurrence >= this.count) {
+      return null;
+    }
+
+    const dayOfMonth = this.frequency === RecurrenceFrequency.MONTHLY
+      ? this.dayOfMonth ?? from.getDate()
+      : undefined;
+    const dueDate = this.advance(from, dayOfMonth);
+    if (this.until && dueDate.getTime() > this.until.getTime()) {
+      return null;
+    }
+
+    return {
+      dueDate,
+      recurrence: new TaskRecurrence(
+        this.frequency,
+        this.interval,
+        this.until,
+        this.count,
+        this.occurrence + 1,
+        dayOfMonth
+      )
+    };
+  }
+
+  /**
+   * Due dates of the next `limit` occurrences, starting with `start` itself.
+   */
+  preview(start: Date, limit: number = 5): Date[] {
+    if (this.until && start.getTime() > this.until.getTime()) {
+      return [];
+    }
+
+    const dates = [start];
+    let current: TaskRecurrence = this;
+    while (dates.length < limit) {
+      const next = current.next(dates[dates.length - 1]);
+      if (!next) break;
+      dates.push(next.dueDate);
+      current = next.recurrence;
+    }
+    return dates;
+  }
+
+  describe(): string {
+    const unit = {
+      [RecurrenceFrequency.DAILY]: 'day',
+      [RecurrenceFrequency.WEEKLY]: 'week',
+      [RecurrenceFrequency.MONTHLY]: 'month'
+    }[this.frequency];
+    const every = this.interval === 1 ? `Every ${unit}` : `Every ${this.interval} ${unit}s`;
+
+    if (this.count !== undefined) {
+      return `${every}, ${this.count} times`;
+    }
+    if (this.until) {
+      return `${every} until ${this.until.toLocaleDateString()}`;
+    }
+    return every;
+  }
+
+  toJSON(): TaskRecurrenceJSON {
+    return {
+      frequency: this.frequency,
+      interval: this.interval,
+      until: this.until?.toISOString(),
+      count: this.count,
+      occurrence: this.occurrence,
+      dayOfMonth: this.dayOfMonth
+    };
+  }
+
+  // Months are added by calendar month, so the 31st becomes the last day of shorter months
+  private advance(from: Date, dayOfMonth: number = from.getDate()): Date {
+    switch (this.frequency) {
+      case RecurrenceFrequency.DAILY:
+        return new Date(from.getTime() + this.interval * DAY_MS);
+      case RecurrenceFrequency.WEEKLY:
+        return new Date(from.getTime() + this.interval * 7 * DAY_MS);
+      case RecurrenceFrequency.MONTHLY: {
+        const result = new Date(from);
+        result.setDate(1);
+        result.setMonth(result.getMonth() + this.interval);
+        const lastDay = new Date(result.getFullYear(), result.getMonth() + 1, 0).getDate();
+        result.setDate(Math.min(dayOfMonth, lastDay));
+        return result;
+      }
+    }
+  }
+}
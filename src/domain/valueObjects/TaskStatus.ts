@@ -1,7 +1,10 @@
 export enum TaskStatusType {
   TODO = 'TODO',
   IN_PROGRESS = 'IN_PROGRESS',
-  DONE = 'DONE'
+  IN_REVIEW = 'IN_REVIEW',
+  BLOCKED = 'BLOCKED',
+  DONE = 'DONE',
+  CANCELLED = 'CANCELLED'
 }
 
 export class TaskStatus {
@@ -15,10 +18,22 @@ export class TaskStatus {
     return new TaskStatus(TaskStatusType.IN_PROGRESS);
   }
 
+  static inReview(): TaskStatus {
+    return new TaskStatus(TaskStatusType.IN_REVIEW);
+  }
+
+  static blocked(): TaskStatus {
+    return new TaskStatus(TaskStatusType.BLOCKED);
+  }
+
   static done(): TaskStatus {
     return new TaskStatus(TaskStatusType.DONE);
   }
 
+  static cancelled(): TaskStatus {
+    return new TaskStatus(TaskStatusType.CANCELLED);
+  }
+
   static fromString(status: string): TaskStatus {
     const statusType = TaskStatusType[status as keyof typeof TaskStatusType];
     if (!statusType) {
@@ -31,14 +46,31 @@ export class TaskStatus {
     return this.value;
   }
 
+  getType(): TaskStatusType {
+    return this.value;
+  }
+
   isTodo(): boolean {
     return this.value === TaskStatusType.TODO;
   }
 
+  isInProgress(): boolean {
+    return this.value === TaskStatusType.IN_PROGRESS;
+  }
+
   isDone(): boolean {
     return this.value === TaskStatusType.DONE;
   }
 
+  isCancelled(): boolean {
+    return this.value === TaskStatusType.CANCELLED;
+  }
+
+  /** Done or cancelled: nothing more is expected to happen to the task */
+  isClosed(): boolean {
+    return this.isDone() || this.isCancelled();
+  }
+
   equals(other: TaskStatus): boolean {
     return this.value === other.value;
   }
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { TaskWorkflow } from './TaskWorkflow';
+import { TaskStatus, TaskStatusType } from './TaskStatus';
+
+describe('TaskWorkflow', () => {
+  describe('default', () => {
+    it('should list every status in board order', () => {
+      const statuses = TaskWorkflow.default().states.map(s => s.status);
+
+      expect(statuses).toEqual([
+        TaskStatusType.TODO,
+        TaskStatusType.IN_PROGRESS,
+        TaskStatusType.IN_REVIEW,
+        TaskStatusType.BLOCKED,
+        TaskStatusType.DONE,
+        TaskStatusType.CANCELLED
+      ]);
+    });
+
+    it('should send tasks through review before approving them', () => {
+      const workflow = TaskWorkflow.default();
+
+      expect(workflow.findTransition(TaskStatus.inProgress(), TaskStatus.inReview())).toBeDefined();
+      expect(workflow.findTransition(TaskStatus.inReview(), TaskStatus.done())?.label).toBe('Approve');
+      expect(workflow.findTransition(TaskStatus.blocked(), TaskStatus.done())).toBeUndefined();
+    });
+
+    it('should list the moves available from a status', () => {
+      const targets = TaskWorkflow.default()
+        .transitionsFrom(TaskStatus.cancelled())
+        .map(t => t.to);
+
+      expect(targets).toEqual([TaskStatusType.TODO]);
+    });
+  });
+
+  describe('define', () => {
+    const { TODO, IN_PROGRESS, DONE } = TaskStatusType;
+
+    it('should accept a minimal workflow', () => {
+      const workflow = TaskWorkflow.define({
+        states: [{ status: TODO, label: 'Backlog' }, { status: DONE, label: 'Shipped' }],
+        transitions: [{ from: TODO, to: DONE, label: 'Ship' }]
+      });
+
+      expect(workflow.labelOf(TaskStatus.todo())).toBe('Backlog');
+      expect(workflow.findTransition(TaskStatus.todo(), TaskStatus.inProgress())).toBeUndefined();
+    });
+
+    it('should require the TODO and DONE states', () => {
+      expect(() => TaskWorkflow.define({
+        states: [{ status: TODO, label: 'To Do' }, { status: IN_PROGRESS, label: 'Doing' }],
+        transitions: []
+      })).toThrow('Workflow must include the DONE state');
+    });
+
+    it('should reject transitions to states it does not list', () => {
+      expect(() => TaskWorkflow.define({
+        states: [{ status: TODO, label: 'To Do' }, { status: DONE, label: 'Done' }],
+        transitions: [{ from: TODO, to: IN_PROGRESS, label: 'Start' }]
+      })).toThrow('Workflow transition TODO → IN_PROGRESS uses an unknown state');
+    });
+
+    it('should reject duplicate states', () => {
+      expect(() => TaskWorkflow.define({
+        states: [{ status: TODO, label: 'To Do' }, { status: TODO, label: 'Again' }, { status: DONE, label: 'Done' }],
+        transitions: []
+      })).toThrow('Workflow states must be unique');
+    });
+
+    it('should round-trip through JSON', () => {
+      const workflow = TaskWorkflow.default();
+
+      expect(TaskWorkflow.define(JSON.parse(JSON.stringify(workflow))).toJSON()).toEqual(workflow.toJSON());
+    });
+  });
+});
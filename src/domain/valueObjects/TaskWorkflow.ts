@@ -0,0 +1,128 @@
+import { TaskStatus, TaskStatusType } from './TaskStatus';
+
+/**
+ * Conditions a task must meet before a transition is allowed. They are
+ * names rather than functions so workflows can be stored as JSON.
+ */
+export type WorkflowGuard = 'assigned' | 'byAssignee' | 'notBlocked';
+
+export interface WorkflowState {
+  status: TaskStatusType;
+  label: string;
+}
+
+export interface WorkflowTransition {
+  from: TaskStatusType;
+  to: TaskStatusType;
+  /** Button text for the move, e.g. "Send to review" */
+  label: string;
+  guards?: WorkflowGuard[];
+}
+
+export interface WorkflowDefinition {
+  /** In board column order */
+  states: WorkflowState[];
+  transitions: WorkflowTransition[];
+}
+
+const { TODO, IN_PROGRESS, IN_REVIEW, BLOCKED, DONE, CANCELLED } = TaskStatusType;
+
+const DEFAULT_DEFINITION: WorkflowDefinition = {
+  states: [
+    { status: TODO, label: 'To Do' },
+    { status: IN_PROGRESS, label: 'In Progress' },
+    { status: IN_REVIEW, label: 'In Review' },
+    { status: BLOCKED, label: 'Blocked' },
+    { status: DONE, label: 'Done' },
+    { status: CANCELLED, label: 'Cancelled' }
+  ],
+  transitions: [
+    { from: TODO, to: IN_PROGRESS, label: 'Start', guards: ['assigned', 'byAssignee', 'notBlocked'] },
+    { from: TODO, to: DONE, label: 'Complete', guards: ['notBlocked'] },
+    { from: TODO, to: BLOCKED, label: 'Block' },
+    { from: TODO, to: CANCELLED, label: 'Cancel' },
+    { from: IN_PROGRESS, to: IN_REVIEW, label: 'Send to review' },
+    { from: IN_PROGRESS, to: DONE, label: 'Complete', guards: ['notBlocked'] },
+    { from: IN_PROGRESS, to: BLOCKED, label: 'Block' },
+    { from: IN_PROGRESS, to: CANCELLED, label: 'Cancel' },
+    { from: IN_REVIEW, to: IN_PROGRESS, label: 'Request changes' },
+    { from: IN_REVIEW, to: DONE, label: 'Approve', guards: ['notBlocked'] },
+    { from: IN_REVIEW, to: CANCELLED, label: 'Cancel' },
+    { from: BLOCKED, to: TODO, label: 'Unblock' },
+    { from: BLOCKED, to: IN_PROGRESS, label: 'Resume', guards: ['assigned', 'notBlocked'] },
+    { from: BLOCKED, to: CANCELLED, label: 'Cancel' },
+    { from: DONE, to: TODO, label: 'Reopen' },
+    { from: CANCELLED, to: TODO, label: 'Restore' }
+  ]
+};
+
+/**
+ * The states a task moves through and which moves between them are
+ * allowed. Task commands check every status change against it, and the
+ * board builds its columns from the states.
+ */
+export class TaskWorkflow {
+  private constructor(private readonly definition: WorkflowDefinition) {}
+
+  static default(): TaskWorkflow {
+    return TaskWorkflow.define(DEFAULT_DEFINITION);
+  }
+
+  /**
+   * @throws if a state is listed twice, TODO or DONE is missing, or a
+   * transition uses a state the workflow does not list
+   */
+  static define(definition: WorkflowDefinition): TaskWorkflow {
+    const statuses = definition.states.map(s => s.status);
+
+    if (new Set(statuses).size !== statuses.length) {
+      throw new Error('Workflow states must be unique');
+    }
+
+    // New tasks start in TODO and completion always ends in DONE
+    for (const required of [TODO, DONE]) {
+      if (!statuses.includes(required)) {
+        throw new Error(`Workflow must include the ${required} state`);
+      }
+    }
+
+    for (const transition of definition.transitions) {
+      if (!statuses.includes(transition.from) || !statuses.includes(transition.to)) {
+        throw new Error(
+          `Workflow transition ${transition.from} → ${transition.to} uses an unknown state`
+        );
+      }
+    }
+
+    return new TaskWorkflow({
+      states: definition.states.map(s => ({ ...s })),
+      transitions: definition.transitions.map(t => ({ ...t, guards: [...(t.guards ?? [])] }))
+    });
+  }
+
+  get states(): ReadonlyArray<WorkflowState> {
+    return this.definition.states;
+  }
+
+  labelOf(status: TaskStatus): string {
+    return this.definition.states.find(s => s.status === status.getType())?.label
+      ?? status.toString();
+  }
+
+  findTransition(from: TaskStatus, to: TaskStatus): WorkflowTransition | undefined {
+    return this.definition.transitions.find(
+      t => t.from === from.getType() && t.to === to.getType()
+    );
+  }
+
+  transitionsFrom(status: TaskStatus): WorkflowTransition[] {
+    return this.definition.transitions.filter(t => t.from === status.getType());
+  }
+
+  toJSON(): WorkflowDefinition {
+    return {
+      states: this.definition.states.map(s => ({ ...s })),
+      transitions: this.definition.transitions.map(t => ({ ...t, guards: [...(t.guards ?? [])] }))
+    };
+  }
+}
@@ -1,18 +1,126 @@
 import { ITaskRepository } from '../../domain/repositories/ITaskRepository';
 import { LocalStorageTaskRepository } from '../repositories/LocalStorageTaskRepository';
+import { IndexedDbTaskRepository } from '../repositories/IndexedDbTaskRepository';
 import { DomainEventPublisher } from '../../application/services/DomainEventPublisher';
 import { EventPublisherFactory } from '../events/EventPublisherFactory';
 import { CreateTaskUseCase } from '../../application/useCases/CreateTaskUseCase';
 import { AssignTaskUseCase } from '../../application/useCases/AssignTaskUseCase';
 import { CompleteTaskUseCase } from '../../application/useCases/CompleteTaskUseCase';
 import { ReopenTaskUseCase } from '../../application/useCases/ReopenTaskUseCase';
+import { StartTaskUseCase } from '../../application/useCases/StartTaskUseCase';
+import { UnassignTaskUseCase } from '../../application/useCases/UnassignTaskUseCase';
+import { RenameTaskUseCase } from '../../application/useCases/RenameTaskUseCase';
+import { ChangeTaskPriorityUseCase } from '../../application/useCases/ChangeTaskPriorityUseCase';
+import { AddTaskDependencyUseCase } from '../../application/useCases/AddTaskDependencyUseCase';
+import { RemoveTaskDependencyUseCase } from '../../application/useCases/RemoveTaskDependencyUseCase';
+import { EscalateStaleTasksUseCase } from '../../application/useCases/EscalateStaleTasksUseCase';
+import { PriorityEscalationJob } from '../../application/services/PriorityEscalationJob';
+import { IClock } from '../../application/services/IClock';
+import { IScheduler } from '../../application/services/IScheduler';
+import { SystemClock } from '../scheduling/SystemClock';
+import { IntervalScheduler } from '../scheduling/IntervalScheduler';
+import { UpdateEscalationPolicyUseCase } from '../../application/useCases/UpdateEscalationPolicyUseCase';
+import { IEscalationPolicyRepository } from '../../domain/repositories/IEscalationPolicyRepository';
+import { LocalStorageEscalationPolicyRepository } from '../repositories/LocalStorageEscalationPolicyRepository';
+import { SearchTasksUseCase } from '../../application/useCases/SearchTasksUseCase';
 import { GetAllTasksUseCase } from '../../application/useCases/GetAllTasksUseCase';
+import { GetTaskHistoryUseCase } from '../../application/useCases/GetTaskHistoryUseCase';
+import { ITaskEventStore } from '../../domain/repositories/ITaskEventStore';
+import { LocalStorageTaskEventStore } from '../events/LocalStorageTaskEventStore';
+import { CrossTabEventBridge } from '../events/CrossTabEventBridge';
+import { BroadcastingTaskRepository } from '../repositories/BroadcastingTaskRepository';
+import { IEventOutbox } from '../../application/services/IEventOutbox';
+import { LocalStorageEventOutbox } from '../events/LocalStorageEventOutbox';
+import { OutboxDispatcher } from '../../application/services/OutboxDispatcher';
+import { UnitOfWork } from '../../application/services/UnitOfWork';
+import { IDeadLetterStore } from '../../application/services/IDeadLetterStore';
+import { LocalStorageDeadLetterStore } from '../events/LocalStorageDeadLetterStore';
+import { GetDeadLettersUseCase } from '../../application/useCases/GetDeadLettersUseCase';
+import { ReplayDeadLetterUseCase } from '../../application/useCases/ReplayDeadLetterUseCase';
+import { DiscardDeadLetterUseCase } from '../../application/useCases/DiscardDeadLetterUseCase';
+import { GetUsersUseCase } from '../../application/useCases/GetUsersUseCase';
+import { PermissionPolicyProvider } from '../../application/services/PermissionPolicyProvider';
+import { IUserRepository } from '../../domain/repositories/IUserRepository';
+import { ITeamRepository } from '../../domain/repositories/ITeamRepository';
+import { InMemoryUserRepository } from '../repositories/InMemoryUserRepository';
+import { InMemoryTeamRepository } from '../repositories/InMemoryTeamRepository';
+import { ITaskWorkflowRepository } from '../../domain/repositories/ITaskWorkflowRepository';
+import { LocalStorageTaskWorkflowRepository } from '../repositories/LocalStorageTaskWorkflowRepository';
+import { TaskWorkflowProvider } from '../../application/services/TaskWorkflowProvider';
+import { MoveTaskUseCase } from '../../application/useCases/MoveTaskUseCase';
+import { AddChecklistItemUseCase } from '../../application/useCases/AddChecklistItemUseCase';
+import { ToggleChecklistItemUseCase } from '../../application/useCases/ToggleChecklistItemUseCase';
+import { RemoveChecklistItemUseCase } from '../../application/useCases/RemoveChecklistItemUseCase';
+import { GetTaskWorkflowUseCase } from '../../application/useCases/GetTaskWorkflowUseCase';
+import { UpdateTaskWorkflowUseCase } from '../../application/useCases/UpdateTaskWorkflowUseCase';
+import { AddCommentUseCase } from '../../application/useCases/AddCommentUseCase';
+import { EditCommentUseCase } from '../../application/useCases/EditCommentUseCase';
+import { DeleteCommentUseCase } from '../../application/useCases/DeleteCommentUseCase';
+import { GetTaskCommentsUseCase } from '../../application/useCases/GetTaskCommentsUseCase';
+import { ITaskCommentRepository } from '../../domain/repositories/ITaskCommentRepository';
+import { LocalStorageTaskCommentRepository } from '../repositories/LocalStorageTaskCommentRepository';
+import { ILabelCatalogRepository } from '../../domain/repositories/ILabelCatalogRepository';
+import { LocalStorageLabelCatalogRepository } from '../repositories/LocalStorageLabelCatalogRepository';
+import { GetLabelCatalogUseCase } from '../../application/useCases/GetLabelCatalogUseCase';
+import { DefineLabelUseCase } from '../../application/useCases/DefineLabelUseCase';
+import { DeleteLabelUseCase } from '../../application/useCases/DeleteLabelUseCase';
+import { AddTaskLabelUseCase } from '../../application/useCases/AddTaskLabelUseCase';
+import { RemoveTaskLabelUseCase } from '../../application/useCases/RemoveTaskLabelUseCase';
+import { ISavedTaskViewRepository } from '../../domain/repositories/ISavedTaskViewRepository';
+import { LocalStorageSavedTaskViewRepository } from '../repositories/LocalStorageSavedTaskViewRepository';
+import { GetSavedTaskViewsUseCase } from '../../application/useCases/GetSavedTaskViewsUseCase';
+import { SaveTaskViewUseCase } from '../../application/useCases/SaveTaskViewUseCase';
+import { DeleteTaskViewUseCase } from '../../application/useCases/DeleteTaskViewUseCase';
+import { SetTaskEstimateUseCase } from '../../application/useCases/SetTaskEstimateUseCase';
+import { StartTaskTimerUseCase } from '../../application/useCases/StartTaskTimerUseCase';
+import { StopTaskTimerUseCase } from '../../application/useCases/StopTaskTimerUseCase';
+import { LogWorkUseCase } from '../../application/useCases/LogWorkUseCase';
+import { GetWeeklyTimesheetUseCase } from '../../application/useCases/GetWeeklyTimesheetUseCase';
+import { GetTimeTrackingSummaryUseCase } from '../../application/useCases/GetTimeTrackingSummaryUseCase';
+import { ITaskAnalyticsStore } from '../../application/services/ITaskAnalyticsStore';
+import { LocalStorageTaskAnalyticsStore } from '../events/LocalStorageTaskAnalyticsStore';
+import { GetTaskInsightsUseCase } from '../../application/useCases/GetTaskInsightsUseCase';
+import { RebuildTaskAnalyticsUseCase } from '../../application/useCases/RebuildTaskAnalyticsUseCase';
+import { ExportTasksUseCase } from '../../application/useCases/ExportTasksUseCase';
+import { ImportTasksUseCase } from '../../application/useCases/ImportTasksUseCase';
+import { SendDueDateRemindersUseCase } from '../../application/useCases/SendDueDateRemindersUseCase';
+import { ReminderService } from '../../application/services/ReminderService';
+import { IReminderNotifier } from '../../application/services/IReminderNotifier';
+import { ToastReminderNotifier } from '../notifications/ToastReminderNotifier';
+import { BrowserReminderNotifier } from '../notifications/BrowserReminderNotifier';
+import { CompositeReminderNotifier } from '../notifications/CompositeReminderNotifier';
+
+export type TaskStorageType = 'indexedDB' | 'localStorage';
+
+export interface ServiceContainerOptions {
+  taskStorage?: TaskStorageType;
+}
 
 export class ServiceContainer {
   private static instance: ServiceContainer;
+  private static options: ServiceContainerOptions = {};
   
   private _taskRepository?: ITaskRepository;
   private _eventPublisher?: DomainEventPublisher;
+  private _taskEventStore?: ITaskEventStore;
+  private _escalationPolicyRepository?: IEscalationPolicyRepository;
+  private _clock?: IClock;
+  private _scheduler?: IScheduler;
+  private _priorityEscalationJob?: PriorityEscalationJob;
+  private _reminderService?: ReminderService;
+  private _browserReminderNotifier?: BrowserReminderNotifier;
+  private _reminderNotifier?: IReminderNotifier;
+  private _crossTabEventBridge?: CrossTabEventBridge;
+  private _eventOutbox?: IEventOutbox;
+  private _outboxDispatcher?: OutboxDispatcher;
+  private _deadLetterStore?: IDeadLetterStore;
+  private _taskAnalyticsStore?: ITaskAnalyticsStore;
+  private _userRepository?: IUserRepository;
+  private _teamRepository?: ITeamRepository;
+  private _taskWorkflowRepository?: ITaskWorkflowRepository;
+  private _taskCommentRepository?: ITaskCommentRepository;
+  private _labelCatalogRepository?: ILabelCatalogRepository;
+  private _savedTaskViewRepository?: ISavedTaskViewRepository;
 
   private constructor() {}
 
@@ -23,38 +131,437 @@ export class ServiceContainer {
     return ServiceContainer.instance;
   }
 
+  /**
+   * Must be called before the container is first used.
+   * Tasks are kept in localStorage unless `taskStorage: 'indexedDB'` is
+   * chosen and the browser supports it.
+   */
+  static configure(options: ServiceContainerOptions): void {
+    if (ServiceContainer.instance) {
+      throw new Error('ServiceContainer is already initialized');
+    }
+    ServiceContainer.options = { ...options };
+  }
+
   get taskRepository(): ITaskRepository {
     if (!this._taskRepository) {
-      this._taskRepository = new LocalStorageTaskRepository();
+      this._taskRepository = this.createTaskRepository();
     }
     return this._taskRepository;
   }
 
+  private createTaskRepository(): ITaskRepository {
+    const repository = ServiceContainer.options.taskStorage === 'indexedDB' && IndexedDbTaskRepository.isSupported()
+      ? new IndexedDbTaskRepository()
+      : new LocalStorageTaskRepository();
+
+    return new BroadcastingTaskRepository(repository, this.crossTabEventBridge);
+  }
+
+  get crossTabEventBridge(): CrossTabEventBridge {
+    if (!this._crossTabEventBridge) {
+      this._crossTabEventBridge = new CrossTabEventBridge();
+    }
+    return this._crossTabEventBridge;
+  }
+
+  get taskEventStore(): ITaskEventStore {
+    if (!this._taskEventStore) {
+      this._taskEventStore = new LocalStorageTaskEventStore();
+    }
+    return this._taskEventStore;
+  }
+
+  get escalationPolicyRepository(): IEscalationPolicyRepository {
+    if (!this._escalationPolicyRepository) {
+      this._escalationPolicyRepository = new LocalStorageEscalationPolicyRepository();
+    }
+    return this._escalationPolicyRepository;
+  }
+
+  get userRepository(): IUserRepository {
+    if (!this._userRepository) {
+      this._userRepository = new InMemoryUserRepository();
+    }
+    return this._userRepository;
+  }
+
+  get teamRepository(): ITeamRepository {
+    if (!this._teamRepository) {
+      this._teamRepository = new InMemoryTeamRepository();
+    }
+    return this._teamRepository;
+  }
+
+  get permissionPolicyProvider(): PermissionPolicyProvider {
+    return new PermissionPolicyProvider(this.userRepository, this.teamRepository);
+  }
+
+  get taskWorkflowRepository(): ITaskWorkflowRepository {
+    if (!this._taskWorkflowRepository) {
+      this._taskWorkflowRepository = new LocalStorageTaskWorkflowRepository();
+    }
+    return this._taskWorkflowRepository;
+  }
+
+  get taskCommentRepository(): ITaskCommentRepository {
+    if (!this._taskCommentRepository) {
+      this._taskCommentRepository = new LocalStorageTaskCommentRepository();
+    }
+    return this._taskCommentRepository;
+  }
+
+  get labelCatalogRepository(): ILabelCatalogRepository {
+    if (!this._labelCatalogRepository) {
+      this._labelCatalogRepository = new LocalStorageLabelCatalogRepository();
+    }
+    return this._labelCatalogRepository;
+  }
+
+  get savedTaskViewRepository(): ISavedTaskViewRepository {
+    if (!this._savedTaskViewRepository) {
+      this._savedTaskViewRepository = new LocalStorageSavedTaskViewRepository();
+    }
+    return this._savedTaskViewRepository;
+  }
+
+  get taskWorkflowProvider(): TaskWorkflowProvider {
+    return new TaskWorkflowProvider(this.taskWorkflowRepository);
+  }
+
+  get clock(): IClock {
+    if (!this._clock) {
+      this._clock = new SystemClock();
+    }
+    return this._clock;
+  }
+
+  get scheduler(): IScheduler {
+    if (!this._scheduler) {
+      this._scheduler = new IntervalScheduler();
+    }
+    return this._scheduler;
+  }
+
+  get deadLetterStore(): IDeadLetterStore {
+    if (!this._deadLetterStore) {
+      this._deadLetterStore = new LocalStorageDeadLetterStore();
+    }
+    return this._deadLetterStore;
+  }
+
+  get taskAnalyticsStore(): ITaskAnalyticsStore {
+    if (!this._taskAnalyticsStore) {
+      this._taskAnalyticsStore = new LocalStorageTaskAnalyticsStore();
+    }
+    return this._taskAnalyticsStore;
+  }
+
   get eventPublisher(): DomainEventPublisher {
     if (!this._eventPublisher) {
-      this._eventPublisher = EventPublisherFactory.create();
+      this._eventPublisher = EventPublisherFactory.create({
+        eventStore: this.taskEventStore,
+        taskRepository: this.taskRepository,
+        crossTabBridge: this.crossTabEventBridge,
+        deadLetterStore: this.deadLetterStore,
+        unitOfWork: () => this.unitOfWork,
+        reminderNotifier: this.reminderNotifier,
+        analyticsStore: this.taskAnalyticsStore,
+        clock: this.clock
+      });
       console.log('✅ Event Publisher initialized with all handlers');
     }
     return this._eventPublisher;
   }
 
+  get eventOutbox(): IEventOutbox {
+    if (!this._eventOutbox) {
+      this._eventOutbox = new LocalStorageEventOutbox();
+    }
+    return this._eventOutbox;
+  }
+
+  get outboxDispatcher(): OutboxDispatcher {
+    if (!this._outboxDispatcher) {
+      this._outboxDispatcher = new OutboxDispatcher(
+        this.eventOutbox,
+        this.eventPublisher,
+        this.taskRepository,
+        this.clock
+      );
+    }
+    return this._outboxDispatcher;
+  }
+
+  /** A fresh unit of work, so concurrent use cases never share tracked tasks */
+  get unitOfWork(): UnitOfWork {
+    return new UnitOfWork(this.taskRepository, this.outboxDispatcher);
+  }
+
   get createTaskUseCase(): CreateTaskUseCase {
-    return new CreateTaskUseCase(this.taskRepository, this.eventPublisher);
+    return new CreateTaskUseCase(this.unitOfWork);
   }
 
   get assignTaskUseCase(): AssignTaskUseCase {
-    return new AssignTaskUseCase(this.taskRepository, this.eventPublisher);
+    return new AssignTaskUseCase(this.taskRepository, this.unitOfWork, this.permissionPolicyProvider);
   }
 
   get completeTaskUseCase(): CompleteTaskUseCase {
-    return new CompleteTaskUseCase(this.taskRepository, this.eventPublisher);
+    return new CompleteTaskUseCase(
+      this.taskRepository,
+      this.unitOfWork,
+      this.clock,
+      this.permissionPolicyProvider,
+      this.taskWorkflowProvider
+    );
   }
 
   get reopenTaskUseCase(): ReopenTaskUseCase {
-    return new ReopenTaskUseCase(this.taskRepository, this.eventPublisher);
+    return new ReopenTaskUseCase(
+      this.taskRepository,
+      this.unitOfWork,
+      this.permissionPolicyProvider,
+      this.taskWorkflowProvider
+    );
+  }
+
+  get startTaskUseCase(): StartTaskUseCase {
+    return new StartTaskUseCase(this.taskRepository, this.unitOfWork, this.clock, this.taskWorkflowProvider);
+  }
+
+  get moveTaskUseCase(): MoveTaskUseCase {
+    return new MoveTaskUseCase(
+      this.taskRepository,
+      this.unitOfWork,
+      this.clock,
+      this.permissionPolicyProvider,
+      this.taskWorkflowProvider
+    );
+  }
+
+  get unassignTaskUseCase(): UnassignTaskUseCase {
+    return new UnassignTaskUseCase(this.taskRepository, this.unitOfWork, this.permissionPolicyProvider);
+  }
+
+  get renameTaskUseCase(): RenameTaskUseCase {
+    return new RenameTaskUseCase(this.taskRepository, this.unitOfWork, this.permissionPolicyProvider);
+  }
+
+  get changeTaskPriorityUseCase(): ChangeTaskPriorityUseCase {
+    return new ChangeTaskPriorityUseCase(this.taskRepository, this.unitOfWork, this.permissionPolicyProvider);
+  }
+
+  get addChecklistItemUseCase(): AddChecklistItemUseCase {
+    return new AddChecklistItemUseCase(this.taskRepository, this.unitOfWork, this.permissionPolicyProvider);
+  }
+
+  get toggleChecklistItemUseCase(): ToggleChecklistItemUseCase {
+    return new ToggleChecklistItemUseCase(this.taskRepository, this.unitOfWork, this.permissionPolicyProvider);
+  }
+
+  get removeChecklistItemUseCase(): RemoveChecklistItemUseCase {
+    return new RemoveChecklistItemUseCase(this.taskRepository, this.unitOfWork, this.permissionPolicyProvider);
+  }
+
+  get addCommentUseCase(): AddCommentUseCase {
+    return new AddCommentUseCase(
+      this.taskRepository,
+      this.taskCommentRepository,
+      this.userRepository,
+      this.outboxDispatcher
+    );
+  }
+
+  get editCommentUseCase(): EditCommentUseCase {
+    return new EditCommentUseCase(this.taskCommentRepository, this.userRepository, this.outboxDispatcher);
+  }
+
+  get deleteCommentUseCase(): DeleteCommentUseCase {
+    return new DeleteCommentUseCase(
+      this.taskCommentRepository,
+      this.outboxDispatcher,
+      this.permissionPolicyProvider
+    );
+  }
+
+  get getTaskCommentsUseCase(): GetTaskCommentsUseCase {
+    return new GetTaskCommentsUseCase(this.taskCommentRepository);
+  }
+
+  get getLabelCatalogUseCase(): GetLabelCatalogUseCase {
+    return new GetLabelCatalogUseCase(this.labelCatalogRepository);
+  }
+
+  get defineLabelUseCase(): DefineLabelUseCase {
+    return new DefineLabelUseCase(this.labelCatalogRepository);
+  }
+
+  get deleteLabelUseCase(): DeleteLabelUseCase {
+    return new DeleteLabelUseCase(this.labelCatalogRepository, this.taskRepository);
+  }
+
+  get addTaskLabelUseCase(): AddTaskLabelUseCase {
+    return new AddTaskLabelUseCase(
+      this.taskRepository,
+      this.unitOfWork,
+      this.labelCatalogRepository,
+      this.permissionPolicyProvider
+    );
+  }
+
+  get removeTaskLabelUseCase(): RemoveTaskLabelUseCase {
+    return new RemoveTaskLabelUseCase(this.taskRepository, this.unitOfWork, this.permissionPolicyProvider);
+  }
+
+  get getSavedTaskViewsUseCase(): GetSavedTaskViewsUseCase {
+    return new GetSavedTaskViewsUseCase(this.savedTaskViewRepository);
+  }
+
+  get saveTaskViewUseCase(): SaveTaskViewUseCase {
+    return new SaveTaskViewUseCase(this.savedTaskViewRepository);
+  }
+
+  get deleteTaskViewUseCase(): DeleteTaskViewUseCase {
+    return new DeleteTaskViewUseCase(this.savedTaskViewRepository);
+  }
+
+  get setTaskEstimateUseCase(): SetTaskEstimateUseCase {
+    return new SetTaskEstimateUseCase(this.taskRepository, this.unitOfWork, this.permissionPolicyProvider);
+  }
+
+  get startTaskTimerUseCase(): StartTaskTimerUseCase {
+    return new StartTaskTimerUseCase(this.taskRepository, this.unitOfWork, this.clock);
+  }
+
+  get stopTaskTimerUseCase(): StopTaskTimerUseCase {
+    return new StopTaskTimerUseCase(
+      this.taskRepository,
+      this.unitOfWork,
+      this.clock,
+      this.permissionPolicyProvider
+    );
+  }
+
+  get logWorkUseCase(): LogWorkUseCase {
+    return new LogWorkUseCase(this.taskRepository, this.unitOfWork, this.permissionPolicyProvider);
+  }
+
+  get getWeeklyTimesheetUseCase(): GetWeeklyTimesheetUseCase {
+    return new GetWeeklyTimesheetUseCase(this.taskRepository, this.clock);
+  }
+
+  get getTimeTrackingSummaryUseCase(): GetTimeTrackingSummaryUseCase {
+    return new GetTimeTrackingSummaryUseCase(this.taskRepository, this.clock);
+  }
+
+  get getTaskInsightsUseCase(): GetTaskInsightsUseCase {
+    return new GetTaskInsightsUseCase(this.taskAnalyticsStore, this.clock);
+  }
+
+  get rebuildTaskAnalyticsUseCase(): RebuildTaskAnalyticsUseCase {
+    return new RebuildTaskAnalyticsUseCase(this.taskEventStore, this.taskAnalyticsStore);
+  }
+
+  get exportTasksUseCase(): ExportTasksUseCase {
+    return new ExportTasksUseCase(this.taskRepository, this.labelCatalogRepository, this.clock);
+  }
+
+  get importTasksUseCase(): ImportTasksUseCase {
+    return new ImportTasksUseCase(this.unitOfWork, this.labelCatalogRepository, this.clock);
+  }
+
+  get addTaskDependencyUseCase(): AddTaskDependencyUseCase {
+    return new AddTaskDependencyUseCase(this.taskRepository, this.unitOfWork);
+  }
+
+  get removeTaskDependencyUseCase(): RemoveTaskDependencyUseCase {
+    return new RemoveTaskDependencyUseCase(this.taskRepository, this.unitOfWork);
+  }
+
+  get escalateStaleTasksUseCase(): EscalateStaleTasksUseCase {
+    return new EscalateStaleTasksUseCase(
+      this.taskRepository,
+      this.unitOfWork,
+      this.clock,
+      this.escalationPolicyRepository
+    );
+  }
+
+  get updateEscalationPolicyUseCase(): UpdateEscalationPolicyUseCase {
+    return new UpdateEscalationPolicyUseCase(this.escalationPolicyRepository);
+  }
+
+  get getTaskWorkflowUseCase(): GetTaskWorkflowUseCase {
+    return new GetTaskWorkflowUseCase(this.taskWorkflowProvider);
+  }
+
+  get updateTaskWorkflowUseCase(): UpdateTaskWorkflowUseCase {
+    return new UpdateTaskWorkflowUseCase(this.taskWorkflowRepository);
+  }
+
+  get priorityEscalationJob(): PriorityEscalationJob {
+    if (!this._priorityEscalationJob) {
+      this._priorityEscalationJob = new PriorityEscalationJob(
+        this.escalateStaleTasksUseCase,
+        this.scheduler
+      );
+    }
+    return this._priorityEscalationJob;
+  }
+
+  get browserReminderNotifier(): BrowserReminderNotifier {
+    if (!this._browserReminderNotifier) {
+      this._browserReminderNotifier = new BrowserReminderNotifier();
+    }
+    return this._browserReminderNotifier;
+  }
+
+  get reminderNotifier(): IReminderNotifier {
+    if (!this._reminderNotifier) {
+      this._reminderNotifier = new CompositeReminderNotifier([
+        new ToastReminderNotifier(),
+        this.browserReminderNotifier
+      ]);
+    }
+    return this._reminderNotifier;
+  }
+
+  get sendDueDateRemindersUseCase(): SendDueDateRemindersUseCase {
+    return new SendDueDateRemindersUseCase(this.taskRepository, () => this.unitOfWork, this.clock);
+  }
+
+  get reminderService(): ReminderService {
+    if (!this._reminderService) {
+      this._reminderService = new ReminderService(this.sendDueDateRemindersUseCase, this.scheduler);
+    }
+    return this._reminderService;
   }
 
   get getAllTasksUseCase(): GetAllTasksUseCase {
     return new GetAllTasksUseCase(this.taskRepository);
   }
+
+  get searchTasksUseCase(): SearchTasksUseCase {
+    return new SearchTasksUseCase(this.taskRepository);
+  }
+
+  get getTaskHistoryUseCase(): GetTaskHistoryUseCase {
+    return new GetTaskHistoryUseCase(this.taskEventStore);
+  }
+
+  get getDeadLettersUseCase(): GetDeadLettersUseCase {
+    return new GetDeadLettersUseCase(this.deadLetterStore);
+  }
+
+  get replayDeadLetterUseCase(): ReplayDeadLetterUseCase {
+    return new ReplayDeadLetterUseCase(this.eventPublisher);
+  }
+
+  get discardDeadLetterUseCase(): DiscardDeadLetterUseCase {
+    return new DiscardDeadLetterUseCase(this.deadLetterStore);
+  }
+
+  get getUsersUseCase(): GetUsersUseCase {
+    return new GetUsersUseCase(this.userRepository, this.teamRepository);
+  }
 }
@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { CrossTabEventBridge, CrossTabChannel, CrossTabMessage } from './CrossTabEventBridge';
+import { EventPublisherFactory } from './EventPublisherFactory';
+import { TaskCompletedEvent } from '../../domain/events/TaskCompletedEvent';
+import { TaskId } from '../../domain/valueObjects/TaskId';
+import { UserId } from '../../domain/valueObjects/UserId';
+
+// Delivers messages to every other channel, like BroadcastChannel does
+class InMemoryChannelHub {
+  private channels: CrossTabChannel[] = [];
+
+  open(): CrossTabChannel {
+    const hub = this;
+    const channel: CrossTabChannel = {
+      onmessage: null,
+      postMessage(message: CrossTabMessage) {
+        const data = JSON.parse(JSON.stringify(message));
+        hub.channels
+          .filter(other => other !== channel)
+          .forEach(other => other.onmessage?.({ data } as MessageEvent));
+      },
+      close() {
+        hub.channels = hub.channels.filter(other => other !== channel);
+      }
+    };
+    this.channels.push(channel);
+    return channel;
+  }
+}
+
+describe('CrossTabEventBridge', () => {
+  let hub: InMemoryChannelHub;
+  let firstTab: CrossTabEventBridge;
+  let secondTab: CrossTabEventBridge;
+
+  beforeEach(() => {
+    hub = new InMemoryChannelHub();
+    firstTab = new CrossTabEventBridge(() => hub.open());
+    secondTab = new CrossTabEventBridge(() => hub.open());
+  });
+
+  it('should deliver events published in one tab to the other', async () => {
+    const publisher = EventPublisherFactory.create({ crossTabBridge: firstTab });
+    const received = vi.fn();
+    secondTab.onRemoteEvent(received);
+
+    const event = new TaskCompletedEvent(
+      TaskId.fromString('task-1'),
+      UserId.create('user-123'),
+      new Date('2025-01-01T10:00:00Z')
+    );
+    await publisher.publish(event);
+
+    expect(received).toHaveBeenCalledTimes(1);
+    const remote = received.mock.calls[0][0] as TaskCompletedEvent;
+    expect(remote).toBeInstanceOf(TaskCompletedEvent);
+    expect(remote.taskId.toString()).toBe('task-1');
+    expect(remote.completedBy.toString()).toBe('user-123');
+  });
+
+  it('should not echo messages back to the sending tab', () => {
+    const received = vi.fn();
+    firstTab.onRemoteTasksChanged(received);
+
+    firstTab.broadcastTasksChanged(['task-1']);
+
+    expect(received).not.toHaveBeenCalled();
+  });
+
+  it('should notify other tabs of repository changes', () => {
+    const received = vi.fn();
+    secondTab.onRemoteTasksChanged(received);
+
+    firstTab.broadcastTasksChanged(['task-1']);
+
+    expect(received).toHaveBeenCalledWith(['task-1']);
+  });
+
+  it('should ignore events it cannot read', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const received = vi.fn();
+    secondTab.onRemoteEvent(received);
+
+    hub.open().postMessage({
+      kind: 'domainEvent',
+      event: { eventType: 'SomethingNew', occurredAt: new Date().toISOString(), taskId: 'task-1', payload: {} }
+    });
+
+    expect(received).not.toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  it('should stop delivering once a listener unsubscribes', () => {
+    const received = vi.fn();
+    const unsubscribe = secondTab.onRemoteTasksChanged(received);
+
+    unsubscribe();
+    firstTab.broadcastTasksChanged(['task-1']);
+
+    expect(received).not.toHaveBeenCalled();
+  });
+
+  it('should do nothing when BroadcastChannel is unavailable', () => {
+    const bridge = new CrossTabEventBridge(null);
+
+    expect(() => bridge.broadcastTasksChanged(['task-1'])).not.toThrow();
+  });
+});
@@ -0,0 +1,109 @@
+import { DomainEventJSON, TaskDomainEvent } from '../../domain/events/DomainEvent';
+import { taskEventFromJSON } from '../../domain/events/TaskEventMap';
+
+export type CrossTabMessage =
+  | { kind: 'domainEvent'; event: DomainEventJSON }
+  | { kind: 'tasksChanged'; taskIds: string[] };
+
+/**
+ * The part of BroadcastChannel the bridge relies on, so tests can supply
+ * an in-memory channel.
+ */
+export interface CrossTabChannel {
+  postMessage(message: CrossTabMessage): void;
+  onmessage: ((event: MessageEvent) => void) | null;
+  close(): void;
+}
+
+export type CrossTabChannelFactory = (name: string) => CrossTabChannel;
+
+type RemoteEventListener = (event: TaskDomainEvent) => void;
+type RemoteTasksChangedListener = (taskIds: string[]) => void;
+
+/**
+ * Forwards domain events and task repository changes to other tabs of the
+ * app over a BroadcastChannel.
+ *
+ * Remote events are handed to listeners only, never re-published locally:
+ * the originating tab has already run the event handlers against the
+ * shared storage.
+ */
+export class CrossTabEventBridge {
+  static readonly CHANNEL_NAME = 'ddd-task-app';
+
+  private channel: CrossTabChannel | null;
+  private eventListeners: RemoteEventListener[] = [];
+  private tasksChangedListeners: RemoteTasksChangedListener[] = [];
+
+  constructor(channelFactory: CrossTabChannelFactory | null = CrossTabEventBridge.defaultChannelFactory()) {
+    this.channel = channelFactory ? channelFactory(CrossTabEventBridge.CHANNEL_NAME) : null;
+    if (this.channel) {
+      this.channel.onmessage = (event) => this.receive(event.data);
+    }
+  }
+
+  static isSupported(): boolean {
+    return typeof BroadcastChannel !== 'undefined';
+  }
+
+  broadcastEvent(event: TaskDomainEvent): void {
+    this.post({ kind: 'domainEvent', event: event.toJSON() });
+  }
+
+  broadcastTasksChanged(taskIds: string[]): void {
+    this.post({ kind: 'tasksChanged', taskIds });
+  }
+
+  onRemoteEvent(listener: RemoteEventListener): () => void {
+    this.eventListeners.push(listener);
+    return () => {
+      this.eventListeners = this.eventListeners.filter(l => l !== listener);
+    };
+  }
+
+  onRemoteTasksChanged(listener: RemoteTasksChangedListener): () => void {
+    this.tasksChangedListeners.push(listener);
+    return () => {
+      this.tasksChangedListeners = this.tasksChangedListeners.filter(l => l !== listener);
+    };
+  }
+
+  close(): void {
+    this.channel?.close();
+    this.channel = null;
+  }
+
+  private post(message: CrossTabMessage): void {
+    try {
+      this.channel?.postMessage(message);
+    } catch (error) {
+      console.error('Error broadcasting to other tabs:', error);
+    }
+  }
+
+  private receive(message: CrossTabMessage): void {
+    switch (message?.kind) {
+      case 'domainEvent': {
+        let event: TaskDomainEvent;
+        try {
+          event = taskEventFromJSON(message.event);
+        } catch (error) {
+          // Another tab may be running a newer build with event types we don't know
+          console.warn('Ignoring unreadable event from another tab:', error);
+          return;
+        }
+        this.eventListeners.forEach(listener => listener(event));
+        break;
+      }
+      case 'tasksChanged':
+        this.tasksChangedListeners.forEach(listener => listener(message.taskIds));
+        break;
+    }
+  }
+
+  private static defaultChannelFactory(): CrossTabChannelFactory | null {
+    return CrossTabEventBridge.isSupported()
+      ? (name) => new BroadcastChannel(name)
+      : null;
+  }
+}
@@ -1,26 +1,126 @@
-import { DomainEventPublisher } from '../../application/services/DomainEventPublisher';
+import { DomainEventPublisher, RetryPolicy } from '../../application/services/DomainEventPublisher';
+import { IDeadLetterStore } from '../../application/services/IDeadLetterStore';
 import { TaskCompletedEventHandler } from '../../application/eventHandlers/TaskCompletedEventHandler';
 import { TaskAssignedEventHandler } from '../../application/eventHandlers/TaskAssignedEventHandler';
 import { TaskPriorityEscalatedEventHandler } from '../../application/eventHandlers/TaskPriorityEscalatedEventHandler';
 import { TaskReopenedEventHandler } from '../../application/eventHandlers/TaskReopenedEventHandler';
+import { TaskCreatedEventHandler } from '../../application/eventHandlers/TaskCreatedEventHandler';
+import { TaskTitleChangedEventHandler } from '../../application/eventHandlers/TaskTitleChangedEventHandler';
+import { TaskUnassignedEventHandler } from '../../application/eventHandlers/TaskUnassignedEventHandler';
+import { TaskStartedEventHandler } from '../../application/eventHandlers/TaskStartedEventHandler';
+import { TaskDependencyChangedEventHandler } from '../../application/eventHandlers/TaskDependencyChangedEventHandler';
+import { TaskPriorityLoweredEventHandler } from '../../application/eventHandlers/TaskPriorityLoweredEventHandler';
+import { UserMentionedEventHandler } from '../../application/eventHandlers/UserMentionedEventHandler';
+import { TaskHistoryEventHandler } from '../../application/eventHandlers/TaskHistoryEventHandler';
+import { UnblockDependentTasksEventHandler } from '../../application/eventHandlers/UnblockDependentTasksEventHandler';
+import { CreateNextOccurrenceEventHandler } from '../../application/eventHandlers/CreateNextOccurrenceEventHandler';
+import { TaskReminderEventHandler } from '../../application/eventHandlers/TaskReminderEventHandler';
+import { TaskAnalyticsProjectionHandler } from '../../application/eventHandlers/TaskAnalyticsProjectionHandler';
+import { ITaskAnalyticsStore } from '../../application/services/ITaskAnalyticsStore';
+import { IReminderNotifier } from '../../application/services/IReminderNotifier';
+import { IClock } from '../../application/services/IClock';
+import { UnitOfWork } from '../../application/services/UnitOfWork';
+import { ITaskEventStore } from '../../domain/repositories/ITaskEventStore';
+import { ITaskRepository } from '../../domain/repositories/ITaskRepository';
+import { CrossTabEventBridge } from './CrossTabEventBridge';
+import { SystemClock } from '../scheduling/SystemClock';
+
+interface EventPublisherDependencies {
+  eventStore?: ITaskEventStore;
+  taskRepository?: ITaskRepository;
+  crossTabBridge?: CrossTabEventBridge;
+  deadLetterStore?: IDeadLetterStore;
+  /** Needed by handlers that create tasks, so their events are dispatched too */
+  unitOfWork?: () => UnitOfWork;
+  reminderNotifier?: IReminderNotifier;
+  analyticsStore?: ITaskAnalyticsStore;
+  clock?: IClock;
+}
+
+// Handlers that write to storage may hit transient failures, so retry them
+const STORAGE_RETRY: RetryPolicy = { maxAttempts: 3, backoffMs: 200 };
 
 export class EventPublisherFactory {
-  static create(): DomainEventPublisher {
-    const publisher = new DomainEventPublisher();
+  static create(deps: EventPublisherDependencies = {}): DomainEventPublisher {
+    const {
+      eventStore,
+      taskRepository,
+      crossTabBridge,
+      deadLetterStore,
+      unitOfWork,
+      reminderNotifier,
+      analyticsStore,
+      clock = new SystemClock()
+    } = deps;
+    const publisher = new DomainEventPublisher({ deadLetterStore });
 
     const taskCompletedHandler = new TaskCompletedEventHandler();
     const taskAssignedHandler = new TaskAssignedEventHandler();
     const priorityEscalatedHandler = new TaskPriorityEscalatedEventHandler();
     const taskReopenedHandler = new TaskReopenedEventHandler();
+    const taskCreatedHandler = new TaskCreatedEventHandler();
+    const titleChangedHandler = new TaskTitleChangedEventHandler();
+    const taskUnassignedHandler = new TaskUnassignedEventHandler();
+    const taskStartedHandler = new TaskStartedEventHandler();
+    const dependencyChangedHandler = new TaskDependencyChangedEventHandler();
+    const priorityLoweredHandler = new TaskPriorityLoweredEventHandler();
+    const userMentionedHandler = new UserMentionedEventHandler();
+
+    publisher.subscribe('TaskCompleted', (event) => taskCompletedHandler.handle(event), { name: 'notifications' });
+    publisher.subscribe('TaskAssigned', (event) => taskAssignedHandler.handle(event), { name: 'notifications' });
+    publisher.subscribe('TaskPriorityEscalated', (event) => priorityEscalatedHandler.handle(event), { name: 'notifications' });
+    publisher.subscribe('TaskReopened', (event) => taskReopenedHandler.handle(event), { name: 'notifications' });
+    publisher.subscribe('TaskCreated', (event) => taskCreatedHandler.handle(event), { name: 'notifications' });
+    publisher.subscribe('TaskTitleChanged', (event) => titleChangedHandler.handle(event), { name: 'notifications' });
+    publisher.subscribe('TaskUnassigned', (event) => taskUnassignedHandler.handle(event), { name: 'notifications' });
+    publisher.subscribe('TaskStarted', (event) => taskStartedHandler.handle(event), { name: 'notifications' });
+    publisher.subscribe('TaskDependency*', (event) => dependencyChangedHandler.handle(event), { name: 'notifications' });
+    publisher.subscribe('TaskPriorityLowered', (event) => priorityLoweredHandler.handle(event), { name: 'notifications' });
+    publisher.subscribe('UserMentioned', (event) => userMentionedHandler.handle(event), { name: 'notifications' });
+
+    if (eventStore) {
+      const historyHandler = new TaskHistoryEventHandler(eventStore);
+      publisher.subscribe('*', (event) => historyHandler.handle(event), {
+        name: 'taskHistory',
+        retry: STORAGE_RETRY
+      });
+    }
+
+    if (analyticsStore) {
+      const analyticsHandler = new TaskAnalyticsProjectionHandler(analyticsStore);
+      publisher.subscribe('*', (event) => analyticsHandler.handle(event), {
+        name: 'dashboardMetrics',
+        retry: STORAGE_RETRY
+      });
+    }
+
+    if (taskRepository && unitOfWork) {
+      const unblockHandler = new UnblockDependentTasksEventHandler(taskRepository, unitOfWork);
+      publisher.subscribe('TaskCompleted', (event) => unblockHandler.handle(event), {
+        name: 'unblockDependents',
+        retry: STORAGE_RETRY
+      });
+      publisher.subscribe('TaskStatusChanged', (event) => unblockHandler.handle(event), {
+        name: 'unblockDependents',
+        retry: STORAGE_RETRY
+      });
+
+      const nextOccurrenceHandler = new CreateNextOccurrenceEventHandler(taskRepository, unitOfWork);
+      publisher.subscribe('TaskCompleted', (event) => nextOccurrenceHandler.handle(event), {
+        name: 'nextOccurrence',
+        retry: STORAGE_RETRY
+      });
+    }
 
-    publisher.subscribe('TaskCompleted', (event) => taskCompletedHandler.handle(event));
-    publisher.subscribe('TaskAssigned', (event) => taskAssignedHandler.handle(event));
-    publisher.subscribe('TaskPriorityEscalated', (event) => priorityEscalatedHandler.handle(event));
-    publisher.subscribe('TaskReopened', (event) => taskReopenedHandler.handle(event));
+    if (reminderNotifier) {
+      const reminderHandler = new TaskReminderEventHandler(reminderNotifier, clock);
+      publisher.subscribe('TaskDueSoon', (event) => reminderHandler.handle(event), { name: 'reminders' });
+      publisher.subscribe('TaskOverdue', (event) => reminderHandler.handle(event), { name: 'reminders' });
+    }
 
-    publisher.subscribe('TaskCompleted', async (event) => {
-      console.log('📈 Secondary handler: Updating dashboard metrics');
-    });
+    if (crossTabBridge) {
+      publisher.subscribe('*', (event) => crossTabBridge.broadcastEvent(event), { name: 'crossTabBroadcast' });
+    }
 
     return publisher;
   }
@@ -0,0 +1,22 @@
+import { IDeadLetterStore, DeadLetter } from '../../application/services/IDeadLetterStore';
+
+export class InMemoryDeadLetterStore implements IDeadLetterStore {
+  private deadLetters: Map<string, DeadLetter> = new Map();
+
+  async save(deadLetter: DeadLetter): Promise<void> {
+    this.deadLetters.set(deadLetter.id, { ...deadLetter });
+  }
+
+  async findById(id: string): Promise<DeadLetter | null> {
+    const deadLetter = this.deadLetters.get(id);
+    return deadLetter ? { ...deadLetter } : null;
+  }
+
+  async findAll(): Promise<DeadLetter[]> {
+    return Array.from(this.deadLetters.values()).map(deadLetter => ({ ...deadLetter }));
+  }
+
+  async remove(id: string): Promise<void> {
+    this.deadLetters.delete(id);
+  }
+}
@@ -0,0 +1,70 @@
+import { TaskDomainEvent } from '../../domain/events/DomainEvent';
+import { IEventOutbox, OutboxEntry } from '../../application/services/IEventOutbox';
+
+export class InMemoryEventOutbox implements IEventOutbox {
+  private entries: OutboxEntry[] = [];
+
+  async stage(
+    events: TaskDomainEvent[],
+    availableAt: Date,
+    stagedVersions: ReadonlyMap<string, number>
+  ): Promise<OutboxEntry[]> {
+    const added: OutboxEntry[] = events.map(event => ({
+      id: crypto.randomUUID(),
+      event,
+      status: 'staged',
+      attempts: 0,
+      nextAttemptAt: availableAt,
+      stagedVersion: stagedVersions.get(event.aggregateId)
+    }));
+    this.entries.push(...added);
+    return added.map(entry => ({ ...entry }));
+  }
+
+  async commitStaged(entryIds: string[]): Promise<void> {
+    this.entries
+      .filter(entry => entry.status === 'staged' && entryIds.includes(entry.id))
+      .forEach(entry => {
+        entry.status = 'pending';
+      });
+  }
+
+  async discardStaged(entryIds: string[]): Promise<void> {
+    this.entries = this.entries.filter(entry => !(entry.status === 'staged' && entryIds.includes(entry.id)));
+  }
+
+  async findExpiredStaged(now: Date): Promise<OutboxEntry[]> {
+    return this.entries
+      .filter(entry => entry.status === 'staged' && entry.nextAttemptAt <= now)
+      .map(entry => ({ ...entry }));
+  }
+
+  async findDue(now: Date): Promise<OutboxEntry[]> {
+    return this.entries
+      .filter(entry => entry.status === 'pending' && entry.nextAttemptAt <= now)
+      .map(entry => ({ ...entry }));
+  }
+
+  async findFailed(): Promise<OutboxEntry[]> {
+    return this.entries
+      .filter(entry => entry.status === 'failed')
+      .map(entry => ({ ...entry }));
+  }
+
+  async markDispatched(entryId: string): Promise<void> {
+    this.entries = this.entries.filter(entry => entry.id !== entryId);
+  }
+
+  async markFailed(entryId: string, error: string, retryAt: Date | null): Promise<void> {
+    const entry = this.entries.find(e => e.id === entryId);
+    if (!entry) return;
+
+    entry.attempts += 1;
+    entry.lastError = error;
+    if (retryAt) {
+      entry.nextAttemptAt = retryAt;
+    } else {
+      entry.status = 'failed';
+    }
+  }
+}
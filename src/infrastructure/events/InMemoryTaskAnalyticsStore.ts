@@ -0,0 +1,24 @@
+import { ITaskAnalyticsStore, TaskActivityRecord } from '../../application/services/ITaskAnalyticsStore';
+
+const copy = (record: TaskActivityRecord): TaskActivityRecord => JSON.parse(JSON.stringify(record));
+
+export class InMemoryTaskAnalyticsStore implements ITaskAnalyticsStore {
+  private records: Map<string, TaskActivityRecord> = new Map();
+
+  async findByTaskId(taskId: string): Promise<TaskActivityRecord | null> {
+    const record = this.records.get(taskId);
+    return record ? copy(record) : null;
+  }
+
+  async findAll(): Promise<TaskActivityRecord[]> {
+    return Array.from(this.records.values()).map(copy);
+  }
+
+  async save(record: TaskActivityRecord): Promise<void> {
+    this.records.set(record.taskId, copy(record));
+  }
+
+  async clear(): Promise<void> {
+    this.records.clear();
+  }
+}
@@ -0,0 +1,20 @@
+import { AnyTaskEvent } from '../../domain/events/TaskEventMap';
+import { TaskId } from '../../domain/valueObjects/TaskId';
+import { ITaskEventStore } from '../../domain/repositories/ITaskEventStore';
+
+export class InMemoryTaskEventStore implements ITaskEventStore {
+  private events: AnyTaskEvent[] = [];
+
+  async append(event: AnyTaskEvent): Promise<void> {
+    if (this.events.some(stored => stored.eventId === event.eventId)) return;
+    this.events.push(event);
+  }
+
+  async findByTaskId(taskId: TaskId): Promise<AnyTaskEvent[]> {
+    return this.events.filter(event => event.taskId.equals(taskId));
+  }
+
+  async findAll(): Promise<AnyTaskEvent[]> {
+    return [...this.events];
+  }
+}
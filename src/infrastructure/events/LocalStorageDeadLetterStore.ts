@@ -0,0 +1,79 @@
+import { DomainEventJSON } from '../../domain/events/DomainEvent';
+import { IDeadLetterStore, DeadLetter } from '../../application/services/IDeadLetterStore';
+import { taskEventFromJSON } from '../../domain/events/TaskEventMap';
+
+interface DeadLetterRecord {
+  id: string;
+  event: DomainEventJSON;
+  subscriptionName: string;
+  error: string;
+  attempts: number;
+  failedAt: string;
+}
+
+/**
+ * Only task events can be stored, since they are what the serializer knows.
+ */
+export class LocalStorageDeadLetterStore implements IDeadLetterStore {
+  static readonly STORAGE_KEY = 'ddd-dead-letters';
+
+  async save(deadLetter: DeadLetter): Promise<void> {
+    const record: DeadLetterRecord = {
+      id: deadLetter.id,
+      event: deadLetter.event.toJSON(),
+      subscriptionName: deadLetter.subscriptionName,
+      error: deadLetter.error,
+      attempts: deadLetter.attempts,
+      failedAt: deadLetter.failedAt.toISOString()
+    };
+
+    const records = this.readRecords();
+    const index = records.findIndex(r => r.id === record.id);
+    if (index >= 0) {
+      records[index] = record;
+    } else {
+      records.push(record);
+    }
+    this.writeRecords(records);
+  }
+
+  async findById(id: string): Promise<DeadLetter | null> {
+    const record = this.readRecords().find(r => r.id === id);
+    return record ? this.toDeadLetter(record) : null;
+  }
+
+  async findAll(): Promise<DeadLetter[]> {
+    return this.readRecords().map(record => this.toDeadLetter(record));
+  }
+
+  async remove(id: string): Promise<void> {
+    this.writeRecords(this.readRecords().filter(record => record.id !== id));
+  }
+
+  private toDeadLetter(record: DeadLetterRecord): DeadLetter {
+    return {
+      id: record.id,
+      event: taskEventFromJSON(record.event),
+      subscriptionName: record.subscriptionName,
+      error: record.error,
+      attempts: record.attempts,
+      failedAt: new Date(record.failedAt)
+    };
+  }
+
+  private readRecords(): DeadLetterRecord[] {
+    const data = localStorage.getItem(LocalStorageDeadLetterStore.STORAGE_KEY);
+    if (!data) return [];
+
+    try {
+      return JSON.parse(data);
+    } catch (error) {
+      console.error('Error parsing dead letters from localStorage:', error);
+      throw new Error('Stored dead letters could not be read; refusing to overwrite them');
+    }
+  }
+
+  private writeRecords(records: DeadLetterRecord[]): void {
+    localStorage.setItem(LocalStorageDeadLetterStore.STORAGE_KEY, JSON.stringify(records));
+  }
+}
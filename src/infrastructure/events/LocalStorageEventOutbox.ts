@@ -0,0 +1,111 @@
+import { DomainEventJSON, TaskDomainEvent } from '../../domain/events/DomainEvent';
+import { IEventOutbox, OutboxEntry, OutboxEntryStatus } from '../../application/services/IEventOutbox';
+import { taskEventFromJSON } from '../../domain/events/TaskEventMap';
+
+interface OutboxRecord {
+  id: string;
+  event: DomainEventJSON;
+  status: OutboxEntryStatus;
+  attempts: number;
+  nextAttemptAt: string;
+  lastError?: string;
+  stagedVersion?: number;
+}
+
+export class LocalStorageEventOutbox implements IEventOutbox {
+  static readonly STORAGE_KEY = 'ddd-event-outbox';
+
+  async stage(
+    events: TaskDomainEvent[],
+    availableAt: Date,
+    stagedVersions: ReadonlyMap<string, number>
+  ): Promise<OutboxEntry[]> {
+    const added: OutboxRecord[] = events.map(event => ({
+      id: crypto.randomUUID(),
+      event: event.toJSON(),
+      status: 'staged',
+      attempts: 0,
+      nextAttemptAt: availableAt.toISOString(),
+      stagedVersion: stagedVersions.get(event.aggregateId)
+    }));
+    this.writeRecords([...this.readRecords(), ...added]);
+    return added.map(record => this.toEntry(record));
+  }
+
+  async commitStaged(entryIds: string[]): Promise<void> {
+    this.writeRecords(this.readRecords().map(record =>
+      record.status === 'staged' && entryIds.includes(record.id) ? { ...record, status: 'pending' } : record
+    ));
+  }
+
+  async discardStaged(entryIds: string[]): Promise<void> {
+    this.writeRecords(this.readRecords().filter(record =>
+      !(record.status === 'staged' && entryIds.includes(record.id))
+    ));
+  }
+
+  async findExpiredStaged(now: Date): Promise<OutboxEntry[]> {
+    return this.readRecords()
+      .filter(record => record.status === 'staged' && new Date(record.nextAttemptAt) <= now)
+      .map(record => this.toEntry(record));
+  }
+
+  async findDue(now: Date): Promise<OutboxEntry[]> {
+    return this.readRecords()
+      .filter(record => record.status === 'pending' && new Date(record.nextAttemptAt) <= now)
+      .map(record => this.toEntry(record));
+  }
+
+  async findFailed(): Promise<OutboxEntry[]> {
+    return this.readRecords()
+      .filter(record => record.status === 'failed')
+      .map(record => this.toEntry(record));
+  }
+
+  async markDispatched(entryId: string): Promise<void> {
+    this.writeRecords(this.readRecords().filter(record => record.id !== entryId));
+  }
+
+  async markFailed(entryId: string, error: string, retryAt: Date | null): Promise<void> {
+    const records = this.readRecords();
+    const record = records.find(r => r.id === entryId);
+    if (!record) return;
+
+    record.attempts += 1;
+    record.lastError = error;
+    if (retryAt) {
+      record.nextAttemptAt = retryAt.toISOString();
+    } else {
+      record.status = 'failed';
+    }
+    this.writeRecords(records);
+  }
+
+  private toEntry(record: OutboxRecord): OutboxEntry {
+    return {
+      id: record.id,
+      event: taskEventFromJSON(record.event),
+      status: record.status,
+      attempts: record.attempts,
+      nextAttemptAt: new Date(record.nextAttemptAt),
+      lastError: record.lastError,
+      stagedVersion: record.stagedVersion
+    };
+  }
+
+  private readRecords(): OutboxRecord[] {
+    const data = localStorage.getItem(LocalStorageEventOutbox.STORAGE_KEY);
+    if (!data) return [];
+
+    try {
+      return JSON.parse(data);
+    } catch (error) {
+      console.error('Error parsing event outbox from localStorage:', error);
+      throw new Error('Stored outbox could not be read; refusing to overwrite it');
+    }
+  }
+
+  private writeRecords(records: OutboxRecord[]): void {
+    localStorage.setItem(LocalStorageEventOutbox.STORAGE_KEY, JSON.stringify(records));
+  }
+}
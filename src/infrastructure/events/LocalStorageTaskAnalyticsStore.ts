@@ -0,0 +1,44 @@
+import { ITaskAnalyticsStore, TaskActivityRecord } from '../../application/services/ITaskAnalyticsStore';
+
+/**
+ * Unreadable data is treated as empty: the read model can always be
+ * rebuilt from the event store.
+ */
+export class LocalStorageTaskAnalyticsStore implements ITaskAnalyticsStore {
+  static readonly STORAGE_KEY = 'ddd-task-analytics';
+
+  async findByTaskId(taskId: string): Promise<TaskActivityRecord | null> {
+    return this.readRecords().find(record => record.taskId === taskId) ?? null;
+  }
+
+  async findAll(): Promise<TaskActivityRecord[]> {
+    return this.readRecords();
+  }
+
+  async save(record: TaskActivityRecord): Promise<void> {
+    const records = this.readRecords();
+    const index = records.findIndex(r => r.taskId === record.taskId);
+    if (index >= 0) {
+      records[index] = record;
+    } else {
+      records.push(record);
+    }
+    localStorage.setItem(LocalStorageTaskAnalyticsStore.STORAGE_KEY, JSON.stringify(records));
+  }
+
+  async clear(): Promise<void> {
+    localStorage.removeItem(LocalStorageTaskAnalyticsStore.STORAGE_KEY);
+  }
+
+  private readRecords(): TaskActivityRecord[] {
+    const data = localStorage.getItem(LocalStorageTaskAnalyticsStore.STORAGE_KEY);
+    if (!data) return [];
+
+    try {
+      return JSON.parse(data);
+    } catch (error) {
+      console.error('Error parsing task analytics from localStorage:', error);
+      return [];
+    }
+  }
+}
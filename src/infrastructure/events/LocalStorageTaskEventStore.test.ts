@@ -0,0 +1,34 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { LocalStorageTaskEventStore } from './LocalStorageTaskEventStore';
+import { TaskId } from '../../domain/valueObjects/TaskId';
+import { UserId } from '../../domain/valueObjects/UserId';
+import { TaskAssignedEvent } from '../../domain/events/TaskAssignedEvent';
+
+describe('LocalStorageTaskEventStore', () => {
+  let store: LocalStorageTaskEventStore;
+  const taskId = TaskId.create();
+  const userId = UserId.create('user-123');
+
+  beforeEach(() => {
+    localStorage.clear();
+    store = new LocalStorageTaskEventStore();
+  });
+
+  it('should store an event delivered twice only once', async () => {
+    const event = new TaskAssignedEvent(taskId, userId, userId);
+
+    await store.append(event);
+    await store.append(event);
+
+    const stored = await store.findByTaskId(taskId);
+    expect(stored.map(e => e.eventId)).toEqual([event.eventId]);
+  });
+
+  it('should refuse to append over corrupted history', async () => {
+    localStorage.setItem('ddd-task-events', '{not json');
+
+    await expect(store.append(new TaskAssignedEvent(taskId, userId, userId)))
+      .rejects.toThrow('Stored task events could not be read; refusing to overwrite them');
+    expect(localStorage.getItem('ddd-task-events')).toBe('{not json');
+  });
+});
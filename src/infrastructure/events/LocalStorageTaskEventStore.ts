@@ -0,0 +1,45 @@
+import { DomainEventJSON } from '../../domain/events/DomainEvent';
+import { TaskId } from '../../domain/valueObjects/TaskId';
+import { ITaskEventStore } from '../../domain/repositories/ITaskEventStore';
+import { AnyTaskEvent, taskEventFromJSON } from '../../domain/events/TaskEventMap';
+
+export class LocalStorageTaskEventStore implements ITaskEventStore {
+  private readonly STORAGE_KEY = 'ddd-task-events';
+
+  /**
+   * Skips events that are already stored, since the outbox may deliver an
+   * event again after a retry or a replay.
+   */
+  async append(event: AnyTaskEvent): Promise<void> {
+    const records = this.readRecords();
+    if (records.some(record => record.eventId === event.eventId)) return;
+
+    records.push(event.toJSON());
+    localStorage.setItem(this.STORAGE_KEY, JSON.stringify(records));
+  }
+
+  async findByTaskId(taskId: TaskId): Promise<AnyTaskEvent[]> {
+    const events = await this.findAll();
+    return events.filter(event => event.taskId.equals(taskId));
+  }
+
+  async findAll(): Promise<AnyTaskEvent[]> {
+    return this.readRecords().map(record => taskEventFromJSON(record));
+  }
+
+  /**
+   * Throws rather than returning an empty list on corrupted data, so the
+   * next append cannot overwrite the history.
+   */
+  private readRecords(): DomainEventJSON[] {
+    const data = localStorage.getItem(this.STORAGE_KEY);
+    if (!data) return [];
+
+    try {
+      return JSON.parse(data);
+    } catch (error) {
+      console.error('Error parsing task events from localStorage:', error);
+      throw new Error('Stored task events could not be read; refusing to overwrite them');
+    }
+  }
+}
@@ -0,0 +1,63 @@
+import { describe, it, expect, vi } from 'vitest';
+import { BrowserReminderNotifier } from './BrowserReminderNotifier';
+import { Reminder } from '../../application/services/IReminderNotifier';
+
+const reminder: Reminder = {
+  taskId: 'task-1',
+  title: 'Pay rent',
+  kind: 'overdue',
+  dueDate: new Date(2026, 0, 1),
+  message: '"Pay rent" is overdue by 1 day'
+};
+
+const fakeNotificationApi = (permission: NotificationPermission) => {
+  const shown: { title: string; options?: NotificationOptions }[] = [];
+  const api = vi.fn(function (title: string, options?: NotificationOptions) {
+    shown.push({ title, options });
+  }) as unknown as typeof Notification & { permission: NotificationPermission };
+  Object.assign(api, {
+    permission,
+    requestPermission: vi.fn(async () => {
+      api.permission = 'granted';
+      return 'granted';
+    })
+  });
+  return { api, shown };
+};
+
+describe('BrowserReminderNotifier', () => {
+  it('should show a notification once permission is granted', () => {
+    const { api, shown } = fakeNotificationApi('granted');
+
+    new BrowserReminderNotifier(api).notify(reminder);
+
+    expect(shown).toEqual([{
+      title: 'Task overdue',
+      options: { body: '"Pay rent" is overdue by 1 day', tag: 'reminder-task-1' }
+    }]);
+  });
+
+  it('should stay silent without permission', () => {
+    const { api, shown } = fakeNotificationApi('denied');
+
+    new BrowserReminderNotifier(api).notify(reminder);
+
+    expect(shown).toHaveLength(0);
+  });
+
+  it('should only prompt for permission the user has not decided on', async () => {
+    const undecided = fakeNotificationApi('default');
+    const denied = fakeNotificationApi('denied');
+
+    expect(await new BrowserReminderNotifier(undecided.api).requestPermission()).toBe('granted');
+    expect(await new BrowserReminderNotifier(denied.api).requestPermission()).toBe('denied');
+    expect(denied.api.requestPermission).not.toHaveBeenCalled();
+  });
+
+  it('should report browsers without the Notifications API as unsupported', async () => {
+    const notifier = new BrowserReminderNotifier(null);
+
+    expect(notifier.permission).toBe('unsupported');
+    expect(() => notifier.notify(reminder)).not.toThrow();
+  });
+});
@@ -0,0 +1,37 @@
+import { IReminderNotifier, Reminder } from '../../application/services/IReminderNotifier';
+
+type NotificationApi = typeof Notification;
+
+/**
+ * Shows reminders as system notifications through the browser
+ * Notifications API, so they are seen while the tab is in the background.
+ * Does nothing until the user has granted permission.
+ */
+export class BrowserReminderNotifier implements IReminderNotifier {
+  constructor(
+    private notificationApi: NotificationApi | null =
+      typeof Notification === 'undefined' ? null : Notification
+  ) {}
+
+  get permission(): NotificationPermission | 'unsupported' {
+    return this.notificationApi?.permission ?? 'unsupported';
+  }
+
+  /** Browsers only show the prompt in response to a user action */
+  async requestPermission(): Promise<NotificationPermission | 'unsupported'> {
+    if (this.notificationApi?.permission === 'default') {
+      await this.notificationApi.requestPermission();
+    }
+    return this.permission;
+  }
+
+  notify(reminder: Reminder): void {
+    if (this.notificationApi?.permission !== 'granted') return;
+
+    new this.notificationApi(reminder.kind === 'overdue' ? 'Task overdue' : 'Task due soon', {
+      body: reminder.message,
+      // Replaces the previous reminder for the same task instead of stacking
+      tag: `reminder-${reminder.taskId}`
+    });
+  }
+}
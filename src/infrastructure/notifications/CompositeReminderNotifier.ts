@@ -0,0 +1,20 @@
+import { IReminderNotifier, Reminder } from '../../application/services/IReminderNotifier';
+
+/**
+ * Sends each reminder to several notifiers. One failing does not stop the
+ * others, and is not rethrown: a retry would repeat the ones that worked.
+ */
+export class CompositeReminderNotifier implements IReminderNotifier {
+  constructor(private notifiers: IReminderNotifier[]) {}
+
+  async notify(reminder: Reminder): Promise<void> {
+    const results = await Promise.allSettled(
+      this.notifiers.map(async notifier => notifier.notify(reminder))
+    );
+    for (const result of results) {
+      if (result.status === 'rejected') {
+        console.error('Failed to deliver reminder:', result.reason);
+      }
+    }
+  }
+}
@@ -0,0 +1,13 @@
+import { toast } from 'react-toastify';
+import { IReminderNotifier, Reminder } from '../../application/services/IReminderNotifier';
+
+/**
+ * Shows reminders in the app through react-toastify. Needs a
+ * `ToastContainer` on the page.
+ */
+export class ToastReminderNotifier implements IReminderNotifier {
+  notify(reminder: Reminder): void {
+    const show = reminder.kind === 'overdue' ? toast.warning : toast.info;
+    show(`⏰ ${reminder.message}`, { toastId: `reminder-${reminder.taskId}` });
+  }
+}
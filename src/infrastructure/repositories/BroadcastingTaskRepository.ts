@@ -0,0 +1,43 @@
+import { Task } from '../../domain/entities/Task';
+import { TaskId } from '../../domain/valueObjects/TaskId';
+import { ITaskRepository } from '../../domain/repositories/ITaskRepository';
+import { TaskQuery, TaskQueryResult } from '../../domain/repositories/TaskQuery';
+import { CrossTabEventBridge } from '../events/CrossTabEventBridge';
+
+/**
+ * Decorates a task repository so other tabs are told about every write,
+ * including changes that raise no domain event.
+ */
+export class BroadcastingTaskRepository implements ITaskRepository {
+  constructor(
+    private inner: ITaskRepository,
+    private bridge: CrossTabEventBridge
+  ) {}
+
+  async save(task: Task): Promise<void> {
+    await this.inner.save(task);
+    this.bridge.broadcastTasksChanged([task.id.toString()]);
+  }
+
+  async saveAll(tasks: Task[]): Promise<void> {
+    await this.inner.saveAll(tasks);
+    this.bridge.broadcastTasksChanged(tasks.map(task => task.id.toString()));
+  }
+
+  async findById(id: TaskId): Promise<Task | null> {
+    return this.inner.findById(id);
+  }
+
+  async findAll(): Promise<Task[]> {
+    return this.inner.findAll();
+  }
+
+  async findByQuery(query: TaskQuery): Promise<TaskQueryResult> {
+    return this.inner.findByQuery(query);
+  }
+
+  async delete(id: TaskId): Promise<void> {
+    await this.inner.delete(id);
+    this.bridge.broadcastTasksChanged([id.toString()]);
+  }
+}
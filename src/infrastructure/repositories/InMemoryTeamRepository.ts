@@ -0,0 +1,15 @@
+import { Team } from '../../domain/entities/Team';
+import { UserId } from '../../domain/valueObjects/UserId';
+import { ITeamRepository } from '../../domain/repositories/ITeamRepository';
+
+export const DEMO_TEAMS: Team[] = [
+  Team.create('team-core', 'Core', ['user-123', 'user-456', 'lead-1'].map(id => UserId.create(id)))
+];
+
+export class InMemoryTeamRepository implements ITeamRepository {
+  constructor(private teams: Team[] = DEMO_TEAMS) {}
+
+  async findAll(): Promise<Team[]> {
+    return [...this.teams];
+  }
+}
@@ -0,0 +1,25 @@
+import { User, UserRole } from '../../domain/entities/User';
+import { UserId } from '../../domain/valueObjects/UserId';
+import { IUserRepository } from '../../domain/repositories/IUserRepository';
+
+/**
+ * The people who can use the demo. `user-123` is the default current user.
+ */
+export const DEMO_USERS: User[] = [
+  User.create(UserId.create('user-123'), 'Alex Morgan'),
+  User.create(UserId.create('user-456'), 'Sam Rivera'),
+  User.create(UserId.create('lead-1'), 'Jordan Lee', UserRole.LEAD),
+  User.create(UserId.create('admin-1'), 'Riley Chen', UserRole.ADMIN)
+];
+
+export class InMemoryUserRepository implements IUserRepository {
+  constructor(private users: User[] = DEMO_USERS) {}
+
+  async findAll(): Promise<User[]> {
+    return [...this.users];
+  }
+
+  async findById(id: UserId): Promise<User | null> {
+    return this.users.find(user => user.id.equals(id)) ?? null;
+  }
+}
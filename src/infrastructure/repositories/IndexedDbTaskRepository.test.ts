@@ -0,0 +1,187 @@
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { IndexedDbTaskRepository } from './IndexedDbTaskRepository';
+import { LocalStorageTaskRepository } from './LocalStorageTaskRepository';
+import { TaskMapper } from './TaskMapper';
+import { Task } from '../../domain/entities/Task';
+import { TaskTitle } from '../../domain/valueObjects/TaskTitle';
+import { TaskPriority } from '../../domain/valueObjects/TaskPriority';
+import { TaskStatusType } from '../../domain/valueObjects/TaskStatus';
+import { UserId } from '../../domain/valueObjects/UserId';
+import { TaskQuery } from '../../domain/repositories/TaskQuery';
+import { ConcurrencyConflictError } from '../../domain/exceptions/TaskExceptions';
+
+const openRaw = (factory: IDBFactory): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = factory.open(IndexedDbTaskRepository.DB_NAME, IndexedDbTaskRepository.DB_VERSION);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const readStore = async (factory: IDBFactory, store: string): Promise<any[]> => {
+  const db = await openRaw(factory);
+  const records = await new Promise<any[]>((resolve, reject) => {
+    const request = db.transaction(store).objectStore(store).getAll();
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  db.close();
+  return records;
+};
+
+const writeRecord = async (factory: IDBFactory, record: Record<string, unknown>): Promise<void> => {
+  const db = await openRaw(factory);
+  await new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction('tasks', 'readwrite');
+    transaction.objectStore('tasks').put(record);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+  db.close();
+};
+
+describe('IndexedDbTaskRepository', () => {
+  let factory: IDBFactory;
+  let repository: IndexedDbTaskRepository;
+  let userId: UserId;
+
+  beforeEach(() => {
+    localStorage.clear();
+    factory = new IDBFactory();
+    repository = new IndexedDbTaskRepository(factory);
+    userId = UserId.create('user-123');
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('saveAll', () => {
+    it('should write one record per task and bump only the saved ones', async () => {
+      const first = Task.create(TaskTitle.create('First'));
+      const second = Task.create(TaskTitle.create('Second'));
+      await repository.saveAll([first, second]);
+
+      first.assignTo(userId, userId);
+      await repository.save(first);
+
+      const records = await readStore(factory, 'tasks');
+      expect(records.map(r => [r.title, r.version]).sort()).toEqual([['First', 2], ['Second', 1]]);
+      expect(first.version).toBe(2);
+      expect((await repository.findById(second.id))?.version).toBe(1);
+    });
+
+    it('should reject a save based on a stale copy and write none of the batch', async () => {
+      const shared = Task.create(TaskTitle.create('Shared'));
+      const other = Task.create(TaskTitle.create('Other'));
+      await repository.saveAll([shared, other]);
+
+      const firstTab = (await repository.findById(shared.id))!;
+      const secondTab = (await repository.findById(shared.id))!;
+      firstTab.assignTo(userId, userId);
+      await repository.save(firstTab);
+
+      other.changePriority(TaskPriority.high(), userId);
+      secondTab.assignTo(UserId.create('user-456'), userId);
+
+      await expect(repository.saveAll([other, secondTab])).rejects.toBeInstanceOf(ConcurrencyConflictError);
+      expect((await repository.findById(other.id))?.priority.toString()).toBe('MEDIUM');
+      expect((await repository.findById(shared.id))?.isAssignedTo(userId)).toBe(true);
+    });
+
+    it('should abort the transaction when a stored record cannot be read', async () => {
+      const task = Task.create(TaskTitle.create('Readable'));
+      const unreadable = Task.create(TaskTitle.create('From a newer app'));
+      await repository.saveAll([task, unreadable]);
+      await writeRecord(factory, { ...TaskMapper.toRecord(unreadable, 1), schemaVersion: 99 });
+
+      task.changePriority(TaskPriority.high(), userId);
+      await expect(repository.saveAll([task, unreadable])).rejects.toThrow('newer than supported');
+
+      expect(task.version).toBe(1);
+      expect((await repository.findById(task.id))?.priority.toString()).toBe('MEDIUM');
+    });
+  });
+
+  describe('findByQuery', () => {
+    const indexNames = () => {
+      const index = vi.spyOn(IDBObjectStore.prototype, 'index');
+      return () => index.mock.calls.map(([name]) => name);
+    };
+
+    it('should narrow assignee, status and due date filters through their indexes', async () => {
+      const mine = Task.create(TaskTitle.create('Mine'), TaskPriority.medium(), new Date('2026-03-10T12:00:00Z'));
+      mine.assignTo(userId, userId);
+      const started = Task.create(TaskTitle.create('Started'));
+      started.assignTo(UserId.create('user-456'), userId);
+      started.startProgress(UserId.create('user-456'));
+      const later = Task.create(TaskTitle.create('Later'), TaskPriority.medium(), new Date('2026-04-10T12:00:00Z'));
+      await repository.saveAll([mine, started, later]);
+      const usedIndexes = indexNames();
+
+      const byAssignee = await repository.findByQuery(TaskQuery.create({ filters: { assigneeId: 'user-123' } }));
+      const byStatus = await repository.findByQuery(
+        TaskQuery.create({ filters: { statuses: [TaskStatusType.IN_PROGRESS] } })
+      );
+      const byDueDate = await repository.findByQuery(TaskQuery.create({
+        filters: { dueFrom: new Date('2026-03-01T00:00:00Z'), dueTo: new Date('2026-03-31T00:00:00Z') }
+      }));
+
+      expect(byAssignee.tasks.map(t => t.title.toString())).toEqual(['Mine']);
+      expect(byStatus.tasks.map(t => t.title.toString())).toEqual(['Started']);
+      expect(byDueDate.tasks.map(t => t.title.toString())).toEqual(['Mine']);
+      expect(usedIndexes()).toEqual(['assignee', 'status', 'dueDate']);
+    });
+
+    it('should still apply the filters the index does not cover', async () => {
+      const high = Task.create(TaskTitle.create('High'), TaskPriority.high());
+      const low = Task.create(TaskTitle.create('Low'), TaskPriority.low());
+      high.assignTo(userId, userId);
+      low.assignTo(userId, userId);
+      await repository.saveAll([high, low]);
+
+      const result = await repository.findByQuery(TaskQuery.create({
+        filters: { assigneeId: 'user-123', priorities: [TaskPriority.high().getLevel()] }
+      }));
+
+      expect(result.tasks.map(t => t.title.toString())).toEqual(['High']);
+      expect(result.totalCount).toBe(1);
+    });
+  });
+
+  describe('localStorage import', () => {
+    const storeInLocalStorage = (...titles: string[]) => {
+      const records = titles.map(title => TaskMapper.toRecord(Task.create(TaskTitle.create(title)), 1));
+      localStorage.setItem(LocalStorageTaskRepository.STORAGE_KEY, JSON.stringify(records));
+    };
+
+    it('should import the localStorage tasks once and record it in the meta store', async () => {
+      storeInLocalStorage('Old task', 'Another old task');
+
+      expect(await repository.findAll()).toHaveLength(2);
+
+      const [marker] = await readStore(factory, 'meta');
+      expect(marker).toMatchObject({ key: 'localStorageImport', count: 2 });
+      expect(localStorage.getItem(LocalStorageTaskRepository.STORAGE_KEY)).not.toBeNull();
+
+      storeInLocalStorage('Added after the import');
+      const reopened = new IndexedDbTaskRepository(factory);
+      expect((await reopened.findAll()).map(t => t.title.toString()).sort())
+        .toEqual(['Another old task', 'Old task']);
+    });
+
+    it('should leave the import unmarked while localStorage cannot be read', async () => {
+      localStorage.setItem(LocalStorageTaskRepository.STORAGE_KEY, '{not json');
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      expect(await repository.findAll()).toEqual([]);
+      expect(await readStore(factory, 'meta')).toEqual([]);
+
+      storeInLocalStorage('Repaired');
+      const reopened = new IndexedDbTaskRepository(factory);
+      expect((await reopened.findAll()).map(t => t.title.toString())).toEqual(['Repaired']);
+    });
+  });
+});
@@ -0,0 +1,196 @@
+import { Task } from '../../domain/entities/Task';
+import { TaskId } from '../../domain/valueObjects/TaskId';
+import { ITaskRepository } from '../../domain/repositories/ITaskRepository';
+import { TaskQuery, TaskQueryResult } from '../../domain/repositories/TaskQuery';
+import { LocalStorageTaskRepository } from './LocalStorageTaskRepository';
+import { ConcurrencyConflictError } from '../../domain/exceptions/TaskExceptions';
+import { TaskMapper } from './TaskMapper';
+import { migrateTaskRecord } from './TaskRecordMigrations';
+
+const TASK_STORE = 'tasks';
+const META_STORE = 'meta';
+const LOCAL_STORAGE_IMPORT_KEY = 'localStorageImport';
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'));
+  });
+
+/**
+ * Task repository backed by IndexedDB with one record per task.
+ *
+ * Records carry a `schemaVersion` and are upgraded through
+ * TaskRecordMigrations when read. On first use, tasks previously stored in
+ * localStorage are imported once; the localStorage copy is left in place.
+ */
+export class IndexedDbTaskRepository implements ITaskRepository {
+  static readonly DB_NAME = 'ddd-task-app';
+  static readonly DB_VERSION = 1;
+
+  private dbPromise?: Promise<IDBDatabase>;
+
+  constructor(private readonly factory: IDBFactory = indexedDB) {}
+
+  static isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  async save(task: Task): Promise<void> {
+    await this.saveAll([task]);
+  }
+
+  async saveAll(tasks: Task[]): Promise<void> {
+    const db = await this.getDb();
+    const transaction = db.transaction(TASK_STORE, 'readwrite');
+    const store = transaction.objectStore(TASK_STORE);
+    const done = transactionDone(transaction);
+
+    // Read and write in the same transaction so the version checks are atomic.
+    // Any failure aborts it, so none of the tasks are written.
+    try {
+      for (const task of tasks) {
+        const stored = await requestToPromise(store.get(task.id.toString()));
+        const storedVersion = stored ? migrateTaskRecord(stored).version : 0;
+
+        if (storedVersion !== task.version) {
+          throw new ConcurrencyConflictError(task.id, task.version, storedVersion);
+        }
+
+        store.put(TaskMapper.toRecord(task, task.version + 1));
+      }
+    } catch (error) {
+      transaction.abort();
+      await done.catch(() => undefined);
+      throw error;
+    }
+
+    await done;
+    tasks.forEach(task => task.incrementVersion());
+  }
+
+  async findById(id: TaskId): Promise<Task | null> {
+    const db = await this.getDb();
+    const record = await requestToPromise(
+      db.transaction(TASK_STORE).objectStore(TASK_STORE).get(id.toString())
+    );
+    return record ? TaskMapper.toDomain(record) : null;
+  }
+
+  async findAll(): Promise<Task[]> {
+    const db = await this.getDb();
+    const records = await requestToPromise(
+      db.transaction(TASK_STORE).objectStore(TASK_STORE).getAll()
+    );
+    return records.map(record => TaskMapper.toDomain(record));
+  }
+
+  async findByQuery(query: TaskQuery): Promise<TaskQueryResult> {
+    const db = await this.getDb();
+    const store = db.transaction(TASK_STORE).objectStore(TASK_STORE);
+    const { statuses, assigneeId, dependencyState } = query.filters;
+
+    // Narrow the candidates through an index when one filter maps onto it;
+    // the query itself still applies every filter, sort and page. Whether a
+    // task is blocked depends on its blockers, which any index may leave out.
+    let request: IDBRequest<any[]>;
+    if (dependencyState) {
+      request = store.getAll();
+    } else if (typeof assigneeId === 'string') {
+      request = store.index('assignee').getAll(assigneeId);
+    } else if (statuses?.length === 1) {
+      request = store.index('status').getAll(statuses[0]);
+    } else if (query.filters.dueFrom || query.filters.dueTo) {
+      request = store.index('dueDate').getAll(this.dueDateRange(query));
+    } else {
+      request = store.getAll();
+    }
+
+    const records = await requestToPromise(request);
+    return query.apply(records.map(record => TaskMapper.toDomain(record)));
+  }
+
+  async delete(id: TaskId): Promise<void> {
+    const db = await this.getDb();
+    const transaction = db.transaction(TASK_STORE, 'readwrite');
+    transaction.objectStore(TASK_STORE).delete(id.toString());
+    await transactionDone(transaction);
+  }
+
+  private dueDateRange(query: TaskQuery): IDBKeyRange {
+    const { dueFrom, dueTo } = query.filters;
+    if (dueFrom && dueTo) return IDBKeyRange.bound(dueFrom.toISOString(), dueTo.toISOString());
+    if (dueFrom) return IDBKeyRange.lowerBound(dueFrom.toISOString());
+    return IDBKeyRange.upperBound(dueTo!.toISOString());
+  }
+
+  private getDb(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = this.open().then(async db => {
+        await this.importFromLocalStorage(db);
+        return db;
+      });
+      this.dbPromise.catch(() => {
+        this.dbPromise = undefined;
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private open(): Promise<IDBDatabase> {
+    const request = this.factory.open(IndexedDbTaskRepository.DB_NAME, IndexedDbTaskRepository.DB_VERSION);
+    request.onupgradeneeded = (event) => {
+      this.upgradeDatabase(request.result, event.oldVersion);
+    };
+    return requestToPromise(request);
+  }
+
+  private upgradeDatabase(db: IDBDatabase, oldVersion: number): void {
+    if (oldVersion < 1) {
+      const tasks = db.createObjectStore(TASK_STORE, { keyPath: 'id' });
+      tasks.createIndex('status', 'status');
+      tasks.createIndex('assignee', 'assignment.assignedTo');
+      tasks.createIndex('dueDate', 'dueDate');
+      db.createObjectStore(META_STORE, { keyPath: 'key' });
+    }
+  }
+
+  private async importFromLocalStorage(db: IDBDatabase): Promise<void> {
+    const marker = await requestToPromise(
+      db.transaction(META_STORE).objectStore(META_STORE).get(LOCAL_STORAGE_IMPORT_KEY)
+    );
+    if (marker) return;
+
+    let records: Record<string, any>[];
+    try {
+      records = LocalStorageTaskRepository.readRecords();
+    } catch (error) {
+      // Leave the import unmarked so it is retried once the data is repaired
+      console.error('Skipping localStorage task import:', error);
+      return;
+    }
+
+    const transaction = db.transaction([TASK_STORE, META_STORE], 'readwrite');
+    const tasks = transaction.objectStore(TASK_STORE);
+    for (const record of records) {
+      tasks.put(migrateTaskRecord(record));
+    }
+    transaction.objectStore(META_STORE).put({
+      key: LOCAL_STORAGE_IMPORT_KEY,
+      importedAt: new Date().toISOString(),
+      count: records.length
+    });
+    await transactionDone(transaction);
+
+    if (records.length > 0) {
+      console.log(`📦 Imported ${records.length} task(s) from localStorage into IndexedDB`);
+    }
+  }
+}
@@ -0,0 +1,38 @@
+import { EscalationPolicy } from '../../domain/valueObjects/EscalationPolicy';
+import { IEscalationPolicyRepository } from '../../domain/repositories/IEscalationPolicyRepository';
+
+export class LocalStorageEscalationPolicyRepository implements IEscalationPolicyRepository {
+  private readonly STORAGE_KEY = 'ddd-escalation-policies';
+
+  async findByWorkspace(workspaceId: string): Promise<EscalationPolicy | null> {
+    const dto = this.readAll()[workspaceId];
+    if (!dto) return null;
+
+    return EscalationPolicy.create({
+      thresholds: dto.thresholds,
+      businessDaysOnly: dto.businessDaysOnly
+    });
+  }
+
+  async save(workspaceId: string, policy: EscalationPolicy): Promise<void> {
+    const policies = this.readAll();
+    policies[workspaceId] = policy.toJSON();
+    localStorage.setItem(this.STORAGE_KEY, JSON.stringify(policies));
+  }
+
+  /**
+   * Throws rather than returning no policies on corrupted data, so a
+   * following save cannot overwrite the other workspaces' policies.
+   */
+  private readAll(): Record<string, ReturnType<EscalationPolicy['toJSON']>> {
+    const data = localStorage.getItem(this.STORAGE_KEY);
+    if (!data) return {};
+
+    try {
+      return JSON.parse(data);
+    } catch (error) {
+      console.error('Error parsing escalation policies from localStorage:', error);
+      throw new Error('Stored escalation policies could not be read; refusing to overwrite them');
+    }
+  }
+}
@@ -0,0 +1,41 @@
+import { LabelCatalog } from '../../domain/valueObjects/LabelCatalog';
+import { TaskLabelJSON } from '../../domain/valueObjects/TaskLabel';
+import { ILabelCatalogRepository } from '../../domain/repositories/ILabelCatalogRepository';
+
+export class LocalStorageLabelCatalogRepository implements ILabelCatalogRepository {
+  private readonly STORAGE_KEY = 'ddd-task-labels';
+
+  async findByWorkspace(workspaceId: string): Promise<LabelCatalog | null> {
+    const labels = this.readAll()[workspaceId];
+    if (!labels) return null;
+
+    try {
+      return LabelCatalog.fromJSON(labels);
+    } catch (error) {
+      console.error('Error reading stored label catalog:', error);
+      throw new Error('Stored label catalog is invalid; refusing to overwrite it');
+    }
+  }
+
+  async save(workspaceId: string, catalog: LabelCatalog): Promise<void> {
+    const catalogs = this.readAll();
+    catalogs[workspaceId] = catalog.toJSON();
+    localStorage.setItem(this.STORAGE_KEY, JSON.stringify(catalogs));
+  }
+
+  /**
+   * Throws rather than returning no catalogs on corrupted data, so a
+   * following save cannot overwrite the other workspaces' labels.
+   */
+  private readAll(): Record<string, TaskLabelJSON[]> {
+    const data = localStorage.getItem(this.STORAGE_KEY);
+    if (!data) return {};
+
+    try {
+      return JSON.parse(data);
+    } catch (error) {
+      console.error('Error parsing label catalogs from localStorage:', error);
+      throw new Error('Stored label catalogs could not be read; refusing to overwrite them');
+    }
+  }
+}
@@ -0,0 +1,49 @@
+import { SavedTaskView, SavedTaskViewJSON } from '../../domain/entities/SavedTaskView';
+import { ISavedTaskViewRepository } from '../../domain/repositories/ISavedTaskViewRepository';
+import { UserId } from '../../domain/valueObjects/UserId';
+
+export class LocalStorageSavedTaskViewRepository implements ISavedTaskViewRepository {
+  private readonly STORAGE_KEY = 'ddd-task-views';
+
+  async findById(id: string): Promise<SavedTaskView | null> {
+    const record = this.readAll().find(view => view.id === id);
+    return record ? SavedTaskView.reconstitute(record) : null;
+  }
+
+  async findByOwner(ownerId: UserId): Promise<SavedTaskView[]> {
+    return this.readAll()
+      .filter(view => view.ownerId === ownerId.toString())
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map(record => SavedTaskView.reconstitute(record));
+  }
+
+  async save(view: SavedTaskView): Promise<void> {
+    const views = this.readAll().filter(v => v.id !== view.id);
+    views.push(view.toJSON());
+    this.writeAll(views);
+  }
+
+  async delete(id: string): Promise<void> {
+    this.writeAll(this.readAll().filter(view => view.id !== id));
+  }
+
+  /**
+   * Throws rather than returning no views on corrupted data, so a
+   * following write cannot overwrite every user's views.
+   */
+  private readAll(): SavedTaskViewJSON[] {
+    const data = localStorage.getItem(this.STORAGE_KEY);
+    if (!data) return [];
+
+    try {
+      return JSON.parse(data);
+    } catch (error) {
+      console.error('Error parsing saved task views from localStorage:', error);
+      throw new Error('Stored task views could not be read; refusing to overwrite them');
+    }
+  }
+
+  private writeAll(views: SavedTaskViewJSON[]): void {
+    localStorage.setItem(this.STORAGE_KEY, JSON.stringify(views));
+  }
+}
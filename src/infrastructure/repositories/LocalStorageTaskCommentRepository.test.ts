@@ -0,0 +1,31 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { LocalStorageTaskCommentRepository } from './LocalStorageTaskCommentRepository';
+import { TaskComment } from '../../domain/entities/TaskComment';
+import { CommentBody } from '../../domain/valueObjects/CommentBody';
+import { TaskId } from '../../domain/valueObjects/TaskId';
+import { UserId } from '../../domain/valueObjects/UserId';
+
+describe('LocalStorageTaskCommentRepository', () => {
+  const STORAGE_KEY = 'ddd-task-comments';
+  let repository: LocalStorageTaskCommentRepository;
+
+  beforeEach(() => {
+    localStorage.clear();
+    repository = new LocalStorageTaskCommentRepository();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should refuse to overwrite comments it cannot read', async () => {
+    localStorage.setItem(STORAGE_KEY, '[{"id": "c-1", "body":');
+    const comment = TaskComment.create(TaskId.create(), UserId.create('user-123'), CommentBody.create('Hello'), []);
+
+    await expect(repository.save(comment)).rejects.toThrow('could not be read');
+    await expect(repository.findByTaskId(comment.taskId)).rejects.toThrow('could not be read');
+
+    expect(localStorage.getItem(STORAGE_KEY)).toBe('[{"id": "c-1", "body":');
+  });
+});
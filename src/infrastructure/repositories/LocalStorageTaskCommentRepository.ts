@@ -0,0 +1,41 @@
+import { TaskComment, TaskCommentJSON } from '../../domain/entities/TaskComment';
+import { ITaskCommentRepository } from '../../domain/repositories/ITaskCommentRepository';
+import { TaskId } from '../../domain/valueObjects/TaskId';
+
+export class LocalStorageTaskCommentRepository implements ITaskCommentRepository {
+  private readonly STORAGE_KEY = 'ddd-task-comments';
+
+  async findById(id: string): Promise<TaskComment | null> {
+    const record = this.readAll().find(comment => comment.id === id);
+    return record ? TaskComment.reconstitute(record) : null;
+  }
+
+  async findByTaskId(taskId: TaskId): Promise<TaskComment[]> {
+    return this.readAll()
+      .filter(comment => comment.taskId === taskId.toString())
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+      .map(record => TaskComment.reconstitute(record));
+  }
+
+  async save(comment: TaskComment): Promise<void> {
+    const comments = this.readAll().filter(c => c.id !== comment.id);
+    comments.push(comment.toJSON());
+    localStorage.setItem(this.STORAGE_KEY, JSON.stringify(comments));
+  }
+
+  /**
+   * Throws rather than returning no comments on corrupted data, so a
+   * following save cannot overwrite every other comment.
+   */
+  private readAll(): TaskCommentJSON[] {
+    const data = localStorage.getItem(this.STORAGE_KEY);
+    if (!data) return [];
+
+    try {
+      return JSON.parse(data);
+    } catch (error) {
+      console.error('Error parsing task comments from localStorage:', error);
+      throw new Error('Stored task comments could not be read; refusing to overwrite them');
+    }
+  }
+}
@@ -0,0 +1,71 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { LocalStorageTaskRepository } from './LocalStorageTaskRepository';
+import { Task } from '../../domain/entities/Task';
+import { TaskTitle } from '../../domain/valueObjects/TaskTitle';
+import { UserId } from '../../domain/valueObjects/UserId';
+import { ConcurrencyConflictError } from '../../domain/exceptions/TaskExceptions';
+
+describe('LocalStorageTaskRepository', () => {
+  let repository: LocalStorageTaskRepository;
+  let userId: UserId;
+
+  beforeEach(() => {
+    localStorage.clear();
+    repository = new LocalStorageTaskRepository();
+    userId = UserId.create('user-123');
+  });
+
+  describe('save', () => {
+    it('should bump the version on every write', async () => {
+      const task = Task.create(TaskTitle.create('Versioned'));
+
+      await repository.save(task);
+      await repository.save(task);
+
+      expect(task.version).toBe(2);
+      const stored = await repository.findById(task.id);
+      expect(stored?.version).toBe(2);
+    });
+
+    it('should reject a save based on a stale copy', async () => {
+      const task = Task.create(TaskTitle.create('Shared'));
+      await repository.save(task);
+
+      const firstTab = (await repository.findById(task.id))!;
+      const secondTab = (await repository.findById(task.id))!;
+
+      firstTab.assignTo(userId, userId);
+      await repository.save(firstTab);
+
+      secondTab.assignTo(UserId.create('user-456'), userId);
+      await expect(repository.save(secondTab)).rejects.toBeInstanceOf(ConcurrencyConflictError);
+
+      const stored = await repository.findById(task.id);
+      expect(stored?.isAssignedTo(userId)).toBe(true);
+    });
+
+    it('should write nothing from saveAll when any task conflicts', async () => {
+      const fresh = Task.create(TaskTitle.create('Fresh'));
+      const stale = Task.create(TaskTitle.create('Stale'));
+      await repository.save(stale);
+      const staleCopy = (await repository.findById(stale.id))!;
+      await repository.save(stale);
+
+      await expect(repository.saveAll([fresh, staleCopy])).rejects.toBeInstanceOf(ConcurrencyConflictError);
+
+      expect(await repository.findById(fresh.id)).toBeNull();
+      expect(fresh.version).toBe(0);
+    });
+
+    it('should treat legacy records without a version as version 0', async () => {
+      const task = Task.create(TaskTitle.create('Legacy'));
+      const { version, schemaVersion, ...legacy } = task.toDTO() as any;
+      localStorage.setItem(LocalStorageTaskRepository.STORAGE_KEY, JSON.stringify([legacy]));
+
+      const loaded = (await repository.findById(task.id))!;
+      await repository.save(loaded);
+
+      expect(loaded.version).toBe(1);
+    });
+  });
+});
@@ -1,28 +1,41 @@
 import { Task } from '../../domain/entities/Task';
 import { TaskId } from '../../domain/valueObjects/TaskId';
-import { TaskTitle } from '../../domain/valueObjects/TaskTitle';
-import { TaskStatus } from '../../domain/valueObjects/TaskStatus';
-import { TaskPriority, PriorityLevel } from '../../domain/valueObjects/TaskPriority';
-import { TaskAssignment } from '../../domain/valueObjects/TaskAssignment';
-import { TaskDependency, DependencyType } from '../../domain/valueObjects/TaskDependency';
-import { UserId } from '../../domain/valueObjects/UserId';
 import { ITaskRepository } from '../../domain/repositories/ITaskRepository';
+import { TaskQuery, TaskQueryResult } from '../../domain/repositories/TaskQuery';
+import { ConcurrencyConflictError } from '../../domain/exceptions/TaskExceptions';
+import { TaskMapper } from './TaskMapper';
 
 export class LocalStorageTaskRepository implements ITaskRepository {
-  private readonly STORAGE_KEY = 'ddd-tasks';
+  static readonly STORAGE_KEY = 'ddd-tasks';
 
   async save(task: Task): Promise<void> {
-    const tasks = await this.findAll();
-    const index = tasks.findIndex(t => t.id.equals(task.id));
-    
-    if (index >= 0) {
-      tasks[index] = task;
-    } else {
-      tasks.push(task);
+    await this.saveAll([task]);
+  }
+
+  async saveAll(tasks: Task[]): Promise<void> {
+    const records = LocalStorageTaskRepository.readRecords();
+
+    // Check every task before writing anything, so a conflict leaves storage untouched
+    for (const task of tasks) {
+      const stored = records.find(r => r.id === task.id.toString());
+      const storedVersion = stored?.version ?? 0;
+      if (storedVersion !== task.version) {
+        throw new ConcurrencyConflictError(task.id, task.version, storedVersion);
+      }
     }
-    
-    const dtos = tasks.map(t => t.toDTO());
-    localStorage.setItem(this.STORAGE_KEY, JSON.stringify(dtos));
+
+    for (const task of tasks) {
+      const record = TaskMapper.toRecord(task, task.version + 1);
+      const index = records.findIndex(r => r.id === record.id);
+      if (index >= 0) {
+        records[index] = record;
+      } else {
+        records.push(record);
+      }
+    }
+
+    this.writeRecords(records);
+    tasks.forEach(task => task.incrementVersion());
   }
 
   async findById(id: TaskId): Promise<Task | null> {
@@ -31,46 +44,36 @@ export class LocalStorageTaskRepository implements ITaskRepository {
   }
 
   async findAll(): Promise<Task[]> {
-    const data = localStorage.getItem(this.STORAGE_KEY);
+    return LocalStorageTaskRepository.readRecords().map(record => TaskMapper.toDomain(record));
+  }
+
+  async findByQuery(query: TaskQuery): Promise<TaskQueryResult> {
+    const tasks = await this.findAll();
+    return query.apply(tasks);
+  }
+
+  async delete(id: TaskId): Promise<void> {
+    const records = LocalStorageTaskRepository.readRecords();
+    this.writeRecords(records.filter(record => record.id !== id.toString()));
+  }
+
+  /**
+   * Reads the raw stored records. Throws rather than returning an empty
+   * list on corrupted data, so a following write cannot overwrite it.
+   */
+  static readRecords(): Record<string, any>[] {
+    const data = localStorage.getItem(LocalStorageTaskRepository.STORAGE_KEY);
     if (!data) return [];
-    
+
     try {
-      const dtos = JSON.parse(data);
-      return dtos.map((dto: any) => 
-        Task.reconstitute({
-          id: TaskId.fromString(dto.id),
-          title: TaskTitle.create(dto.title),
-          status: TaskStatus.fromString(dto.status),
-          priority: TaskPriority.reconstitute(
-            dto.priority.level as PriorityLevel,
-            dto.priority.autoEscalationDate ? new Date(dto.priority.autoEscalationDate) : undefined
-          ),
-          assignment: dto.assignment ? TaskAssignment.reconstitute(
-            UserId.create(dto.assignment.assignedTo),
-            new Date(dto.assignment.assignedAt),
-            UserId.create(dto.assignment.assignedBy)
-          ) : undefined,
-          dependencies: dto.dependencies.map((dep: any) => 
-            TaskDependency.reconstitute(
-              TaskId.fromString(dep.dependentTaskId),
-              dep.type as DependencyType
-            )
-          ),
-          createdAt: new Date(dto.createdAt),
-          completedAt: dto.completedAt ? new Date(dto.completedAt) : undefined,
-          dueDate: dto.dueDate ? new Date(dto.dueDate) : undefined
-        })
-      );
+      return JSON.parse(data);
     } catch (error) {
       console.error('Error parsing tasks from localStorage:', error);
-      return [];
+      throw new Error('Stored tasks could not be read; refusing to overwrite them');
     }
   }
 
-  async delete(id: TaskId): Promise<void> {
-    const tasks = await this.findAll();
-    const filtered = tasks.filter(task => !task.id.equals(id));
-    const dtos = filtered.map(t => t.toDTO());
-    localStorage.setItem(this.STORAGE_KEY, JSON.stringify(dtos));
+  private writeRecords(records: Record<string, any>[]): void {
+    localStorage.setItem(LocalStorageTaskRepository.STORAGE_KEY, JSON.stringify(records));
   }
 }
@@ -0,0 +1,40 @@
+import { TaskWorkflow, WorkflowDefinition } from '../../domain/valueObjects/TaskWorkflow';
+import { ITaskWorkflowRepository } from '../../domain/repositories/ITaskWorkflowRepository';
+
+export class LocalStorageTaskWorkflowRepository implements ITaskWorkflowRepository {
+  private readonly STORAGE_KEY = 'ddd-task-workflows';
+
+  async findByWorkspace(workspaceId: string): Promise<TaskWorkflow | null> {
+    const definition = this.readAll()[workspaceId];
+    if (!definition) return null;
+
+    try {
+      return TaskWorkflow.define(definition);
+    } catch (error) {
+      console.error('Error reading stored workflow:', error);
+      throw new Error('Stored task workflow is invalid; refusing to overwrite it');
+    }
+  }
+
+  async save(workspaceId: string, workflow: TaskWorkflow): Promise<void> {
+    const workflows = this.readAll();
+    workflows[workspaceId] = workflow.toJSON();
+    localStorage.setItem(this.STORAGE_KEY, JSON.stringify(workflows));
+  }
+
+  /**
+   * Throws rather than returning no workflows on corrupted data, so a
+   * following save cannot overwrite the other workspaces' workflows.
+   */
+  private readAll(): Record<string, WorkflowDefinition> {
+    const data = localStorage.getItem(this.STORAGE_KEY);
+    if (!data) return {};
+
+    try {
+      return JSON.parse(data);
+    } catch (error) {
+      console.error('Error parsing task workflows from localStorage:', error);
+      throw new Error('Stored task workflows could not be read; refusing to overwrite them');
+    }
+  }
+}
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { TaskMapper } from './TaskMapper';
+import { CURRENT_TASK_SCHEMA_VERSION, migrateTaskRecord } from './TaskRecordMigrations';
+import { Task } from '../../domain/entities/Task';
+import { TaskTitle } from '../../domain/valueObjects/TaskTitle';
+import { TaskPriority } from '../../domain/valueObjects/TaskPriority';
+import { TaskDependency } from '../../domain/valueObjects/TaskDependency';
+import { TaskId } from '../../domain/valueObjects/TaskId';
+import { UserId } from '../../domain/valueObjects/UserId';
+import { TaskLabel } from '../../domain/valueObjects/TaskLabel';
+import { TaskEstimate } from '../../domain/valueObjects/TaskEstimate';
+
+describe('TaskMapper', () => {
+  const legacyRecord = {
+    id: 'task-1',
+    title: 'Legacy Task',
+    status: 'TODO',
+    priority: { level: 3 },
+    assignment: {
+      assignedTo: 'user-123',
+      assignedAt: '2025-01-01T00:00:00.000Z',
+      assignedBy: 'manager-456',
+    },
+    dependencies: [{ dependentTaskId: 'task-2', type: 'BLOCKED_BY' }],
+    createdAt: '2025-01-01T00:00:00.000Z',
+    dueDate: '2025-02-01T00:00:00.000Z',
+    isOverdue: true,
+    ageInDays: 12,
+  };
+
+  describe('toRecord', () => {
+    it('should stamp the current schema version and drop derived fields', () => {
+      const task = Task.create(TaskTitle.create('New Task'), TaskPriority.high());
+
+      const record = TaskMapper.toRecord(task);
+
+      expect(record.schemaVersion).toBe(CURRENT_TASK_SCHEMA_VERSION);
+      expect(record).not.toHaveProperty('isOverdue');
+      expect(record).not.toHaveProperty('ageInDays');
+    });
+  });
+
+  describe('toDomain', () => {
+    it('should round-trip a task through its record', () => {
+      const userId = UserId.create('user-123');
+      const task = Task.create(TaskTitle.create('Round Trip'), TaskPriority.low(), new Date('2025-03-01'));
+      task.assignTo(userId, userId);
+      task.addDependency(TaskDependency.blockedBy(TaskId.fromString('other-task')));
+      const item = task.addChecklistItem('First step', userId);
+      task.toggleChecklistItem(item.id, userId);
+      task.addChecklistItem('Optional step', userId, false);
+      task.addLabel(TaskLabel.create('Backend'), userId);
+      task.setEstimate(TaskEstimate.points(3), userId);
+      task.logWork(userId, 45, new Date('2025-02-20T09:00:00.000Z'), 'Spike');
+
+      const restored = TaskMapper.toDomain(JSON.parse(JSON.stringify(TaskMapper.toRecord(task))));
+
+      expect(TaskMapper.toRecord(restored)).toEqual(TaskMapper.toRecord(task));
+    });
+
+    it('should read legacy localStorage records without a schema version', () => {
+      const task = TaskMapper.toDomain(legacyRecord);
+
+      expect(task.id.toString()).toBe('task-1');
+      expect(task.isAssignedTo(UserId.create('user-123'))).toBe(true);
+      expect(task.getBlockingDependencies()).toHaveLength(1);
+    });
+  });
+
+  describe('migrateTaskRecord', () => {
+    it('should upgrade v1 records to the current schema', () => {
+      const migrated = migrateTaskRecord(legacyRecord);
+
+      expect(migrated.schemaVersion).toBe(CURRENT_TASK_SCHEMA_VERSION);
+      expect(migrated).not.toHaveProperty('isOverdue');
+      expect(migrated.title).toBe('Legacy Task');
+      expect(migrated.version).toBe(0);
+      expect(migrated.checklist).toEqual([]);
+      expect(migrated.labels).toEqual([]);
+      expect(migrated.workLog).toEqual([]);
+    });
+
+    it('should leave current records untouched', () => {
+      const record = TaskMapper.toRecord(Task.create(TaskTitle.create('Current')));
+
+      expect(migrateTaskRecord(record)).toEqual(record);
+    });
+
+    it('should reject records from a newer schema', () => {
+      expect(() =>
+        migrateTaskRecord({ ...legacyRecord, schemaVersion: CURRENT_TASK_SCHEMA_VERSION + 1 })
+      ).toThrow(/newer than supported/);
+    });
+  });
+});
@@ -0,0 +1,65 @@
+import { Task } from '../../domain/entities/Task';
+import { TaskId } from '../../domain/valueObjects/TaskId';
+import { TaskTitle } from '../../domain/valueObjects/TaskTitle';
+import { TaskStatus } from '../../domain/valueObjects/TaskStatus';
+import { TaskPriority, PriorityLevel } from '../../domain/valueObjects/TaskPriority';
+import { TaskAssignment } from '../../domain/valueObjects/TaskAssignment';
+import { TaskDependency, DependencyType } from '../../domain/valueObjects/TaskDependency';
+import { UserId } from '../../domain/valueObjects/UserId';
+import { TaskRecurrence } from '../../domain/valueObjects/TaskRecurrence';
+import { TaskEstimate } from '../../domain/valueObjects/TaskEstimate';
+import { ChecklistItem } from '../../domain/entities/ChecklistItem';
+import { WorkLogEntry } from '../../domain/entities/WorkLogEntry';
+import { CURRENT_TASK_SCHEMA_VERSION, TaskRecord, migrateTaskRecord } from './TaskRecordMigrations';
+
+/**
+ * Maps Task aggregates to and from their persisted record shape.
+ */
+export class TaskMapper {
+  static toRecord(task: Task, version: number = task.version): TaskRecord {
+    const { isOverdue, ageInDays, ...persisted } = task.toDTO();
+    return { ...persisted, version, schemaVersion: CURRENT_TASK_SCHEMA_VERSION };
+  }
+
+  /**
+   * Accepts a record of any known schema version and upgrades it first.
+   */
+  static toDomain(raw: Record<string, any>): Task {
+    const record = migrateTaskRecord(raw);
+
+    return Task.reconstitute({
+      id: TaskId.fromString(record.id),
+      title: TaskTitle.create(record.title),
+      status: TaskStatus.fromString(record.status),
+      priority: TaskPriority.reconstitute(
+        record.priority.level as PriorityLevel,
+        record.priority.autoEscalationDate ? new Date(record.priority.autoEscalationDate) : undefined
+      ),
+      assignment: record.assignment ? TaskAssignment.reconstitute(
+        UserId.create(record.assignment.assignedTo),
+        new Date(record.assignment.assignedAt),
+        UserId.create(record.assignment.assignedBy)
+      ) : undefined,
+      dependencies: record.dependencies.map(dep =>
+        TaskDependency.reconstitute(
+          TaskId.fromString(dep.dependentTaskId),
+          dep.type as DependencyType
+        )
+      ),
+      checklist: record.checklist.map(item => ChecklistItem.reconstitute(item)),
+      labels: record.labels,
+      estimate: record.estimate ? TaskEstimate.fromJSON(record.estimate) : undefined,
+      workLog: record.workLog.map(entry => WorkLogEntry.reconstitute(entry)),
+      runningTimer: record.runningTimer ? {
+        userId: UserId.create(record.runningTimer.userId),
+        startedAt: new Date(record.runningTimer.startedAt)
+      } : undefined,
+      createdAt: new Date(record.createdAt),
+      completedAt: record.completedAt ? new Date(record.completedAt) : undefined,
+      dueDate: record.dueDate ? new Date(record.dueDate) : undefined,
+      recurrence: record.recurrence ? TaskRecurrence.fromJSON(record.recurrence) : undefined,
+      lastReminderAt: record.lastReminderAt ? new Date(record.lastReminderAt) : undefined,
+      version: record.version
+    });
+  }
+}
@@ -0,0 +1,91 @@
+import { TaskRecurrenceJSON } from '../../domain/valueObjects/TaskRecurrence';
+import { TaskEstimateJSON } from '../../domain/valueObjects/TaskEstimate';
+import { WorkLogEntryJSON } from '../../domain/entities/WorkLogEntry';
+
+/**
+ * Versioned persistence schema for Task records.
+ *
+ * v1: the original `Task.toDTO()` output stored in localStorage, including the
+ *     derived `isOverdue` and `ageInDays` fields and no version stamp.
+ * v2: derived fields dropped and `schemaVersion` added.
+ * v3: `version` added for optimistic concurrency, starting at 0.
+ * v4: `checklist` added, empty for existing tasks.
+ * v5: `labels` added, empty for existing tasks.
+ * v6: `workLog` added, empty for existing tasks, with optional `estimate`
+ *     and `runningTimer`.
+ *
+ * To change the stored shape, bump CURRENT_TASK_SCHEMA_VERSION and append a
+ * step that upgrades records from the previous version.
+ */
+export const CURRENT_TASK_SCHEMA_VERSION = 6;
+
+export interface TaskRecord {
+  schemaVersion: number;
+  id: string;
+  title: string;
+  status: string;
+  priority: { level: number; autoEscalationDate?: string };
+  assignment?: { assignedTo: string; assignedAt: string; assignedBy: string };
+  dependencies: { dependentTaskId: string; type: string }[];
+  checklist: { id: string; title: string; done: boolean; required: boolean }[];
+  labels: string[];
+  estimate?: TaskEstimateJSON;
+  workLog: WorkLogEntryJSON[];
+  runningTimer?: { userId: string; startedAt: string };
+  createdAt: string;
+  completedAt?: string;
+  dueDate?: string;
+  recurrence?: TaskRecurrenceJSON;
+  lastReminderAt?: string;
+  version: number;
+}
+
+interface MigrationStep {
+  from: number;
+  migrate(record: Record<string, any>): Record<string, any>;
+}
+
+const MIGRATIONS: MigrationStep[] = [
+  {
+    from: 1,
+    migrate: ({ isOverdue, ageInDays, ...rest }) => ({ ...rest, schemaVersion: 2 })
+  },
+  {
+    from: 2,
+    migrate: record => ({ ...record, version: record.version ?? 0, schemaVersion: 3 })
+  },
+  {
+    from: 3,
+    migrate: record => ({ ...record, checklist: record.checklist ?? [], schemaVersion: 4 })
+  },
+  {
+    from: 4,
+    migrate: record => ({ ...record, labels: record.labels ?? [], schemaVersion: 5 })
+  },
+  {
+    from: 5,
+    migrate: record => ({ ...record, workLog: record.workLog ?? [], schemaVersion: 6 })
+  }
+];
+
+export function migrateTaskRecord(raw: Record<string, any>): TaskRecord {
+  let record = raw;
+  let version: number = record.schemaVersion ?? 1;
+
+  if (version > CURRENT_TASK_SCHEMA_VERSION) {
+    throw new Error(
+      `Task record ${record.id} uses schema v${version}, newer than supported v${CURRENT_TASK_SCHEMA_VERSION}`
+    );
+  }
+
+  while (version < CURRENT_TASK_SCHEMA_VERSION) {
+    const step = MIGRATIONS.find(m => m.from === version);
+    if (!step) {
+      throw new Error(`No migration from task schema v${version}`);
+    }
+    record = step.migrate(record);
+    version = record.schemaVersion;
+  }
+
+  return record as TaskRecord;
+}
@@ -0,0 +1,24 @@
+import { IClock } from '../../application/services/IClock';
+
+/**
+ * Manually controlled clock for tests and demos.
+ */
+export class FakeClock implements IClock {
+  private current: Date;
+
+  constructor(start: Date = new Date()) {
+    this.current = new Date(start.getTime());
+  }
+
+  now(): Date {
+    return new Date(this.current.getTime());
+  }
+
+  setNow(date: Date): void {
+    this.current = new Date(date.getTime());
+  }
+
+  advanceBy(ms: number): void {
+    this.current = new Date(this.current.getTime() + ms);
+  }
+}
@@ -0,0 +1,58 @@
+import { IScheduler, ScheduledJob } from '../../application/services/IScheduler';
+import { FakeClock } from './FakeClock';
+
+interface FakeScheduledJob {
+  job: ScheduledJob;
+  intervalMs: number;
+  nextRunAt: number;
+  cancelled: boolean;
+}
+
+/**
+ * Scheduler driven by a FakeClock: jobs only run when time is advanced
+ * through `advanceBy`, in the order they fall due.
+ */
+export class FakeScheduler implements IScheduler {
+  private jobs: FakeScheduledJob[] = [];
+
+  constructor(private clock: FakeClock) {}
+
+  scheduleRecurring(job: ScheduledJob, intervalMs: number): () => void {
+    const scheduled: FakeScheduledJob = {
+      job,
+      intervalMs,
+      nextRunAt: this.clock.now().getTime() + intervalMs,
+      cancelled: false
+    };
+    this.jobs.push(scheduled);
+
+    return () => {
+      scheduled.cancelled = true;
+      this.jobs = this.jobs.filter(j => j !== scheduled);
+    };
+  }
+
+  async advanceBy(ms: number): Promise<void> {
+    const target = this.clock.now().getTime() + ms;
+
+    let next = this.nextDueJob(target);
+    while (next) {
+      this.clock.setNow(new Date(next.nextRunAt));
+      next.nextRunAt += next.intervalMs;
+      await next.job();
+      next = this.nextDueJob(target);
+    }
+
+    this.clock.setNow(new Date(target));
+  }
+
+  get pendingJobCount(): number {
+    return this.jobs.length;
+  }
+
+  private nextDueJob(until: number): FakeScheduledJob | undefined {
+    return this.jobs
+      .filter(j => !j.cancelled && j.nextRunAt <= until)
+      .sort((a, b) => a.nextRunAt - b.nextRunAt)[0];
+  }
+}
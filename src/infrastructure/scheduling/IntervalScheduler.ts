@@ -0,0 +1,15 @@
+import { IScheduler, ScheduledJob } from '../../application/services/IScheduler';
+
+export class IntervalScheduler implements IScheduler {
+  scheduleRecurring(job: ScheduledJob, intervalMs: number): () => void {
+    const handle = setInterval(async () => {
+      try {
+        await job();
+      } catch (error) {
+        console.error('Error running scheduled job:', error);
+      }
+    }, intervalMs);
+
+    return () => clearInterval(handle);
+  }
+}
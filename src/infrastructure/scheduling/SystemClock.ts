@@ -0,0 +1,7 @@
+import { IClock } from '../../application/services/IClock';
+
+export class SystemClock implements IClock {
+  now(): Date {
+    return new Date();
+  }
+}
@@ -0,0 +1,41 @@
+import React from 'react';
+import { UserSummary } from '../../application/useCases/GetUsersUseCase';
+import { UserRole } from '../../domain/entities/User';
+
+interface CurrentUserSwitcherProps {
+  users: UserSummary[];
+  currentUserId: string;
+  onChange: (userId: string) => void;
+}
+
+const ROLE_LABELS: Record<UserRole, string> = {
+  [UserRole.MEMBER]: 'Member',
+  [UserRole.LEAD]: 'Lead',
+  [UserRole.ADMIN]: 'Admin'
+};
+
+export const CurrentUserSwitcher: React.FC<CurrentUserSwitcherProps> = ({
+  users,
+  currentUserId,
+  onChange
+}) => {
+  if (users.length === 0) return null;
+
+  return (
+    <label className="flex items-center gap-2 text-sm text-gray-700">
+      <span>Acting as</span>
+      <select
+        aria-label="Current user"
+        value={currentUserId}
+        onChange={(e) => onChange(e.target.value)}
+        className="px-3 py-2 border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+      >
+        {users.map((user) => (
+          <option key={user.id} value={user.id}>
+            {user.name} ({ROLE_LABELS[user.role]}{user.teamNames.length > 0 ? ` · ${user.teamNames.join(', ')}` : ''})
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+};
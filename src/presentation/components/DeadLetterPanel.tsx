@@ -0,0 +1,58 @@
+import React from 'react';
+import { DeadLetterSummary } from '../../application/useCases/GetDeadLettersUseCase';
+
+interface DeadLetterPanelProps {
+  deadLetters: DeadLetterSummary[];
+  onReplay: (deadLetterId: string) => void;
+  onDiscard: (deadLetterId: string) => void;
+}
+
+export const DeadLetterPanel: React.FC<DeadLetterPanelProps> = ({
+  deadLetters,
+  onReplay,
+  onDiscard
+}) => {
+  if (deadLetters.length === 0) return null;
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6 border border-red-200">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-semibold text-gray-800">Failed Events</h2>
+        <span className="text-sm text-red-600">{deadLetters.length} dead-lettered</span>
+      </div>
+
+      <ul className="space-y-3 max-h-[400px] overflow-y-auto">
+        {deadLetters.map((deadLetter) => (
+          <li key={deadLetter.id} className="p-3 bg-red-50 rounded-lg border border-red-100">
+            <div className="flex justify-between items-start gap-2">
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-gray-800">{deadLetter.eventType}</p>
+                <p className="text-xs text-gray-500">
+                  {deadLetter.subscriptionName} · {deadLetter.attempts} attempt(s) ·{' '}
+                  {deadLetter.failedAt.toLocaleString()}
+                </p>
+                <p className="text-xs text-red-700 mt-1 break-words">{deadLetter.error}</p>
+              </div>
+              <div className="flex flex-col gap-1 shrink-0">
+                <button
+                  onClick={() => onReplay(deadLetter.id)}
+                  className="text-xs px-2 py-1 bg-indigo-600 text-white rounded hover:bg-indigo-700"
+                  aria-label={`Replay ${deadLetter.eventType} for ${deadLetter.subscriptionName}`}
+                >
+                  Replay
+                </button>
+                <button
+                  onClick={() => onDiscard(deadLetter.id)}
+                  className="text-xs px-2 py-1 text-red-600 hover:text-red-800"
+                  aria-label={`Discard ${deadLetter.eventType} for ${deadLetter.subscriptionName}`}
+                >
+                  Discard
+                </button>
+              </div>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
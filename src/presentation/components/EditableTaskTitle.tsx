@@ -0,0 +1,75 @@
+import React, { useState } from 'react';
+
+interface EditableTaskTitleProps {
+  title: string;
+  onRename: (title: string) => Promise<void>;
+}
+
+export const EditableTaskTitle: React.FC<EditableTaskTitleProps> = ({ title, onRename }) => {
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState(title);
+
+  const startEditing = () => {
+    setDraft(title);
+    setEditing(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = draft.trim();
+    if (!trimmed || trimmed === title) {
+      setEditing(false);
+      return;
+    }
+
+    try {
+      await onRename(trimmed);
+      setEditing(false);
+    } catch (err) {
+      // Stay in edit mode so the user can fix the title
+      console.error('Failed to rename task:', err);
+    }
+  };
+
+  if (!editing) {
+    return (
+      <div className="flex items-center gap-2">
+        <h3 className="text-lg font-semibold text-gray-900">{title}</h3>
+        <button
+          onClick={startEditing}
+          aria-label={`Rename ${title}`}
+          className="text-sm text-gray-400 hover:text-indigo-600"
+        >
+          ✏️
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="flex items-center gap-2 flex-1 mr-2">
+      <input
+        type="text"
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={(e) => e.key === 'Escape' && setEditing(false)}
+        aria-label="Task title"
+        autoFocus
+        className="flex-1 px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+      />
+      <button
+        type="submit"
+        className="px-3 py-1 bg-indigo-600 text-white text-sm rounded-lg hover:bg-indigo-700 transition"
+      >
+        Save
+      </button>
+      <button
+        type="button"
+        onClick={() => setEditing(false)}
+        className="px-3 py-1 bg-gray-200 text-gray-700 text-sm rounded-lg hover:bg-gray-300 transition"
+      >
+        Cancel
+      </button>
+    </form>
+  );
+};
@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import { LabelSummary } from '../../application/useCases/GetLabelCatalogUseCase';
+
+interface LabelCatalogPanelProps {
+  labels: LabelSummary[];
+  onDefine: (name: string, color: string) => Promise<void>;
+  onDelete: (name: string) => Promise<void>;
+}
+
+const DEFAULT_COLOR = '#6366f1';
+
+/**
+ * The workspace's labels. Defining a label with an existing name recolors it.
+ */
+export const LabelCatalogPanel: React.FC<LabelCatalogPanelProps> = ({ labels, onDefine, onDelete }) => {
+  const [name, setName] = useState('');
+  const [color, setColor] = useState(DEFAULT_COLOR);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    try {
+      await onDefine(name, color);
+      setName('');
+    } catch (err) {
+      console.error('Failed to save label:', err);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6">
+      <h2 className="text-xl font-semibold text-gray-800 mb-4">Labels</h2>
+
+      {labels.length === 0 ? (
+        <p className="text-sm text-gray-500 mb-4">No labels yet</p>
+      ) : (
+        <ul className="flex flex-wrap gap-2 mb-4">
+          {labels.map(label => (
+            <li
+              key={label.name}
+              style={{ backgroundColor: label.color }}
+              className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium text-white"
+            >
+              <button
+                onClick={() => {
+                  setName(label.name);
+                  setColor(label.color);
+                }}
+                aria-label={`Edit label ${label.name}`}
+              >
+                {label.name}
+              </button>
+              <button
+                onClick={() => onDelete(label.name).catch(err => console.error('Failed to delete label:', err))}
+                aria-label={`Delete label ${label.name}`}
+                className="hover:text-gray-200"
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form onSubmit={handleSubmit} className="flex items-center gap-2">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          aria-label="Label name"
+          placeholder="New label…"
+          className="flex-1 min-w-0 px-3 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+        />
+        <input
+          type="color"
+          value={color}
+          onChange={(e) => setColor(e.target.value)}
+          aria-label="Label color"
+          className="w-8 h-8 rounded cursor-pointer"
+        />
+        <button
+          type="submit"
+          className="px-3 py-1 bg-indigo-600 text-white text-sm rounded-lg hover:bg-indigo-700 transition"
+        >
+          Save label
+        </button>
+      </form>
+    </div>
+  );
+};
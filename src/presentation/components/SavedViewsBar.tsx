@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { SavedTaskViewSummary } from '../../application/useCases/GetSavedTaskViewsUseCase';
+
+interface SavedViewsBarProps {
+  views: SavedTaskViewSummary[];
+  activeViewId: string | null;
+  onSelect: (viewId: string | null) => void;
+  onSave: (name: string) => Promise<void>;
+  onDelete: (viewId: string) => Promise<void>;
+}
+
+/**
+ * Switches between the user's saved views and saves the current filters
+ * and sort as a new one.
+ */
+export const SavedViewsBar: React.FC<SavedViewsBarProps> = ({
+  views,
+  activeViewId,
+  onSelect,
+  onSave,
+  onDelete
+}) => {
+  const [naming, setNaming] = useState(false);
+  const [name, setName] = useState('');
+  const activeView = views.find(view => view.id === activeViewId);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    try {
+      await onSave(name);
+      setName('');
+      setNaming(false);
+    } catch (err) {
+      console.error('Failed to save view:', err);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mb-2 text-sm">
+      <select
+        aria-label="Saved view"
+        value={activeViewId ?? ''}
+        onChange={(e) => onSelect(e.target.value || null)}
+        className="px-2 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+      >
+        <option value="">All tasks</option>
+        {views.map(view => (
+          <option key={view.id} value={view.id}>{view.name}</option>
+        ))}
+      </select>
+
+      {activeView && (
+        <button
+          onClick={() => onDelete(activeView.id).catch(err => console.error('Failed to delete view:', err))}
+          aria-label={`Delete view ${activeView.name}`}
+          className="px-2 py-1 text-gray-500 hover:text-red-600"
+        >
+          🗑
+        </button>
+      )}
+
+      {naming ? (
+        <form onSubmit={handleSave} className="flex items-center gap-2">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            aria-label="View name"
+            placeholder="Name this view…"
+            autoFocus
+            className="px-2 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+          />
+          <button type="submit" className="px-3 py-1 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition">
+            Save
+          </button>
+          <button type="button" onClick={() => setNaming(false)} className="px-2 py-1 text-gray-600 hover:text-gray-800">
+            Cancel
+          </button>
+        </form>
+      ) : (
+        <button
+          onClick={() => {
+            setName(activeView?.name ?? '');
+            setNaming(true);
+          }}
+          className="px-2 py-1 text-indigo-600 hover:text-indigo-800 font-medium"
+        >
+          💾 Save view
+        </button>
+      )}
+    </div>
+  );
+};
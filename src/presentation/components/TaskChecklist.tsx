@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import { ChecklistItem } from '../../domain/entities/ChecklistItem';
+
+interface TaskChecklistProps {
+  taskTitle: string;
+  items: ReadonlyArray<ChecklistItem>;
+  progress: number;
+  /** False for completed tasks, whose checklist is read-only */
+  editable: boolean;
+  onAdd: (title: string, required: boolean) => Promise<void>;
+  onToggle: (itemId: string) => Promise<void>;
+  onRemove: (itemId: string) => Promise<void>;
+}
+
+export const TaskChecklist: React.FC<TaskChecklistProps> = ({
+  taskTitle,
+  items,
+  progress,
+  editable,
+  onAdd,
+  onToggle,
+  onRemove
+}) => {
+  const [draft, setDraft] = useState('');
+  const [optional, setOptional] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.trim()) return;
+
+    try {
+      await onAdd(draft, !optional);
+      setDraft('');
+      setOptional(false);
+    } catch (err) {
+      // Keep the text so the user can fix it
+      console.error('Failed to add checklist item:', err);
+    }
+  };
+
+  const run = (action: () => Promise<void>, failure: string) => {
+    action().catch((err) => console.error(failure, err));
+  };
+
+  if (items.length === 0 && !editable) {
+    return null;
+  }
+
+  return (
+    <div className="mt-3 text-sm">
+      {items.length > 0 && (
+        <div className="flex items-center gap-2 mb-2">
+          <div
+            role="progressbar"
+            aria-label={`Checklist progress of ${taskTitle}`}
+            aria-valuenow={progress}
+            aria-valuemin={0}
+            aria-valuemax={100}
+            className="flex-1 h-2 bg-gray-200 rounded-full overflow-hidden"
+          >
+            <div className="h-full bg-green-500 transition-all" style={{ width: `${progress}%` }} />
+          </div>
+          <span className="text-xs text-gray-600">{progress}% done</span>
+        </div>
+      )}
+
+      <ul className="space-y-1">
+        {items.map((item) => (
+          <li key={item.id} className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              aria-label={item.title}
+              checked={item.done}
+              disabled={!editable}
+              onChange={() => run(() => onToggle(item.id), 'Failed to update checklist item:')}
+              className="w-4 h-4 text-green-600 rounded focus:ring-green-500"
+            />
+            <span className={item.done ? 'line-through text-gray-400' : 'text-gray-700'}>
+              {item.title}
+            </span>
+            {!item.required && (
+              <span className="px-1.5 py-0.5 bg-gray-100 text-gray-500 rounded text-xs">optional</span>
+            )}
+            {editable && (
+              <button
+                onClick={() => run(() => onRemove(item.id), 'Failed to remove checklist item:')}
+                aria-label={`Remove ${item.title}`}
+                className="text-gray-400 hover:text-red-600"
+              >
+                ×
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {editable && (
+        <form onSubmit={handleSubmit} className="mt-2 flex items-center gap-2">
+          <input
+            type="text"
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            placeholder="Add a checklist item…"
+            aria-label={`New checklist item for ${taskTitle}`}
+            className="flex-1 px-2 py-1 border border-gray-300 rounded-lg text-xs focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+          />
+          <label className="flex items-center gap-1 text-xs text-gray-600">
+            <input
+              type="checkbox"
+              checked={optional}
+              onChange={(e) => setOptional(e.target.checked)}
+            />
+            Optional
+          </label>
+          <button
+            type="submit"
+            className="px-2 py-1 bg-gray-200 text-gray-700 text-xs rounded-lg hover:bg-gray-300 transition"
+          >
+            Add
+          </button>
+        </form>
+      )}
+    </div>
+  );
+};
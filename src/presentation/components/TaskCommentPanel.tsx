@@ -0,0 +1,247 @@
+import React, { useState } from 'react';
+import { CommentThread, TaskCommentSummary } from '../../application/useCases/GetTaskCommentsUseCase';
+import { UserSummary } from '../../application/useCases/GetUsersUseCase';
+
+interface TaskCommentPanelProps {
+  taskTitle: string;
+  threads: CommentThread[];
+  users: UserSummary[];
+  currentUserId: string;
+  onAdd: (body: string, parentId?: string) => Promise<void>;
+  onEdit: (commentId: string, body: string) => Promise<void>;
+  onDelete: (commentId: string) => Promise<void>;
+  onClose: () => void;
+}
+
+// The @handle being typed at the end of the draft, if any
+const TRAILING_MENTION = /(?:^|\s)@([\w-]*)$/;
+const MENTION_TOKEN = /(@[A-Za-z0-9][\w-]*)/g;
+
+interface CommentComposerProps {
+  label: string;
+  submitLabel: string;
+  users: UserSummary[];
+  initialValue?: string;
+  onSubmit: (body: string) => Promise<void>;
+  onCancel?: () => void;
+}
+
+/**
+ * Text box for writing a comment. Typing @ offers the matching users.
+ */
+const CommentComposer: React.FC<CommentComposerProps> = ({
+  label,
+  submitLabel,
+  users,
+  initialValue = '',
+  onSubmit,
+  onCancel
+}) => {
+  const [draft, setDraft] = useState(initialValue);
+
+  const query = draft.match(TRAILING_MENTION)?.[1].toLowerCase();
+  const suggestions = query === undefined
+    ? []
+    : users.filter(u => u.id.toLowerCase().includes(query) || u.name.toLowerCase().includes(query));
+
+  const insertMention = (userId: string) => {
+    setDraft(draft.replace(/@[\w-]*$/, `@${userId} `));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.trim()) return;
+
+    try {
+      await onSubmit(draft);
+      setDraft('');
+    } catch (err) {
+      // Keep the text so the user can fix it
+      console.error('Failed to save comment:', err);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <textarea
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        aria-label={label}
+        placeholder="Write a comment… use @ to mention someone"
+        rows={2}
+        className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+      />
+      {suggestions.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {suggestions.map(user => (
+            <button
+              key={user.id}
+              type="button"
+              onClick={() => insertMention(user.id)}
+              aria-label={`Mention ${user.name}`}
+              className="px-2 py-0.5 bg-indigo-50 text-indigo-700 text-xs rounded hover:bg-indigo-100"
+            >
+              @{user.id} · {user.name}
+            </button>
+          ))}
+        </div>
+      )}
+      <div className="flex justify-end gap-2">
+        {onCancel && (
+          <button type="button" onClick={onCancel} className="px-3 py-1 text-xs text-gray-600 hover:text-gray-800">
+            Cancel
+          </button>
+        )}
+        <button
+          type="submit"
+          className="px-3 py-1 bg-indigo-600 text-white text-xs rounded-lg hover:bg-indigo-700 transition"
+        >
+          {submitLabel}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+/**
+ * Discussion of one task: comments with one level of replies. Authors can
+ * edit and delete their own comments.
+ */
+export const TaskCommentPanel: React.FC<TaskCommentPanelProps> = ({
+  taskTitle,
+  threads,
+  users,
+  currentUserId,
+  onAdd,
+  onEdit,
+  onDelete,
+  onClose
+}) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [replyingToId, setReplyingToId] = useState<string | null>(null);
+
+  const getUserName = (userId: string) => users.find(u => u.id === userId)?.name ?? userId;
+
+  const renderBody = (body: string) =>
+    body.split(MENTION_TOKEN).map((part, index) => {
+      const user = part.startsWith('@') ? users.find(u => u.id === part.slice(1)) : undefined;
+      return user ? (
+        <span key={index} title={user.id} className="font-medium text-indigo-600">@{user.name}</span>
+      ) : (
+        <React.Fragment key={index}>{part}</React.Fragment>
+      );
+    });
+
+  const renderComment = (comment: TaskCommentSummary, isReply: boolean) => {
+    const author = getUserName(comment.authorId);
+    const isOwn = comment.authorId === currentUserId && !comment.deleted;
+
+    return (
+      <article aria-label={`Comment by ${author}`} className="text-sm">
+        <header className="flex items-baseline gap-2">
+          <span className="font-medium text-gray-800">{author}</span>
+          <time className="text-xs text-gray-400">{comment.createdAt.toLocaleString()}</time>
+          {comment.editedAt && !comment.deleted && <span className="text-xs text-gray-400">(edited)</span>}
+        </header>
+
+        {comment.deleted ? (
+          <p className="italic text-gray-400">This comment was deleted</p>
+        ) : editingId === comment.id ? (
+          <CommentComposer
+            label="Edit comment"
+            submitLabel="Save"
+            users={users}
+            initialValue={comment.body}
+            onSubmit={async (body) => {
+              await onEdit(comment.id, body);
+              setEditingId(null);
+            }}
+            onCancel={() => setEditingId(null)}
+          />
+        ) : (
+          <p className="whitespace-pre-wrap text-gray-700">{renderBody(comment.body)}</p>
+        )}
+
+        {!comment.deleted && editingId !== comment.id && (
+          <div className="mt-1 flex gap-3 text-xs">
+            {!isReply && (
+              <button onClick={() => setReplyingToId(comment.id)} className="text-indigo-600 hover:text-indigo-800">
+                Reply
+              </button>
+            )}
+            {isOwn && (
+              <>
+                <button onClick={() => setEditingId(comment.id)} className="text-gray-500 hover:text-gray-700">
+                  Edit
+                </button>
+                <button
+                  onClick={() => onDelete(comment.id).catch(err => console.error('Failed to delete comment:', err))}
+                  className="text-gray-500 hover:text-red-600"
+                >
+                  Delete
+                </button>
+              </>
+            )}
+          </div>
+        )}
+      </article>
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6">
+      <div className="flex justify-between items-center mb-4">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-800">Comments</h2>
+          <p className="text-sm text-gray-500 truncate">{taskTitle}</p>
+        </div>
+        <button
+          onClick={onClose}
+          className="text-sm text-indigo-600 hover:text-indigo-800 font-medium"
+        >
+          Close
+        </button>
+      </div>
+
+      {threads.length === 0 ? (
+        <p className="text-sm text-gray-500 text-center py-4">No comments yet</p>
+      ) : (
+        <ul className="space-y-4 mb-4 max-h-[400px] overflow-y-auto">
+          {threads.map(thread => (
+            <li key={thread.id}>
+              {renderComment(thread, false)}
+              {(thread.replies.length > 0 || replyingToId === thread.id) && (
+                <ul className="mt-2 ml-4 pl-3 border-l border-gray-200 space-y-2">
+                  {thread.replies.map(reply => (
+                    <li key={reply.id}>{renderComment(reply, true)}</li>
+                  ))}
+                  {replyingToId === thread.id && (
+                    <li>
+                      <CommentComposer
+                        label={`Reply to ${getUserName(thread.authorId)}`}
+                        submitLabel="Reply"
+                        users={users}
+                        onSubmit={async (body) => {
+                          await onAdd(body, thread.id);
+                          setReplyingToId(null);
+                        }}
+                        onCancel={() => setReplyingToId(null)}
+                      />
+                    </li>
+                  )}
+                </ul>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <CommentComposer
+        label={`Comment on ${taskTitle}`}
+        submitLabel="Comment"
+        users={users}
+        onSubmit={(body) => onAdd(body)}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,160 @@
+import React, { useMemo } from 'react';
+import { Task } from '../../domain/entities/Task';
+import { TaskDependencyService } from '../../domain/services/TaskDependencyService';
+
+interface TaskDependencyGraphProps {
+  tasks: Task[];
+}
+
+const NODE_WIDTH = 160;
+const NODE_HEIGHT = 44;
+const COLUMN_GAP = 60;
+const ROW_GAP = 20;
+
+const truncate = (text: string, maxLength: number): string =>
+  text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+
+export const TaskDependencyGraph: React.FC<TaskDependencyGraphProps> = ({ tasks }) => {
+  const graph = useMemo(() => {
+    const byId = new Map(tasks.map(t => [t.id.toString(), t]));
+    const edges = tasks.flatMap(task =>
+      task.getBlockingDependencies()
+        .map(dep => dep.getDependentTaskId().toString())
+        .filter(blockerId => byId.has(blockerId))
+        .map(blockerId => ({ from: blockerId, to: task.id.toString() }))
+    );
+
+    const connectedIds = new Set(edges.flatMap(e => [e.from, e.to]));
+    const nodes = tasks.filter(t => connectedIds.has(t.id.toString()));
+
+    // Place every task one column to the right of its deepest blocker
+    const levels = new Map<string, number>();
+    const levelOf = (id: string, visiting: Set<string>): number => {
+      const known = levels.get(id);
+      if (known !== undefined) return known;
+      if (visiting.has(id)) return 0;
+
+      visiting.add(id);
+      const blockers = edges.filter(e => e.to === id).map(e => e.from);
+      const level = blockers.length === 0
+        ? 0
+        : Math.max(...blockers.map(b => levelOf(b, visiting))) + 1;
+      visiting.delete(id);
+
+      levels.set(id, level);
+      return level;
+    };
+
+    const rowsPerLevel = new Map<number, number>();
+    const positions = new Map<string, { x: number; y: number }>();
+    for (const node of nodes) {
+      const id = node.id.toString();
+      const level = levelOf(id, new Set());
+      const row = rowsPerLevel.get(level) ?? 0;
+      rowsPerLevel.set(level, row + 1);
+      positions.set(id, {
+        x: level * (NODE_WIDTH + COLUMN_GAP),
+        y: row * (NODE_HEIGHT + ROW_GAP)
+      });
+    }
+
+    const criticalPath = TaskDependencyService.getCriticalPath(tasks);
+    const criticalIds = new Set(
+      criticalPath.length > 1 ? criticalPath.map(t => t.id.toString()) : []
+    );
+
+    const columns = Math.max(0, ...Array.from(levels.values())) + 1;
+    const rows = Math.max(0, ...Array.from(rowsPerLevel.values()));
+
+    return {
+      nodes,
+      edges,
+      positions,
+      criticalIds,
+      width: columns * (NODE_WIDTH + COLUMN_GAP) - COLUMN_GAP,
+      height: rows * (NODE_HEIGHT + ROW_GAP) - ROW_GAP
+    };
+  }, [tasks]);
+
+  const getNodeClasses = (task: Task): string => {
+    if (task.status.isDone()) return 'fill-green-50 stroke-green-400';
+    if (task.status.isCancelled()) return 'fill-gray-100 stroke-gray-300';
+    if (graph.criticalIds.has(task.id.toString())) return 'fill-red-50 stroke-red-500';
+    if (!TaskDependencyService.canComplete(task, tasks)) return 'fill-yellow-50 stroke-yellow-500';
+    return 'fill-white stroke-gray-300';
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-2xl font-semibold text-gray-800">Dependency Graph</h2>
+        <div className="flex gap-2 text-xs">
+          <span className="px-2 py-1 bg-red-100 text-red-800 rounded-full">Critical path</span>
+          <span className="px-2 py-1 bg-yellow-100 text-yellow-800 rounded-full">Blocked</span>
+          <span className="px-2 py-1 bg-green-100 text-green-800 rounded-full">Done</span>
+        </div>
+      </div>
+
+      {graph.nodes.length === 0 ? (
+        <p className="text-sm text-gray-500 text-center py-6">
+          No dependencies yet. Mark a task as blocked by another to see the graph.
+        </p>
+      ) : (
+        <div className="overflow-x-auto">
+          <svg
+            width={graph.width}
+            height={graph.height}
+            role="img"
+            aria-label="Task dependency graph"
+          >
+            <defs>
+              <marker id="dependency-arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto">
+                <path d="M 0 0 L 10 5 L 0 10 z" className="fill-gray-400" />
+              </marker>
+            </defs>
+
+            {graph.edges.map(edge => {
+              const from = graph.positions.get(edge.from)!;
+              const to = graph.positions.get(edge.to)!;
+              const critical = graph.criticalIds.has(edge.from) && graph.criticalIds.has(edge.to);
+              return (
+                <line
+                  key={`${edge.from}-${edge.to}`}
+                  x1={from.x + NODE_WIDTH}
+                  y1={from.y + NODE_HEIGHT / 2}
+                  x2={to.x}
+                  y2={to.y + NODE_HEIGHT / 2}
+                  className={critical ? 'stroke-red-500' : 'stroke-gray-400'}
+                  strokeWidth={critical ? 2 : 1}
+                  markerEnd="url(#dependency-arrow)"
+                />
+              );
+            })}
+
+            {graph.nodes.map(task => {
+              const position = graph.positions.get(task.id.toString())!;
+              return (
+                <g key={task.id.toString()} transform={`translate(${position.x}, ${position.y})`}>
+                  <title>{task.title.toString()}</title>
+                  <rect
+                    width={NODE_WIDTH}
+                    height={NODE_HEIGHT}
+                    rx={8}
+                    strokeWidth={2}
+                    className={getNodeClasses(task)}
+                  />
+                  <text x={10} y={18} className="text-xs font-semibold fill-gray-800">
+                    {truncate(task.title.toString(), 22)}
+                  </text>
+                  <text x={10} y={34} className="text-[10px] fill-gray-500">
+                    {task.status.toString().replace('_', ' ')} · {task.priority.toString()}
+                  </text>
+                </g>
+              );
+            })}
+          </svg>
+        </div>
+      )}
+    </div>
+  );
+};
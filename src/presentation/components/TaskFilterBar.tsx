@@ -0,0 +1,160 @@
+import React from 'react';
+import { TaskFilters } from '../hooks/useTaskManagement';
+import { TaskSortKey, DependencyState } from '../../domain/repositories/TaskQuery';
+import { LabelSummary } from '../../application/useCases/GetLabelCatalogUseCase';
+
+interface TaskFilterBarProps {
+  filters: TaskFilters;
+  currentUserId: string;
+  labels?: LabelSummary[];
+  onChange: (filters: TaskFilters) => void;
+}
+
+const selectClassName =
+  'px-2 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-transparent';
+
+export const TaskFilterBar: React.FC<TaskFilterBarProps> = ({ filters, currentUserId, labels = [], onChange }) => {
+  const update = (changes: Partial<TaskFilters>) => {
+    onChange({ ...filters, ...changes });
+  };
+
+  const assigneeValue =
+    filters.assigneeId === undefined ? '' : filters.assigneeId === null ? 'unassigned' : 'me';
+
+  const handleAssigneeChange = (value: string) => {
+    update({
+      assigneeId: value === '' ? undefined : value === 'unassigned' ? null : currentUserId
+    });
+  };
+
+  const handleDateChange = (key: 'dueFrom' | 'dueTo', value: string) => {
+    update({ [key]: value ? new Date(`${value}T${key === 'dueFrom' ? '00:00:00' : '23:59:59'}`) : undefined });
+  };
+
+  const toDateInputValue = (date?: Date) =>
+    date ? `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}` : '';
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mb-4 p-3 bg-gray-50 border border-gray-200 rounded-lg">
+      <select
+        aria-label="Filter by status"
+        value={filters.statuses?.[0] ?? ''}
+        onChange={(e) => update({ statuses: e.target.value ? [e.target.value] : undefined })}
+        className={selectClassName}
+      >
+        <option value="">All statuses</option>
+        <option value="TODO">To do</option>
+        <option value="IN_PROGRESS">In progress</option>
+        <option value="IN_REVIEW">In review</option>
+        <option value="BLOCKED">Blocked</option>
+        <option value="DONE">Done</option>
+        <option value="CANCELLED">Cancelled</option>
+      </select>
+
+      <select
+        aria-label="Filter by priority"
+        value={filters.priorities?.[0] ?? ''}
+        onChange={(e) => update({ priorities: e.target.value ? [e.target.value] : undefined })}
+        className={selectClassName}
+      >
+        <option value="">All priorities</option>
+        <option value="LOW">Low</option>
+        <option value="MEDIUM">Medium</option>
+        <option value="HIGH">High</option>
+        <option value="CRITICAL">Critical</option>
+      </select>
+
+      <select
+        aria-label="Filter by assignee"
+        value={assigneeValue}
+        onChange={(e) => handleAssigneeChange(e.target.value)}
+        className={selectClassName}
+      >
+        <option value="">Anyone</option>
+        <option value="me">Assigned to me</option>
+        <option value="unassigned">Unassigned</option>
+      </select>
+
+      <select
+        aria-label="Filter by dependencies"
+        value={filters.dependencyState ?? ''}
+        onChange={(e) => update({ dependencyState: (e.target.value || undefined) as DependencyState | undefined })}
+        className={selectClassName}
+      >
+        <option value="">Any dependencies</option>
+        <option value="blocked">Blocked</option>
+        <option value="blocking">Blocking others</option>
+        <option value="independent">Independent</option>
+      </select>
+
+      {labels.length > 0 && (
+        <select
+          aria-label="Filter by label"
+          value={filters.labels?.[0] ?? ''}
+          onChange={(e) => update({ labels: e.target.value ? [e.target.value] : undefined })}
+          className={selectClassName}
+        >
+          <option value="">Any label</option>
+          {labels.map(label => (
+            <option key={label.name} value={label.name}>{label.name}</option>
+          ))}
+        </select>
+      )}
+
+      <label className="flex items-center gap-1 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={filters.overdue === true}
+          onChange={(e) => update({ overdue: e.target.checked ? true : undefined })}
+          className="w-4 h-4 text-indigo-600 rounded focus:ring-indigo-500"
+        />
+        Overdue only
+      </label>
+
+      <label className="flex items-center gap-1 text-sm text-gray-700">
+        Due
+        <input
+          type="date"
+          aria-label="Due from"
+          value={toDateInputValue(filters.dueFrom)}
+          onChange={(e) => handleDateChange('dueFrom', e.target.value)}
+          className={selectClassName}
+        />
+        –
+        <input
+          type="date"
+          aria-label="Due to"
+          value={toDateInputValue(filters.dueTo)}
+          onChange={(e) => handleDateChange('dueTo', e.target.value)}
+          className={selectClassName}
+        />
+      </label>
+
+      <div className="flex items-center gap-1 ml-auto">
+        <select
+          aria-label="Sort tasks"
+          value={filters.sortBy ?? ''}
+          onChange={(e) => update({ sortBy: (e.target.value || undefined) as TaskSortKey | undefined })}
+          className={selectClassName}
+        >
+          <option value="">Newest first</option>
+          <option value="createdAt">Created</option>
+          <option value="dueDate">Due date</option>
+          <option value="priority">Priority</option>
+          <option value="title">Title</option>
+          <option value="status">Status</option>
+        </select>
+        {filters.sortBy && (
+          <button
+            type="button"
+            onClick={() => update({ sortDirection: filters.sortDirection === 'desc' ? 'asc' : 'desc' })}
+            aria-label="Toggle sort direction"
+            className="px-2 py-1 text-sm text-indigo-600 hover:text-indigo-800"
+          >
+            {filters.sortDirection === 'desc' ? '↓' : '↑'}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
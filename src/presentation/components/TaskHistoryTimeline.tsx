@@ -0,0 +1,85 @@
+import React from 'react';
+import { TaskHistoryEntry } from '../../application/useCases/GetTaskHistoryUseCase';
+
+interface TaskHistoryTimelineProps {
+  taskTitle: string;
+  entries: TaskHistoryEntry[];
+  onClose: () => void;
+}
+
+const getEventIcon = (eventType: string): string => {
+  switch (eventType) {
+    case 'TaskCompleted': return '🎉';
+    case 'TaskAssigned': return '👤';
+    case 'TaskPriorityEscalated': return '⚠️';
+    case 'TaskReopened': return '🔄';
+    case 'TaskCreated': return '🆕';
+    case 'TaskImported': return '📥';
+    case 'TaskTitleChanged': return '✏️';
+    case 'TaskUnassigned': return '👋';
+    case 'TaskStarted': return '▶️';
+    case 'TaskStatusChanged': return '🔀';
+    case 'TaskChecklistItemAdded':
+    case 'TaskChecklistItemRemoved': return '📋';
+    case 'TaskChecklistItemToggled': return '☑️';
+    case 'TaskDependencyAdded':
+    case 'TaskDependencyRemoved': return '🔗';
+    case 'TaskPriorityLowered': return '⬇️';
+    case 'TaskLabelAdded':
+    case 'TaskLabelRemoved': return '🏷️';
+    case 'TaskEstimateChanged': return '📐';
+    case 'TaskTimerStarted':
+    case 'TaskWorkLogged': return '⏱️';
+    case 'TaskCommentAdded':
+    case 'TaskCommentEdited':
+    case 'TaskCommentDeleted': return '💬';
+    case 'UserMentioned': return '📣';
+    case 'TaskDueSoon': return '⏰';
+    case 'TaskOverdue': return '🚨';
+    default: return '•';
+  }
+};
+
+export const TaskHistoryTimeline: React.FC<TaskHistoryTimelineProps> = ({
+  taskTitle,
+  entries,
+  onClose
+}) => {
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6">
+      <div className="flex justify-between items-center mb-4">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-800">History</h2>
+          <p className="text-sm text-gray-500 truncate">{taskTitle}</p>
+        </div>
+        <button
+          onClick={onClose}
+          className="text-sm text-indigo-600 hover:text-indigo-800 font-medium"
+        >
+          Close
+        </button>
+      </div>
+
+      {entries.length === 0 ? (
+        <p className="text-sm text-gray-500 text-center py-6">
+          No recorded activity for this task
+        </p>
+      ) : (
+        <ol className="relative border-l border-gray-200 ml-2 space-y-4 max-h-[400px] overflow-y-auto">
+          {entries.map((entry, index) => (
+            <li key={index} className="ml-4">
+              <span className="absolute -left-2 flex items-center justify-center w-4 h-4 text-xs">
+                {getEventIcon(entry.eventType)}
+              </span>
+              <time className="block text-xs text-gray-400">
+                {entry.occurredAt.toLocaleString()}
+              </time>
+              <p className="text-sm font-medium text-gray-800">{entry.eventType}</p>
+              <p className="text-xs text-gray-600">{entry.description}</p>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
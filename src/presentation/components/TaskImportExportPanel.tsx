@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { TaskExportFile, TaskExportFormat } from '../../application/useCases/ExportTasksUseCase';
+import { TaskImportFormat, TaskImportResult } from '../../application/useCases/ImportTasksUseCase';
+
+interface TaskImportExportPanelProps {
+  onExport: (format: TaskExportFormat) => Promise<TaskExportFile>;
+  onImport: (content: string, format: TaskImportFormat) => Promise<TaskImportResult>;
+}
+
+const EXPORTS: { format: TaskExportFormat; label: string }[] = [
+  { format: 'json', label: 'JSON' },
+  { format: 'csv', label: 'CSV' },
+  { format: 'ics', label: 'Calendar (.ics)' }
+];
+
+const download = (file: TaskExportFile) => {
+  const url = URL.createObjectURL(new Blob([file.content], { type: file.mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = file.fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Downloads the tasks as JSON, CSV or a calendar of due dates, and imports
+ * JSON or CSV files as new tasks.
+ */
+export const TaskImportExportPanel: React.FC<TaskImportExportPanelProps> = ({ onExport, onImport }) => {
+  const [result, setResult] = useState<TaskImportResult | null>(null);
+
+  const handleExport = (format: TaskExportFormat) => {
+    onExport(format)
+      .then(download)
+      .catch(err => console.error('Failed to export tasks:', err));
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      setResult(null);
+      const format: TaskImportFormat = file.name.toLowerCase().endsWith('.csv') ? 'csv' : 'json';
+      setResult(await onImport(await file.text(), format));
+    } catch (err) {
+      console.error('Failed to import tasks:', err);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6">
+      <h2 className="text-xl font-semibold text-gray-800 mb-4">Import &amp; Export</h2>
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        {EXPORTS.map(({ format, label }) => (
+          <button
+            key={format}
+            onClick={() => handleExport(format)}
+            aria-label={`Export as ${label}`}
+            className="px-3 py-1 bg-gray-100 text-gray-700 text-sm rounded-lg hover:bg-gray-200 transition"
+          >
+            ⬇ {label}
+          </button>
+        ))}
+      </div>
+
+      <label className="block text-sm text-gray-600">
+        Import tasks from JSON or CSV
+        <input
+          type="file"
+          accept=".json,.csv,application/json,text/csv"
+          onChange={handleImport}
+          className="mt-1 block w-full text-sm text-gray-600 file:mr-2 file:px-3 file:py-1 file:rounded-lg file:border-0 file:bg-indigo-600 file:text-white hover:file:bg-indigo-700"
+        />
+      </label>
+
+      {result && (
+        <div role="status" className="mt-4 text-sm">
+          <p className="text-gray-800">
+            Imported {result.importedCount} {result.importedCount === 1 ? 'task' : 'tasks'}
+          </p>
+          {result.errors.length > 0 && (
+            <ul className="mt-2 space-y-1 max-h-40 overflow-y-auto text-xs text-red-700">
+              {result.errors.map((error, index) => (
+                <li key={index}>Row {error.row}: {error.message}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
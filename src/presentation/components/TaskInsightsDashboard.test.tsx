@@ -0,0 +1,94 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { TaskInsightsDashboard } from './TaskInsightsDashboard';
+import { TaskInsights } from '../../application/useCases/GetTaskInsightsUseCase';
+import { UserRole } from '../../domain/entities/User';
+
+vi.mock('../hooks/useTaskInsights', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../hooks/useTaskInsights')>()),
+  useTaskInsights: vi.fn(),
+}));
+
+import { useTaskInsights, lastDays } from '../hooks/useTaskInsights';
+
+describe('TaskInsightsDashboard', () => {
+  const mockSetRange = vi.fn();
+  const mockRebuild = vi.fn().mockResolvedValue(undefined);
+  const range = { from: new Date(2026, 2, 2), to: new Date(2026, 2, 8) };
+
+  const insights: TaskInsights = {
+    ...range,
+    throughput: Array.from({ length: 7 }, (_, i) => ({ day: new Date(2026, 2, 2 + i), completed: i % 3 })),
+    completedCount: 6,
+    averageCycleTimeMs: 30 * 60 * 60 * 1000,
+    averageLeadTimeMs: 90 * 60 * 1000,
+    reopenRate: 0.25,
+    escalationCount: 3,
+    overdueRatio: null,
+    workload: [{ assigneeId: 'user-123', open: 2, inProgress: 1, completed: 4 }],
+  };
+
+  const defaultHookReturn = {
+    range,
+    insights,
+    users: [{ id: 'user-123', name: 'Alex Morgan', role: UserRole.MEMBER, teamNames: [] }],
+    loading: false,
+    error: null,
+    setRange: mockSetRange,
+    rebuild: mockRebuild,
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(useTaskInsights).mockReturnValue(defaultHookReturn);
+  });
+
+  it('should show the headline metrics', () => {
+    render(<TaskInsightsDashboard />);
+
+    expect(screen.getByLabelText('Completed')).toHaveTextContent('6');
+    expect(screen.getByLabelText('Cycle time')).toHaveTextContent('1d 6h');
+    expect(screen.getByLabelText('Lead time')).toHaveTextContent('1h 30m');
+    expect(screen.getByLabelText('Reopen rate')).toHaveTextContent('25%');
+    expect(screen.getByLabelText('Escalations')).toHaveTextContent('3');
+    expect(screen.getByLabelText('Overdue')).toHaveTextContent('–');
+  });
+
+  it('should chart throughput and workload', () => {
+    render(<TaskInsightsDashboard />);
+
+    const chart = screen.getByRole('img', { name: 'Tasks completed per day' });
+    expect(chart.querySelectorAll('rect')).toHaveLength(7);
+    const workload = screen.getByRole('listitem', { name: 'Workload of Alex Morgan' });
+    expect(within(workload).getByText('2 open · 1 in progress · 4 completed')).toBeInTheDocument();
+  });
+
+  it('should change the date range', async () => {
+    const user = userEvent.setup();
+    render(<TaskInsightsDashboard />);
+
+    fireEvent.change(screen.getByLabelText('From'), { target: { value: '2026-02-23' } });
+    expect(mockSetRange).toHaveBeenCalledWith({ from: new Date(2026, 1, 23), to: range.to });
+
+    await user.click(screen.getByRole('button', { name: 'Last 30 days' }));
+    const selected = mockSetRange.mock.calls.at(-1)![0];
+    expect(selected).toEqual(lastDays(30, selected.to));
+  });
+
+  it('should rebuild the read model from history', async () => {
+    const user = userEvent.setup();
+    vi.mocked(useTaskInsights).mockReturnValue({
+      ...defaultHookReturn,
+      insights: { ...insights, completedCount: 0, workload: [] },
+      error: 'Failed to load insights',
+    });
+
+    render(<TaskInsightsDashboard />);
+    expect(screen.getByRole('alert')).toHaveTextContent('Failed to load insights');
+    expect(screen.getByText('Nobody has tasks assigned')).toBeInTheDocument();
+    await user.click(screen.getByRole('button', { name: /rebuild from history/i }));
+
+    expect(mockRebuild).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,220 @@
+import React from 'react';
+import { useTaskInsights, lastDays } from '../hooks/useTaskInsights';
+import { DailyThroughput, AssigneeWorkload } from '../../application/useCases/GetTaskInsightsUseCase';
+import { formatDuration } from './TaskTimeTracking';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PRESETS = [7, 14, 30, 90];
+
+const CHART_HEIGHT = 160;
+const BAR_GAP = 2;
+
+const toDateInput = (date: Date): string => {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+const parseDay = (value: string): Date => {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+const formatElapsed = (ms: number | null): string => {
+  if (ms === null) return '–';
+  if (ms < DAY_MS) return formatDuration(ms);
+  const days = Math.floor(ms / DAY_MS);
+  const hours = Math.floor((ms % DAY_MS) / (60 * 60 * 1000));
+  return hours === 0 ? `${days}d` : `${days}d ${hours}h`;
+};
+
+const formatPercent = (ratio: number | null): string =>
+  ratio === null ? '–' : `${Math.round(ratio * 100)}%`;
+
+const MetricCard: React.FC<{ label: string; value: string; hint: string }> = ({ label, value, hint }) => (
+  <div className="bg-white rounded-xl shadow-lg p-4">
+    <p className="text-sm text-gray-500">{label}</p>
+    <p className="text-2xl font-bold text-gray-900" aria-label={label}>{value}</p>
+    <p className="text-xs text-gray-400">{hint}</p>
+  </div>
+);
+
+const ThroughputChart: React.FC<{ throughput: DailyThroughput[] }> = ({ throughput }) => {
+  const max = Math.max(1, ...throughput.map(day => day.completed));
+  const barWidth = Math.max(4, Math.floor(600 / throughput.length) - BAR_GAP);
+  const width = throughput.length * (barWidth + BAR_GAP);
+
+  return (
+    <svg
+      role="img"
+      aria-label="Tasks completed per day"
+      viewBox={`0 0 ${width} ${CHART_HEIGHT + 20}`}
+      className="w-full h-48"
+      preserveAspectRatio="none"
+    >
+      {throughput.map((day, index) => {
+        const height = (day.completed / max) * CHART_HEIGHT;
+        return (
+          <g key={day.day.toISOString()}>
+            <title>{`${day.day.toLocaleDateString()}: ${day.completed} completed`}</title>
+            <rect
+              x={index * (barWidth + BAR_GAP)}
+              y={CHART_HEIGHT - height}
+              width={barWidth}
+              height={Math.max(height, 1)}
+              className={day.completed > 0 ? 'fill-indigo-500' : 'fill-gray-200'}
+            />
+          </g>
+        );
+      })}
+      <line x1={0} y1={CHART_HEIGHT} x2={width} y2={CHART_HEIGHT} className="stroke-gray-300" />
+    </svg>
+  );
+};
+
+const WorkloadChart: React.FC<{ workload: AssigneeWorkload[]; getUserName: (id: string) => string }> = ({
+  workload,
+  getUserName
+}) => {
+  const max = Math.max(1, ...workload.map(w => w.open + w.completed));
+
+  return (
+    <ul className="space-y-3">
+      {workload.map(w => (
+        <li key={w.assigneeId} aria-label={`Workload of ${getUserName(w.assigneeId)}`}>
+          <div className="flex justify-between text-sm mb-1">
+            <span className="font-medium text-gray-800">{getUserName(w.assigneeId)}</span>
+            <span className="text-gray-500">
+              {w.open} open · {w.inProgress} in progress · {w.completed} completed
+            </span>
+          </div>
+          <div className="flex h-3 rounded-full overflow-hidden bg-gray-100">
+            <div className="bg-blue-500" style={{ width: `${(w.inProgress / max) * 100}%` }} />
+            <div className="bg-blue-200" style={{ width: `${((w.open - w.inProgress) / max) * 100}%` }} />
+            <div className="bg-green-400" style={{ width: `${(w.completed / max) * 100}%` }} />
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+/**
+ * Productivity dashboard built from the analytics read model, which is
+ * projected from task events.
+ */
+export const TaskInsightsDashboard: React.FC = () => {
+  const { range, insights, users, loading, error, setRange, rebuild } = useTaskInsights();
+
+  const getUserName = (userId: string) => users.find(u => u.id === userId)?.name ?? userId;
+
+  const handleRebuild = () => {
+    rebuild().catch((err) => console.error('Failed to rebuild analytics:', err));
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100">
+      <div className="max-w-7xl mx-auto p-6">
+        <div className="mb-8 flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h1 className="text-4xl font-bold text-gray-900 mb-2">Task Insights</h1>
+            <p className="text-gray-600">Throughput, flow and workload from task history</p>
+          </div>
+          <a href="/tasks" className="text-sm text-indigo-600 hover:text-indigo-800 font-medium">
+            ← Back to tasks
+          </a>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-lg p-4 mb-6 flex flex-wrap items-center gap-3 text-sm">
+          <label className="flex items-center gap-2 text-gray-600">
+            From
+            <input
+              type="date"
+              value={toDateInput(range.from)}
+              max={toDateInput(range.to)}
+              onChange={(e) => e.target.value && setRange({ ...range, from: parseDay(e.target.value) })}
+              className="px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500"
+            />
+          </label>
+          <label className="flex items-center gap-2 text-gray-600">
+            To
+            <input
+              type="date"
+              value={toDateInput(range.to)}
+              min={toDateInput(range.from)}
+              onChange={(e) => e.target.value && setRange({ ...range, to: parseDay(e.target.value) })}
+              className="px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500"
+            />
+          </label>
+          <div className="flex gap-1">
+            {PRESETS.map(days => (
+              <button
+                key={days}
+                onClick={() => setRange(lastDays(days))}
+                className="px-3 py-1 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200"
+              >
+                Last {days} days
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={handleRebuild}
+            className="ml-auto px-3 py-1 text-indigo-600 hover:text-indigo-800 font-medium"
+          >
+            ↻ Rebuild from history
+          </button>
+        </div>
+
+        {error && <p role="alert" className="mb-4 text-sm text-red-600">{error}</p>}
+
+        {!insights ? (
+          <p className="text-center py-12 text-gray-500">{loading ? 'Loading insights…' : 'No insights available'}</p>
+        ) : (
+          <div className="space-y-6">
+            <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
+              <MetricCard label="Completed" value={String(insights.completedCount)} hint="in the selected range" />
+              <MetricCard
+                label="Cycle time"
+                value={formatElapsed(insights.averageCycleTimeMs)}
+                hint="created → completed"
+              />
+              <MetricCard
+                label="Lead time"
+                value={formatElapsed(insights.averageLeadTimeMs)}
+                hint="started → completed"
+              />
+              <MetricCard label="Reopen rate" value={formatPercent(insights.reopenRate)} hint="reopens per completion" />
+              <MetricCard label="Escalations" value={String(insights.escalationCount)} hint="priority raised automatically" />
+              <MetricCard label="Overdue" value={formatPercent(insights.overdueRatio)} hint="of tasks that fell due" />
+            </div>
+
+            <section aria-label="Throughput" className="bg-white rounded-xl shadow-lg p-6">
+              <h2 className="text-xl font-semibold text-gray-800 mb-4">Throughput per day</h2>
+              {insights.completedCount === 0 ? (
+                <p className="text-center py-6 text-gray-500">
+                  No tasks completed in this range. Rebuild from history to include activity from before insights were added.
+                </p>
+              ) : (
+                <>
+                  <ThroughputChart throughput={insights.throughput} />
+                  <div className="flex justify-between text-xs text-gray-400">
+                    <span>{insights.from.toLocaleDateString()}</span>
+                    <span>{insights.to.toLocaleDateString()}</span>
+                  </div>
+                </>
+              )}
+            </section>
+
+            <section aria-label="Workload" className="bg-white rounded-xl shadow-lg p-6">
+              <h2 className="text-xl font-semibold text-gray-800 mb-4">Workload per assignee</h2>
+              {insights.workload.length === 0 ? (
+                <p className="text-center py-6 text-gray-500">Nobody has tasks assigned</p>
+              ) : (
+                <WorkloadChart workload={insights.workload} getUserName={getUserName} />
+              )}
+            </section>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
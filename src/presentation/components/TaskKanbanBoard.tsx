@@ -0,0 +1,140 @@
+import React, { useRef, useState } from 'react';
+import { Task } from '../../domain/entities/Task';
+import { TaskStatusType } from '../../domain/valueObjects/TaskStatus';
+import { TaskWorkflow } from '../../domain/valueObjects/TaskWorkflow';
+
+interface TaskKanbanBoardProps {
+  tasks: Task[];
+  workflow: TaskWorkflow;
+  getUserName: (userId: string) => string;
+  onMove: (taskId: string, status: string) => Promise<void>;
+}
+
+/**
+ * One column per workflow state, in the workflow's order. Cards are moved
+ * by dragging them onto a column, with the arrow keys, or with the buttons
+ * for the moves the workflow allows. A rejected move is shown on the card.
+ */
+export const TaskKanbanBoard: React.FC<TaskKanbanBoardProps> = ({ tasks, workflow, getUserName, onMove }) => {
+  const [moveErrors, setMoveErrors] = useState<Record<string, string>>({});
+  const [dropTarget, setDropTarget] = useState<TaskStatusType | null>(null);
+  // dataTransfer can't be read during dragover, so remember the card here
+  const draggedTaskId = useRef<string | null>(null);
+
+  const move = async (task: Task, status: TaskStatusType) => {
+    if (task.status.getType() === status) return;
+
+    const taskId = task.id.toString();
+    try {
+      await onMove(taskId, status);
+      setMoveErrors(({ [taskId]: _, ...rest }) => rest);
+    } catch (err) {
+      setMoveErrors((prev) => ({
+        ...prev,
+        [taskId]: err instanceof Error ? err.message : 'Failed to move task'
+      }));
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent, status: TaskStatusType) => {
+    e.preventDefault();
+    setDropTarget(null);
+    const task = tasks.find((t) => t.id.toString() === draggedTaskId.current);
+    draggedTaskId.current = null;
+    if (task) {
+      move(task, status);
+    }
+  };
+
+  // Left and right arrows move a card to the neighbouring column
+  const handleCardKeyDown = (e: React.KeyboardEvent, task: Task) => {
+    if (e.target !== e.currentTarget) return;
+    const offset = e.key === 'ArrowRight' ? 1 : e.key === 'ArrowLeft' ? -1 : 0;
+    if (offset === 0) return;
+
+    e.preventDefault();
+    const index = workflow.states.findIndex((s) => s.status === task.status.getType());
+    const neighbour = workflow.states[index + offset];
+    if (neighbour) {
+      move(task, neighbour.status);
+    }
+  };
+
+  return (
+    <div className="flex gap-4 overflow-x-auto pb-2">
+      {workflow.states.map((state) => {
+        const columnTasks = tasks.filter((task) => task.status.getType() === state.status);
+
+        return (
+          <section
+            key={state.status}
+            aria-label={`${state.label} column`}
+            onDragOver={(e) => {
+              e.preventDefault();
+              setDropTarget(state.status);
+            }}
+            onDragLeave={() => setDropTarget(null)}
+            onDrop={(e) => handleDrop(e, state.status)}
+            className={`flex-shrink-0 w-56 border rounded-lg p-3 transition ${
+              dropTarget === state.status ? 'bg-indigo-50 border-indigo-300' : 'bg-gray-50 border-gray-200'
+            }`}
+          >
+            <h3 className="flex justify-between items-center mb-3 text-sm font-semibold text-gray-700">
+              {state.label}
+              <span className="px-2 py-0.5 bg-gray-200 text-gray-700 rounded-full text-xs">
+                {columnTasks.length}
+              </span>
+            </h3>
+
+            <div className="space-y-2 min-h-[3rem]">
+              {columnTasks.map((task) => {
+                const taskId = task.id.toString();
+                const title = task.title.toString();
+                return (
+                  <article
+                    key={taskId}
+                    draggable
+                    tabIndex={0}
+                    aria-label={title}
+                    aria-keyshortcuts="ArrowLeft ArrowRight"
+                    onDragStart={(e) => {
+                      draggedTaskId.current = taskId;
+                      e.dataTransfer?.setData('text/plain', taskId);
+                    }}
+                    onDragEnd={() => setDropTarget(null)}
+                    onKeyDown={(e) => handleCardKeyDown(e, task)}
+                    className="bg-white border border-gray-200 rounded-lg p-3 shadow-sm cursor-grab focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                  >
+                    <p className="text-sm font-medium text-gray-900">{title}</p>
+                    <p className="mt-1 text-xs text-gray-500">
+                      {task.priority.toString()}
+                      {task.assignment && ` · ${getUserName(task.assignment.getAssignedTo().toString())}`}
+                      {task.checklist.length > 0 && ` · ☑ ${task.getChecklistProgress()}%`}
+                    </p>
+                    <div className="mt-2 flex flex-wrap gap-1">
+                      {workflow.transitionsFrom(task.status).map((transition) => (
+                        <button
+                          key={transition.to}
+                          onClick={() => move(task, transition.to)}
+                          aria-label={`${transition.label}: ${title}`}
+                          className="px-2 py-0.5 bg-indigo-50 text-indigo-700 text-xs rounded hover:bg-indigo-100 transition"
+                        >
+                          {transition.label}
+                        </button>
+                      ))}
+                    </div>
+                    {moveErrors[taskId] && (
+                      <p role="alert" className="mt-2 text-xs text-red-600">
+                        {moveErrors[taskId]}
+                      </p>
+                    )}
+                  </article>
+                );
+              })}
+            </div>
+          </section>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,58 @@
+import React from 'react';
+import { LabelSummary } from '../../application/useCases/GetLabelCatalogUseCase';
+
+interface TaskLabelsProps {
+  taskTitle: string;
+  /** Names of the labels on the task */
+  labels: ReadonlyArray<string>;
+  catalog: LabelSummary[];
+  onAdd: (name: string) => void;
+  onRemove: (name: string) => void;
+}
+
+const sameName = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+/**
+ * Colored label chips for a task row, with a picker for the catalog labels
+ * the task does not have yet.
+ */
+export const TaskLabels: React.FC<TaskLabelsProps> = ({ taskTitle, labels, catalog, onAdd, onRemove }) => {
+  const colorOf = (name: string) => catalog.find(label => sameName(label.name, name))?.color ?? '#6b7280';
+  const available = catalog.filter(label => !labels.some(name => sameName(name, label.name)));
+
+  if (labels.length === 0 && available.length === 0) return null;
+
+  return (
+    <div className="mb-2 flex flex-wrap items-center gap-2">
+      {labels.map(name => (
+        <span
+          key={name}
+          style={{ backgroundColor: colorOf(name) }}
+          className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium text-white"
+        >
+          🏷️ {name}
+          <button
+            onClick={() => onRemove(name)}
+            aria-label={`Remove label ${name} from ${taskTitle}`}
+            className="hover:text-gray-200"
+          >
+            ×
+          </button>
+        </span>
+      ))}
+      {available.length > 0 && (
+        <select
+          value=""
+          onChange={(e) => e.target.value && onAdd(e.target.value)}
+          aria-label={`Add label to ${taskTitle}`}
+          className="px-2 py-0.5 border border-gray-300 rounded-lg text-xs focus:ring-2 focus:ring-indigo-500"
+        >
+          <option value="">＋ Label…</option>
+          {available.map(label => (
+            <option key={label.name} value={label.name}>{label.name}</option>
+          ))}
+        </select>
+      )}
+    </div>
+  );
+};
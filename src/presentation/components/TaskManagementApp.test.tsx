@@ -1,10 +1,14 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { render, screen, fireEvent, waitFor, within } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import { TaskManagementApp } from './TaskManagementApp';
 import { Task } from '../../domain/entities/Task';
 import { TaskTitle } from '../../domain/valueObjects/TaskTitle';
 import { TaskPriority } from '../../domain/valueObjects/TaskPriority';
+import { UserId } from '../../domain/valueObjects/UserId';
+import { UserRole } from '../../domain/entities/User';
+import { TaskWorkflow } from '../../domain/valueObjects/TaskWorkflow';
+import { TaskLabel } from '../../domain/valueObjects/TaskLabel';
 
 // Mock the useTaskManagement hook
 vi.mock('../hooks/useTaskManagement', () => ({
@@ -15,22 +19,103 @@ import { useTaskManagement } from '../hooks/useTaskManagement';
 
 describe('TaskManagementApp', () => {
   const mockCreateTask = vi.fn();
+  const mockEnableBrowserNotifications = vi.fn();
   const mockAssignTask = vi.fn();
   const mockCompleteTask = vi.fn();
   const mockReopenTask = vi.fn();
+  const mockStartTask = vi.fn();
+  const mockMoveTask = vi.fn();
+  const mockUnassignTask = vi.fn();
+  const mockRenameTask = vi.fn();
+  const mockChangeTaskPriority = vi.fn();
+  const mockAddChecklistItem = vi.fn();
+  const mockToggleChecklistItem = vi.fn();
+  const mockRemoveChecklistItem = vi.fn();
+  const mockAddDependency = vi.fn();
+  const mockRemoveDependency = vi.fn();
+  const mockUpdateTaskFilters = vi.fn();
+  const mockLoadMoreTasks = vi.fn();
+  const mockGetTaskHistory = vi.fn().mockResolvedValue([]);
   const mockClearEventLog = vi.fn();
+  const mockReplayDeadLetter = vi.fn();
+  const mockDiscardDeadLetter = vi.fn();
   const mockRefreshTasks = vi.fn();
+  const mockGetTaskComments = vi.fn().mockResolvedValue([]);
+  const mockAddComment = vi.fn().mockResolvedValue(undefined);
+  const mockEditComment = vi.fn().mockResolvedValue(undefined);
+  const mockDeleteComment = vi.fn().mockResolvedValue(undefined);
+  const mockAddLabel = vi.fn();
+  const mockRemoveLabel = vi.fn();
+  const mockDefineLabel = vi.fn().mockResolvedValue(undefined);
+  const mockDeleteLabel = vi.fn().mockResolvedValue(undefined);
+  const mockApplySavedView = vi.fn();
+  const mockSaveView = vi.fn().mockResolvedValue(undefined);
+  const mockDeleteView = vi.fn().mockResolvedValue(undefined);
+  const mockSetEstimate = vi.fn().mockResolvedValue(undefined);
+  const mockStartTimer = vi.fn().mockResolvedValue(undefined);
+  const mockStopTimer = vi.fn().mockResolvedValue(undefined);
+  const mockLogWork = vi.fn().mockResolvedValue(undefined);
+  const mockGetWeeklyTimesheet = vi.fn();
+  const mockGetTimeTrackingSummary = vi.fn().mockResolvedValue([]);
+  const mockExportTasks = vi.fn();
+  const mockImportTasks = vi.fn();
 
   const defaultHookReturn = {
     tasks: [],
+    filteredTasks: [],
+    filteredTaskCount: 0,
+    taskFilters: {},
+    hasMoreTasks: false,
     loading: false,
     error: null,
     eventLog: [],
+    deadLetters: [],
+    users: [],
+    workflow: TaskWorkflow.default(),
+    labels: [],
+    savedViews: [],
+    activeViewId: null,
+    notificationPermission: 'granted' as const,
     createTask: mockCreateTask,
     assignTask: mockAssignTask,
     completeTask: mockCompleteTask,
     reopenTask: mockReopenTask,
+    startTask: mockStartTask,
+    moveTask: mockMoveTask,
+    unassignTask: mockUnassignTask,
+    renameTask: mockRenameTask,
+    changeTaskPriority: mockChangeTaskPriority,
+    addChecklistItem: mockAddChecklistItem,
+    toggleChecklistItem: mockToggleChecklistItem,
+    removeChecklistItem: mockRemoveChecklistItem,
+    addDependency: mockAddDependency,
+    removeDependency: mockRemoveDependency,
+    getTaskHistory: mockGetTaskHistory,
+    addLabel: mockAddLabel,
+    removeLabel: mockRemoveLabel,
+    defineLabel: mockDefineLabel,
+    deleteLabel: mockDeleteLabel,
+    setEstimate: mockSetEstimate,
+    startTimer: mockStartTimer,
+    stopTimer: mockStopTimer,
+    logWork: mockLogWork,
+    getWeeklyTimesheet: mockGetWeeklyTimesheet,
+    getTimeTrackingSummary: mockGetTimeTrackingSummary,
+    exportTasks: mockExportTasks,
+    importTasks: mockImportTasks,
+    applySavedView: mockApplySavedView,
+    saveView: mockSaveView,
+    deleteView: mockDeleteView,
+    getTaskComments: mockGetTaskComments,
+    addComment: mockAddComment,
+    editComment: mockEditComment,
+    deleteComment: mockDeleteComment,
+    updateTaskFilters: mockUpdateTaskFilters,
+    loadMoreTasks: mockLoadMoreTasks,
+    replayDeadLetter: mockReplayDeadLetter,
+    discardDeadLetter: mockDiscardDeadLetter,
     clearEventLog: mockClearEventLog,
+    enableBrowserNotifications: mockEnableBrowserNotifications,
     refreshTasks: mockRefreshTasks,
   };
 
@@ -84,7 +169,7 @@ describe('TaskManagementApp', () => {
       await user.type(input, 'New Test Task');
       await user.click(submitButton);
 
-      expect(mockCreateTask).toHaveBeenCalledWith('New Test Task', 'medium');
+      expect(mockCreateTask).toHaveBeenCalledWith('New Test Task', 'medium', undefined, undefined);
     });
 
     it('should clear input after successful task creation', async () => {
@@ -119,14 +204,58 @@ describe('TaskManagementApp', () => {
       render(<TaskManagementApp />);
 
       const input = screen.getByPlaceholderText('Enter task title...');
-      const prioritySelect = screen.getByRole('combobox');
+      const prioritySelect = screen.getByRole('combobox', { name: /task priority/i });
       const submitButton = screen.getByRole('button', { name: /create task/i });
 
       await user.type(input, 'High Priority Task');
       await user.selectOptions(prioritySelect, 'high');
       await user.click(submitButton);
 
-      expect(mockCreateTask).toHaveBeenCalledWith('High Priority Task', 'high');
+      expect(mockCreateTask).toHaveBeenCalledWith('High Priority Task', 'high', undefined, undefined);
+    });
+
+    it('should preview the next occurrences of a repeating task', async () => {
+      const user = userEvent.setup();
+      render(<TaskManagementApp />);
+
+      fireEvent.change(screen.getByLabelText('Due date'), { target: { value: '2026-01-31' } });
+      await user.selectOptions(screen.getByRole('combobox', { name: 'Repeat' }), 'MONTHLY');
+      await user.selectOptions(screen.getByRole('combobox', { name: 'Ends' }), 'count');
+      fireEvent.change(screen.getByRole('spinbutton', { name: 'Number of occurrences' }), { target: { value: '3' } });
+
+      const preview = screen.getByRole('region', { name: 'Next occurrences' });
+      expect(within(preview).getAllByRole('listitem').map(li => li.textContent)).toEqual([
+        new Date(2026, 0, 31).toLocaleDateString(),
+        new Date(2026, 1, 28).toLocaleDateString(),
+        new Date(2026, 2, 31).toLocaleDateString()
+      ]);
+    });
+
+    it('should create a repeating task with its due date and schedule', async () => {
+      const user = userEvent.setup();
+      render(<TaskManagementApp />);
+
+      await user.type(screen.getByPlaceholderText('Enter task title...'), 'Water the plants');
+      fireEvent.change(screen.getByLabelText('Due date'), { target: { value: '2026-01-05' } });
+      await user.selectOptions(screen.getByRole('combobox', { name: 'Repeat' }), 'WEEKLY');
+      await user.click(screen.getByRole('button', { name: /create task/i }));
+
+      expect(mockCreateTask).toHaveBeenCalledWith(
+        'Water the plants',
+        'medium',
+        new Date(2026, 0, 5, 23, 59, 59, 999),
+        { frequency: 'WEEKLY', interval: 1, until: undefined, count: undefined }
+      );
+    });
+
+    it('should show why a schedule is invalid', async () => {
+      const user = userEvent.setup();
+      render(<TaskManagementApp />);
+
+      await user.selectOptions(screen.getByRole('combobox', { name: 'Repeat' }), 'DAILY');
+      fireEvent.change(screen.getByRole('spinbutton', { name: 'Repeat every' }), { target: { value: '0' } });
+
+      expect(screen.getByRole('alert')).toHaveTextContent('Recurrence interval must be a positive whole number');
     });
   });
 
@@ -137,6 +266,7 @@ describe('TaskManagementApp', () => {
       vi.mocked(useTaskManagement).mockReturnValue({
         ...defaultHookReturn,
         tasks: [task],
+        filteredTasks: [task],
       });
 
       render(<TaskManagementApp />);
@@ -154,6 +284,7 @@ describe('TaskManagementApp', () => {
       vi.mocked(useTaskManagement).mockReturnValue({
         ...defaultHookReturn,
         tasks,
+        filteredTasks: tasks,
       });
 
       render(<TaskManagementApp />);
@@ -169,6 +300,7 @@ describe('TaskManagementApp', () => {
       vi.mocked(useTaskManagement).mockReturnValue({
         ...defaultHookReturn,
         tasks: [task1, task2],
+        filteredTasks: [task1, task2],
       });
 
       render(<TaskManagementApp />);
@@ -186,6 +318,7 @@ describe('TaskManagementApp', () => {
       vi.mocked(useTaskManagement).mockReturnValue({
         ...defaultHookReturn,
         tasks: [task],
+        filteredTasks: [task],
       });
 
       render(<TaskManagementApp />);
@@ -200,6 +333,7 @@ describe('TaskManagementApp', () => {
       vi.mocked(useTaskManagement).mockReturnValue({
         ...defaultHookReturn,
         tasks: [task],
+        filteredTasks: [task],
       });
 
       render(<TaskManagementApp />);
@@ -217,15 +351,746 @@ describe('TaskManagementApp', () => {
       vi.mocked(useTaskManagement).mockReturnValue({
         ...defaultHookReturn,
         tasks: [task],
+        filteredTasks: [task],
       });
 
       render(<TaskManagementApp />);
 
-      const checkbox = screen.getByRole('checkbox');
+      const checkbox = screen.getByRole('checkbox', { name: /complete task to complete/i });
       await user.click(checkbox);
 
       expect(mockCompleteTask).toHaveBeenCalledWith(task.id.toString());
     });
+
+    it('should start and unassign a task assigned to the current user', async () => {
+      const user = userEvent.setup();
+      const task = Task.create(TaskTitle.create('My Task'), TaskPriority.medium());
+      task.assignTo(UserId.create('user-123'), UserId.create('user-123'));
+
+      vi.mocked(useTaskManagement).mockReturnValue({
+        ...defaultHookReturn,
+        tasks: [task],
+        filteredTasks: [task],
+      });
+
+      render(<TaskManagementApp />);
+
+      await user.click(screen.getByRole('button', { name: /start/i }));
+      await user.click(screen.getByRole('button', { name: /unassign/i }));
+
+      expect(mockStartTask).toHaveBeenCalledWith(task.id.toString());
+      expect(mockUnassignTask).toHaveBeenCalledWith(task.id.toString());
+    });
+
+    it('should not offer to start a task assigned to someone else', () => {
+      const task = Task.create(TaskTitle.create('Their Task'), TaskPriority.medium());
+      task.assignTo(UserId.create('user-789'), UserId.create('user-123'));
+
+      vi.mocked(useTaskManagement).mockReturnValue({
+        ...defaultHookReturn,
+        tasks: [task],
+        filteredTasks: [task],
+      });
+
+      render(<TaskManagementApp />);
+
+      expect(screen.queryByRole('button', { name: /start/i })).not.toBeInTheDocument();
+    });
+
+    it('should rename a task inline', async () => {
+      const user = userEvent.setup();
+      mockRenameTask.mockResolvedValue(undefined);
+      const task = Task.create(TaskTitle.create('Draft Title'), TaskPriority.medium());
+
+      vi.mocked(useTaskManagement).mockReturnValue({
+        ...defaultHookReturn,
+        tasks: [task],
+        filteredTasks: [task],
+      });
+
+      render(<TaskManagementApp />);
+
+      await user.click(screen.getByRole('button', { name: 'Rename Draft Title' }));
+      const input = screen.getByRole('textbox', { name: 'Task title' });
+      await user.clear(input);
+      await user.type(input, 'Final Title{Enter}');
+
+      expect(mockRenameTask).toHaveBeenCalledWith(task.id.toString(), 'Final Title');
+      await waitFor(() => {
+        expect(screen.queryByRole('textbox', { name: 'Task title' })).not.toBeInTheDocument();
+      });
+    });
+
+    it('should cancel renaming with Escape', async () => {
+      const user = userEvent.setup();
+      const task = Task.create(TaskTitle.create('Draft Title'), TaskPriority.medium());
+
+      vi.mocked(useTaskManagement).mockReturnValue({
+        ...defaultHookReturn,
+        tasks: [task],
+        filteredTasks: [task],
+      });
+
+      render(<TaskManagementApp />);
+
+      await user.click(screen.getByRole('button', { name: 'Rename Draft Title' }));
+      await user.type(screen.getByRole('textbox', { name: 'Task title' }), ' changed{Escape}');
+
+      expect(mockRenameTask).not.toHaveBeenCalled();
+      expect(screen.getByText('Draft Title')).toBeInTheDocument();
+    });
+
+    it('should change priority from the task list', async () => {
+      const user = userEvent.setup();
+      const task = Task.create(TaskTitle.create('Prioritized Task'), TaskPriority.medium());
+
+      vi.mocked(useTaskManagement).mockReturnValue({
+        ...defaultHookReturn,
+        tasks: [task],
+        filteredTasks: [task],
+      });
+
+      render(<TaskManagementApp />);
+
+      const select = screen.getByRole('combobox', { name: 'Priority of Prioritized Task' });
+      expect(select).toHaveValue('medium');
+      await user.selectOptions(select, 'critical');
+
+      expect(mockChangeTaskPriority).toHaveBeenCalledWith(task.id.toString(), 'critical');
+    });
+  });
+
+  describe('Board View', () => {
+    it('should show a column for every workflow state', async () => {
+      const user = userEvent.setup();
+      const task = Task.create(TaskTitle.create('Board Task'), TaskPriority.medium());
+
+      vi.mocked(useTaskManagement).mockReturnValue({
+        ...defaultHookReturn,
+        tasks: [task],
+        filteredTasks: [task],
+      });
+
+      render(<TaskManagementApp />);
+      await user.click(screen.getByRole('button', { name: 'board' }));
+
+      for (const state of TaskWorkflow.default().states) {
+        expect(screen.getByRole('region', { name: `${state.label} column` })).toBeInTheDocument();
+      }
+      expect(screen.getByRole('region', { name: 'To Do column' })).toHaveTextContent('Board Task');
+    });
+
+    it('should move a task along an allowed transition', async () => {
+      const user = userEvent.setup();
+      const task = Task.create(TaskTitle.create('Board Task'), TaskPriority.medium());
+
+      vi.mocked(useTaskManagement).mockReturnValue({
+        ...defaultHookReturn,
+        tasks: [task],
+        filteredTasks: [task],
+      });
+
+      render(<TaskManagementApp />);
+      await user.click(screen.getByRole('button', { name: 'board' }));
+      await user.click(screen.getByRole('button', { name: 'Block: Board Task' }));
+
+      expect(mockMoveTask).toHaveBeenCalledWith(task.id.toString(), 'BLOCKED');
+      expect(screen.queryByRole('button', { name: 'Send to review: Board Task' })).not.toBeInTheDocument();
+    });
+
+    it('should open on the board when asked to', () => {
+      const task = Task.create(TaskTitle.create('Board Task'), TaskPriority.medium());
+      vi.mocked(useTaskManagement).mockReturnValue({
+        ...defaultHookReturn,
+        tasks: [task],
+        filteredTasks: [task],
+      });
+
+      render(<TaskManagementApp initialView="board" />);
+
+      expect(screen.getByRole('region', { name: 'To Do column' })).toHaveTextContent('Board Task');
+    });
+
+    it('should move a card dropped on another column', async () => {
+      const task = Task.create(TaskTitle.create('Board Task'), TaskPriority.medium());
+      vi.mocked(useTaskManagement).mockReturnValue({
+        ...defaultHookReturn,
+        tasks: [task],
+        filteredTasks: [task],
+      });
+
+      render(<TaskManagementApp initialView="board" />);
+      fireEvent.dragStart(screen.getByRole('article', { name: 'Board Task' }));
+      fireEvent.dragOver(screen.getByRole('region', { name: 'Done column' }));
+      fireEvent.drop(screen.getByRole('region', { name: 'Done column' }));
+
+      await waitFor(() => {
+        expect(mockMoveTask).toHaveBeenCalledWith(task.id.toString(), 'DONE');
+      });
+    });
+
+    it('should show a rejected move on the card', async () => {
+      const task = Task.create(TaskTitle.create('Board Task'), TaskPriority.medium());
+      mockMoveTask.mockRejectedValueOnce(new Error('Task must be assigned before starting'));
+      vi.mocked(useTaskManagement).mockReturnValue({
+        ...defaultHookReturn,
+        tasks: [task],
+        filteredTasks: [task],
+      });
+
+      render(<TaskManagementApp initialView="board" />);
+      fireEvent.dragStart(screen.getByRole('article', { name: 'Board Task' }));
+      fireEvent.drop(screen.getByRole('region', { name: 'In Progress column' }));
+
+      expect(await screen.findByRole('alert')).toHaveTextContent('Task must be assigned before starting');
+    });
+
+    it('should move a focused card to the next column with the arrow keys', async () => {
+      const user = userEvent.setup();
+      const task = Task.create(TaskTitle.create('Board Task'), TaskPriority.medium());
+      vi.mocked(useTaskManagement).mockReturnValue({
+        ...defaultHookReturn,
+        tasks: [task],
+        filteredTasks: [task],
+      });
+
+      render(<TaskManagementApp initialView="board" />);
+      screen.getByRole('article', { name: 'Board Task' }).focus();
+      await user.keyboard('{ArrowRight}');
+
+      expect(mockMoveTask).toHaveBeenCalledWith(task.id.toString(), 'IN_PROGRESS');
+    });
+  });
+
+  describe('Reminders', () => {
+    it('should offer to enable browser notifications until the user decides', async () => {
+      const user = userEvent.setup();
+      vi.mocked(useTaskManagement).mockReturnValue({ ...defaultHookReturn, notificationPermission: 'default' });
+
+      render(<TaskManagementApp />);
+      await user.click(screen.getByRole('button', { name: /enable reminder notifications/i }));
+
+      expect(mockEnableBrowserNotifications).toHaveBeenCalled();
+    });
+
+    it('should not ask again once notifications are allowed', () => {
+      render(<TaskManagementApp />);
+
+      expect(screen.queryByRole('button', { name: /enable reminder notifications/i })).not.toBeInTheDocument();
+    });
+
+    it('should show the due date of tasks', () => {
+      const task = Task.create(TaskTitle.create('Pay rent'), TaskPriority.medium(), new Date(2026, 0, 31));
+      vi.mocked(useTaskManagement).mockReturnValue({
+        ...defaultHookReturn,
+        tasks: [task],
+        filteredTasks: [task],
+      });
+
+      render(<TaskManagementApp />);
+
+      expect(screen.getByText(`📅 Due ${new Date(2026, 0, 31).toLocaleDateString()}`)).toBeInTheDocument();
+    });
+  });
+
+  describe('Task Comments', () => {
+    const users = [
+      { id: 'user-123', name: 'Alex Morgan', role: UserRole.MEMBER, teamNames: ['Core'] },
+      { id: 'user-456', name: 'Sam Patel', role: UserRole.MEMBER, teamNames: ['Core'] },
+    ];
+
+    const renderWithTask = () => {
+      const task = Task.create(TaskTitle.create('Write release notes'), TaskPriority.medium());
+      vi.mocked(useTaskManagement).mockReturnValue({
+        ...defaultHookReturn,
+        users,
+        tasks: [task],
+        filteredTasks: [task],
+      });
+      render(<TaskManagementApp />);
+      return task;
+    };
+
+    it('should open the comment panel from a task row', async () => {
+      const user = userEvent.setup();
+      const task = renderWithTask();
+
+      await user.click(screen.getByRole('button', { name: 'Comments on Write release notes' }));
+
+      expect(mockGetTaskComments).toHaveBeenCalledWith(task.id.toString());
+      expect(await screen.findByText('No comments yet')).toBeInTheDocument();
+    });
+
+    it('should post a comment with a mention picked from the suggestions', async () => {
+      const user = userEvent.setup();
+      const task = renderWithTask();
+
+      await user.click(screen.getByRole('button', { name: 'Comments on Write release notes' }));
+      const box = screen.getByLabelText('Comment on Write release notes');
+      await user.type(box, 'Can you review? @sa');
+      await user.click(screen.getByRole('button', { name: 'Mention Sam Patel' }));
+      await user.click(screen.getByRole('button', { name: 'Comment' }));
+
+      expect(mockAddComment).toHaveBeenCalledWith(task.id.toString(), 'Can you review? @user-456 ', undefined);
+      await waitFor(() => expect(box).toHaveValue(''));
+    });
+
+    it('should show threads with mentions by name and only let authors edit', async () => {
+      const user = userEvent.setup();
+      mockGetTaskComments.mockResolvedValueOnce([
+        {
+          id: 'c1',
+          authorId: 'user-456',
+          body: 'Ping @user-123',
+          createdAt: new Date(2026, 0, 1),
+          deleted: false,
+          replies: [
+            { id: 'c2', authorId: 'user-123', body: 'On it', createdAt: new Date(2026, 0, 2), deleted: false },
+          ],
+        },
+      ]);
+      renderWithTask();
+
+      await user.click(screen.getByRole('button', { name: 'Comments on Write release notes' }));
+
+      const theirs = await screen.findByRole('article', { name: 'Comment by Sam Patel' });
+      const mine = screen.getByRole('article', { name: 'Comment by Alex Morgan' });
+      expect(within(theirs).getByText('@Alex Morgan')).toBeInTheDocument();
+      expect(within(theirs).queryByRole('button', { name: 'Edit' })).not.toBeInTheDocument();
+      expect(within(mine).getByRole('button', { name: 'Edit' })).toBeInTheDocument();
+    });
+  });
+
+  describe('Labels and Saved Views', () => {
+    const labels = [
+      { name: 'Bug', color: '#ef4444' },
+      { name: 'Docs', color: '#3b82f6' },
+    ];
+
+    it('should show task labels and offer the other catalog labels', async () => {
+      const user = userEvent.setup();
+      const task = Task.create(TaskTitle.create('Fix login'), TaskPriority.high());
+      task.addLabel(TaskLabel.create('Bug'), UserId.create('user-123'));
+      vi.mocked(useTaskManagement).mockReturnValue({
+        ...defaultHookReturn,
+        labels,
+        tasks: [task],
+        filteredTasks: [task],
+      });
+
+      render(<TaskManagementApp />);
+      const picker = screen.getByLabelText('Add label to Fix login');
+      expect(within(picker).queryByRole('option', { name: 'Bug' })).not.toBeInTheDocument();
+      await user.selectOptions(picker, 'Docs');
+      await user.click(screen.getByRole('button', { name: 'Remove label Bug from Fix login' }));
+
+      expect(mockAddLabel).toHaveBeenCalledWith(task.id.toString(), 'Docs');
+      expect(mockRemoveLabel).toHaveBeenCalledWith(task.id.toString(), 'Bug');
+    });
+
+    it('should filter by label', async () => {
+      const user = userEvent.setup();
+      vi.mocked(useTaskManagement).mockReturnValue({ ...defaultHookReturn, labels });
+
+      render(<TaskManagementApp />);
+      await user.selectOptions(screen.getByLabelText('Filter by label'), 'Bug');
+
+      expect(mockUpdateTaskFilters).toHaveBeenCalledWith({ labels: ['Bug'] });
+    });
+
+    it('should add labels to the catalog', async () => {
+      const user = userEvent.setup();
+      render(<TaskManagementApp />);
+
+      await user.type(screen.getByLabelText('Label name'), 'Customer');
+      await user.click(screen.getByRole('button', { name: 'Save label' }));
+
+      expect(mockDefineLabel).toHaveBeenCalledWith('Customer', '#6366f1');
+    });
+
+    it('should save the current filters as a named view', async () => {
+      const user = userEvent.setup();
+      render(<TaskManagementApp />);
+
+      await user.click(screen.getByRole('button', { name: /save view/i }));
+      await user.type(screen.getByLabelText('View name'), 'My bugs');
+      await user.click(screen.getByRole('button', { name: 'Save' }));
+
+      expect(mockSaveView).toHaveBeenCalledWith('My bugs');
+      await waitFor(() => expect(screen.queryByLabelText('View name')).not.toBeInTheDocument());
+    });
+
+    it('should switch between saved views', async () => {
+      const user = userEvent.setup();
+      vi.mocked(useTaskManagement).mockReturnValue({
+        ...defaultHookReturn,
+        savedViews: [{ id: 'view-1', name: 'My bugs', criteria: { labels: ['Bug'] } }],
+        activeViewId: 'view-1',
+      });
+
+      render(<TaskManagementApp />);
+      expect(screen.getByLabelText('Saved view')).toHaveValue('view-1');
+      await user.selectOptions(screen.getByLabelText('Saved view'), 'All tasks');
+      await user.click(screen.getByRole('button', { name: 'Delete view My bugs' }));
+
+      expect(mockApplySavedView).toHaveBeenCalledWith(null);
+      expect(mockDeleteView).toHaveBeenCalledWith('view-1');
+    });
+  });
+
+  describe('Time Tracking', () => {
+    const startedTask = () => {
+      const task = Task.create(TaskTitle.create('Write report'), TaskPriority.medium());
+      task.assignTo(UserId.create('user-123'), UserId.create('user-123'));
+      task.startProgress(UserId.create('user-123'));
+      return task;
+    };
+
+    it('should set an estimate and stop the running timer', async () => {
+      const user = userEvent.setup();
+      const task = startedTask();
+      vi.mocked(useTaskManagement).mockReturnValue({
+        ...defaultHookReturn,
+        tasks: [task],
+        filteredTasks: [task],
+      });
+
+      render(<TaskManagementApp />);
+      await user.type(screen.getByLabelText('Estimate for Write report'), '3');
+      await user.selectOptions(screen.getByLabelText('Estimate unit for Write report'), 'points');
+      await user.click(screen.getByRole('button', { name: 'Set' }));
+      await user.click(screen.getByRole('button', { name: 'Stop timer on Write report' }));
+
+      expect(mockSetEstimate).toHaveBeenCalledWith(task.id.toString(), { value: 3, unit: 'points' });
+      expect(mockStopTimer).toHaveBeenCalledWith(task.id.toString());
+    });
+
+    it('should log time by hand', async () => {
+      const user = userEvent.setup();
+      const task = startedTask();
+      vi.mocked(useTaskManagement).mockReturnValue({
+        ...defaultHookReturn,
+        tasks: [task],
+        filteredTasks: [task],
+      });
+
+      render(<TaskManagementApp />);
+      await user.click(screen.getByRole('button', { name: 'Log time on Write report' }));
+      await user.type(screen.getByLabelText('Minutes worked on Write report'), '45');
+      fireEvent.change(screen.getByLabelText('Day worked on Write report'), { target: { value: '2026-03-04' } });
+      await user.type(screen.getByLabelText('Work note for Write report'), 'Outline');
+      await user.click(screen.getByRole('button', { name: 'Log' }));
+
+      expect(mockLogWork).toHaveBeenCalledWith(task.id.toString(), 45, new Date(2026, 2, 4, 9), 'Outline');
+      await waitFor(() => expect(screen.queryByLabelText('Minutes worked on Write report')).not.toBeInTheDocument());
+    });
+
+    it('should show the weekly timesheet and estimate vs actual', async () => {
+      const user = userEvent.setup();
+      const monday = new Date(2026, 2, 2);
+      const days = Array.from({ length: 7 }, (_, i) => new Date(2026, 2, 2 + i));
+      mockGetWeeklyTimesheet.mockResolvedValue({
+        userId: 'user-123',
+        weekStart: monday,
+        days,
+        rows: [{ taskId: 'task-1', title: 'Write report', dailyMs: [0, 0, 5400000, 0, 0, 0, 0], totalMs: 5400000 }],
+        dailyTotalsMs: [0, 0, 5400000, 0, 0, 0, 0],
+        totalMs: 5400000,
+      });
+      mockGetTimeTrackingSummary.mockResolvedValue([
+        { assigneeId: 'user-123', taskCount: 2, estimatedHours: 3, estimatedPoints: 5, loggedMs: 5400000 },
+      ]);
+
+      render(<TaskManagementApp initialView="timesheet" />);
+
+      const timesheet = await screen.findByRole('region', { name: 'Weekly timesheet' });
+      expect(within(timesheet).getByText('Write report')).toBeInTheDocument();
+      expect(within(timesheet).getAllByText('1h 30m')).toHaveLength(4);
+      const summary = screen.getByRole('region', { name: 'Estimate vs actual by assignee' });
+      expect(within(summary).getByText('3h + 5 pts')).toBeInTheDocument();
+      expect(screen.queryByLabelText('Saved view')).not.toBeInTheDocument();
+
+      await user.click(screen.getByRole('button', { name: /previous week/i }));
+      const firstWeek = mockGetWeeklyTimesheet.mock.calls[0][0] as Date;
+      const weekBefore = new Date(firstWeek);
+      weekBefore.setDate(firstWeek.getDate() - 7);
+      await waitFor(() => expect(mockGetWeeklyTimesheet).toHaveBeenLastCalledWith(weekBefore));
+    });
+  });
+
+  describe('Import and Export', () => {
+    it('should download the export in the chosen format', async () => {
+      const user = userEvent.setup();
+      const createObjectURL = vi.fn().mockReturnValue('blob:tasks');
+      const click = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {});
+      vi.stubGlobal('URL', { ...URL, createObjectURL, revokeObjectURL: vi.fn() });
+      mockExportTasks.mockResolvedValue({ fileName: 'tasks-2026-03-02.csv', mimeType: 'text/csv', content: 'id,title\r\n' });
+
+      try {
+        render(<TaskManagementApp />);
+        await user.click(screen.getByRole('button', { name: 'Export as CSV' }));
+
+        expect(mockExportTasks).toHaveBeenCalledWith('csv');
+        await waitFor(() => expect(click).toHaveBeenCalled());
+        expect(createObjectURL).toHaveBeenCalledWith(expect.any(Blob));
+      } finally {
+        click.mockRestore();
+        vi.unstubAllGlobals();
+      }
+    });
+
+    it('should import a CSV file and list the rows that failed', async () => {
+      const user = userEvent.setup();
+      mockImportTasks.mockResolvedValue({
+        importedCount: 2,
+        taskIds: {},
+        errors: [{ row: 4, message: 'Invalid task status: LATER' }],
+      });
+
+      render(<TaskManagementApp />);
+      await user.upload(
+        screen.getByLabelText('Import tasks from JSON or CSV'),
+        new File(['title\r\nWrite docs\r\n'], 'tasks.csv', { type: 'text/csv' })
+      );
+
+      expect(mockImportTasks).toHaveBeenCalledWith('title\r\nWrite docs\r\n', 'csv');
+      const status = await screen.findByRole('status');
+      expect(status).toHaveTextContent('Imported 2 tasks');
+      expect(status).toHaveTextContent('Row 4: Invalid task status: LATER');
+    });
+  });
+
+  describe('Current User', () => {
+    const users = [
+      { id: 'user-123', name: 'Alex Morgan', role: UserRole.MEMBER, teamNames: ['Core'] },
+      { id: 'lead-1', name: 'Jordan Lee', role: UserRole.LEAD, teamNames: ['Core'] },
+    ];
+
+    it('should act as the user picked in the switcher', async () => {
+      const user = userEvent.setup();
+      vi.mocked(useTaskManagement).mockReturnValue({ ...defaultHookReturn, users });
+
+      render(<TaskManagementApp />);
+
+      expect(useTaskManagement).toHaveBeenLastCalledWith('user-123');
+      await user.selectOptions(screen.getByRole('combobox', { name: 'Current user' }), 'lead-1');
+
+      expect(useTaskManagement).toHaveBeenLastCalledWith('lead-1');
+      expect(screen.getByRole('option', { name: 'Jordan Lee (Lead · Core)' })).toBeInTheDocument();
+    });
+
+    it('should offer to take over a task assigned to someone else', async () => {
+      const user = userEvent.setup();
+      const task = Task.create(TaskTitle.create('Their Task'), TaskPriority.medium());
+      task.assignTo(UserId.create('lead-1'), UserId.create('lead-1'));
+
+      vi.mocked(useTaskManagement).mockReturnValue({
+        ...defaultHookReturn,
+        users,
+        tasks: [task],
+        filteredTasks: [task],
+      });
+
+      render(<TaskManagementApp />);
+
+      expect(screen.getByText('Jordan Lee')).toBeInTheDocument();
+      await user.click(screen.getByRole('button', { name: /assign to me/i }));
+
+      expect(mockAssignTask).toHaveBeenCalledWith(task.id.toString(), 'user-123');
+    });
+  });
+
+  describe('Task Filters', () => {
+    it('should update filters when a status is selected', async () => {
+      const user = userEvent.setup();
+      render(<TaskManagementApp />);
+
+      await user.selectOptions(screen.getByRole('combobox', { name: /filter by status/i }), 'DONE');
+
+      expect(mockUpdateTaskFilters).toHaveBeenCalledWith({ statuses: ['DONE'] });
+    });
+
+    it('should filter unassigned tasks', async () => {
+      const user = userEvent.setup();
+      render(<TaskManagementApp />);
+
+      await user.selectOptions(screen.getByRole('combobox', { name: /filter by assignee/i }), 'unassigned');
+
+      expect(mockUpdateTaskFilters).toHaveBeenCalledWith({ assigneeId: null });
+    });
+
+    it('should show an empty state when no task matches', () => {
+      const task = Task.create(TaskTitle.create('Hidden Task'), TaskPriority.medium());
+
+      vi.mocked(useTaskManagement).mockReturnValue({
+        ...defaultHookReturn,
+        tasks: [task],
+      });
+
+      render(<TaskManagementApp />);
+
+      expect(screen.getByText('No tasks match the current filters')).toBeInTheDocument();
+    });
+
+    it('should load more tasks when more pages exist', async () => {
+      const user = userEvent.setup();
+      const task = Task.create(TaskTitle.create('First Page Task'), TaskPriority.medium());
+
+      vi.mocked(useTaskManagement).mockReturnValue({
+        ...defaultHookReturn,
+        tasks: [task],
+        filteredTasks: [task],
+        filteredTaskCount: 2,
+        hasMoreTasks: true,
+      });
+
+      render(<TaskManagementApp />);
+
+      await user.click(screen.getByRole('button', { name: /load more/i }));
+
+      expect(mockLoadMoreTasks).toHaveBeenCalled();
+    });
+  });
+
+  describe('Task Checklist', () => {
+    it('should show checklist progress and toggle items', async () => {
+      const user = userEvent.setup();
+      const task = Task.create(TaskTitle.create('Release'), TaskPriority.medium());
+      const item = task.addChecklistItem('Update changelog', UserId.create('user-123'));
+      task.addChecklistItem('Tag release', UserId.create('user-123'));
+      task.toggleChecklistItem(item.id, UserId.create('user-123'));
+      mockToggleChecklistItem.mockResolvedValue(undefined);
+
+      vi.mocked(useTaskManagement).mockReturnValue({
+        ...defaultHookReturn,
+        tasks: [task],
+        filteredTasks: [task],
+      });
+
+      render(<TaskManagementApp />);
+
+      expect(screen.getByRole('progressbar', { name: 'Checklist progress of Release' }))
+        .toHaveAttribute('aria-valuenow', '50');
+      expect(screen.getByText('50% done')).toBeInTheDocument();
+
+      await user.click(screen.getByRole('checkbox', { name: 'Tag release' }));
+
+      expect(mockToggleChecklistItem).toHaveBeenCalledWith(task.id.toString(), task.checklist[1].id);
+    });
+
+    it('should add optional checklist items', async () => {
+      const user = userEvent.setup();
+      const task = Task.create(TaskTitle.create('Release'), TaskPriority.medium());
+      mockAddChecklistItem.mockResolvedValue(undefined);
+
+      vi.mocked(useTaskManagement).mockReturnValue({
+        ...defaultHookReturn,
+        tasks: [task],
+        filteredTasks: [task],
+      });
+
+      render(<TaskManagementApp />);
+      const input = screen.getByRole('textbox', { name: 'New checklist item for Release' });
+      await user.type(input, 'Write blog post');
+      await user.click(screen.getByRole('checkbox', { name: 'Optional' }));
+      await user.click(screen.getByRole('button', { name: 'Add' }));
+
+      expect(mockAddChecklistItem).toHaveBeenCalledWith(task.id.toString(), 'Write blog post', false);
+      await waitFor(() => expect(input).toHaveValue(''));
+    });
+  });
+
+  describe('Task Dependencies', () => {
+    it('should call addDependency when a blocker is selected', async () => {
+      const user = userEvent.setup();
+      const task = Task.create(TaskTitle.create('Deploy'), TaskPriority.medium());
+      const blocker = Task.create(TaskTitle.create('Build'), TaskPriority.medium());
+
+      vi.mocked(useTaskManagement).mockReturnValue({
+        ...defaultHookReturn,
+        tasks: [task, blocker],
+        filteredTasks: [task, blocker],
+      });
+
+      render(<TaskManagementApp />);
+
+      const [deploySelect] = screen.getAllByRole('combobox', { name: /add blocking task/i });
+      await user.selectOptions(deploySelect, blocker.id.toString());
+
+      expect(mockAddDependency).toHaveBeenCalledWith(task.id.toString(), blocker.id.toString());
+    });
+
+    it('should render the dependency graph empty state', () => {
+      render(<TaskManagementApp />);
+
+      expect(screen.getByText('Dependency Graph')).toBeInTheDocument();
+      expect(screen.getByText(/No dependencies yet/)).toBeInTheDocument();
+    });
+  });
+
+  describe('Task History', () => {
+    it('should open the history timeline for a task', async () => {
+      const user = userEvent.setup();
+      const task = Task.create(TaskTitle.create('Audited Task'), TaskPriority.medium());
+      mockGetTaskHistory.mockResolvedValue([
+        {
+          eventType: 'TaskAssigned',
+          occurredAt: new Date('2025-01-01T00:00:00Z'),
+          actorId: 'user-123',
+          description: 'Assigned to user-123 by user-123',
+        },
+      ]);
+
+      vi.mocked(useTaskManagement).mockReturnValue({
+        ...defaultHookReturn,
+        tasks: [task],
+        filteredTasks: [task],
+      });
+
+      render(<TaskManagementApp />);
+
+      await user.click(screen.getByRole('button', { name: /history/i }));
+
+      expect(mockGetTaskHistory).toHaveBeenCalledWith(task.id.toString());
+      expect(await screen.findByText('Assigned to user-123 by user-123')).toBeInTheDocument();
+    });
+  });
+
+  describe('Failed Events', () => {
+    const deadLetter = {
+      id: 'dead-1',
+      eventType: 'TaskCompleted',
+      taskId: 'task-1',
+      subscriptionName: 'taskHistory',
+      error: 'Quota exceeded',
+      attempts: 3,
+      failedAt: new Date('2025-01-01T00:00:00Z'),
+    };
+
+    it('should hide the panel when nothing has failed', () => {
+      render(<TaskManagementApp />);
+
+      expect(screen.queryByText('Failed Events')).not.toBeInTheDocument();
+    });
+
+    it('should list dead-lettered events and replay or discard them', async () => {
+      const user = userEvent.setup();
+      vi.mocked(useTaskManagement).mockReturnValue({
+        ...defaultHookReturn,
+        deadLetters: [deadLetter],
+      });
+
+      render(<TaskManagementApp />);
+
+      expect(screen.getByText('Failed Events')).toBeInTheDocument();
+      expect(screen.getByText('Quota exceeded')).toBeInTheDocument();
+
+      await user.click(screen.getByRole('button', { name: 'Replay TaskCompleted for taskHistory' }));
+      expect(mockReplayDeadLetter).toHaveBeenCalledWith('dead-1');
+
+      await user.click(screen.getByRole('button', { name: 'Discard TaskCompleted for taskHistory' }));
+      expect(mockDiscardDeadLetter).toHaveBeenCalledWith('dead-1');
+    });
   });
 
   describe('Error Handling', () => {
@@ -1,25 +1,114 @@
 import React, { useState, useCallback, useMemo, useEffect } from 'react';
-import { useTaskManagement } from '../hooks/useTaskManagement';
+import { useTaskManagement, PriorityOption } from '../hooks/useTaskManagement';
+import { TaskHistoryTimeline } from './TaskHistoryTimeline';
+import { TaskCommentPanel } from './TaskCommentPanel';
+import { TaskDependencyGraph } from './TaskDependencyGraph';
+import { TaskFilterBar } from './TaskFilterBar';
+import { DeadLetterPanel } from './DeadLetterPanel';
+import { SavedViewsBar } from './SavedViewsBar';
+import { TaskLabels } from './TaskLabels';
+import { LabelCatalogPanel } from './LabelCatalogPanel';
+import { TaskImportExportPanel } from './TaskImportExportPanel';
+import { EditableTaskTitle } from './EditableTaskTitle';
+import { CurrentUserSwitcher } from './CurrentUserSwitcher';
+import { TaskKanbanBoard } from './TaskKanbanBoard';
+import { TaskChecklist } from './TaskChecklist';
+import { TaskTimeTracking } from './TaskTimeTracking';
+import { WeeklyTimesheet } from './WeeklyTimesheet';
+import {
+  TaskScheduleFields,
+  ScheduleDraft,
+  EMPTY_SCHEDULE,
+  parseDateInput,
+  toRecurrenceProps
+} from './TaskScheduleFields';
+import { TaskHistoryEntry } from '../../application/useCases/GetTaskHistoryUseCase';
+import { CommentThread } from '../../application/useCases/GetTaskCommentsUseCase';
+import { WeeklyTimesheet as Timesheet } from '../../application/useCases/GetWeeklyTimesheetUseCase';
+import { AssigneeTimeSummary } from '../../application/useCases/GetTimeTrackingSummaryUseCase';
+import { UserId } from '../../domain/valueObjects/UserId';
+import { TaskDependencyService } from '../../domain/services/TaskDependencyService';
 import { ToastContainer, toast } from 'react-toastify';
 import 'react-toastify/dist/ReactToastify.css';
 
-export const TaskManagementApp: React.FC = () => {
-  const currentUserId = 'user-123';
+export type TaskView = 'list' | 'board' | 'timesheet';
+
+interface TaskManagementAppProps {
+  initialView?: TaskView;
+}
+
+export const TaskManagementApp: React.FC<TaskManagementAppProps> = ({ initialView = 'list' }) => {
+  const [currentUserId, setCurrentUserId] = useState('user-123');
   const {
     tasks,
+    filteredTasks,
+    filteredTaskCount,
+    taskFilters,
+    hasMoreTasks,
     loading,
     error,
     eventLog,
+    deadLetters,
+    users,
+    workflow,
+    labels,
+    savedViews,
+    activeViewId,
+    notificationPermission,
     createTask,
     assignTask,
     completeTask,
     reopenTask,
-    clearEventLog
+    startTask,
+    moveTask,
+    unassignTask,
+    renameTask,
+    changeTaskPriority,
+    addChecklistItem,
+    toggleChecklistItem,
+    removeChecklistItem,
+    addDependency,
+    removeDependency,
+    addLabel,
+    removeLabel,
+    setEstimate,
+    startTimer,
+    stopTimer,
+    logWork,
+    getWeeklyTimesheet,
+    getTimeTrackingSummary,
+    exportTasks,
+    importTasks,
+    defineLabel,
+    deleteLabel,
+    getTaskHistory,
+    getTaskComments,
+    addComment,
+    editComment,
+    deleteComment,
+    updateTaskFilters,
+    applySavedView,
+    saveView,
+    deleteView,
+    loadMoreTasks,
+    replayDeadLetter,
+    discardDeadLetter,
+    clearEventLog,
+    enableBrowserNotifications
   } = useTaskManagement(currentUserId);
 
   const [newTaskTitle, setNewTaskTitle] = useState('');
-  const [selectedPriority, setSelectedPriority] = useState<'low' | 'medium' | 'high' | 'critical'>('medium');
+  const [selectedPriority, setSelectedPriority] = useState<PriorityOption>('medium');
+  const [schedule, setSchedule] = useState<ScheduleDraft>(EMPTY_SCHEDULE);
   const [showEventLog, setShowEventLog] = useState(true);
+  const [historyTask, setHistoryTask] = useState<{ id: string; title: string } | null>(null);
+  const [historyEntries, setHistoryEntries] = useState<TaskHistoryEntry[]>([]);
+  const [commentsTask, setCommentsTask] = useState<{ id: string; title: string } | null>(null);
+  const [commentThreads, setCommentThreads] = useState<CommentThread[]>([]);
+  const [view, setView] = useState<TaskView>(initialView);
+  const [timesheetWeek, setTimesheetWeek] = useState(() => new Date());
+  const [timesheet, setTimesheet] = useState<Timesheet | null>(null);
+  const [timeSummary, setTimeSummary] = useState<AssigneeTimeSummary[]>([]);
 
   // Show error toast when error state changes
   useEffect(() => {
@@ -33,12 +122,18 @@ export const TaskManagementApp: React.FC = () => {
     if (!newTaskTitle.trim()) return;
 
     try {
-      await createTask(newTaskTitle, selectedPriority);
+      await createTask(
+        newTaskTitle,
+        selectedPriority,
+        parseDateInput(schedule.dueDate),
+        toRecurrenceProps(schedule)
+      );
       setNewTaskTitle('');
+      setSchedule(EMPTY_SCHEDULE);
     } catch (err) {
       console.error('Failed to create task:', err);
     }
-  }, [newTaskTitle, selectedPriority, createTask]);
+  }, [newTaskTitle, selectedPriority, schedule, createTask]);
 
   const handleAssignToMe = useCallback(async (taskId: string) => {
     try {
@@ -65,6 +160,118 @@ export const TaskManagementApp: React.FC = () => {
     }
   }, [reopenTask]);
 
+  const handleStart = useCallback(async (taskId: string) => {
+    try {
+      await startTask(taskId);
+    } catch (err) {
+      console.error('Failed to start task:', err);
+    }
+  }, [startTask]);
+
+  const handleUnassign = useCallback(async (taskId: string) => {
+    try {
+      await unassignTask(taskId);
+    } catch (err) {
+      console.error('Failed to unassign task:', err);
+    }
+  }, [unassignTask]);
+
+  const handleChangePriority = useCallback(async (taskId: string, priority: PriorityOption) => {
+    try {
+      await changeTaskPriority(taskId, priority);
+    } catch (err) {
+      console.error('Failed to change priority:', err);
+    }
+  }, [changeTaskPriority]);
+
+  const handleAddDependency = useCallback(async (taskId: string, blockedByTaskId: string) => {
+    try {
+      await addDependency(taskId, blockedByTaskId);
+    } catch (err) {
+      console.error('Failed to add dependency:', err);
+    }
+  }, [addDependency]);
+
+  const handleRemoveDependency = useCallback(async (taskId: string, blockedByTaskId: string) => {
+    try {
+      await removeDependency(taskId, blockedByTaskId);
+    } catch (err) {
+      console.error('Failed to remove dependency:', err);
+    }
+  }, [removeDependency]);
+
+  const handleAddLabel = useCallback(async (taskId: string, labelName: string) => {
+    try {
+      await addLabel(taskId, labelName);
+    } catch (err) {
+      console.error('Failed to add label:', err);
+    }
+  }, [addLabel]);
+
+  const handleRemoveLabel = useCallback(async (taskId: string, labelName: string) => {
+    try {
+      await removeLabel(taskId, labelName);
+    } catch (err) {
+      console.error('Failed to remove label:', err);
+    }
+  }, [removeLabel]);
+
+  const getUserName = useCallback((userId: string): string => {
+    return users.find(u => u.id === userId)?.name ?? userId;
+  }, [users]);
+
+  const getTaskTitle = useCallback((taskId: string): string => {
+    return tasks.find(t => t.id.toString() === taskId)?.title.toString() ?? 'Unknown task';
+  }, [tasks]);
+
+  const handleShowHistory = useCallback((taskId: string, title: string) => {
+    setHistoryEntries([]);
+    setHistoryTask({ id: taskId, title });
+  }, []);
+
+  // Reload the open timeline whenever new domain events are logged
+  useEffect(() => {
+    if (!historyTask) return;
+
+    getTaskHistory(historyTask.id)
+      .then(setHistoryEntries)
+      .catch((err) => console.error('Failed to load task history:', err));
+  }, [historyTask, eventLog]);
+
+  const handleShowComments = useCallback((taskId: string, title: string) => {
+    setCommentThreads([]);
+    setCommentsTask({ id: taskId, title });
+  }, []);
+
+  // Comment changes raise events too, so this also picks up our own edits
+  useEffect(() => {
+    if (!commentsTask) return;
+
+    getTaskComments(commentsTask.id)
+      .then(setCommentThreads)
+      .catch((err) => console.error('Failed to load comments:', err));
+  }, [commentsTask, eventLog]);
+
+  // Logged work raises events, so the timesheet stays current like the timeline
+  useEffect(() => {
+    if (view !== 'timesheet') return;
+
+    Promise.all([getWeeklyTimesheet(timesheetWeek), getTimeTrackingSummary()])
+      .then(([week, summary]) => {
+        setTimesheet(week);
+        setTimeSummary(summary);
+      })
+      .catch((err) => console.error('Failed to load timesheet:', err));
+  }, [view, timesheetWeek, currentUserId, eventLog]);
+
+  const shiftTimesheetWeek = useCallback((weeks: number) => {
+    setTimesheetWeek((current) => {
+      const next = new Date(current);
+      next.setDate(current.getDate() + weeks * 7);
+      return next;
+    });
+  }, []);
+
   const canReopenTask = useCallback((task: any): boolean => {
     if (!task.status.isDone() || !task.completedAt) {
       return false;
@@ -90,7 +297,10 @@ export const TaskManagementApp: React.FC = () => {
     switch (status) {
       case 'TODO': return 'bg-gray-100 text-gray-800';
       case 'IN_PROGRESS': return 'bg-blue-100 text-blue-800';
+      case 'IN_REVIEW': return 'bg-purple-100 text-purple-800';
+      case 'BLOCKED': return 'bg-red-100 text-red-800';
       case 'DONE': return 'bg-green-100 text-green-800';
+      case 'CANCELLED': return 'bg-gray-200 text-gray-500';
       default: return 'bg-gray-100 text-gray-800';
     }
   }, []);
@@ -100,9 +310,11 @@ export const TaskManagementApp: React.FC = () => {
   }, [tasks]);
 
   const activeTasksCount = useMemo(() => {
-    return tasks.filter(t => !t.status.isDone()).length;
+    return tasks.filter(t => !t.status.isClosed()).length;
   }, [tasks]);
 
+  const openBlockerIds = useMemo(() => TaskDependencyService.openBlockerIds(tasks), [tasks]);
+
   if (loading && tasks.length === 0) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center">
@@ -118,11 +330,34 @@ export const TaskManagementApp: React.FC = () => {
     <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100">
       <div className="max-w-7xl mx-auto p-6">
         {/* Header */}
-        <div className="mb-8">
-          <h1 className="text-4xl font-bold text-gray-900 mb-2">
-            Task Management System
-          </h1>
-          <p className="text-gray-600">Domain-Driven Design + Domain Events Demo</p>
+        <div className="mb-8 flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h1 className="text-4xl font-bold text-gray-900 mb-2">
+              Task Management System
+            </h1>
+            <p className="text-gray-600">Domain-Driven Design + Domain Events Demo</p>
+          </div>
+          <div className="flex items-center gap-3">
+            {notificationPermission === 'default' && (
+              <button
+                onClick={enableBrowserNotifications}
+                className="px-3 py-2 bg-white border border-gray-300 text-sm text-gray-700 rounded-lg hover:bg-gray-100 transition"
+              >
+                🔔 Enable reminder notifications
+              </button>
+            )}
+            <a
+              href="/tasks/insights"
+              className="px-3 py-2 bg-white border border-gray-300 text-sm text-gray-700 rounded-lg hover:bg-gray-100 transition"
+            >
+              📊 Insights
+            </a>
+            <CurrentUserSwitcher
+              users={users}
+              currentUserId={currentUserId}
+              onChange={setCurrentUserId}
+            />
+          </div>
         </div>
 
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
@@ -143,8 +378,9 @@ export const TaskManagementApp: React.FC = () => {
                 </div>
                 <div className="flex gap-4">
                   <select
+                    aria-label="Task priority"
                     value={selectedPriority}
-                    onChange={(e) => setSelectedPriority(e.target.value as any)}
+                    onChange={(e) => setSelectedPriority(e.target.value as PriorityOption)}
                     className="flex-1 px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition"
                   >
                     <option value="low">🟢 Low Priority</option>
@@ -159,6 +395,7 @@ export const TaskManagementApp: React.FC = () => {
                     Create Task
                   </button>
                 </div>
+                <TaskScheduleFields value={schedule} onChange={setSchedule} />
               </form>
             </div>
 
@@ -169,6 +406,18 @@ export const TaskManagementApp: React.FC = () => {
                   Tasks ({tasks.length})
                 </h2>
                 <div className="flex gap-2">
+                  <div className="flex rounded-lg border border-gray-300 overflow-hidden text-sm">
+                    {(['list', 'board', 'timesheet'] as const).map((option) => (
+                      <button
+                        key={option}
+                        onClick={() => setView(option)}
+                        aria-pressed={view === option}
+                        className={`px-3 py-1 capitalize ${view === option ? 'bg-indigo-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-100'}`}
+                      >
+                        {option}
+                      </button>
+                    ))}
+                  </div>
                   <span className="px-3 py-1 bg-green-100 text-green-800 rounded-full text-sm font-medium">
                     ✓ {completedTasksCount} Completed
                   </span>
@@ -178,8 +427,36 @@ export const TaskManagementApp: React.FC = () => {
                 </div>
               </div>
 
+              {view !== 'timesheet' && (
+                <>
+                  <SavedViewsBar
+                    views={savedViews}
+                    activeViewId={activeViewId}
+                    onSelect={applySavedView}
+                    onSave={saveView}
+                    onDelete={deleteView}
+                  />
+
+                  <TaskFilterBar
+                    filters={taskFilters}
+                    currentUserId={currentUserId}
+                    labels={labels}
+                    onChange={updateTaskFilters}
+                  />
+                </>
+              )}
+
               <div className="space-y-4">
-                {tasks.length === 0 ? (
+                {view === 'timesheet' ? (
+                  <WeeklyTimesheet
+                    timesheet={timesheet}
+                    summary={timeSummary}
+                    getUserName={getUserName}
+                    onPreviousWeek={() => shiftTimesheetWeek(-1)}
+                    onNextWeek={() => shiftTimesheetWeek(1)}
+                    onThisWeek={() => setTimesheetWeek(new Date())}
+                  />
+                ) : tasks.length === 0 ? (
                   <div className="text-center py-12">
                     <svg className="mx-auto h-12 w-12 text-gray-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2" />
@@ -187,8 +464,19 @@ export const TaskManagementApp: React.FC = () => {
                     <p className="mt-4 text-gray-500 text-lg">No tasks yet</p>
                     <p className="text-gray-400 text-sm">Create your first task above to get started!</p>
                   </div>
+                ) : filteredTasks.length === 0 ? (
+                  <p className="text-center py-8 text-gray-500">
+                    No tasks match the current filters
+                  </p>
+                ) : view === 'board' ? (
+                  <TaskKanbanBoard
+                    tasks={filteredTasks}
+                    workflow={workflow}
+                    getUserName={getUserName}
+                    onMove={moveTask}
+                  />
                 ) : (
-                  tasks.map((task) => (
+                  filteredTasks.map((task) => (
                     <div
                       key={task.id.toString()}
                       className="border border-gray-200 rounded-lg p-4 hover:shadow-md transition-shadow bg-gray-50"
@@ -196,6 +484,7 @@ export const TaskManagementApp: React.FC = () => {
                       <div className="flex items-start gap-4">
                         <input
                           type="checkbox"
+                          aria-label={`Complete ${task.title.toString()}`}
                           checked={task.status.isDone()}
                           onChange={() => handleComplete(task.id.toString())}
                           disabled={task.status.isDone()}
@@ -204,11 +493,18 @@ export const TaskManagementApp: React.FC = () => {
                         
                         <div className="flex-1">
                           <div className="flex items-start justify-between mb-2">
-                            <h3 className={`text-lg font-semibold ${task.status.isDone() ? 'line-through text-gray-500' : 'text-gray-900'}`}>
-                              {task.title.toString()}
-                            </h3>
+                            {task.status.isDone() ? (
+                              <h3 className="text-lg font-semibold line-through text-gray-500">
+                                {task.title.toString()}
+                              </h3>
+                            ) : (
+                              <EditableTaskTitle
+                                title={task.title.toString()}
+                                onRename={(title) => renameTask(task.id.toString(), title)}
+                              />
+                            )}
                             <div className="flex gap-2">
-                              {!task.assignment && !task.status.isDone() && (
+                              {!task.isAssignedTo(UserId.create(currentUserId)) && !task.status.isDone() && (
                                 <button
                                   onClick={() => handleAssignToMe(task.id.toString())}
                                   className="px-3 py-1 bg-green-500 text-white text-sm rounded-lg hover:bg-green-600 transition"
@@ -216,6 +512,22 @@ export const TaskManagementApp: React.FC = () => {
                                   Assign to Me
                                 </button>
                               )}
+                              {task.status.isTodo() && task.isAssignedTo(UserId.create(currentUserId)) && (
+                                <button
+                                  onClick={() => handleStart(task.id.toString())}
+                                  className="px-3 py-1 bg-indigo-500 text-white text-sm rounded-lg hover:bg-indigo-600 transition"
+                                >
+                                  ▶ Start
+                                </button>
+                              )}
+                              {task.assignment && !task.status.isDone() && (
+                                <button
+                                  onClick={() => handleUnassign(task.id.toString())}
+                                  className="px-3 py-1 bg-gray-200 text-gray-700 text-sm rounded-lg hover:bg-gray-300 transition"
+                                >
+                                  Unassign
+                                </button>
+                              )}
                               {canReopenTask(task) && (
                                 <button
                                   onClick={() => handleReopen(task.id.toString())}
@@ -224,27 +536,85 @@ export const TaskManagementApp: React.FC = () => {
                                   🔄 Reopen
                                 </button>
                               )}
+                              <button
+                                onClick={() => handleShowHistory(task.id.toString(), task.title.toString())}
+                                className="px-3 py-1 bg-gray-200 text-gray-700 text-sm rounded-lg hover:bg-gray-300 transition"
+                              >
+                                🕒 History
+                              </button>
+                              <button
+                                onClick={() => handleShowComments(task.id.toString(), task.title.toString())}
+                                aria-label={`Comments on ${task.title.toString()}`}
+                                className="px-3 py-1 bg-gray-200 text-gray-700 text-sm rounded-lg hover:bg-gray-300 transition"
+                              >
+                                💬 Comments
+                              </button>
                             </div>
                           </div>
 
                           <div className="flex flex-wrap gap-2 mb-2">
                             <span className={`px-2 py-1 rounded-full text-xs font-medium ${getStatusColor(task.status.toString())}`}>
-                              {task.status.toString().replace('_', ' ')}
-                            </span>
-                            <span className={`px-2 py-1 rounded-full text-xs font-medium ${getPriorityColor(task.priority.toString())}`}>
-                              {task.priority.toString()}
+                              {workflow.labelOf(task.status)}
                             </span>
+                            {task.status.isDone() ? (
+                              <span className={`px-2 py-1 rounded-full text-xs font-medium ${getPriorityColor(task.priority.toString())}`}>
+                                {task.priority.toString()}
+                              </span>
+                            ) : (
+                              <select
+                                value={task.priority.toString().toLowerCase()}
+                                onChange={(e) => handleChangePriority(task.id.toString(), e.target.value as PriorityOption)}
+                                aria-label={`Priority of ${task.title.toString()}`}
+                                className={`px-2 py-1 rounded-full text-xs font-medium border-0 ${getPriorityColor(task.priority.toString())}`}
+                              >
+                                <option value="low">LOW</option>
+                                <option value="medium">MEDIUM</option>
+                                <option value="high">HIGH</option>
+                                <option value="critical">CRITICAL</option>
+                              </select>
+                            )}
                             <span className="px-2 py-1 bg-purple-100 text-purple-800 rounded-full text-xs font-medium">
                               {task.getAgeInDays()} days old
                             </span>
+                            {task.dueDate && (
+                              <span className="px-2 py-1 bg-gray-100 text-gray-700 rounded-full text-xs font-medium">
+                                📅 Due {task.dueDate.toLocaleDateString()}
+                              </span>
+                            )}
+                            {task.recurrence && (
+                              <span className="px-2 py-1 bg-indigo-100 text-indigo-800 rounded-full text-xs font-medium">
+                                🔁 {task.recurrence.describe()}
+                              </span>
+                            )}
                           </div>
 
+                          <TaskLabels
+                            taskTitle={task.title.toString()}
+                            labels={task.labels}
+                            catalog={labels}
+                            onAdd={(name) => handleAddLabel(task.id.toString(), name)}
+                            onRemove={(name) => handleRemoveLabel(task.id.toString(), name)}
+                          />
+
                           {task.assignment && (
                             <p className="text-sm text-gray-600">
-                              👤 Assigned to: <span className="font-medium">{task.assignment.getAssignedTo().toString()}</span>
+                              👤 Assigned to: <span className="font-medium">{getUserName(task.assignment.getAssignedTo().toString())}</span>
                             </p>
                           )}
 
+                          <TaskTimeTracking
+                            taskTitle={task.title.toString()}
+                            estimate={task.estimate}
+                            trackedMs={task.getTrackedMs()}
+                            timerRunning={task.runningTimer !== undefined}
+                            canUseTimer={task.status.isInProgress() && task.isAssignedTo(UserId.create(currentUserId))}
+                            editable={!task.status.isDone()}
+                            onSetEstimate={(estimate) => setEstimate(task.id.toString(), estimate)}
+                            onStartTimer={() => startTimer(task.id.toString())}
+                            onStopTimer={() => stopTimer(task.id.toString())}
+                            onLogWork={(minutes, workedOn, note) => logWork(task.id.toString(), minutes, workedOn, note)}
+                          />
+
                           {task.isOverdue() && (
                             <div className="mt-2 flex items-center text-red-600 text-sm font-semibold">
                               <svg className="w-4 h-4 mr-1" fill="currentColor" viewBox="0 0 20 20">
@@ -254,7 +624,7 @@ export const TaskManagementApp: React.FC = () => {
                             </div>
                           )}
 
-                          {task.hasBlockingDependencies() && (
+                          {task.hasBlockingDependencies(openBlockerIds) && (
                             <div className="mt-2 flex items-center text-yellow-600 text-sm font-semibold">
                               <svg className="w-4 h-4 mr-1" fill="currentColor" viewBox="0 0 20 20">
                                 <path fillRule="evenodd" d="M5 9V7a5 5 0 0110 0v2a2 2 0 012 2v5a2 2 0 01-2 2H5a2 2 0 01-2-2v-5a2 2 0 012-2zm8-2v2H7V7a3 3 0 016 0z" clipRule="evenodd" />
@@ -262,17 +632,124 @@ export const TaskManagementApp: React.FC = () => {
                               Has blocking dependencies
                             </div>
                           )}
+
+                          {!task.status.isDone() && (
+                            <div className="mt-3 flex flex-wrap items-center gap-2 text-sm">
+                              <span className="text-gray-600">⛓ Blocked by:</span>
+                              {task.getBlockingDependencies().map((dep) => {
+                                const blockerId = dep.getDependentTaskId().toString();
+                                return (
+                                  <span
+                                    key={blockerId}
+                                    className="inline-flex items-center gap-1 px-2 py-1 bg-yellow-100 text-yellow-800 rounded-full text-xs font-medium"
+                                  >
+                                    {getTaskTitle(blockerId)}
+                                    <button
+                                      onClick={() => handleRemoveDependency(task.id.toString(), blockerId)}
+                                      aria-label={`Remove dependency on ${getTaskTitle(blockerId)}`}
+                                      className="text-yellow-900 hover:text-red-600"
+                                    >
+                                      ×
+                                    </button>
+                                  </span>
+                                )
+                              })}
+                              <select
+                                value=""
+                                onChange={(e) => handleAddDependency(task.id.toString(), e.target.value)}
+                                aria-label="Add blocking task"
+                                className="px-2 py-1 border border-gray-300 rounded-lg text-xs focus:ring-2 focus:ring-indigo-500"
+                              >
+                                <option value="">＋ Add blocker…</option>
+                                {tasks
+                                  .filter((other) =>
+                                    !other.id.equals(task.id) &&
+                                    !other.status.isDone() &&
+                                    !task.dependencies.some((d) => d.getDependentTaskId().equals(other.id))
+                                  )
+                                  .map((other) => (
+                                    <option key={other.id.toString()} value={other.id.toString()}>
+                                      {other.title.toString()}
+                                    </option>
+                                  ))}
+                              </select>
+                            </div>
+                          )}
+
+                          <TaskChecklist
+                            taskTitle={task.title.toString()}
+                            items={task.checklist}
+                            progress={task.getChecklistProgress()}
+                            editable={!task.status.isDone()}
+                            onAdd={(title, required) => addChecklistItem(task.id.toString(), title, required)}
+                            onToggle={(itemId) => toggleChecklistItem(task.id.toString(), itemId)}
+                            onRemove={(itemId) => removeChecklistItem(task.id.toString(), itemId)}
+                          />
                         </div>
                       </div>
                     </div>
                   ))
                 )}
               </div>
+
+              {tasks.length > 0 && view !== 'timesheet' && (
+                <div className="mt-4 flex items-center justify-between text-sm text-gray-500">
+                  <span>
+                    Showing {filteredTasks.length} of {filteredTaskCount} matching tasks
+                  </span>
+                  {hasMoreTasks && (
+                    <button
+                      onClick={loadMoreTasks}
+                      className="px-4 py-2 text-indigo-600 hover:text-indigo-800 font-medium"
+                    >
+                      Load more
+                    </button>
+                  )}
+                </div>
+              )}
             </div>
+
+            {/* Dependency Graph */}
+            <TaskDependencyGraph tasks={tasks} />
           </div>
 
           {/* Event Log Panel */}
-          <div className="lg:col-span-1">
+          <div className="lg:col-span-1 space-y-6">
+            {historyTask && (
+              <TaskHistoryTimeline
+                taskTitle={historyTask.title}
+                entries={historyEntries}
+                onClose={() => setHistoryTask(null)}
+              />
+            )}
+
+            {commentsTask && (
+              <TaskCommentPanel
+                taskTitle={commentsTask.title}
+                threads={commentThreads}
+                users={users}
+                currentUserId={currentUserId}
+                onAdd={(body, parentId) => addComment(commentsTask.id, body, parentId)}
+                onEdit={editComment}
+                onDelete={deleteComment}
+                onClose={() => setCommentsTask(null)}
+              />
+            )}
+
+            <LabelCatalogPanel
+              labels={labels}
+              onDefine={defineLabel}
+              onDelete={deleteLabel}
+            />
+
+            <TaskImportExportPanel onExport={exportTasks} onImport={importTasks} />
+
+            <DeadLetterPanel
+              deadLetters={deadLetters}
+              onReplay={replayDeadLetter}
+              onDiscard={discardDeadLetter}
+            />
+
             <div className="sticky top-6 bg-white rounded-xl shadow-lg p-6">
               <div className="flex justify-between items-center mb-4">
                 <h2 className="text-xl font-semibold text-gray-800">
@@ -330,6 +807,15 @@ export const TaskManagementApp: React.FC = () => {
                     <ul className="text-xs space-y-1 text-indigo-800">
                       <li>• Create a task</li>
                       <li>• Assign task to yourself</li>
+                      <li>• Start, rename or reprioritize a task</li>
+                      <li>• Break a task down with a checklist</li>
+                      <li>• Set a repeat to get the next task when one is done</li>
+                      <li>• @mention teammates in comments to loop them in</li>
+                      <li>• Label tasks, then save your filters as a view</li>
+                      <li>• Estimate tasks and track time on the timesheet</li>
+                      <li>• Open Insights for throughput and cycle time</li>
+                      <li>• Drag tasks across the board, or use the arrow keys</li>
+                      <li>• Switch user to try lead and admin rights</li>
                       <li>• Complete a task</li>
                       <li>• Reopen a completed task</li>
                       <li>• Check console for details</li>
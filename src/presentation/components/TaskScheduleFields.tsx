@@ -0,0 +1,155 @@
+import React, { useMemo } from 'react';
+import {
+  RecurrenceFrequency,
+  TaskRecurrence,
+  TaskRecurrenceProps
+} from '../../domain/valueObjects/TaskRecurrence';
+
+export interface ScheduleDraft {
+  /** yyyy-mm-dd as given by the date input; empty for no due date */
+  dueDate: string;
+  frequency: RecurrenceFrequency | '';
+  interval: number;
+  ends: 'never' | 'until' | 'count';
+  until: string;
+  count: number;
+}
+
+export const EMPTY_SCHEDULE: ScheduleDraft = {
+  dueDate: '',
+  frequency: '',
+  interval: 1,
+  ends: 'never',
+  until: '',
+  count: 5
+};
+
+// A date input gives a whole day, so treat it as due by the end of that day
+export const parseDateInput = (value: string): Date | undefined => {
+  if (!value) return undefined;
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day, 23, 59, 59, 999);
+};
+
+export const toRecurrenceProps = (draft: ScheduleDraft): TaskRecurrenceProps | undefined => {
+  if (!draft.frequency) return undefined;
+  return {
+    frequency: draft.frequency,
+    interval: draft.interval,
+    until: draft.ends === 'until' ? parseDateInput(draft.until) : undefined,
+    count: draft.ends === 'count' ? draft.count : undefined
+  };
+};
+
+const PREVIEW_LENGTH = 5;
+
+interface TaskScheduleFieldsProps {
+  value: ScheduleDraft;
+  onChange: (value: ScheduleDraft) => void;
+}
+
+/**
+ * Due date and repeat settings for the create form, with a preview of the
+ * due dates the series will produce.
+ */
+export const TaskScheduleFields: React.FC<TaskScheduleFieldsProps> = ({ value, onChange }) => {
+  const update = (changes: Partial<ScheduleDraft>) => onChange({ ...value, ...changes });
+
+  const preview = useMemo(() => {
+    const props = toRecurrenceProps(value);
+    if (!props) return null;
+    try {
+      const start = parseDateInput(value.dueDate) ?? new Date();
+      return { dates: TaskRecurrence.create(props).preview(start, PREVIEW_LENGTH) };
+    } catch (err) {
+      return { error: err instanceof Error ? err.message : 'Invalid schedule' };
+    }
+  }, [value]);
+
+  const fieldClass =
+    'px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-transparent';
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-3 text-sm text-gray-700">
+        <input
+          type="date"
+          aria-label="Due date"
+          value={value.dueDate}
+          onChange={(e) => update({ dueDate: e.target.value })}
+          className={fieldClass}
+        />
+        <select
+          aria-label="Repeat"
+          value={value.frequency}
+          onChange={(e) => update({ frequency: e.target.value as ScheduleDraft['frequency'] })}
+          className={fieldClass}
+        >
+          <option value="">Does not repeat</option>
+          <option value={RecurrenceFrequency.DAILY}>Daily</option>
+          <option value={RecurrenceFrequency.WEEKLY}>Weekly</option>
+          <option value={RecurrenceFrequency.MONTHLY}>Monthly</option>
+        </select>
+
+        {value.frequency && (
+          <>
+            <input
+              type="number"
+              min={1}
+              aria-label="Repeat every"
+              value={value.interval}
+              onChange={(e) => update({ interval: Number(e.target.value) })}
+              className={`${fieldClass} w-20`}
+            />
+            <select
+              aria-label="Ends"
+              value={value.ends}
+              onChange={(e) => update({ ends: e.target.value as ScheduleDraft['ends'] })}
+              className={fieldClass}
+            >
+              <option value="never">Never ends</option>
+              <option value="until">Ends on a date</option>
+              <option value="count">Ends after…</option>
+            </select>
+            {value.ends === 'until' && (
+              <input
+                type="date"
+                aria-label="End date"
+                value={value.until}
+                onChange={(e) => update({ until: e.target.value })}
+                className={fieldClass}
+              />
+            )}
+            {value.ends === 'count' && (
+              <input
+                type="number"
+                min={1}
+                aria-label="Number of occurrences"
+                value={value.count}
+                onChange={(e) => update({ count: Number(e.target.value) })}
+                className={`${fieldClass} w-20`}
+              />
+            )}
+          </>
+        )}
+      </div>
+
+      {preview && (
+        <section aria-label="Next occurrences" className="p-3 bg-indigo-50 rounded-lg text-sm">
+          {'error' in preview ? (
+            <p role="alert" className="text-red-600">{preview.error}</p>
+          ) : (
+            <>
+              <h3 className="mb-1 font-medium text-indigo-900">Next occurrences</h3>
+              <ol className="list-decimal list-inside text-indigo-800">
+                {preview.dates.map((date) => (
+                  <li key={date.getTime()}>{date.toLocaleDateString()}</li>
+                ))}
+              </ol>
+            </>
+          )}
+        </section>
+      )}
+    </div>
+  );
+};
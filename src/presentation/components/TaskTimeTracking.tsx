@@ -0,0 +1,199 @@
+import React, { useState } from 'react';
+import { TaskEstimate, EstimateUnit, TaskEstimateJSON } from '../../domain/valueObjects/TaskEstimate';
+
+interface TaskTimeTrackingProps {
+  taskTitle: string;
+  estimate?: TaskEstimate;
+  trackedMs: number;
+  timerRunning: boolean;
+  /** Only the assignee tracks time, and only while the task is in progress */
+  canUseTimer: boolean;
+  /** False for completed tasks, whose estimate is final */
+  editable: boolean;
+  onSetEstimate: (estimate: TaskEstimateJSON | null) => Promise<void>;
+  onStartTimer: () => Promise<void>;
+  onStopTimer: () => Promise<void>;
+  onLogWork: (minutes: number, workedOn: Date, note?: string) => Promise<void>;
+}
+
+export const formatDuration = (ms: number): string => {
+  const minutes = Math.floor(ms / 60000);
+  const hours = Math.floor(minutes / 60);
+  if (hours === 0) return `${minutes}m`;
+  return minutes % 60 === 0 ? `${hours}h` : `${hours}h ${minutes % 60}m`;
+};
+
+const toDateInput = (date: Date): string => {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+// Manual entries only record the day, so count them from the start of a working day
+const parseWorkDate = (value: string): Date => {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day, 9);
+};
+
+/**
+ * Estimate, logged time and timer controls for a task row.
+ */
+export const TaskTimeTracking: React.FC<TaskTimeTrackingProps> = ({
+  taskTitle,
+  estimate,
+  trackedMs,
+  timerRunning,
+  canUseTimer,
+  editable,
+  onSetEstimate,
+  onStartTimer,
+  onStopTimer,
+  onLogWork
+}) => {
+  const [estimateValue, setEstimateValue] = useState(estimate ? String(estimate.getValue()) : '');
+  const [estimateUnit, setEstimateUnit] = useState<EstimateUnit>(estimate?.getUnit() ?? 'hours');
+  const [logging, setLogging] = useState(false);
+  const [minutes, setMinutes] = useState('');
+  const [workedOn, setWorkedOn] = useState(() => toDateInput(new Date()));
+  const [note, setNote] = useState('');
+
+  const run = (action: () => Promise<void>, failure: string) => {
+    action().catch((err) => console.error(failure, err));
+  };
+
+  const handleEstimate = (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = estimateValue.trim();
+    run(
+      () => onSetEstimate(value ? { value: Number(value), unit: estimateUnit } : null),
+      'Failed to set estimate:'
+    );
+  };
+
+  const handleLogWork = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!minutes || !workedOn) return;
+
+    try {
+      await onLogWork(Number(minutes), parseWorkDate(workedOn), note.trim() || undefined);
+      setMinutes('');
+      setNote('');
+      setLogging(false);
+    } catch (err) {
+      // Keep the form open so the user can fix it
+      console.error('Failed to log time:', err);
+    }
+  };
+
+  const estimateMs = estimate?.toMs() ?? null;
+  const overEstimate = estimateMs !== null && trackedMs > estimateMs;
+
+  return (
+    <div className="mt-3 flex flex-wrap items-center gap-2 text-sm">
+      <span
+        aria-label={`Time on ${taskTitle}`}
+        className={`px-2 py-1 rounded-full text-xs font-medium ${overEstimate ? 'bg-red-100 text-red-800' : 'bg-gray-100 text-gray-700'}`}
+      >
+        ⏱ {formatDuration(trackedMs)} logged{estimate && ` / ${estimate.toString()} est`}
+      </span>
+
+      {editable && (
+        <form onSubmit={handleEstimate} className="flex items-center gap-1">
+          <input
+            type="number"
+            min="0"
+            step="any"
+            value={estimateValue}
+            onChange={(e) => setEstimateValue(e.target.value)}
+            placeholder="Estimate"
+            aria-label={`Estimate for ${taskTitle}`}
+            className="w-20 px-2 py-1 border border-gray-300 rounded-lg text-xs focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+          />
+          <select
+            value={estimateUnit}
+            onChange={(e) => setEstimateUnit(e.target.value as EstimateUnit)}
+            aria-label={`Estimate unit for ${taskTitle}`}
+            className="px-2 py-1 border border-gray-300 rounded-lg text-xs focus:ring-2 focus:ring-indigo-500"
+          >
+            <option value="hours">hours</option>
+            <option value="points">points</option>
+          </select>
+          <button
+            type="submit"
+            className="px-2 py-1 bg-gray-200 text-gray-700 text-xs rounded-lg hover:bg-gray-300 transition"
+          >
+            Set
+          </button>
+        </form>
+      )}
+
+      {timerRunning ? (
+        <button
+          onClick={() => run(onStopTimer, 'Failed to stop timer:')}
+          aria-label={`Stop timer on ${taskTitle}`}
+          className="px-2 py-1 bg-red-100 text-red-700 text-xs rounded-lg hover:bg-red-200 transition"
+        >
+          ■ Stop timer
+        </button>
+      ) : canUseTimer && (
+        <button
+          onClick={() => run(onStartTimer, 'Failed to start timer:')}
+          aria-label={`Start timer on ${taskTitle}`}
+          className="px-2 py-1 bg-green-100 text-green-700 text-xs rounded-lg hover:bg-green-200 transition"
+        >
+          ▶ Start timer
+        </button>
+      )}
+
+      {logging ? (
+        <form onSubmit={handleLogWork} className="flex flex-wrap items-center gap-1">
+          <input
+            type="number"
+            min="1"
+            step="1"
+            value={minutes}
+            onChange={(e) => setMinutes(e.target.value)}
+            placeholder="Minutes"
+            aria-label={`Minutes worked on ${taskTitle}`}
+            className="w-20 px-2 py-1 border border-gray-300 rounded-lg text-xs focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+          />
+          <input
+            type="date"
+            value={workedOn}
+            onChange={(e) => setWorkedOn(e.target.value)}
+            aria-label={`Day worked on ${taskTitle}`}
+            className="px-2 py-1 border border-gray-300 rounded-lg text-xs focus:ring-2 focus:ring-indigo-500"
+          />
+          <input
+            type="text"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="Note (optional)"
+            aria-label={`Work note for ${taskTitle}`}
+            className="px-2 py-1 border border-gray-300 rounded-lg text-xs focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+          />
+          <button
+            type="submit"
+            className="px-2 py-1 bg-indigo-600 text-white text-xs rounded-lg hover:bg-indigo-700 transition"
+          >
+            Log
+          </button>
+          <button
+            type="button"
+            onClick={() => setLogging(false)}
+            className="px-2 py-1 text-xs text-gray-600 hover:text-gray-800"
+          >
+            Cancel
+          </button>
+        </form>
+      ) : (
+        <button
+          onClick={() => setLogging(true)}
+          aria-label={`Log time on ${taskTitle}`}
+          className="px-2 py-1 text-indigo-600 text-xs hover:text-indigo-800"
+        >
+          ＋ Log time
+        </button>
+      )}
+    </div>
+  );
+};
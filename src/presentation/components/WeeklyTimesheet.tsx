@@ -0,0 +1,127 @@
+import React from 'react';
+import { WeeklyTimesheet as Timesheet } from '../../application/useCases/GetWeeklyTimesheetUseCase';
+import { AssigneeTimeSummary } from '../../application/useCases/GetTimeTrackingSummaryUseCase';
+import { formatDuration } from './TaskTimeTracking';
+
+interface WeeklyTimesheetProps {
+  timesheet: Timesheet | null;
+  summary: AssigneeTimeSummary[];
+  getUserName: (userId: string) => string;
+  onPreviousWeek: () => void;
+  onNextWeek: () => void;
+  onThisWeek: () => void;
+}
+
+const formatDay = (day: Date) =>
+  day.toLocaleDateString(undefined, { weekday: 'short', day: 'numeric' });
+
+const formatCell = (ms: number) => (ms > 0 ? formatDuration(ms) : '–');
+
+/**
+ * The current user's logged time for one week, task by task, followed by
+ * estimate against actual for every assignee.
+ */
+export const WeeklyTimesheet: React.FC<WeeklyTimesheetProps> = ({
+  timesheet,
+  summary,
+  getUserName,
+  onPreviousWeek,
+  onNextWeek,
+  onThisWeek
+}) => {
+  if (!timesheet) {
+    return <p className="text-center py-8 text-gray-500">Loading timesheet…</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <section aria-label="Weekly timesheet">
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="text-lg font-semibold text-gray-800">
+            Week of {timesheet.weekStart.toLocaleDateString()}
+          </h3>
+          <div className="flex gap-2 text-sm">
+            <button onClick={onPreviousWeek} className="px-3 py-1 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300">
+              ← Previous week
+            </button>
+            <button onClick={onThisWeek} className="px-3 py-1 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300">
+              This week
+            </button>
+            <button onClick={onNextWeek} className="px-3 py-1 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300">
+              Next week →
+            </button>
+          </div>
+        </div>
+
+        {timesheet.rows.length === 0 ? (
+          <p className="text-center py-6 text-gray-500">No time logged this week</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b">
+                <th className="py-2 pr-2 font-medium">Task</th>
+                {timesheet.days.map(day => (
+                  <th key={day.toISOString()} className="py-2 px-1 font-medium text-right">{formatDay(day)}</th>
+                ))}
+                <th className="py-2 pl-2 font-medium text-right">Total</th>
+              </tr>
+            </thead>
+            <tbody>
+              {timesheet.rows.map(row => (
+                <tr key={row.taskId} className="border-b border-gray-100">
+                  <td className="py-2 pr-2 text-gray-800 truncate">{row.title}</td>
+                  {row.dailyMs.map((ms, index) => (
+                    <td key={index} className="py-2 px-1 text-right text-gray-600">{formatCell(ms)}</td>
+                  ))}
+                  <td className="py-2 pl-2 text-right font-medium">{formatDuration(row.totalMs)}</td>
+                </tr>
+              ))}
+            </tbody>
+            <tfoot>
+              <tr className="font-semibold text-gray-800">
+                <td className="py-2 pr-2">Total</td>
+                {timesheet.dailyTotalsMs.map((ms, index) => (
+                  <td key={index} className="py-2 px-1 text-right">{formatCell(ms)}</td>
+                ))}
+                <td className="py-2 pl-2 text-right">{formatDuration(timesheet.totalMs)}</td>
+              </tr>
+            </tfoot>
+          </table>
+        )}
+      </section>
+
+      <section aria-label="Estimate vs actual by assignee">
+        <h3 className="text-lg font-semibold text-gray-800 mb-3">Estimate vs actual</h3>
+        {summary.length === 0 ? (
+          <p className="text-center py-6 text-gray-500">No assigned tasks yet</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b">
+                <th className="py-2 font-medium">Assignee</th>
+                <th className="py-2 font-medium text-right">Tasks</th>
+                <th className="py-2 font-medium text-right">Estimated</th>
+                <th className="py-2 font-medium text-right">Logged</th>
+              </tr>
+            </thead>
+            <tbody>
+              {summary.map(row => (
+                <tr key={row.assigneeId} className="border-b border-gray-100">
+                  <td className="py-2 text-gray-800">{getUserName(row.assigneeId)}</td>
+                  <td className="py-2 text-right text-gray-600">{row.taskCount}</td>
+                  <td className="py-2 text-right text-gray-600">
+                    {[
+                      row.estimatedHours > 0 && `${row.estimatedHours}h`,
+                      row.estimatedPoints > 0 && `${row.estimatedPoints} pts`
+                    ].filter(Boolean).join(' + ') || '–'}
+                  </td>
+                  <td className="py-2 text-right font-medium">{formatDuration(row.loggedMs)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+    </div>
+  );
+};
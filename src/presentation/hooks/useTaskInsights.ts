@@ -0,0 +1,71 @@
+import { useState, useEffect } from "react";
+import { InsightsRange, TaskInsights } from "../../application/useCases/GetTaskInsightsUseCase";
+import { UserSummary } from "../../application/useCases/GetUsersUseCase";
+import { ServiceContainer } from "../../infrastructure/di/ServiceContainer";
+
+const DEFAULT_RANGE_DAYS = 14;
+
+export const lastDays = (days: number, today: Date = new Date()): InsightsRange => {
+  const from = new Date(today);
+  from.setDate(today.getDate() - (days - 1));
+  return { from, to: today };
+};
+
+export const useTaskInsights = () => {
+  const [range, setRange] = useState<InsightsRange>(() => lastDays(DEFAULT_RANGE_DAYS));
+  const [insights, setInsights] = useState<TaskInsights | null>(null);
+  const [users, setUsers] = useState<UserSummary[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const container = ServiceContainer.getInstance();
+
+  const loadInsights = async (selected: InsightsRange) => {
+    try {
+      setLoading(true);
+      setError(null);
+      setInsights(await container.getTaskInsightsUseCase.execute(selected));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load insights");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadUsers = async () => {
+    try {
+      setUsers(await container.getUsersUseCase.execute());
+    } catch (err) {
+      console.error("Failed to load users:", err);
+    }
+  };
+
+  useEffect(() => {
+    loadUsers();
+  }, []);
+
+  useEffect(() => {
+    loadInsights(range);
+  }, [range]);
+
+  const rebuild = async () => {
+    try {
+      setError(null);
+      await container.rebuildTaskAnalyticsUseCase.execute();
+      await loadInsights(range);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to rebuild analytics");
+      throw err;
+    }
+  };
+
+  return {
+    range,
+    insights,
+    users,
+    loading,
+    error,
+    setRange,
+    rebuild,
+  };
+};
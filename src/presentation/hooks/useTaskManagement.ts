@@ -1,57 +1,162 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { Task } from "../../domain/entities/Task";
 import { TaskPriority } from "../../domain/valueObjects/TaskPriority";
+import { TaskWorkflow } from "../../domain/valueObjects/TaskWorkflow";
+import { TaskRecurrence, TaskRecurrenceProps } from "../../domain/valueObjects/TaskRecurrence";
+import { TaskEstimateJSON } from "../../domain/valueObjects/TaskEstimate";
+import { TaskQuery } from "../../domain/repositories/TaskQuery";
+import { ConcurrencyConflictError } from "../../domain/exceptions/TaskExceptions";
+import { SearchTasksCriteria } from "../../application/useCases/SearchTasksUseCase";
+import { DeadLetterSummary } from "../../application/useCases/GetDeadLettersUseCase";
+import { UserSummary } from "../../application/useCases/GetUsersUseCase";
+import { LabelSummary } from "../../application/useCases/GetLabelCatalogUseCase";
+import { SavedTaskViewSummary } from "../../application/useCases/GetSavedTaskViewsUseCase";
+import { TaskExportFormat } from "../../application/useCases/ExportTasksUseCase";
+import { TaskImportFormat } from "../../application/useCases/ImportTasksUseCase";
 import { ServiceContainer } from "../../infrastructure/di/ServiceContainer";
 
+export type TaskFilters = Omit<SearchTasksCriteria, "cursor" | "limit">;
+
+export type PriorityOption = "low" | "medium" | "high" | "critical";
+
+const toTaskPriority = (priority: PriorityOption): TaskPriority => {
+  switch (priority) {
+    case "low":
+      return TaskPriority.low();
+    case "high":
+      return TaskPriority.high();
+    case "critical":
+      return TaskPriority.critical();
+    default:
+      return TaskPriority.medium();
+  }
+};
+
+export const CONCURRENCY_CONFLICT_MESSAGE =
+  "This task was changed in another tab. The latest version has been loaded, please try again.";
+
 export const useTaskManagement = (currentUserId: string) => {
   const [tasks, setTasks] = useState<Task[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [eventLog, setEventLog] = useState<string[]>([]);
+  const [taskFilters, setTaskFilters] = useState<TaskFilters>({});
+  const [filteredTasks, setFilteredTasks] = useState<Task[]>([]);
+  const [filteredTaskCount, setFilteredTaskCount] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [deadLetters, setDeadLetters] = useState<DeadLetterSummary[]>([]);
+  const [users, setUsers] = useState<UserSummary[]>([]);
+  const [workflow, setWorkflow] = useState<TaskWorkflow>(TaskWorkflow.default());
+  const [labels, setLabels] = useState<LabelSummary[]>([]);
+  const [savedViews, setSavedViews] = useState<SavedTaskViewSummary[]>([]);
+  const [activeViewId, setActiveViewId] = useState<string | null>(null);
+  const [notificationPermission, setNotificationPermission] = useState(
+    () => ServiceContainer.getInstance().browserReminderNotifier.permission
+  );
+  const filtersRef = useRef<TaskFilters>({});
+  const loadedCountRef = useRef(0);
 
   const container = ServiceContainer.getInstance();
 
   useEffect(() => {
     const publisher = container.eventPublisher;
 
-    const eventLogger = (event: any) => {
+    const eventLogListener = publisher.subscribe("*", (event) => {
       const timestamp = new Date().toLocaleTimeString();
       const logMessage = `[${timestamp}] ${event.eventType}`;
       setEventLog((prev) => [logMessage, ...prev].slice(0, 20));
-    };
+    });
 
-    const taskCompletedListener = publisher.subscribe(
-      "TaskCompleted",
-      eventLogger
-    );
-    const taskAssignedListener = publisher.subscribe(
-      "TaskAssigned",
-      eventLogger
-    );
-    const taskPriorityEscalatedListener = publisher.subscribe(
+    // Escalations happen in the background, so reload to show new priorities
+    const escalationRefreshListener = publisher.subscribe(
       "TaskPriorityEscalated",
-      eventLogger
+      () => loadTasks()
     );
-    const taskReopenedListener = publisher.subscribe(
-      "TaskReopened",
-      eventLogger
+    // Sending a reminder saves the task, so reload to keep versions current
+    const reminderRefreshListeners = (["TaskDueSoon", "TaskOverdue"] as const).map(
+      (eventType) => publisher.subscribe(eventType, () => loadTasks())
     );
 
+    // Surface handlers that gave up, instead of leaving them in the console
+    const handlerErrorListener = publisher.onHandlerError((failure) => {
+      const timestamp = new Date().toLocaleTimeString();
+      const outcome = failure.deadLettered ? "dead-lettered" : "failed";
+      const logMessage = `[${timestamp}] ⚠️ ${failure.event.eventType} ${outcome} in ${failure.subscriptionName}`;
+      setEventLog((prev) => [logMessage, ...prev].slice(0, 20));
+      loadDeadLetters();
+    });
+
+    // Changes made in other tabs: log their events and pick up their writes
+    const bridge = container.crossTabEventBridge;
+    const remoteEventListener = bridge.onRemoteEvent((event) => {
+      const timestamp = new Date().toLocaleTimeString();
+      const logMessage = `[${timestamp}] ${event.eventType} (another tab)`;
+      setEventLog((prev) => [logMessage, ...prev].slice(0, 20));
+    });
+    const remoteChangeListener = bridge.onRemoteTasksChanged(() => loadTasks());
+
+    // Retry outbox events whose handlers failed, including ones left by closed tabs
+    const stopOutboxDispatcher = container.outboxDispatcher.start(container.scheduler);
+
+    const escalationJob = container.priorityEscalationJob;
+    const stopEscalationJob = escalationJob.start();
+    escalationJob.runOnce().catch((err) => {
+      console.error("Priority escalation sweep failed:", err);
+    });
+
+    const reminderService = container.reminderService;
+    const stopReminderService = reminderService.start();
+    reminderService.runOnce().catch((err) => {
+      console.error("Reminder sweep failed:", err);
+    });
+
     loadTasks();
+    loadDeadLetters();
+    loadUsers();
+    loadWorkflow();
+    loadLabels();
 
     return () => {
-      taskCompletedListener();
-      taskAssignedListener();
-      taskPriorityEscalatedListener();
-      taskReopenedListener();
+      handlerErrorListener();
+      remoteEventListener();
+      remoteChangeListener();
+      escalationRefreshListener();
+      reminderRefreshListeners.forEach((unsubscribe) => unsubscribe());
+      stopOutboxDispatcher();
+      stopEscalationJob();
+      stopReminderService();
+      eventLogListener();
     };
   }, []);
 
+  // Views are personal, so switching user switches the list of views
+  useEffect(() => {
+    setActiveViewId(null);
+    loadSavedViews();
+  }, [currentUserId]);
+
+  const searchTasks = async (filters: TaskFilters, limit?: number) => {
+    const result = await container.searchTasksUseCase.execute({
+      ...filters,
+      limit,
+    });
+    loadedCountRef.current = result.tasks.length;
+    setFilteredTasks(result.tasks);
+    setFilteredTaskCount(result.totalCount);
+    setNextCursor(result.nextCursor);
+  };
+
   const loadTasks = async () => {
     try {
       setLoading(true);
       const allTasks = await container.getAllTasksUseCase.execute();
       setTasks(allTasks);
+      // Keep the pages the user already loaded when refreshing
+      const limit = Math.min(
+        Math.max(loadedCountRef.current, TaskQuery.DEFAULT_LIMIT),
+        TaskQuery.MAX_LIMIT
+      );
+      await searchTasks(filtersRef.current, limit);
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to load tasks");
     } finally {
@@ -59,30 +164,98 @@ export const useTaskManagement = (currentUserId: string) => {
     }
   };
 
+  const loadDeadLetters = async () => {
+    try {
+      setDeadLetters(await container.getDeadLettersUseCase.execute());
+    } catch (err) {
+      console.error("Failed to load dead letters:", err);
+    }
+  };
+
+  const loadUsers = async () => {
+    try {
+      setUsers(await container.getUsersUseCase.execute());
+    } catch (err) {
+      console.error("Failed to load users:", err);
+    }
+  };
+
+  const loadWorkflow = async () => {
+    try {
+      setWorkflow(await container.getTaskWorkflowUseCase.execute());
+    } catch (err) {
+      console.error("Failed to load workflow:", err);
+    }
+  };
+
+  const loadLabels = async () => {
+    try {
+      setLabels(await container.getLabelCatalogUseCase.execute());
+    } catch (err) {
+      console.error("Failed to load labels:", err);
+    }
+  };
+
+  const loadSavedViews = async () => {
+    try {
+      setSavedViews(await container.getSavedTaskViewsUseCase.execute(currentUserId));
+    } catch (err) {
+      console.error("Failed to load saved views:", err);
+    }
+  };
+
+  const replayDeadLetter = async (deadLetterId: string) => {
+    try {
+      setError(null);
+      const succeeded = await container.replayDeadLetterUseCase.execute(deadLetterId);
+      if (!succeeded) {
+        setError("Replay failed again; the event is still in the dead letter queue");
+      }
+      await loadDeadLetters();
+      await loadTasks();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to replay event");
+    }
+  };
+
+  const discardDeadLetter = async (deadLetterId: string) => {
+    try {
+      setError(null);
+      await container.discardDeadLetterUseCase.execute(deadLetterId);
+      await loadDeadLetters();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to discard event");
+    }
+  };
+
+  const versionOf = (taskId: string) =>
+    tasks.find((task) => task.id.toString() === taskId)?.version;
+
+  // A conflict means our copy is stale: reload it rather than losing the edit silently
+  const handleCommandError = async (err: unknown, fallback: string) => {
+    if (err instanceof ConcurrencyConflictError) {
+      await loadTasks();
+      setError(CONCURRENCY_CONFLICT_MESSAGE);
+      return;
+    }
+    setError(err instanceof Error ? err.message : fallback);
+  };
+
   const createTask = async (
     title: string,
-    priority: "low" | "medium" | "high" | "critical" = "medium",
-    dueDate?: Date
+    priority: PriorityOption = "medium",
+    dueDate?: Date,
+    recurrence?: TaskRecurrenceProps
   ) => {
     try {
       setError(null);
 
-      let taskPriority: TaskPriority;
-      switch (priority) {
-        case "low":
-          taskPriority = TaskPriority.low();
-          break;
-        case "high":
-          taskPriority = TaskPriority.high();
-          break;
-        case "critical":
-          taskPriority = TaskPriority.critical();
-          break;
-        default:
-          taskPriority = TaskPriority.medium();
-      }
-
-      await container.createTaskUseCase.execute(title, taskPriority, dueDate);
+      await container.createTaskUseCase.execute(
+        title,
+        toTaskPriority(priority),
+        dueDate,
+        recurrence && TaskRecurrence.create(recurrence)
+      );
       await loadTasks();
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to create task");
@@ -96,11 +269,12 @@ export const useTaskManagement = (currentUserId: string) => {
       await container.assignTaskUseCase.execute(
         taskId,
         assignedToUserId,
-        currentUserId
+        currentUserId,
+        versionOf(taskId)
       );
       await loadTasks();
     } catch (err) {
-      setError(err instanceof Error ? err.message : "Failed to assign task");
+      await handleCommandError(err, "Failed to assign task");
       throw err;
     }
   };
@@ -108,10 +282,14 @@ export const useTaskManagement = (currentUserId: string) => {
   const completeTask = async (taskId: string) => {
     try {
       setError(null);
-      await container.completeTaskUseCase.execute(taskId, currentUserId);
+      await container.completeTaskUseCase.execute(
+        taskId,
+        currentUserId,
+        versionOf(taskId)
+      );
       await loadTasks();
     } catch (err) {
-      setError(err instanceof Error ? err.message : "Failed to complete task");
+      await handleCommandError(err, "Failed to complete task");
       throw err;
     }
   };
@@ -119,28 +297,492 @@ export const useTaskManagement = (currentUserId: string) => {
   const reopenTask = async (taskId: string) => {
     try {
       setError(null);
-      await container.reopenTaskUseCase.execute(taskId, currentUserId);
+      await container.reopenTaskUseCase.execute(
+        taskId,
+        currentUserId,
+        versionOf(taskId)
+      );
+      await loadTasks();
+    } catch (err) {
+      await handleCommandError(err, "Failed to reopen task");
+      throw err;
+    }
+  };
+
+  const startTask = async (taskId: string) => {
+    try {
+      setError(null);
+      await container.startTaskUseCase.execute(
+        taskId,
+        currentUserId,
+        versionOf(taskId)
+      );
+      await loadTasks();
+    } catch (err) {
+      await handleCommandError(err, "Failed to start task");
+      throw err;
+    }
+  };
+
+  // Moves with a dedicated command go through it, so its rules and events apply
+  const moveTask = async (taskId: string, status: string) => {
+    const currentStatus = tasks.find((task) => task.id.toString() === taskId)?.status;
+    const expectedVersion = versionOf(taskId);
+
+    try {
+      setError(null);
+      if (status === "DONE") {
+        await container.completeTaskUseCase.execute(taskId, currentUserId, expectedVersion);
+      } else if (status === "TODO" && currentStatus?.isDone()) {
+        await container.reopenTaskUseCase.execute(taskId, currentUserId, expectedVersion);
+      } else if (status === "IN_PROGRESS" && currentStatus?.isTodo()) {
+        await container.startTaskUseCase.execute(taskId, currentUserId, expectedVersion);
+      } else {
+        await container.moveTaskUseCase.execute(taskId, status, currentUserId, expectedVersion);
+      }
+      await loadTasks();
+    } catch (err) {
+      await handleCommandError(err, "Failed to move task");
+      throw err;
+    }
+  };
+
+  const unassignTask = async (taskId: string) => {
+    try {
+      setError(null);
+      await container.unassignTaskUseCase.execute(
+        taskId,
+        currentUserId,
+        versionOf(taskId)
+      );
+      await loadTasks();
+    } catch (err) {
+      await handleCommandError(err, "Failed to unassign task");
+      throw err;
+    }
+  };
+
+  const renameTask = async (taskId: string, title: string) => {
+    try {
+      setError(null);
+      await container.renameTaskUseCase.execute(
+        taskId,
+        title,
+        currentUserId,
+        versionOf(taskId)
+      );
+      await loadTasks();
+    } catch (err) {
+      await handleCommandError(err, "Failed to rename task");
+      throw err;
+    }
+  };
+
+  const changeTaskPriority = async (taskId: string, priority: PriorityOption) => {
+    try {
+      setError(null);
+      await container.changeTaskPriorityUseCase.execute(
+        taskId,
+        toTaskPriority(priority),
+        currentUserId,
+        versionOf(taskId)
+      );
+      await loadTasks();
+    } catch (err) {
+      await handleCommandError(err, "Failed to change priority");
+      throw err;
+    }
+  };
+
+  const addChecklistItem = async (taskId: string, title: string, required: boolean = true) => {
+    try {
+      setError(null);
+      await container.addChecklistItemUseCase.execute(
+        taskId,
+        title,
+        currentUserId,
+        required,
+        versionOf(taskId)
+      );
+      await loadTasks();
+    } catch (err) {
+      await handleCommandError(err, "Failed to add checklist item");
+      throw err;
+    }
+  };
+
+  const toggleChecklistItem = async (taskId: string, itemId: string) => {
+    try {
+      setError(null);
+      await container.toggleChecklistItemUseCase.execute(
+        taskId,
+        itemId,
+        currentUserId,
+        versionOf(taskId)
+      );
+      await loadTasks();
+    } catch (err) {
+      await handleCommandError(err, "Failed to update checklist item");
+      throw err;
+    }
+  };
+
+  const removeChecklistItem = async (taskId: string, itemId: string) => {
+    try {
+      setError(null);
+      await container.removeChecklistItemUseCase.execute(
+        taskId,
+        itemId,
+        currentUserId,
+        versionOf(taskId)
+      );
+      await loadTasks();
+    } catch (err) {
+      await handleCommandError(err, "Failed to remove checklist item");
+      throw err;
+    }
+  };
+
+  const addDependency = async (taskId: string, blockedByTaskId: string) => {
+    try {
+      setError(null);
+      await container.addTaskDependencyUseCase.execute(taskId, blockedByTaskId);
       await loadTasks();
     } catch (err) {
-      setError(err instanceof Error ? err.message : "Failed to reopen task");
+      setError(err instanceof Error ? err.message : "Failed to add dependency");
       throw err;
     }
   };
 
+  const removeDependency = async (taskId: string, blockedByTaskId: string) => {
+    try {
+      setError(null);
+      await container.removeTaskDependencyUseCase.execute(taskId, blockedByTaskId);
+      await loadTasks();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to remove dependency");
+      throw err;
+    }
+  };
+
+  const addLabel = async (taskId: string, labelName: string) => {
+    try {
+      setError(null);
+      await container.addTaskLabelUseCase.execute(
+        taskId,
+        labelName,
+        currentUserId,
+        versionOf(taskId)
+      );
+      await loadTasks();
+    } catch (err) {
+      await handleCommandError(err, "Failed to add label");
+      throw err;
+    }
+  };
+
+  const removeLabel = async (taskId: string, labelName: string) => {
+    try {
+      setError(null);
+      await container.removeTaskLabelUseCase.execute(
+        taskId,
+        labelName,
+        currentUserId,
+        versionOf(taskId)
+      );
+      await loadTasks();
+    } catch (err) {
+      await handleCommandError(err, "Failed to remove label");
+      throw err;
+    }
+  };
+
+  const setEstimate = async (taskId: string, estimate: TaskEstimateJSON | null) => {
+    try {
+      setError(null);
+      await container.setTaskEstimateUseCase.execute(
+        taskId,
+        estimate,
+        currentUserId,
+        versionOf(taskId)
+      );
+      await loadTasks();
+    } catch (err) {
+      await handleCommandError(err, "Failed to set estimate");
+      throw err;
+    }
+  };
+
+  const startTimer = async (taskId: string) => {
+    try {
+      setError(null);
+      await container.startTaskTimerUseCase.execute(taskId, currentUserId, versionOf(taskId));
+      await loadTasks();
+    } catch (err) {
+      await handleCommandError(err, "Failed to start timer");
+      throw err;
+    }
+  };
+
+  const stopTimer = async (taskId: string) => {
+    try {
+      setError(null);
+      await container.stopTaskTimerUseCase.execute(taskId, currentUserId, versionOf(taskId));
+      await loadTasks();
+    } catch (err) {
+      await handleCommandError(err, "Failed to stop timer");
+      throw err;
+    }
+  };
+
+  const logWork = async (taskId: string, minutes: number, workedOn: Date, note?: string) => {
+    try {
+      setError(null);
+      await container.logWorkUseCase.execute(
+        taskId,
+        minutes,
+        workedOn,
+        currentUserId,
+        note,
+        versionOf(taskId)
+      );
+      await loadTasks();
+    } catch (err) {
+      await handleCommandError(err, "Failed to log time");
+      throw err;
+    }
+  };
+
+  const getWeeklyTimesheet = async (weekOf: Date) => {
+    return await container.getWeeklyTimesheetUseCase.execute(currentUserId, weekOf);
+  };
+
+  const getTimeTrackingSummary = async () => {
+    return await container.getTimeTrackingSummaryUseCase.execute();
+  };
+
+  const exportTasks = async (format: TaskExportFormat) => {
+    try {
+      setError(null);
+      return await container.exportTasksUseCase.execute(format);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to export tasks");
+      throw err;
+    }
+  };
+
+  const importTasks = async (content: string, format: TaskImportFormat) => {
+    try {
+      setError(null);
+      const result = await container.importTasksUseCase.execute(content, format, currentUserId);
+      await Promise.all([loadTasks(), loadLabels()]);
+      return result;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to import tasks");
+      throw err;
+    }
+  };
+
+  const defineLabel = async (name: string, color: string) => {
+    try {
+      setError(null);
+      await container.defineLabelUseCase.execute(name, color);
+      await loadLabels();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save label");
+      throw err;
+    }
+  };
+
+  const deleteLabel = async (name: string) => {
+    try {
+      setError(null);
+      await container.deleteLabelUseCase.execute(name);
+      await loadLabels();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete label");
+      throw err;
+    }
+  };
+
+  const getTaskHistory = async (taskId: string) => {
+    return await container.getTaskHistoryUseCase.execute(taskId);
+  };
+
+  const getTaskComments = async (taskId: string) => {
+    return await container.getTaskCommentsUseCase.execute(taskId);
+  };
+
+  // Comments are stored apart from tasks, so there is no task list to reload
+  const addComment = async (taskId: string, body: string, parentId?: string) => {
+    try {
+      setError(null);
+      await container.addCommentUseCase.execute(taskId, body, currentUserId, parentId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to add comment");
+      throw err;
+    }
+  };
+
+  const editComment = async (commentId: string, body: string) => {
+    try {
+      setError(null);
+      await container.editCommentUseCase.execute(commentId, body, currentUserId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to edit comment");
+      throw err;
+    }
+  };
+
+  const deleteComment = async (commentId: string) => {
+    try {
+      setError(null);
+      await container.deleteCommentUseCase.execute(commentId, currentUserId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete comment");
+      throw err;
+    }
+  };
+
+  const applyFilters = async (filters: TaskFilters) => {
+    try {
+      setError(null);
+      filtersRef.current = filters;
+      setTaskFilters(filters);
+      await searchTasks(filters);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to search tasks");
+    }
+  };
+
+  // Changing a filter by hand leaves the saved view it started from
+  const updateTaskFilters = async (filters: TaskFilters) => {
+    setActiveViewId(null);
+    await applyFilters(filters);
+  };
+
+  const applySavedView = async (viewId: string | null) => {
+    const view = savedViews.find((v) => v.id === viewId);
+    setActiveViewId(view?.id ?? null);
+    await applyFilters(view?.criteria ?? {});
+  };
+
+  const saveView = async (name: string) => {
+    try {
+      setError(null);
+      const view = await container.saveTaskViewUseCase.execute(
+        name,
+        filtersRef.current,
+        currentUserId
+      );
+      await loadSavedViews();
+      setActiveViewId(view.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save view");
+      throw err;
+    }
+  };
+
+  const deleteView = async (viewId: string) => {
+    try {
+      setError(null);
+      await container.deleteTaskViewUseCase.execute(viewId, currentUserId);
+      await loadSavedViews();
+      if (activeViewId === viewId) {
+        setActiveViewId(null);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete view");
+      throw err;
+    }
+  };
+
+  const loadMoreTasks = async () => {
+    if (!nextCursor) return;
+
+    try {
+      setError(null);
+      const result = await container.searchTasksUseCase.execute({
+        ...filtersRef.current,
+        cursor: nextCursor,
+      });
+      loadedCountRef.current += result.tasks.length;
+      setFilteredTasks((prev) => [...prev, ...result.tasks]);
+      setFilteredTaskCount(result.totalCount);
+      setNextCursor(result.nextCursor);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load more tasks");
+    }
+  };
+
   const clearEventLog = () => {
     setEventLog([]);
   };
 
+  const enableBrowserNotifications = async () => {
+    try {
+      setNotificationPermission(await container.browserReminderNotifier.requestPermission());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to enable notifications");
+    }
+  };
+
   return {
     tasks,
+    filteredTasks,
+    filteredTaskCount,
+    taskFilters,
+    hasMoreTasks: nextCursor !== null,
     loading,
     error,
     eventLog,
+    deadLetters,
+    users,
+    workflow,
+    labels,
+    savedViews,
+    activeViewId,
+    notificationPermission,
     createTask,
     assignTask,
     completeTask,
     reopenTask,
+    startTask,
+    moveTask,
+    unassignTask,
+    renameTask,
+    changeTaskPriority,
+    addChecklistItem,
+    toggleChecklistItem,
+    removeChecklistItem,
+    addDependency,
+    removeDependency,
+    addLabel,
+    removeLabel,
+    setEstimate,
+    startTimer,
+    stopTimer,
+    logWork,
+    getWeeklyTimesheet,
+    getTimeTrackingSummary,
+    exportTasks,
+    importTasks,
+    defineLabel,
+    deleteLabel,
+    getTaskHistory,
+    getTaskComments,
+    addComment,
+    editComment,
+    deleteComment,
+    updateTaskFilters,
+    applySavedView,
+    saveView,
+    deleteView,
+    loadMoreTasks,
+    replayDeadLetter,
+    discardDeadLetter,
     clearEventLog,
+    enableBrowserNotifications,
     refreshTasks: loadTasks,
   };
 };
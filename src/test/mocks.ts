@@ -0,0 +1,73 @@
+import { Task } from '../domain/entities/Task';
+import { TaskId } from '../domain/valueObjects/TaskId';
+import { LabelCatalog } from '../domain/valueObjects/LabelCatalog';
+import { DomainEvent } from '../domain/events/DomainEvent';
+import { ITaskRepository } from '../domain/repositories/ITaskRepository';
+import { ILabelCatalogRepository } from '../domain/repositories/ILabelCatalogRepository';
+import { TaskQuery, TaskQueryResult } from '../domain/repositories/TaskQuery';
+import { DomainEventPublisher } from '../application/services/DomainEventPublisher';
+
+/**
+ * Shared test doubles for use case and event handler tests.
+ *
+ * The task repository keeps the Task instances themselves and does not
+ * bump versions, so tests can inspect the tasks a use case changed.
+ */
+export class MockTaskRepository implements ITaskRepository {
+  private tasks: Map<string, Task> = new Map();
+
+  async save(task: Task): Promise<void> {
+    this.tasks.set(task.id.toString(), task);
+  }
+
+  async saveAll(tasks: Task[]): Promise<void> {
+    for (const task of tasks) {
+      await this.save(task);
+    }
+  }
+
+  async findById(id: TaskId): Promise<Task | null> {
+    return this.tasks.get(id.toString()) ?? null;
+  }
+
+  async findAll(): Promise<Task[]> {
+    return Array.from(this.tasks.values());
+  }
+
+  async findByQuery(query: TaskQuery): Promise<TaskQueryResult> {
+    return query.apply(await this.findAll());
+  }
+
+  async delete(id: TaskId): Promise<void> {
+    this.tasks.delete(id.toString());
+  }
+
+  /** Seeds a task as if it was stored earlier, so its events are gone */
+  addTask(task: Task): void {
+    task.pullDomainEvents();
+    this.tasks.set(task.id.toString(), task);
+  }
+}
+
+export class MockLabelCatalogRepository implements ILabelCatalogRepository {
+  private catalogs: Map<string, LabelCatalog> = new Map();
+
+  async findByWorkspace(workspaceId: string): Promise<LabelCatalog | null> {
+    return this.catalogs.get(workspaceId) ?? null;
+  }
+
+  async save(workspaceId: string, catalog: LabelCatalog): Promise<void> {
+    this.catalogs.set(workspaceId, catalog);
+  }
+}
+
+/**
+ * Records delivered events instead of running handlers.
+ */
+export class MockEventPublisher extends DomainEventPublisher {
+  publishedEvents: DomainEvent[] = [];
+
+  async deliver(event: DomainEvent): Promise<void> {
+    this.publishedEvents.push(event);
+  }
+}